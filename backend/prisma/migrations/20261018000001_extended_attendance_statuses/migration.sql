@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "AttendanceStatus" ADD VALUE 'late';
+ALTER TYPE "AttendanceStatus" ADD VALUE 'half_day';
+ALTER TYPE "AttendanceStatus" ADD VALUE 'excused';
+ALTER TYPE "AttendanceStatus" ADD VALUE 'cutting';
+
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "reason_code" TEXT;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "class_sessions" (
+    "id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "teacher_id" TEXT,
+    "day_of_week" INTEGER NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "class_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "session_id" TEXT;
+
+-- DropIndex
+DROP INDEX "attendance_records_student_id_date_key";
+
+-- CreateIndex
+CREATE INDEX "class_sessions_section_id_day_of_week_idx" ON "class_sessions"("section_id", "day_of_week");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_records_student_id_date_session_id_key" ON "attendance_records"("student_id", "date", "session_id");
+
+-- CreateIndex (NULL session ids never collide in a unique index, so whole-day records need their own)
+CREATE UNIQUE INDEX "attendance_records_student_id_date_whole_day_key" ON "attendance_records"("student_id", "date") WHERE "session_id" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_teacher_id_fkey" FOREIGN KEY ("teacher_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_records" ADD CONSTRAINT "attendance_records_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "class_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
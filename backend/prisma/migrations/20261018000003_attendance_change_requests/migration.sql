@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "ChangeRequestStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- CreateTable
+CREATE TABLE "attendance_change_requests" (
+    "id" TEXT NOT NULL,
+    "attendance_record_id" TEXT NOT NULL,
+    "requested_by" TEXT NOT NULL,
+    "proposed_status" "AttendanceStatus" NOT NULL,
+    "proposed_reason_code" TEXT,
+    "reason" TEXT NOT NULL,
+    "proof_file_id" TEXT,
+    "status" "ChangeRequestStatus" NOT NULL DEFAULT 'pending',
+    "reviewed_by" TEXT,
+    "review_comment" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_change_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "read_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_change_requests_status_idx" ON "attendance_change_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_read_at_idx" ON "notifications"("user_id", "read_at");
+
+-- AddForeignKey
+ALTER TABLE "attendance_change_requests" ADD CONSTRAINT "attendance_change_requests_attendance_record_id_fkey" FOREIGN KEY ("attendance_record_id") REFERENCES "attendance_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_change_requests" ADD CONSTRAINT "attendance_change_requests_requested_by_fkey" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_change_requests" ADD CONSTRAINT "attendance_change_requests_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_change_requests" ADD CONSTRAINT "attendance_change_requests_proof_file_id_fkey" FOREIGN KEY ("proof_file_id") REFERENCES "stored_files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
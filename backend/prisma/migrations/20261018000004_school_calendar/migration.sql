@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "CalendarEventType" AS ENUM ('holiday', 'suspension', 'non_school_day', 'school_day');
+
+-- CreateTable
+CREATE TABLE "calendar_events" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "type" "CalendarEventType" NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "grade_levels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "description" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "weekend_rules" (
+    "id" TEXT NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "weekend_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "calendar_events_start_date_end_date_idx" ON "calendar_events"("start_date", "end_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weekend_rules_day_of_week_key" ON "weekend_rules"("day_of_week");
+
+-- AddForeignKey
+ALTER TABLE "calendar_events" ADD CONSTRAINT "calendar_events_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default weekend: no classes on Saturday and Sunday
+INSERT INTO "weekend_rules" ("id", "day_of_week", "description") VALUES
+    ('weekend_sunday', 0, 'Sunday'),
+    ('weekend_saturday', 6, 'Saturday');
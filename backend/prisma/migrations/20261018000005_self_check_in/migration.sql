@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "check_in_sessions" (
+    "id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "secret" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "check_in_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "check_ins" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "token_window" INTEGER NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "checked_in_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "check_ins_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "check_in_sessions_section_id_date_idx" ON "check_in_sessions"("section_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "check_ins_session_id_student_id_key" ON "check_ins"("session_id", "student_id");
+
+-- AddForeignKey
+ALTER TABLE "check_in_sessions" ADD CONSTRAINT "check_in_sessions_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "check_in_sessions" ADD CONSTRAINT "check_in_sessions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "check_in_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
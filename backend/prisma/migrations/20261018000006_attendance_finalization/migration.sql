@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "attendance_finalizations" (
+    "id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "finalized_by" TEXT NOT NULL,
+    "finalized_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_finalizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_finalizations_section_id_date_key" ON "attendance_finalizations"("section_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "attendance_finalizations" ADD CONSTRAINT "attendance_finalizations_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_finalizations" ADD CONSTRAINT "attendance_finalizations_finalized_by_fkey" FOREIGN KEY ("finalized_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "student_leaves" (
+    "id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "reason" TEXT NOT NULL,
+    "approved_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "student_leaves_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "student_leaves_student_id_start_date_end_date_idx" ON "student_leaves"("student_id", "start_date", "end_date");
+
+-- AddForeignKey
+ALTER TABLE "student_leaves" ADD CONSTRAINT "student_leaves_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_leaves" ADD CONSTRAINT "student_leaves_approved_by_fkey" FOREIGN KEY ("approved_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
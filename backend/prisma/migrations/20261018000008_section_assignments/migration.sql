@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "section_assignments" (
+    "id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "beadle_id" TEXT NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE,
+    "assigned_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "section_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "section_assignments_beadle_id_start_date_end_date_idx" ON "section_assignments"("beadle_id", "start_date", "end_date");
+
+-- CreateIndex
+CREATE INDEX "section_assignments_section_id_idx" ON "section_assignments"("section_id");
+
+-- AddForeignKey
+ALTER TABLE "section_assignments" ADD CONSTRAINT "section_assignments_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "section_assignments" ADD CONSTRAINT "section_assignments_beadle_id_fkey" FOREIGN KEY ("beadle_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "section_assignments" ADD CONSTRAINT "section_assignments_assigned_by_fkey" FOREIGN KEY ("assigned_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
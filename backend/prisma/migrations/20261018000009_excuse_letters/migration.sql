@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "ExcuseLetterStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- CreateEnum
+CREATE TYPE "ExcuseLetterAuthor" AS ENUM ('guardian', 'student', 'beadle');
+
+-- CreateTable
+CREATE TABLE "excuse_letters" (
+    "id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "reason" TEXT NOT NULL,
+    "proof_url" TEXT NOT NULL,
+    "author_type" "ExcuseLetterAuthor" NOT NULL,
+    "author_name" TEXT,
+    "submitted_by" TEXT NOT NULL,
+    "status" "ExcuseLetterStatus" NOT NULL DEFAULT 'pending',
+    "reviewed_by" TEXT,
+    "review_comment" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "excuse_letters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "excuse_letter_events" (
+    "id" TEXT NOT NULL,
+    "excuse_letter_id" TEXT NOT NULL,
+    "status" "ExcuseLetterStatus" NOT NULL,
+    "comment" TEXT,
+    "actor_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "excuse_letter_events_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "excuse_letter_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "excuse_letters_student_id_start_date_end_date_idx" ON "excuse_letters"("student_id", "start_date", "end_date");
+
+-- CreateIndex
+CREATE INDEX "excuse_letters_status_idx" ON "excuse_letters"("status");
+
+-- CreateIndex
+CREATE INDEX "excuse_letter_events_excuse_letter_id_created_at_idx" ON "excuse_letter_events"("excuse_letter_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "attendance_records" ADD CONSTRAINT "attendance_records_excuse_letter_id_fkey" FOREIGN KEY ("excuse_letter_id") REFERENCES "excuse_letters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "excuse_letters" ADD CONSTRAINT "excuse_letters_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "excuse_letters" ADD CONSTRAINT "excuse_letters_submitted_by_fkey" FOREIGN KEY ("submitted_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "excuse_letters" ADD CONSTRAINT "excuse_letters_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "excuse_letter_events" ADD CONSTRAINT "excuse_letter_events_excuse_letter_id_fkey" FOREIGN KEY ("excuse_letter_id") REFERENCES "excuse_letters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "excuse_letter_events" ADD CONSTRAINT "excuse_letter_events_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
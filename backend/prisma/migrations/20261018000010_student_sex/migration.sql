@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "Sex" AS ENUM ('male', 'female');
+
+-- AlterTable
+ALTER TABLE "students" ADD COLUMN "sex" "Sex";
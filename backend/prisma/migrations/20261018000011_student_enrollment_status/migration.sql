@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "EnrollmentStatus" AS ENUM ('enrolled', 'dropped_out', 'transferred_out');
+
+-- AlterTable
+ALTER TABLE "students" ADD COLUMN "enrollment_status" "EnrollmentStatus" NOT NULL DEFAULT 'enrolled',
+ADD COLUMN "left_on" DATE,
+ADD COLUMN "transferred_in_on" DATE;
@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "AlertRuleType" AS ENUM ('consecutive_absences', 'low_attendance_rate', 'missing_submission', 'weekday_absences');
+
+-- CreateEnum
+CREATE TYPE "AlertSeverity" AS ENUM ('low', 'medium', 'high');
+
+-- CreateEnum
+CREATE TYPE "AlertStatus" AS ENUM ('open', 'acknowledged', 'resolved');
+
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "AlertRuleType" NOT NULL,
+    "severity" "AlertSeverity" NOT NULL,
+    "params" JSONB NOT NULL,
+    "section_id" TEXT,
+    "grade_level" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alerts" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "student_id" TEXT,
+    "severity" "AlertSeverity" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "data" JSONB,
+    "status" "AlertStatus" NOT NULL DEFAULT 'open',
+    "last_detected_at" TIMESTAMP(3) NOT NULL,
+    "cleared_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "acknowledged_at" TIMESTAMP(3),
+    "resolved_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "resolution_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_rules_is_active_idx" ON "alert_rules"("is_active");
+
+-- CreateIndex
+CREATE INDEX "alerts_rule_id_key_cleared_at_idx" ON "alerts"("rule_id", "key", "cleared_at");
+
+-- CreateIndex
+CREATE INDEX "alerts_section_id_status_idx" ON "alerts"("section_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_acknowledged_by_fkey" FOREIGN KEY ("acknowledged_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
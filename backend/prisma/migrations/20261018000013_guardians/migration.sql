@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "GuardianChannel" AS ENUM ('sms', 'email', 'telegram');
+
+-- CreateEnum
+CREATE TYPE "GuardianNotificationStatus" AS ENUM ('queued', 'sending', 'sent', 'failed', 'skipped', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "guardians" (
+    "id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "relationship" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "telegram_chat_id" TEXT,
+    "preferred_channel" "GuardianChannel" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "guardians_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "guardian_notifications" (
+    "id" TEXT NOT NULL,
+    "guardian_id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "event" "AttendanceStatus" NOT NULL,
+    "channel" "GuardianChannel",
+    "recipient" TEXT,
+    "subject" TEXT,
+    "message" TEXT NOT NULL,
+    "status" "GuardianNotificationStatus" NOT NULL DEFAULT 'queued',
+    "scheduled_for" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_attempt_at" TIMESTAMP(3),
+    "error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "guardian_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "message_templates" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "channel" "GuardianChannel" NOT NULL,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "updated_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "guardians_student_id_idx" ON "guardians"("student_id");
+
+-- CreateIndex
+CREATE INDEX "guardian_notifications_status_scheduled_for_idx" ON "guardian_notifications"("status", "scheduled_for");
+
+-- CreateIndex
+CREATE INDEX "guardian_notifications_student_id_date_idx" ON "guardian_notifications"("student_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_templates_key_channel_key" ON "message_templates"("key", "channel");
+
+-- AddForeignKey
+ALTER TABLE "guardians" ADD CONSTRAINT "guardians_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "guardian_notifications" ADD CONSTRAINT "guardian_notifications_guardian_id_fkey" FOREIGN KEY ("guardian_id") REFERENCES "guardians"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "guardian_notifications" ADD CONSTRAINT "guardian_notifications_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "AppRole" ADD VALUE 'parent';
+
+-- AlterTable
+ALTER TABLE "guardians" ADD COLUMN "user_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "guardians_user_id_idx" ON "guardians"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "guardians" ADD CONSTRAINT "guardians_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
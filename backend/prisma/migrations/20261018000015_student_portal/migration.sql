@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "AppRole" ADD VALUE 'student';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "password_setup_code" TEXT,
+ADD COLUMN "password_setup_expires_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "students" ADD COLUMN "user_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "students_user_id_key" ON "students"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "students" ADD CONSTRAINT "students_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
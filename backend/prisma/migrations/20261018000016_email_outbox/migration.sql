@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "EmailStatus" AS ENUM ('queued', 'sending', 'sent', 'failed');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "password_reset_token" TEXT,
+ADD COLUMN "password_reset_expires_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "email_outbox" (
+    "id" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "to_address" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "attachments" JSONB,
+    "dedupe_key" TEXT,
+    "status" "EmailStatus" NOT NULL DEFAULT 'queued',
+    "scheduled_for" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_attempt_at" TIMESTAMP(3),
+    "error" TEXT,
+    "message_id" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_password_reset_token_key" ON "users"("password_reset_token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_outbox_dedupe_key_key" ON "email_outbox"("dedupe_key");
+
+-- CreateIndex
+CREATE INDEX "email_outbox_status_scheduled_for_idx" ON "email_outbox"("status", "scheduled_for");
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "SmsDeliveryStatus" AS ENUM ('pending', 'delivered', 'undelivered');
+
+-- AlterTable
+ALTER TABLE "guardians" ADD COLUMN "sms_opted_out_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "guardian_notifications" ADD COLUMN "segments" INTEGER,
+ADD COLUMN "cost" DOUBLE PRECISION,
+ADD COLUMN "provider_message_id" TEXT,
+ADD COLUMN "delivery_status" "SmsDeliveryStatus",
+ADD COLUMN "delivery_error" TEXT,
+ADD COLUMN "delivery_updated_at" TIMESTAMP(3),
+ADD COLUMN "delivery_receipt" JSONB;
+
+-- CreateIndex
+CREATE INDEX "guardian_notifications_provider_message_id_idx" ON "guardian_notifications"("provider_message_id");
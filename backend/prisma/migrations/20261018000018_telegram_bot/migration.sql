@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "telegram_chat_id" TEXT,
+ADD COLUMN "telegram_link_code" TEXT,
+ADD COLUMN "telegram_link_expires_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "telegram_mark_drafts" (
+    "id" TEXT NOT NULL,
+    "chat_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "marks" JSONB NOT NULL,
+    "message_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "telegram_mark_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_telegram_chat_id_key" ON "users"("telegram_chat_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_telegram_link_code_key" ON "users"("telegram_link_code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "telegram_mark_drafts_chat_id_key" ON "telegram_mark_drafts"("chat_id");
+
+-- AddForeignKey
+ALTER TABLE "telegram_mark_drafts" ADD CONSTRAINT "telegram_mark_drafts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "telegram_mark_drafts" ADD CONSTRAINT "telegram_mark_drafts_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
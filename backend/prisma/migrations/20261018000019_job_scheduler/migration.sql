@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "ScheduledJobType" AS ENUM ('daily_summary', 'weekly_report', 'missing_submission_reminder', 'monthly_archival');
+
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('running', 'succeeded', 'failed');
+
+-- CreateEnum
+CREATE TYPE "JobRunTrigger" AS ENUM ('schedule', 'manual');
+
+-- AlterTable
+ALTER TABLE "notification_schedules" ADD COLUMN "job_type" "ScheduledJobType" NOT NULL,
+ADD COLUMN "last_run_at" TIMESTAMP(3),
+ADD COLUMN "created_by" TEXT NOT NULL;
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" TEXT NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "job_type" "ScheduledJobType" NOT NULL,
+    "trigger" "JobRunTrigger" NOT NULL,
+    "triggered_by" TEXT,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'running',
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+    "result" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_schedule_id_started_at_idx" ON "job_runs"("schedule_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "job_runs_status_idx" ON "job_runs"("status");
+
+-- AddForeignKey
+ALTER TABLE "notification_schedules" ADD CONSTRAINT "notification_schedules_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_runs" ADD CONSTRAINT "job_runs_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "notification_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_runs" ADD CONSTRAINT "job_runs_triggered_by_fkey" FOREIGN KEY ("triggered_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
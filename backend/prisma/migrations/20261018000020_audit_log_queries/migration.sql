@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "audit_logs_created_at_id_idx" ON "audit_logs"("created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_table_name_record_id_idx" ON "audit_logs"("table_name", "record_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_user_id_created_at_idx" ON "audit_logs"("user_id", "created_at");
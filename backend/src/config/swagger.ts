@@ -82,7 +82,12 @@ const options = {
             date: { type: 'string', format: 'date' },
             status: { 
               type: 'string', 
-              enum: ['present', 'absent'] 
+              enum: ['present', 'late', 'half_day', 'excused', 'absent', 'cutting'] 
+            },
+            reasonCode: { 
+              type: 'string', 
+              nullable: true,
+              enum: ['sick', 'family_emergency', 'school_activity', 'transportation', 'weather', 'other'] 
             },
             proofUrl: { type: 'string', nullable: true },
             submittedBy: { type: 'string' },
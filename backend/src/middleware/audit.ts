@@ -1,8 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+// Stored as JSON objects so they can be searched and compared. Round-tripping
+// turns dates into strings and drops undefined fields.
+const toJson = (data: unknown) => (data ? JSON.parse(JSON.stringify(data)) as Prisma.InputJsonValue : Prisma.JsonNull);
+
 export const logAuditEvent = async (
   userId: string,
   action: string,
@@ -18,8 +22,8 @@ export const logAuditEvent = async (
         action,
         tableName,
         recordId,
-        oldData: oldData ? JSON.stringify(oldData) : null,
-        newData: newData ? JSON.stringify(newData) : null
+        oldData: toJson(oldData),
+        newData: toJson(newData)
       }
     });
   } catch (error) {
@@ -11,6 +11,7 @@ export interface AuthRequest extends Request {
     role: string;
     fullName: string;
   };
+  oldData?: Record<string, unknown>; // previous state captured for auditMiddleware
 }
 
 export const authenticateToken = async (
@@ -100,3 +101,37 @@ export const requireAdmin = requireRole(['admin']);
 export const requireCoordinatorOrAdmin = requireRole(['coordinator', 'admin']);
 export const requireAdviserOrAbove = requireRole(['adviser', 'coordinator', 'admin']);
 export const requireBeadleOrAbove = requireRole(['beadle', 'adviser', 'coordinator', 'admin']);
+export const requireParent = requireRole(['parent']);
+export const requireStudent = requireRole(['student']);
+
+// Parents only reach the students they are a guardian of. Checks the :studentId
+// route parameter against the guardian records linked to the account.
+export const requireLinkedStudent = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ 
+      error: 'Authentication required',
+      code: 'AUTH_REQUIRED'
+    });
+  }
+
+  try {
+    const link = await prisma.guardian.findFirst({
+      where: {
+        userId: req.user.id,
+        studentId: req.params.studentId
+      },
+      select: { id: true }
+    });
+
+    if (!link) {
+      return res.status(403).json({
+        error: 'This account is not linked to the student',
+        code: 'STUDENT_NOT_LINKED'
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,9 @@
 import express from 'express';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requireBeadleOrAbove, AuthRequest } from '../middleware/auth';
+import { summarizeStatusGroups, groupStatuses, weekKey, isUnexcusedAbsence } from '../utils/attendanceStatus';
+import { assignedSectionIds } from '../services/sectionAssignments';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -13,7 +15,7 @@ const aiQuerySchema = Joi.object({
 });
 
 // AI Query endpoint (Future-ready for Llama integration)
-router.post('/query', authenticateToken, async (req: AuthRequest, res, next) => {
+router.post('/query', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
     const { error, value } = aiQuerySchema.validate(req.body);
     if (error) {
@@ -68,31 +70,25 @@ async function getAttendanceStats(userId: string, role: string) {
   let whereClause: any = {};
 
   if (role === 'beadle') {
-    whereClause.submittedBy = userId;
+    whereClause.sectionId = { in: await assignedSectionIds(userId) };
   }
 
-  const [totalRecords, presentRecords] = await Promise.all([
-    prisma.attendanceRecord.count({ where: whereClause }),
-    prisma.attendanceRecord.count({ 
-      where: { ...whereClause, status: 'present' } 
-    })
-  ]);
+  const statusCounts = await prisma.attendanceRecord.groupBy({
+    by: ['status'],
+    where: whereClause,
+    _count: { _all: true }
+  });
 
-  return {
-    totalRecords,
-    presentRecords,
-    absentRecords: totalRecords - presentRecords,
-    attendanceRate: totalRecords > 0 ? (presentRecords / totalRecords) * 100 : 0
-  };
+  return summarizeStatusGroups(statusCounts);
 }
 
 async function getAbsenceAnalysis(userId: string, role: string) {
   let whereClause: any = {
-    status: 'absent'
+    status: { in: ['absent', 'cutting', 'excused'] }
   };
 
   if (role === 'beadle') {
-    whereClause.submittedBy = userId;
+    whereClause.sectionId = { in: await assignedSectionIds(userId) };
   }
 
   const absentRecords = await prisma.attendanceRecord.findMany({
@@ -115,10 +111,15 @@ async function getAbsenceAnalysis(userId: string, role: string) {
       acc[studentId] = {
         studentName: `${record.student.firstName} ${record.student.lastName}`,
         studentNumber: record.student.studentNumber,
-        absenceCount: 0
+        absenceCount: 0,
+        excusedCount: 0
       };
     }
-    acc[studentId].absenceCount++;
+    if (isUnexcusedAbsence(record.status)) {
+      acc[studentId].absenceCount++;
+    } else {
+      acc[studentId].excusedCount++;
+    }
     return acc;
   }, {} as any);
 
@@ -127,7 +128,8 @@ async function getAbsenceAnalysis(userId: string, role: string) {
     .slice(0, 5);
 
   return {
-    totalAbsences: absentRecords.length,
+    totalAbsences: absentRecords.filter(r => isUnexcusedAbsence(r.status)).length,
+    excusedAbsences: absentRecords.filter(r => !isUnexcusedAbsence(r.status)).length,
     topAbsentees
   };
 }
@@ -145,7 +147,7 @@ async function getTrendAnalysis(userId: string, role: string) {
   };
 
   if (role === 'beadle') {
-    whereClause.submittedBy = userId;
+    whereClause.sectionId = { in: await assignedSectionIds(userId) };
   }
 
   const records = await prisma.attendanceRecord.findMany({
@@ -155,26 +157,11 @@ async function getTrendAnalysis(userId: string, role: string) {
   });
 
   // Calculate weekly averages
-  const weeklyStats = records.reduce((acc, record) => {
-    const date = new Date(record.date);
-    const weekStart = new Date(date);
-    weekStart.setDate(date.getDate() - date.getDay());
-    const weekKey = weekStart.toISOString().split('T')[0];
-    
-    if (!acc[weekKey]) {
-      acc[weekKey] = { week: weekKey, present: 0, total: 0 };
-    }
-    acc[weekKey].total++;
-    if (record.status === 'present') {
-      acc[weekKey].present++;
-    }
-    return acc;
-  }, {} as any);
-
-  const weeklyAverages = Object.values(weeklyStats).map((stat: any) => ({
-    week: stat.week,
-    attendanceRate: stat.total > 0 ? (stat.present / stat.total) * 100 : 0
-  }));
+  const weeklyAverages = groupStatuses(records, record => weekKey(record.date))
+    .map(({ key, summary }) => ({
+      week: key,
+      attendanceRate: summary.attendanceRate
+    }));
 
   const recentWeek = weeklyAverages.slice(-1)[0]?.attendanceRate || 0;
   const previousWeek = weeklyAverages.slice(-2, -1)[0]?.attendanceRate || 0;
@@ -194,7 +181,7 @@ async function getStudentPerformance(userId: string, role: string) {
   let whereClause: any = {};
 
   if (role === 'beadle') {
-    whereClause.submittedBy = userId;
+    whereClause.sectionId = { in: await assignedSectionIds(userId) };
   }
 
   const records = await prisma.attendanceRecord.findMany({
@@ -211,29 +198,15 @@ async function getStudentPerformance(userId: string, role: string) {
   });
 
   // Calculate student performance
-  const studentStats = records.reduce((acc, record) => {
-    const studentId = record.studentId;
-    if (!acc[studentId]) {
-      acc[studentId] = {
-        studentName: `${record.student.firstName} ${record.student.lastName}`,
-        studentNumber: record.student.studentNumber,
-        present: 0,
-        total: 0
-      };
-    }
-    acc[studentId].total++;
-    if (record.status === 'present') {
-      acc[studentId].present++;
-    }
-    return acc;
-  }, {} as any);
-
-  const studentPerformance = Object.values(studentStats)
-    .map((stat: any) => ({
-      ...stat,
-      attendanceRate: stat.total > 0 ? (stat.present / stat.total) * 100 : 0
+  const studentPerformance = groupStatuses(records, record => record.studentId)
+    .map(({ records: studentRecords, summary }) => ({
+      studentName: `${studentRecords[0].student.firstName} ${studentRecords[0].student.lastName}`,
+      studentNumber: studentRecords[0].student.studentNumber,
+      present: summary.presentRecords + summary.lateRecords,
+      total: summary.totalRecords,
+      attendanceRate: summary.attendanceRate
     }))
-    .sort((a: any, b: any) => b.attendanceRate - a.attendanceRate);
+    .sort((a, b) => b.attendanceRate - a.attendanceRate);
 
   return {
     topPerformers: studentPerformance.slice(0, 5),
@@ -242,15 +215,15 @@ async function getStudentPerformance(userId: string, role: string) {
 }
 
 function generateAttendanceRateResponse(stats: any) {
-  return `📊 **Attendance Overview**:\n\n• **Overall Rate**: ${stats.attendanceRate.toFixed(1)}%\n• **Total Records**: ${stats.totalRecords}\n• **Present**: ${stats.presentRecords}\n• **Absent**: ${stats.absentRecords}\n\n${stats.attendanceRate >= 90 ? '✅ Excellent attendance rate!' : stats.attendanceRate >= 80 ? '👍 Good attendance rate' : '⚠️ Attendance needs attention'}`;
+  return `📊 **Attendance Overview**:\n\n• **Overall Rate**: ${stats.attendanceRate.toFixed(1)}%\n• **Total Records**: ${stats.totalRecords}\n• **Present**: ${stats.presentRecords}\n• **Late**: ${stats.lateRecords}\n• **Excused**: ${stats.excusedRecords}\n• **Unexcused Absences**: ${stats.unexcusedAbsences}\n\n${stats.attendanceRate >= 90 ? '✅ Excellent attendance rate!' : stats.attendanceRate >= 80 ? '👍 Good attendance rate' : '⚠️ Attendance needs attention'}`;
 }
 
 function generateAbsenceResponse(data: any) {
   const topAbsentees = data.topAbsentees.map((student: any) => 
-    `• ${student.studentName} (${student.studentNumber}): ${student.absenceCount} absences`
+    `• ${student.studentName} (${student.studentNumber}): ${student.absenceCount} unexcused, ${student.excusedCount} excused`
   ).join('\n');
 
-  return `📉 **Absence Analysis**:\n\n• **Total Absences**: ${data.totalAbsences}\n\n🔍 **Students with Most Absences**:\n${topAbsentees}\n\n💡 **Recommendation**: Consider reaching out to students with frequent absences to understand any challenges they might be facing.`;
+  return `📉 **Absence Analysis**:\n\n• **Unexcused Absences**: ${data.totalAbsences}\n• **Excused Absences**: ${data.excusedAbsences}\n\n🔍 **Students with Most Absences**:\n${topAbsentees}\n\n💡 **Recommendation**: Consider reaching out to students with frequent absences to understand any challenges they might be facing.`;
 }
 
 function generateTrendResponse(data: any) {
@@ -0,0 +1,264 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireCoordinatorOrAdmin, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { evaluateAlertRule, evaluateAlertRules } from '../services/alertEngine';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const RULE_TYPES = ['consecutive_absences', 'low_attendance_rate', 'missing_submission', 'weekday_absences'];
+const SEVERITIES = ['low', 'medium', 'high'];
+
+// Validation schemas
+const schoolDaysField = Joi.number().integer().min(1).max(200).required();
+
+const paramsSchemas: Record<string, Joi.ObjectSchema> = {
+  consecutive_absences: Joi.object({
+    days: Joi.number().integer().min(2).max(60).required()
+  }),
+  low_attendance_rate: Joi.object({
+    threshold: Joi.number().min(1).max(100).required(),
+    schoolDays: schoolDaysField
+  }),
+  missing_submission: Joi.object({
+    time: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required()
+  }),
+  weekday_absences: Joi.object({
+    weekday: Joi.number().integer().min(0).max(6).required(),
+    threshold: Joi.number().integer().min(0).required(),
+    schoolDays: schoolDaysField
+  })
+};
+
+const createRuleSchema = Joi.object({
+  name: Joi.string().min(1).required(),
+  type: Joi.string().valid(...RULE_TYPES).required(),
+  severity: Joi.string().valid(...SEVERITIES).required(),
+  params: Joi.object().required(),
+  sectionId: Joi.string().allow(null).optional(),
+  gradeLevel: Joi.string().allow(null).optional(),
+  isActive: Joi.boolean().default(true)
+}).oxor('sectionId', 'gradeLevel');
+
+const updateRuleSchema = Joi.object({
+  name: Joi.string().min(1),
+  type: Joi.string().valid(...RULE_TYPES),
+  severity: Joi.string().valid(...SEVERITIES),
+  params: Joi.object(),
+  sectionId: Joi.string().allow(null),
+  gradeLevel: Joi.string().allow(null),
+  isActive: Joi.boolean()
+}).with('type', 'params');
+
+const ruleInclude = {
+  section: {
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true
+    }
+  },
+  creator: {
+    select: {
+      id: true,
+      fullName: true
+    }
+  }
+};
+
+// Check a rule's thresholds against its type. Returns an error response to send,
+// or the validated params.
+const validateParams = (type: string, params: unknown) => {
+  const { error, value } = paramsSchemas[type].validate(params);
+  if (error) {
+    return {
+      error: {
+        status: 400,
+        body: {
+          error: 'Validation error',
+          details: error.details.map(d => `params: ${d.message}`)
+        }
+      }
+    };
+  }
+  return { value: value as Prisma.InputJsonObject };
+};
+
+const sectionExists = async (sectionId?: string | null) =>
+  !sectionId || (await prisma.section.count({ where: { id: sectionId } })) > 0;
+
+// Get alert rules
+router.get('/', authenticateToken, requireCoordinatorOrAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const rules = await prisma.alertRule.findMany({
+      include: ruleInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ rules });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Evaluate every active rule now instead of waiting for the next scheduled run
+router.post('/evaluate', authenticateToken, requireCoordinatorOrAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const summary = await evaluateAlertRules();
+
+    res.json({
+      message: 'Alert rules evaluated successfully',
+      summary
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create an alert rule
+router.post('/', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('CREATE', 'alert_rules'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createRuleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const params = validateParams(value.type, value.params);
+    if (params.error) {
+      return res.status(params.error.status).json(params.error.body);
+    }
+
+    if (!await sectionExists(value.sectionId)) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        ...value,
+        params: params.value,
+        createdBy: req.user!.id
+      },
+      include: ruleInclude
+    });
+
+    const summary = await evaluateAlertRule(rule);
+
+    res.status(201).json({
+      message: 'Alert rule created successfully',
+      rule,
+      summary
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update an alert rule. Changing the type needs params for the new type.
+router.put('/:id', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('UPDATE', 'alert_rules'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateRuleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingRule = await prisma.alertRule.findUnique({
+      where: { id }
+    });
+
+    if (!existingRule) {
+      return res.status(404).json({
+        error: 'Alert rule not found',
+        code: 'ALERT_RULE_NOT_FOUND'
+      });
+    }
+
+    const data: Prisma.AlertRuleUncheckedUpdateInput = { ...value };
+    if (value.params) {
+      const params = validateParams(value.type || existingRule.type, value.params);
+      if (params.error) {
+        return res.status(params.error.status).json(params.error.body);
+      }
+      data.params = params.value;
+    }
+
+    // Narrowing to a section or grade level drops the other scope
+    if (value.sectionId) data.gradeLevel = null;
+    if (value.gradeLevel) data.sectionId = null;
+
+    if (!await sectionExists(value.sectionId)) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      name: existingRule.name,
+      type: existingRule.type,
+      severity: existingRule.severity,
+      params: existingRule.params,
+      sectionId: existingRule.sectionId,
+      gradeLevel: existingRule.gradeLevel,
+      isActive: existingRule.isActive
+    };
+
+    const rule = await prisma.alertRule.update({
+      where: { id },
+      data,
+      include: ruleInclude
+    });
+
+    const summary = await evaluateAlertRule(rule);
+
+    res.json({
+      message: 'Alert rule updated successfully',
+      rule,
+      summary
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete an alert rule along with the alerts it raised
+router.delete('/:id', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('DELETE', 'alert_rules'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingRule = await prisma.alertRule.findUnique({
+      where: { id }
+    });
+
+    if (!existingRule) {
+      return res.status(404).json({
+        error: 'Alert rule not found',
+        code: 'ALERT_RULE_NOT_FOUND'
+      });
+    }
+
+    await prisma.alertRule.delete({
+      where: { id }
+    });
+
+    res.json({
+      message: 'Alert rule deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
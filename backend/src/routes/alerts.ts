@@ -0,0 +1,223 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { canManageSection } from '../services/attendanceLock';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const getAlertsSchema = Joi.object({
+  // active covers open and acknowledged alerts
+  status: Joi.string().valid('active', 'open', 'acknowledged', 'resolved').default('active'),
+  severity: Joi.string().valid('low', 'medium', 'high').optional(),
+  sectionId: Joi.string().optional(),
+  studentId: Joi.string().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const resolveSchema = Joi.object({
+  note: Joi.string().allow('').optional()
+});
+
+const alertInclude = {
+  rule: {
+    select: {
+      id: true,
+      name: true,
+      type: true
+    }
+  },
+  section: {
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true,
+      adviserId: true
+    }
+  },
+  student: {
+    select: {
+      id: true,
+      studentNumber: true,
+      firstName: true,
+      lastName: true
+    }
+  },
+  acknowledger: {
+    select: {
+      id: true,
+      fullName: true
+    }
+  },
+  resolver: {
+    select: {
+      id: true,
+      fullName: true
+    }
+  }
+};
+
+// Load an alert the user may act on. Returns an error response to send, or the alert.
+const findManageableAlert = async (user: NonNullable<AuthRequest['user']>, id: string) => {
+  const alert = await prisma.alert.findUnique({
+    where: { id },
+    include: alertInclude
+  });
+
+  if (!alert) {
+    return { error: { status: 404, body: { error: 'Alert not found', code: 'ALERT_NOT_FOUND' } } };
+  }
+
+  if (!canManageSection(user, alert.section)) {
+    return {
+      error: {
+        status: 403,
+        body: {
+          error: 'Only the section adviser or a coordinator can act on this alert',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        }
+      }
+    };
+  }
+
+  return { alert };
+};
+
+// Get alerts, most severe and most recently detected first. Advisers see alerts
+// for the sections they advise, coordinators and admins every alert.
+router.get('/', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getAlertsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { status, severity, sectionId, studentId, page, limit } = value;
+    const whereClause: Prisma.AlertWhereInput = {
+      status: status === 'active' ? { in: ['open', 'acknowledged'] } : status
+    };
+
+    if (severity) whereClause.severity = severity;
+    if (sectionId) whereClause.sectionId = sectionId;
+    if (studentId) whereClause.studentId = studentId;
+
+    if (req.user!.role === 'adviser') {
+      whereClause.section = { adviserId: req.user!.id };
+    }
+
+    const [alerts, total] = await Promise.all([
+      prisma.alert.findMany({
+        where: whereClause,
+        include: alertInclude,
+        orderBy: [{ severity: 'desc' }, { lastDetectedAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.alert.count({ where: whereClause })
+    ]);
+
+    res.json({
+      alerts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Acknowledge an open alert: someone is looking into it
+router.put('/:id/acknowledge', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'alerts'), async (req: AuthRequest, res, next) => {
+  try {
+    const found = await findManageableAlert(req.user!, req.params.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    if (found.alert.status !== 'open') {
+      return res.status(409).json({
+        error: `Alert is already ${found.alert.status}`,
+        code: 'ALERT_NOT_OPEN'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = { status: found.alert.status };
+
+    const alert = await prisma.alert.update({
+      where: { id: found.alert.id },
+      data: {
+        status: 'acknowledged',
+        acknowledgedBy: req.user!.id,
+        acknowledgedAt: new Date()
+      },
+      include: alertInclude
+    });
+
+    res.json({
+      message: 'Alert acknowledged successfully',
+      alert
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Resolve an alert. It is not raised again until its condition has cleared.
+router.put('/:id/resolve', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'alerts'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = resolveSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findManageableAlert(req.user!, req.params.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    if (found.alert.status === 'resolved') {
+      return res.status(409).json({
+        error: 'Alert is already resolved',
+        code: 'ALERT_RESOLVED'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = { status: found.alert.status };
+
+    const alert = await prisma.alert.update({
+      where: { id: found.alert.id },
+      data: {
+        status: 'resolved',
+        resolvedBy: req.user!.id,
+        resolvedAt: new Date(),
+        resolutionNote: value.note || null
+      },
+      include: alertInclude
+    });
+
+    res.json({
+      message: 'Alert resolved successfully',
+      alert
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -2,6 +2,10 @@ import express from 'express';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireBeadleOrAbove, AuthRequest } from '../middleware/auth';
+import { summarizeStatuses, groupStatuses, weekKey, isAbsence, isUnexcusedAbsence, rollupDaily } from '../utils/attendanceStatus';
+import { loadCalendarForRecords, onSchoolDays, dateKey } from '../services/schoolCalendar';
+import { sectionScope, watchedSectionIds } from '../services/sectionAssignments';
+import { schoolDateKey } from '../utils/schoolTime';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -9,11 +13,18 @@ const prisma = new PrismaClient();
 // Validation schemas
 const analyticsQuerySchema = Joi.object({
   sectionId: Joi.string().optional(),
+  sessionId: Joi.string().optional(),
+  subject: Joi.string().optional(),
   startDate: Joi.date().optional(),
   endDate: Joi.date().optional(),
   groupBy: Joi.string().valid('day', 'week', 'month').default('day')
 });
 
+const sectionAnalyticsSchema = Joi.object({
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional()
+});
+
 // Get attendance analytics
 router.get('/attendance', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
@@ -25,17 +36,14 @@ router.get('/attendance', authenticateToken, requireBeadleOrAbove, async (req: A
       });
     }
 
-    const { sectionId, startDate, endDate, groupBy } = value;
+    const { sectionId, sessionId, subject, startDate, endDate, groupBy } = value;
 
     let whereClause: any = {};
 
-    // Apply role-based filtering
-    if (req.user!.role === 'beadle') {
-      whereClause.submittedBy = req.user!.id;
-    }
-
-    if (sectionId) {
-      whereClause.sectionId = sectionId;
+    // Apply role-based filtering: beadles only see their assigned sections
+    const sectionFilter = await sectionScope(req.user!, sectionId);
+    if (sectionFilter) {
+      whereClause.sectionId = sectionFilter;
     }
 
     if (startDate || endDate) {
@@ -44,8 +52,10 @@ router.get('/attendance', authenticateToken, requireBeadleOrAbove, async (req: A
       if (endDate) whereClause.date.lte = new Date(endDate);
     }
 
+    applySessionFilter(whereClause, sessionId, subject);
+
     // Get attendance records
-    const records = await prisma.attendanceRecord.findMany({
+    const periodRecords = await prisma.attendanceRecord.findMany({
       where: whereClause,
       include: {
         student: {
@@ -68,93 +78,45 @@ router.get('/attendance', authenticateToken, requireBeadleOrAbove, async (req: A
       orderBy: { date: 'asc' }
     });
 
+    // Records dated on holidays, suspensions or weekends don't count towards rates
+    const { calendar, start, end } = await loadCalendarForRecords(periodRecords, startDate, endDate);
+    const schoolDayRecords = onSchoolDays(calendar, periodRecords);
+    const records = sessionId || subject ? schoolDayRecords : rollupDaily(schoolDayRecords);
+
+    const section = sectionId
+      ? await prisma.section.findUnique({ where: { id: sectionId }, select: { gradeLevel: true } })
+      : null;
+    const daysOfSchool = calendar.schoolDays(start, end, section?.gradeLevel).length;
+
     // Process data based on groupBy
     let processedData: any[] = [];
 
     if (groupBy === 'day') {
-      const dailyStats = records.reduce((acc, record) => {
-        const date = record.date.toISOString().split('T')[0];
-        if (!acc[date]) {
-          acc[date] = { date, present: 0, absent: 0, total: 0 };
-        }
-        acc[date].total++;
-        if (record.status === 'present') {
-          acc[date].present++;
-        } else {
-          acc[date].absent++;
-        }
-        return acc;
-      }, {} as any);
-
-      processedData = Object.values(dailyStats).map((stat: any) => ({
-        ...stat,
-        attendanceRate: stat.total > 0 ? (stat.present / stat.total) * 100 : 0
-      }));
+      processedData = groupStatuses(records, record => record.date.toISOString().split('T')[0])
+        .map(({ key, summary }) => ({ date: key, ...summary }));
     } else if (groupBy === 'week') {
-      // Group by week
-      const weeklyStats = records.reduce((acc, record) => {
-        const date = new Date(record.date);
-        const weekStart = new Date(date);
-        weekStart.setDate(date.getDate() - date.getDay());
-        const weekKey = weekStart.toISOString().split('T')[0];
-        
-        if (!acc[weekKey]) {
-          acc[weekKey] = { week: weekKey, present: 0, absent: 0, total: 0 };
-        }
-        acc[weekKey].total++;
-        if (record.status === 'present') {
-          acc[weekKey].present++;
-        } else {
-          acc[weekKey].absent++;
-        }
-        return acc;
-      }, {} as any);
-
-      processedData = Object.values(weeklyStats).map((stat: any) => ({
-        ...stat,
-        attendanceRate: stat.total > 0 ? (stat.present / stat.total) * 100 : 0
-      }));
+      processedData = groupStatuses(records, record => weekKey(record.date))
+        .map(({ key, summary }) => ({ week: key, ...summary }));
     }
 
     // Calculate overall statistics
-    const totalRecords = records.length;
-    const presentRecords = records.filter(r => r.status === 'present').length;
-    const absentRecords = totalRecords - presentRecords;
-    const overallAttendanceRate = totalRecords > 0 ? (presentRecords / totalRecords) * 100 : 0;
+    const summary = summarizeStatuses(records.map(r => r.status));
 
     // Get student performance
-    const studentStats = records.reduce((acc, record) => {
-      const studentId = record.studentId;
-      if (!acc[studentId]) {
-        acc[studentId] = {
-          studentId,
-          studentName: `${record.student.firstName} ${record.student.lastName}`,
-          studentNumber: record.student.studentNumber,
-          present: 0,
-          absent: 0,
-          total: 0
-        };
-      }
-      acc[studentId].total++;
-      if (record.status === 'present') {
-        acc[studentId].present++;
-      } else {
-        acc[studentId].absent++;
-      }
-      return acc;
-    }, {} as any);
-
-    const studentPerformance = Object.values(studentStats).map((stat: any) => ({
-      ...stat,
-      attendanceRate: stat.total > 0 ? (stat.present / stat.total) * 100 : 0
-    })).sort((a: any, b: any) => b.attendanceRate - a.attendanceRate);
+    const studentPerformance = groupStatuses(records, record => record.studentId)
+      .map(({ key, records: studentRecords, summary: studentSummary }) => ({
+        studentId: key,
+        studentName: `${studentRecords[0].student.firstName} ${studentRecords[0].student.lastName}`,
+        studentNumber: studentRecords[0].student.studentNumber,
+        ...studentSummary
+      }))
+      .sort((a, b) => b.attendanceRate - a.attendanceRate);
 
     res.json({
       summary: {
-        totalRecords,
-        presentRecords,
-        absentRecords,
-        overallAttendanceRate: Math.round(overallAttendanceRate * 100) / 100
+        ...summary,
+        overallAttendanceRate: summary.attendanceRate,
+        daysOfSchool
       },
       trends: processedData,
       studentPerformance: studentPerformance.slice(0, 20) // Top 20 students
@@ -167,7 +129,21 @@ router.get('/attendance', authenticateToken, requireBeadleOrAbove, async (req: A
 // Get section analytics
 router.get('/sections', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
+    const { error, value } = sectionAnalyticsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { startDate, endDate } = value;
+
+    // Beadles only see their assigned sections
+    const sectionFilter = await sectionScope(req.user!);
+
     const sections = await prisma.section.findMany({
+      where: sectionFilter ? { id: sectionFilter } : undefined,
       include: {
         adviser: {
           select: {
@@ -185,17 +161,33 @@ router.get('/sections', authenticateToken, requireBeadleOrAbove, async (req: Aut
       orderBy: { name: 'asc' }
     });
 
+    const dateFilter: { gte?: Date; lte?: Date } = {};
+    if (startDate) dateFilter.gte = new Date(startDate);
+    if (endDate) dateFilter.lte = new Date(endDate);
+
+    const firstRecord = await prisma.attendanceRecord.findFirst({
+      where: { date: dateFilter },
+      select: { date: true },
+      orderBy: { date: 'asc' }
+    });
+    const { calendar, start, end } = await loadCalendarForRecords(firstRecord ? [firstRecord] : [], startDate, endDate);
+    const today = schoolDateKey();
+
     // Get attendance stats for each section
     const sectionStats = await Promise.all(
       sections.map(async (section) => {
         const attendanceRecords = await prisma.attendanceRecord.findMany({
-          where: { sectionId: section.id },
-          select: { status: true }
+          where: { sectionId: section.id, date: dateFilter },
+          select: { studentId: true, date: true, status: true, sessionId: true }
         });
 
-        const totalRecords = attendanceRecords.length;
-        const presentRecords = attendanceRecords.filter(r => r.status === 'present').length;
-        const attendanceRate = totalRecords > 0 ? (presentRecords / totalRecords) * 100 : 0;
+        const schoolDayRecords = attendanceRecords.filter(record => calendar.isSchoolDay(record.date, section.gradeLevel));
+        const summary = summarizeStatuses(rollupDaily(schoolDayRecords).map(r => r.status));
+
+        // A school day with no records at all is a missing submission; future days aren't due yet
+        const schoolDays = calendar.schoolDays(start, end, section.gradeLevel);
+        const submittedDays = new Set(schoolDayRecords.map(record => dateKey(record.date)));
+        const missingSubmissionDates = schoolDays.filter(day => day <= today && !submittedDays.has(day));
 
         return {
           id: section.id,
@@ -205,7 +197,13 @@ router.get('/sections', authenticateToken, requireBeadleOrAbove, async (req: Aut
           adviser: section.adviser,
           studentCount: section._count.students,
           totalAttendanceRecords: section._count.attendanceRecords,
-          attendanceRate: Math.round(attendanceRate * 100) / 100
+          daysOfSchool: schoolDays.length,
+          daysSubmitted: submittedDays.size,
+          missingSubmissions: missingSubmissionDates.length,
+          missingSubmissionDates,
+          excusedAbsences: summary.excusedRecords,
+          unexcusedAbsences: summary.unexcusedAbsences,
+          attendanceRate: summary.attendanceRate
         };
       })
     );
@@ -219,15 +217,16 @@ router.get('/sections', authenticateToken, requireBeadleOrAbove, async (req: Aut
 // Get top absent students
 router.get('/top-absent', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
-    const { limit = 10, startDate, endDate } = req.query;
+    const { limit = 10, startDate, endDate, sessionId, subject } = req.query;
 
     let whereClause: any = {
-      status: 'absent'
+      status: { in: ['absent', 'cutting', 'excused'] }
     };
 
-    // Apply role-based filtering
-    if (req.user!.role === 'beadle') {
-      whereClause.submittedBy = req.user!.id;
+    // Apply role-based filtering: beadles only see their assigned sections
+    const sectionFilter = await sectionScope(req.user!);
+    if (sectionFilter) {
+      whereClause.sectionId = sectionFilter;
     }
 
     if (startDate || endDate) {
@@ -236,7 +235,9 @@ router.get('/top-absent', authenticateToken, requireBeadleOrAbove, async (req: A
       if (endDate) whereClause.date.lte = new Date(endDate as string);
     }
 
-    const absentRecords = await prisma.attendanceRecord.findMany({
+    applySessionFilter(whereClause, sessionId as string | undefined, subject as string | undefined);
+
+    const allAbsentRecords = await prisma.attendanceRecord.findMany({
       where: whereClause,
       include: {
         student: {
@@ -258,6 +259,9 @@ router.get('/top-absent', authenticateToken, requireBeadleOrAbove, async (req: A
       }
     });
 
+    const { calendar } = await loadCalendarForRecords(allAbsentRecords, startDate as string | undefined, endDate as string | undefined);
+    const absentRecords = onSchoolDays(calendar, allAbsentRecords);
+
     // Count absences per student
     const studentAbsenceCount = absentRecords.reduce((acc, record) => {
       const studentId = record.studentId;
@@ -267,10 +271,15 @@ router.get('/top-absent', authenticateToken, requireBeadleOrAbove, async (req: A
           student: record.student,
           section: record.section,
           absenceCount: 0,
+          excusedCount: 0,
           lastAbsence: record.date
         };
       }
-      acc[studentId].absenceCount++;
+      if (isUnexcusedAbsence(record.status)) {
+        acc[studentId].absenceCount++;
+      } else {
+        acc[studentId].excusedCount++;
+      }
       if (record.date > acc[studentId].lastAbsence) {
         acc[studentId].lastAbsence = record.date;
       }
@@ -302,39 +311,31 @@ router.get('/trends', authenticateToken, requireBeadleOrAbove, async (req: AuthR
       }
     };
 
-    // Apply role-based filtering
-    if (req.user!.role === 'beadle') {
-      whereClause.submittedBy = req.user!.id;
+    // Apply role-based filtering: beadles only see their assigned sections
+    const sectionFilter = await sectionScope(req.user!);
+    if (sectionFilter) {
+      whereClause.sectionId = sectionFilter;
     }
 
     const records = await prisma.attendanceRecord.findMany({
       where: whereClause,
       select: {
+        studentId: true,
+        sessionId: true,
         date: true,
-        status: true
+        status: true,
+        section: {
+          select: { gradeLevel: true }
+        }
       },
       orderBy: { date: 'asc' }
     });
 
-    // Group by date
-    const dailyStats = records.reduce((acc, record) => {
-      const date = record.date.toISOString().split('T')[0];
-      if (!acc[date]) {
-        acc[date] = { date, present: 0, absent: 0, total: 0 };
-      }
-      acc[date].total++;
-      if (record.status === 'present') {
-        acc[date].present++;
-      } else {
-        acc[date].absent++;
-      }
-      return acc;
-    }, {} as any);
+    const { calendar } = await loadCalendarForRecords(records, startDate, endDate);
 
-    const trends = Object.values(dailyStats).map((stat: any) => ({
-      ...stat,
-      attendanceRate: stat.total > 0 ? (stat.present / stat.total) * 100 : 0
-    }));
+    // Group by date
+    const trends = groupStatuses(rollupDaily(onSchoolDays(calendar, records)), record => record.date.toISOString().split('T')[0])
+      .map(({ key, summary }) => ({ date: key, ...summary }));
 
     // Calculate trend direction
     const recentTrend = trends.slice(-7); // Last 7 days
@@ -356,4 +357,84 @@ router.get('/trends', authenticateToken, requireBeadleOrAbove, async (req: AuthR
   }
 });
 
+// Today's marks in each section the user follows, with their open alerts. The
+// live dashboards reload this whenever an event arrives for one of the sections.
+router.get('/today', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const sectionIds = await watchedSectionIds(req.user!);
+    const sectionFilter = sectionIds ? { in: sectionIds } : undefined;
+    const today = schoolDateKey();
+
+    const [sections, records, alertGroups] = await Promise.all([
+      prisma.section.findMany({
+        where: { id: sectionFilter },
+        select: {
+          id: true,
+          name: true,
+          gradeLevel: true,
+          _count: { select: { students: { where: { enrollmentStatus: 'enrolled' } } } }
+        },
+        orderBy: [{ gradeLevel: 'asc' }, { name: 'asc' }]
+      }),
+      prisma.attendanceRecord.findMany({
+        where: { sectionId: sectionFilter, date: new Date(today) },
+        select: { studentId: true, sectionId: true, sessionId: true, date: true, status: true }
+      }),
+      prisma.alert.groupBy({
+        by: ['sectionId'],
+        where: { sectionId: sectionFilter, status: { in: ['open', 'acknowledged'] } },
+        _count: { _all: true }
+      })
+    ]);
+
+    const daily = rollupDaily(records);
+    const alertCounts = new Map(alertGroups.map(group => [group.sectionId, group._count._all]));
+
+    const sectionStats = sections.map(section => {
+      const marks = daily.filter(record => record.sectionId === section.id);
+      const students = section._count.students;
+
+      return {
+        id: section.id,
+        name: section.name,
+        gradeLevel: section.gradeLevel,
+        students,
+        marked: marks.length,
+        present: marks.filter(record => record.status === 'present').length,
+        late: marks.filter(record => record.status === 'late').length,
+        absent: marks.filter(record => isAbsence(record.status)).length,
+        completionRate: students > 0 ? Math.min(100, Math.round((marks.length / students) * 100)) : 0,
+        activeAlerts: alertCounts.get(section.id) || 0
+      };
+    });
+
+    const total = (key: 'students' | 'marked' | 'present' | 'late' | 'absent' | 'activeAlerts') =>
+      sectionStats.reduce((sum, section) => sum + section[key], 0);
+
+    res.json({
+      date: today,
+      totals: {
+        sections: sectionStats.length,
+        sectionsSubmitted: sectionStats.filter(section => section.marked > 0).length,
+        students: total('students'),
+        marked: total('marked'),
+        present: total('present'),
+        late: total('late'),
+        absent: total('absent'),
+        completionRate: total('students') > 0 ? Math.min(100, Math.round((total('marked') / total('students')) * 100)) : 0,
+        activeAlerts: total('activeAlerts')
+      },
+      sections: sectionStats
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Narrow a where clause to one class session or to every session of a subject
+function applySessionFilter(whereClause: Record<string, unknown>, sessionId?: string, subject?: string) {
+  if (sessionId) whereClause.sessionId = sessionId;
+  if (subject) whereClause.session = { subject };
+}
+
 export default router;
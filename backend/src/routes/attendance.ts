@@ -1,27 +1,81 @@
 import express from 'express';
 import Joi from 'joi';
-import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireBeadleOrAbove, AuthRequest } from '../middleware/auth';
-import { auditMiddleware } from '../middleware/audit';
+import { PrismaClient, AttendanceStatus } from '@prisma/client';
+import { authenticateToken, requireBeadleOrAbove, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware, logAuditEvent } from '../middleware/audit';
+import { updateAttendanceRecord } from '../services/attendanceService';
+import { checkLock, getLockState } from '../services/attendanceLock';
+import { getDatePolicy } from '../services/attendancePolicy';
+import { sectionScope } from '../services/sectionAssignments';
+import {
+  SubmittedRecord,
+  checkSubmission,
+  createAttendance,
+  publishAttendanceSaved,
+  queueAttendanceFollowUp
+} from '../services/attendanceSubmission';
+import { loadCalendarForRecords, onSchoolDays } from '../services/schoolCalendar';
+import { ATTENDANCE_STATUSES, REASON_CODES, summarizeStatuses, rollupDaily } from '../utils/attendanceStatus';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+interface RecordFields {
+  status: AttendanceStatus;
+  reasonCode: string | null;
+  proofUrl: string | null;
+  notes: string | null;
+}
+
+// What the client last saw on the server for a student (null = no record yet)
+interface BaselineRecord {
+  studentId: string;
+  status: AttendanceStatus | null;
+}
+
 // Validation schemas
 const markAttendanceSchema = Joi.object({
   sectionId: Joi.string().required(),
+  sessionId: Joi.string().optional(),
   date: Joi.date().required(),
   records: Joi.array().items(
     Joi.object({
       studentId: Joi.string().required(),
-      status: Joi.string().valid('present', 'absent').required(),
+      status: Joi.string().valid(...ATTENDANCE_STATUSES).required(),
+      reasonCode: Joi.string().valid(...REASON_CODES).optional(),
+      proofUrl: Joi.string().uri().optional(),
       notes: Joi.string().allow('').optional()
     })
-  ).min(1).required()
+  ).min(1).required(),
+  overrideReason: Joi.string().trim().min(3).optional()
+});
+
+const resubmitAttendanceSchema = markAttendanceSchema.keys({
+  baseline: Joi.array().items(
+    Joi.object({
+      studentId: Joi.string().required(),
+      status: Joi.string().valid(...ATTENDANCE_STATUSES).allow(null).required()
+    })
+  ).optional()
+});
+
+const lockQuerySchema = Joi.object({
+  sectionId: Joi.string().required(),
+  date: Joi.date().required()
+});
+
+const policyQuerySchema = Joi.object({
+  sectionId: Joi.string().required()
+});
+
+const overrideSchema = Joi.object({
+  overrideReason: Joi.string().trim().min(3).optional()
 });
 
 const getAttendanceSchema = Joi.object({
   sectionId: Joi.string().optional(),
+  sessionId: Joi.string().optional(),
+  subject: Joi.string().optional(),
   startDate: Joi.date().optional(),
   endDate: Joi.date().optional(),
   studentId: Joi.string().optional(),
@@ -40,67 +94,194 @@ router.post('/mark', authenticateToken, requireBeadleOrAbove, auditMiddleware('C
       });
     }
 
-    const { sectionId, date, records } = value;
+    const { sectionId, sessionId, date } = value;
 
-    // Verify section exists
-    const section = await prisma.section.findUnique({
-      where: { id: sectionId },
-      include: { students: true }
+    const result = await createAttendance(req.user!, {
+      sectionId,
+      sessionId,
+      date,
+      records: value.records,
+      overrideReason: value.overrideReason
     });
+    if (result.error) {
+      return res.status(result.error.status).json(result.error.body);
+    }
 
-    if (!section) {
-      return res.status(404).json({
-        error: 'Section not found',
-        code: 'SECTION_NOT_FOUND'
+    res.status(201).json({
+      message: 'Attendance marked successfully',
+      recordsCreated: result.recordsCreated,
+      date,
+      sectionId,
+      sessionId: sessionId || null,
+      lock: result.lock
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Resubmit or correct a day's attendance. Submitted records are compared with the
+// stored ones; new students are added, differing ones updated, the rest left alone.
+// Clients syncing queued offline marks send a baseline of what they last saw, and
+// get a 409 listing the students someone else has changed since.
+router.put('/mark', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = resubmitAttendanceSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
       });
     }
 
-    // Check if attendance already exists for this date
-    const existingAttendance = await prisma.attendanceRecord.findMany({
+    const { sectionId, sessionId, date } = value;
+    const records: SubmittedRecord[] = value.records;
+
+    const submissionError = await checkSubmission(req.user!, sectionId, sessionId, date, records);
+    if (submissionError) {
+      return res.status(submissionError.status).json(submissionError.body);
+    }
+
+    const existingRecords = await prisma.attendanceRecord.findMany({
       where: {
         sectionId,
+        sessionId: sessionId || null,
         date: new Date(date)
       }
     });
-
-    if (existingAttendance.length > 0) {
-      return res.status(409).json({
-        error: 'Attendance already marked for this date',
-        code: 'ATTENDANCE_EXISTS',
-        existingRecords: existingAttendance.length
-      });
+    const existingByStudent = new Map(existingRecords.map(record => [record.studentId, record]));
+
+    if (value.baseline) {
+      const submittedByStudent = new Map(records.map(record => [record.studentId, record]));
+      const conflicts = (value.baseline as BaselineRecord[])
+        .filter(base => {
+          const current = existingByStudent.get(base.studentId);
+          const submitted = submittedByStudent.get(base.studentId);
+          const currentStatus = current ? current.status : null;
+          return submitted && currentStatus !== base.status && currentStatus !== submitted.status;
+        })
+        .map(base => {
+          const current = existingByStudent.get(base.studentId);
+          const submitted = submittedByStudent.get(base.studentId)!;
+          return {
+            studentId: base.studentId,
+            baseline: base.status,
+            server: current
+              ? { status: current.status, reasonCode: current.reasonCode, updatedAt: current.updatedAt, submittedBy: current.submittedBy }
+              : null,
+            submitted: { status: submitted.status, reasonCode: submitted.reasonCode || null }
+          };
+        });
+
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          error: 'Attendance was changed by someone else since it was loaded',
+          code: 'ATTENDANCE_CONFLICT',
+          conflicts
+        });
+      }
     }
 
-    // Validate all students belong to the section
-    const studentIds = records.map(r => r.studentId);
-    const sectionStudentIds = section.students.map(s => s.id);
-    
-    const invalidStudents = studentIds.filter(id => !sectionStudentIds.includes(id));
-    if (invalidStudents.length > 0) {
-      return res.status(400).json({
-        error: 'Some students do not belong to this section',
-        code: 'INVALID_STUDENTS',
-        invalidStudentIds: invalidStudents
-      });
-    }
+    const added: SubmittedRecord[] = [];
+    const changed: Array<{ recordId: string; studentId: string; before: RecordFields; after: RecordFields }> = [];
+    const unchanged: string[] = [];
 
-    // Create attendance records
-    const attendanceRecords = await prisma.attendanceRecord.createMany({
-      data: records.map(record => ({
-        studentId: record.studentId,
-        sectionId,
-        date: new Date(date),
-        status: record.status as 'present' | 'absent',
-        submittedBy: req.user!.id,
+    records.forEach(record => {
+      const after: RecordFields = {
+        status: record.status,
+        reasonCode: record.reasonCode || null,
+        proofUrl: record.proofUrl || null,
         notes: record.notes || null
-      }))
+      };
+      const existing = existingByStudent.get(record.studentId);
+
+      if (!existing) {
+        added.push(record);
+        return;
+      }
+
+      const before: RecordFields = {
+        status: existing.status,
+        reasonCode: existing.reasonCode,
+        proofUrl: existing.proofUrl,
+        notes: existing.notes
+      };
+
+      if (
+        before.status === after.status &&
+        before.reasonCode === after.reasonCode &&
+        before.proofUrl === after.proofUrl &&
+        before.notes === after.notes
+      ) {
+        unchanged.push(record.studentId);
+      } else {
+        changed.push({ recordId: existing.id, studentId: record.studentId, before, after });
+      }
     });
 
-    res.status(201).json({
-      message: 'Attendance marked successfully',
-      recordsCreated: attendanceRecords.count,
+    const lockError = await checkLock(req.user!, sectionId, date, value.overrideReason, changed.length === 0);
+    if (lockError) {
+      return res.status(lockError.status).json(lockError.body);
+    }
+
+    await prisma.$transaction([
+      prisma.attendanceRecord.createMany({
+        data: added.map(record => ({
+          studentId: record.studentId,
+          sectionId,
+          sessionId: sessionId || null,
+          date: new Date(date),
+          status: record.status,
+          reasonCode: record.reasonCode || null,
+          proofUrl: record.proofUrl || null,
+          submittedBy: req.user!.id,
+          notes: record.notes || null
+        }))
+      }),
+      ...changed.map(change => prisma.attendanceRecord.update({
+        where: { id: change.recordId },
+        data: change.after
+      }))
+    ]);
+
+    // One audit entry per corrected student
+    await Promise.all(changed.map(change => logAuditEvent(
+      req.user!.id,
+      'UPDATE',
+      'attendance_records',
+      change.recordId,
+      change.before,
+      {
+        ...change.after,
+        studentId: change.studentId,
+        date,
+        sectionId,
+        sessionId: sessionId || null,
+        ...(value.overrideReason && { overrideReason: value.overrideReason })
+      }
+    )));
+
+    const marks = [
+      ...added.map(record => ({ studentId: record.studentId, date, status: record.status })),
+      ...changed.map(change => ({ studentId: change.studentId, date, status: change.after.status }))
+    ];
+    await queueAttendanceFollowUp(sectionId, sessionId || null, marks);
+    if (marks.length > 0) {
+      const type = existingRecords.length > 0 ? 'attendance.updated' : 'attendance.submitted';
+      await publishAttendanceSaved(type, sectionId, sessionId || null, date, marks);
+    }
+
+    res.json({
+      message: 'Attendance saved successfully',
       date,
-      sectionId
+      sectionId,
+      sessionId: sessionId || null,
+      diff: {
+        added: added.map(record => ({ studentId: record.studentId, status: record.status })),
+        changed: changed.map(({ studentId, before, after }) => ({ studentId, before, after })),
+        unchanged
+      },
+      lock: await getLockState(sectionId, date)
     });
   } catch (error) {
     next(error);
@@ -118,19 +299,16 @@ router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest
       });
     }
 
-    const { sectionId, startDate, endDate, studentId, page, limit } = value;
+    const { sectionId, sessionId, subject, startDate, endDate, studentId, page, limit } = value;
     const skip = (page - 1) * limit;
 
     // Build where clause based on user role
     let whereClause: any = {};
 
-    if (req.user!.role === 'beadle') {
-      // Beadles can only see their own submissions
-      whereClause.submittedBy = req.user!.id;
-    }
-
-    if (sectionId) {
-      whereClause.sectionId = sectionId;
+    // Beadles only see the sections assigned to them
+    const sectionFilter = await sectionScope(req.user!, sectionId);
+    if (sectionFilter) {
+      whereClause.sectionId = sectionFilter;
     }
 
     if (startDate || endDate) {
@@ -143,6 +321,14 @@ router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest
       whereClause.studentId = studentId;
     }
 
+    if (sessionId) {
+      whereClause.sessionId = sessionId;
+    }
+
+    if (subject) {
+      whereClause.session = { subject };
+    }
+
     const [records, total] = await Promise.all([
       prisma.attendanceRecord.findMany({
         where: whereClause,
@@ -164,6 +350,14 @@ router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest
               schoolYear: true
             }
           },
+          session: {
+            select: {
+              id: true,
+              subject: true,
+              startTime: true,
+              endTime: true
+            }
+          },
           submittedByUser: {
             select: {
               id: true,
@@ -196,16 +390,13 @@ router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest
 // Get attendance statistics
 router.get('/stats', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
-    const { sectionId, startDate, endDate } = req.query;
+    const { sectionId, sessionId, subject, startDate, endDate } = req.query;
 
     let whereClause: any = {};
 
-    if (req.user!.role === 'beadle') {
-      whereClause.submittedBy = req.user!.id;
-    }
-
-    if (sectionId) {
-      whereClause.sectionId = sectionId;
+    const sectionFilter = await sectionScope(req.user!, sectionId as string | undefined);
+    if (sectionFilter) {
+      whereClause.sectionId = sectionFilter;
     }
 
     if (startDate || endDate) {
@@ -214,37 +405,96 @@ router.get('/stats', authenticateToken, requireBeadleOrAbove, async (req: AuthRe
       if (endDate) whereClause.date.lte = new Date(endDate as string);
     }
 
-    const [totalRecords, presentRecords, absentRecords] = await Promise.all([
-      prisma.attendanceRecord.count({ where: whereClause }),
-      prisma.attendanceRecord.count({ 
-        where: { ...whereClause, status: 'present' } 
-      }),
-      prisma.attendanceRecord.count({ 
-        where: { ...whereClause, status: 'absent' } 
-      })
-    ]);
+    if (sessionId) whereClause.sessionId = sessionId;
+    if (subject) whereClause.session = { subject };
+
+    const allRecords = await prisma.attendanceRecord.findMany({
+      where: whereClause,
+      select: {
+        studentId: true,
+        date: true,
+        status: true,
+        sessionId: true,
+        section: {
+          select: { gradeLevel: true }
+        }
+      }
+    });
+
+    // Only school days count; a session or subject filter reports per-period
+    // figures, otherwise marks are rolled up to one status per student per day
+    const { calendar, start, end } = await loadCalendarForRecords(allRecords, startDate as string | undefined, endDate as string | undefined);
+    const schoolDayRecords = onSchoolDays(calendar, allRecords);
+    const records = sessionId || subject ? schoolDayRecords : rollupDaily(schoolDayRecords);
 
-    const attendanceRate = totalRecords > 0 ? (presentRecords / totalRecords) * 100 : 0;
+    const section = sectionId
+      ? await prisma.section.findUnique({ where: { id: sectionId as string }, select: { gradeLevel: true } })
+      : null;
 
     res.json({
-      totalRecords,
-      presentRecords,
-      absentRecords,
-      attendanceRate: Math.round(attendanceRate * 100) / 100
+      ...summarizeStatuses(records.map(r => r.status)),
+      daysOfSchool: calendar.schoolDays(start, end, section?.gradeLevel).length
     });
   } catch (error) {
     next(error);
   }
 });
 
+// Get whether a section's attendance for a day is finalized
+router.get('/lock', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = lockQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    res.json({ lock: await getLockState(value.sectionId, value.date) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the dates the current user may submit for a section
+router.get('/policy', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = policyQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const section = await prisma.section.findUnique({
+      where: { id: value.sectionId },
+      select: { id: true, gradeLevel: true }
+    });
+
+    if (!section) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    res.json({ policy: await getDatePolicy(req.user!.role, section) });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update attendance record (for coordinators and admins)
 router.put('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'attendance_records'), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
     const updateSchema = Joi.object({
-      status: Joi.string().valid('present', 'absent'),
+      status: Joi.string().valid(...ATTENDANCE_STATUSES),
+      reasonCode: Joi.string().valid(...REASON_CODES).allow(null),
       notes: Joi.string().allow('')
-    });
+    }).concat(overrideSchema);
 
     const { error, value } = updateSchema.validate(req.body);
     if (error) {
@@ -254,18 +504,11 @@ router.put('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('UP
       });
     }
 
-    // Get existing record for audit
+    const { overrideReason, ...changes } = value;
+
     const existingRecord = await prisma.attendanceRecord.findUnique({
       where: { id },
-      include: {
-        student: {
-          select: {
-            firstName: true,
-            lastName: true,
-            studentNumber: true
-          }
-        }
-      }
+      select: { sectionId: true, date: true }
     });
 
     if (!existingRecord) {
@@ -275,39 +518,29 @@ router.put('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('UP
       });
     }
 
+    const lockError = await checkLock(req.user!, existingRecord.sectionId, existingRecord.date, overrideReason);
+    if (lockError) {
+      return res.status(lockError.status).json(lockError.body);
+    }
+
+    const result = await updateAttendanceRecord(id, changes);
+
+    if (!result) {
+      return res.status(404).json({
+        error: 'Attendance record not found',
+        code: 'RECORD_NOT_FOUND'
+      });
+    }
+
     // Store old data for audit
-    req.oldData = {
-      status: existingRecord.status,
-      notes: existingRecord.notes
-    };
+    req.oldData = result.oldData;
 
-    const updatedRecord = await prisma.attendanceRecord.update({
-      where: { id },
-      data: value,
-      include: {
-        student: {
-          select: {
-            id: true,
-            studentNumber: true,
-            firstName: true,
-            lastName: true,
-            middleName: true
-          }
-        },
-        section: {
-          select: {
-            id: true,
-            name: true,
-            gradeLevel: true,
-            schoolYear: true
-          }
-        }
-      }
-    });
+    await queueAttendanceFollowUp(result.record.sectionId, result.record.sessionId, [result.record]);
+    await publishAttendanceSaved('attendance.updated', result.record.sectionId, result.record.sessionId, result.record.date, [result.record]);
 
     res.json({
       message: 'Attendance record updated successfully',
-      record: updatedRecord
+      record: result.record
     });
   } catch (error) {
     next(error);
@@ -319,6 +552,14 @@ router.delete('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware(
   try {
     const { id } = req.params;
 
+    const { error, value } = overrideSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
     const existingRecord = await prisma.attendanceRecord.findUnique({
       where: { id },
       include: {
@@ -339,6 +580,11 @@ router.delete('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware(
       });
     }
 
+    const lockError = await checkLock(req.user!, existingRecord.sectionId, existingRecord.date, value.overrideReason);
+    if (lockError) {
+      return res.status(lockError.status).json(lockError.body);
+    }
+
     await prisma.attendanceRecord.delete({
       where: { id }
     });
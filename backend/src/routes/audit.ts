@@ -0,0 +1,106 @@
+import express from 'express';
+import Joi from 'joi';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { auditFacets, findAuditLogs } from '../services/auditLog';
+
+const router = express.Router();
+
+// Most entries in one CSV export, read a page at a time
+const EXPORT_LIMIT = 10000;
+const EXPORT_PAGE = 500;
+
+// Validation schemas
+const getAuditSchema = Joi.object({
+  userId: Joi.string(),
+  action: Joi.string(),
+  table: Joi.string(),
+  recordId: Joi.string(),
+  startDate: Joi.date(),
+  endDate: Joi.date().when('startDate', { is: Joi.exist(), then: Joi.date().min(Joi.ref('startDate')) }),
+  q: Joi.string().trim().max(100),
+  cursor: Joi.string(),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  format: Joi.string().valid('json', 'csv').default('json')
+});
+
+// Cells starting with = + - @, a tab or a carriage return get a leading ' so
+// spreadsheets don't run them as formulas
+const csvCell = (value: unknown) => {
+  const raw = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_HEADER = ['Time', 'User', 'Email', 'Action', 'Table', 'Record', 'Changes', 'Old data', 'New data'];
+
+// Audit log entries, newest first, with each one's changed fields. Pass the
+// nextCursor of a page as cursor for the next. format=csv downloads every
+// matching entry (up to 10000) instead.
+router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getAuditSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { cursor, limit, format, ...filters } = value;
+
+    if (format === 'csv') {
+      const lines = [CSV_HEADER.join(',')];
+      let pageCursor: string | undefined;
+      let exported = 0;
+
+      do {
+        const page = (await findAuditLogs(filters, pageCursor, Math.min(EXPORT_PAGE, EXPORT_LIMIT - exported)))!;
+        page.entries.forEach(entry => {
+          const changes = entry.changes
+            .map(change => `${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`)
+            .join('; ');
+          lines.push([
+            entry.createdAt.toISOString(),
+            entry.user.fullName,
+            entry.user.email,
+            entry.action,
+            entry.tableName,
+            entry.recordId,
+            changes,
+            entry.oldData,
+            entry.newData
+          ].map(csvCell).join(','));
+        });
+        exported += page.entries.length;
+        pageCursor = page.nextCursor || undefined;
+      } while (pageCursor && exported < EXPORT_LIMIT);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      return res.send(`${lines.join('\n')}\n`);
+    }
+
+    const page = await findAuditLogs(filters, cursor, limit);
+    if (!page) {
+      return res.status(400).json({
+        error: 'Unknown cursor',
+        code: 'INVALID_CURSOR'
+      });
+    }
+
+    res.json(page);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Actions, tables and users found in the log, for the filters
+router.get('/facets', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    res.json(await auditFacets());
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
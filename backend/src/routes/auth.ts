@@ -1,9 +1,12 @@
 import express from 'express';
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { verifySetupCode } from '../utils/setupCode';
+import { queueEmail } from '../services/emailOutbox';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -21,11 +24,42 @@ const loginSchema = Joi.object({
   password: Joi.string().required()
 });
 
+const studentLoginSchema = Joi.object({
+  studentNumber: Joi.string().trim().required(),
+  password: Joi.string().required()
+});
+
+const studentSetupSchema = Joi.object({
+  studentNumber: Joi.string().trim().required(),
+  setupCode: Joi.string().trim().required(),
+  password: Joi.string().min(6).required()
+});
+
 const changePasswordSchema = Joi.object({
   currentPassword: Joi.string().required(),
   newPassword: Joi.string().min(6).required()
 });
 
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  password: Joi.string().min(6).required()
+});
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+const hashResetToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const signToken = (user: { id: string; email: string; role: string }) =>
+  jwt.sign(
+    { userId: user.id, email: user.email, role: user.role },
+    process.env.JWT_SECRET!,
+    { expiresIn: (process.env.JWT_EXPIRES_IN || '7d') as jwt.SignOptions['expiresIn'] }
+  );
+
 // Register new user
 router.post('/register', async (req, res, next) => {
   try {
@@ -72,11 +106,7 @@ router.post('/register', async (req, res, next) => {
     });
 
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-    );
+    const token = signToken(user);
 
     res.status(201).json({
       message: 'User registered successfully',
@@ -131,11 +161,7 @@ router.post('/login', async (req, res, next) => {
     }
 
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-    );
+    const token = signToken(user);
 
     res.json({
       message: 'Login successful',
@@ -152,6 +178,140 @@ router.post('/login', async (req, res, next) => {
   }
 });
 
+// Find the account provisioned for a student number
+const findStudentAccount = async (studentNumber: string) => {
+  const student = await prisma.student.findUnique({
+    where: { studentNumber },
+    select: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          password: true,
+          fullName: true,
+          role: true,
+          isActive: true,
+          passwordSetupCode: true,
+          passwordSetupExpiresAt: true
+        }
+      }
+    }
+  });
+
+  const user = student?.user;
+  return user && user.isActive && user.role === 'student' ? user : null;
+};
+
+// Login a student with their student number
+router.post('/student-login', async (req, res, next) => {
+  try {
+    const { error, value } = studentLoginSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const user = await findStudentAccount(value.studentNumber);
+    if (!user) {
+      return res.status(401).json({
+        error: 'Invalid credentials',
+        code: 'INVALID_CREDENTIALS'
+      });
+    }
+
+    if (user.passwordSetupCode) {
+      return res.status(403).json({
+        error: 'Set your password with the setup code from your adviser first',
+        code: 'PASSWORD_SETUP_REQUIRED'
+      });
+    }
+
+    const isValidPassword = await bcrypt.compare(value.password, user.password);
+    if (!isValidPassword) {
+      return res.status(401).json({
+        error: 'Invalid credentials',
+        code: 'INVALID_CREDENTIALS'
+      });
+    }
+
+    // Generate JWT token
+    const token = signToken(user);
+
+    res.json({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role
+      },
+      token
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// First login for a provisioned student: trade the one-time setup code for a
+// password of their own
+router.post('/student-setup', async (req, res, next) => {
+  try {
+    const { error, value } = studentSetupSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const user = await findStudentAccount(value.studentNumber);
+    if (
+      !user ||
+      !user.passwordSetupCode ||
+      !verifySetupCode(value.setupCode, user.passwordSetupCode)
+    ) {
+      return res.status(401).json({
+        error: 'Invalid student number or setup code',
+        code: 'INVALID_SETUP_CODE'
+      });
+    }
+
+    if (user.passwordSetupExpiresAt && user.passwordSetupExpiresAt < new Date()) {
+      return res.status(410).json({
+        error: 'This setup code has expired, ask your adviser for a new one',
+        code: 'SETUP_CODE_EXPIRED'
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await bcrypt.hash(value.password, 12),
+        passwordSetupCode: null,
+        passwordSetupExpiresAt: null
+      }
+    });
+
+    // Generate JWT token
+    const token = signToken(user);
+
+    res.json({
+      message: 'Password set successfully',
+      user: {
+        id: user.id,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role
+      },
+      token
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get current user profile
 router.get('/profile', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
@@ -287,6 +447,90 @@ router.put('/change-password', authenticateToken, async (req: AuthRequest, res,
   }
 });
 
+// Email a password reset link. The response is the same whether or not the
+// address has an account so it can't be used to look accounts up. Students reset
+// through their adviser's setup codes instead.
+router.post('/forgot-password', async (req, res, next) => {
+  try {
+    const { error, value } = forgotPasswordSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: value.email },
+      select: { id: true, fullName: true, email: true, role: true, isActive: true }
+    });
+
+    if (user && user.isActive && user.role !== 'student') {
+      const token = crypto.randomBytes(32).toString('hex');
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          passwordResetToken: hashResetToken(token),
+          passwordResetExpiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+        }
+      });
+
+      await queueEmail(user.email, 'password_reset', {
+        fullName: user.fullName,
+        resetUrl: `${process.env.FRONTEND_URL || 'http://localhost:8080'}/reset-password?token=${token}`,
+        expiresInMinutes: RESET_TOKEN_TTL_MINUTES
+      });
+    }
+
+    res.json({
+      message: 'If that email has an account, a reset link is on its way'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set a new password with the token from a reset link. Each link works once.
+router.post('/reset-password', async (req, res, next) => {
+  try {
+    const { error, value } = resetPasswordSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { passwordResetToken: hashResetToken(value.token) },
+      select: { id: true, isActive: true, passwordResetExpiresAt: true }
+    });
+
+    if (!user || !user.isActive || !user.passwordResetExpiresAt || user.passwordResetExpiresAt < new Date()) {
+      return res.status(400).json({
+        error: 'This reset link is invalid or has expired',
+        code: 'INVALID_RESET_TOKEN'
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await bcrypt.hash(value.password, 12),
+        passwordResetToken: null,
+        passwordResetExpiresAt: null
+      }
+    });
+
+    res.json({
+      message: 'Password reset successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Verify token
 router.get('/verify', authenticateToken, (req: AuthRequest, res) => {
   res.json({
@@ -0,0 +1,280 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireCoordinatorOrAdmin, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { loadSchoolCalendar } from '../services/schoolCalendar';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const EVENT_TYPES = ['holiday', 'suspension', 'non_school_day', 'school_day'];
+
+// Validation schemas
+const createEventSchema = Joi.object({
+  title: Joi.string().min(1).required(),
+  type: Joi.string().valid(...EVENT_TYPES).required(),
+  startDate: Joi.date().required(),
+  endDate: Joi.date().min(Joi.ref('startDate')).optional(),
+  gradeLevels: Joi.array().items(Joi.string()).default([]),
+  description: Joi.string().allow('').optional()
+});
+
+const updateEventSchema = Joi.object({
+  title: Joi.string().min(1),
+  type: Joi.string().valid(...EVENT_TYPES),
+  startDate: Joi.date(),
+  endDate: Joi.date(),
+  gradeLevels: Joi.array().items(Joi.string()),
+  description: Joi.string().allow('')
+});
+
+const getEventsSchema = Joi.object({
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional(),
+  type: Joi.string().valid(...EVENT_TYPES).optional(),
+  gradeLevel: Joi.string().optional()
+});
+
+const schoolDaysSchema = Joi.object({
+  startDate: Joi.date().required(),
+  endDate: Joi.date().min(Joi.ref('startDate')).required(),
+  gradeLevel: Joi.string().optional()
+});
+
+const weekendRulesSchema = Joi.object({
+  days: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().required()
+});
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Get calendar events
+router.get('/events', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getEventsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { startDate, endDate, type, gradeLevel } = value;
+    const whereClause: Prisma.CalendarEventWhereInput = {};
+
+    if (startDate) whereClause.endDate = { gte: startDate };
+    if (endDate) whereClause.startDate = { lte: endDate };
+    if (type) whereClause.type = type;
+    if (gradeLevel) {
+      whereClause.OR = [
+        { gradeLevels: { isEmpty: true } },
+        { gradeLevels: { has: gradeLevel } }
+      ];
+    }
+
+    const events = await prisma.calendarEvent.findMany({
+      where: whereClause,
+      orderBy: { startDate: 'asc' }
+    });
+
+    res.json({ events });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get school days and closures in a date range
+router.get('/school-days', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = schoolDaysSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { startDate, endDate, gradeLevel } = value;
+    const calendar = await loadSchoolCalendar(startDate, endDate);
+    const schoolDays = calendar.schoolDays(startDate, endDate, gradeLevel);
+
+    res.json({
+      startDate,
+      endDate,
+      gradeLevel: gradeLevel || null,
+      daysOfSchool: schoolDays.length,
+      schoolDays,
+      nonSchoolDays: calendar.nonSchoolDays(startDate, endDate, gradeLevel)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create calendar event
+router.post('/events', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('CREATE', 'calendar_events'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createEventSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const event = await prisma.calendarEvent.create({
+      data: {
+        ...value,
+        endDate: value.endDate || value.startDate,
+        createdBy: req.user!.id
+      }
+    });
+
+    res.status(201).json({
+      message: 'Calendar event created successfully',
+      event
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update calendar event
+router.put('/events/:id', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('UPDATE', 'calendar_events'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateEventSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingEvent = await prisma.calendarEvent.findUnique({
+      where: { id }
+    });
+
+    if (!existingEvent) {
+      return res.status(404).json({
+        error: 'Calendar event not found',
+        code: 'EVENT_NOT_FOUND'
+      });
+    }
+
+    const startDate = value.startDate || existingEvent.startDate;
+    const endDate = value.endDate || existingEvent.endDate;
+    if (endDate < startDate) {
+      return res.status(400).json({
+        error: 'End date must not be before start date',
+        code: 'INVALID_DATE_RANGE'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      title: existingEvent.title,
+      type: existingEvent.type,
+      startDate: existingEvent.startDate,
+      endDate: existingEvent.endDate,
+      gradeLevels: existingEvent.gradeLevels,
+      description: existingEvent.description
+    };
+
+    const event = await prisma.calendarEvent.update({
+      where: { id },
+      data: value
+    });
+
+    res.json({
+      message: 'Calendar event updated successfully',
+      event
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete calendar event
+router.delete('/events/:id', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('DELETE', 'calendar_events'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingEvent = await prisma.calendarEvent.findUnique({
+      where: { id }
+    });
+
+    if (!existingEvent) {
+      return res.status(404).json({
+        error: 'Calendar event not found',
+        code: 'EVENT_NOT_FOUND'
+      });
+    }
+
+    await prisma.calendarEvent.delete({
+      where: { id }
+    });
+
+    res.json({
+      message: 'Calendar event deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get recurring weekend rules
+router.get('/weekend-rules', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const rules = await prisma.weekendRule.findMany({
+      orderBy: { dayOfWeek: 'asc' }
+    });
+
+    res.json({ rules });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace the set of recurring weekdays without classes
+router.put('/weekend-rules', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('UPDATE', 'weekend_rules'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = weekendRulesSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingRules = await prisma.weekendRule.findMany();
+
+    // Store old data for audit
+    req.oldData = { days: existingRules.map(rule => rule.dayOfWeek) };
+
+    const days: number[] = value.days;
+    await prisma.$transaction([
+      prisma.weekendRule.deleteMany({
+        where: { dayOfWeek: { notIn: days } }
+      }),
+      ...days
+        .filter(day => !existingRules.some(rule => rule.dayOfWeek === day))
+        .map(day => prisma.weekendRule.create({
+          data: { dayOfWeek: day, description: DAY_NAMES[day] }
+        }))
+    ]);
+
+    const rules = await prisma.weekendRule.findMany({
+      orderBy: { dayOfWeek: 'asc' }
+    });
+
+    res.json({
+      message: 'Weekend rules updated successfully',
+      rules
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
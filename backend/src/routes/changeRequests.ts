@@ -0,0 +1,464 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireBeadleOrAbove, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware, logAuditEvent } from '../middleware/audit';
+import { updateAttendanceRecord } from '../services/attendanceService';
+import { getLockState, logLockOverride } from '../services/attendanceLock';
+import { publishAttendanceSaved, queueAttendanceFollowUp } from '../services/attendanceSubmission';
+import { checkAssignment } from '../services/sectionAssignments';
+import { notifyUser } from '../services/notificationService';
+import { ATTENDANCE_STATUSES, REASON_CODES } from '../utils/attendanceStatus';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createRequestSchema = Joi.object({
+  attendanceRecordId: Joi.string().required(),
+  proposedStatus: Joi.string().valid(...ATTENDANCE_STATUSES).required(),
+  proposedReasonCode: Joi.string().valid(...REASON_CODES).optional(),
+  reason: Joi.string().min(1).required(),
+  proofFileId: Joi.string().optional()
+});
+
+const getRequestsSchema = Joi.object({
+  status: Joi.string().valid('pending', 'approved', 'rejected').optional(),
+  sectionId: Joi.string().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const approveSchema = Joi.object({
+  comment: Joi.string().allow('').optional()
+});
+
+const rejectSchema = Joi.object({
+  comment: Joi.string().min(1).required()
+});
+
+const requestInclude = {
+  attendanceRecord: {
+    include: {
+      student: {
+        select: {
+          id: true,
+          studentNumber: true,
+          firstName: true,
+          lastName: true
+        }
+      },
+      section: {
+        select: {
+          id: true,
+          name: true,
+          gradeLevel: true,
+          adviserId: true
+        }
+      },
+      session: {
+        select: {
+          id: true,
+          subject: true,
+          startTime: true,
+          endTime: true
+        }
+      }
+    }
+  },
+  requester: {
+    select: {
+      id: true,
+      fullName: true,
+      role: true
+    }
+  },
+  reviewer: {
+    select: {
+      id: true,
+      fullName: true,
+      role: true
+    }
+  },
+  proofFile: {
+    select: {
+      id: true,
+      name: true,
+      url: true,
+      type: true
+    }
+  }
+};
+
+// Coordinators and admins review any section; advisers only their own
+const canReview = (user: NonNullable<AuthRequest['user']>, adviserId: string | null) =>
+  user.role === 'coordinator' || user.role === 'admin' || adviserId === user.id;
+
+const describeRecord = (record: { date: Date; student: { firstName: string; lastName: string } }) =>
+  `${record.student.firstName} ${record.student.lastName} on ${record.date.toISOString().split('T')[0]}`;
+
+// Get change requests. Beadles see their own, advisers their own plus those for
+// sections they advise, coordinators and admins see every request.
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getRequestsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { status, sectionId, page, limit } = value;
+    const user = req.user!;
+    const whereClause: Prisma.AttendanceChangeRequestWhereInput = {};
+
+    if (status) whereClause.status = status;
+    if (sectionId) whereClause.attendanceRecord = { sectionId };
+
+    if (user.role === 'beadle') {
+      whereClause.requestedBy = user.id;
+    } else if (user.role === 'adviser') {
+      whereClause.OR = [
+        { requestedBy: user.id },
+        { attendanceRecord: { section: { adviserId: user.id } } }
+      ];
+    }
+
+    const [requests, total] = await Promise.all([
+      prisma.attendanceChangeRequest.findMany({
+        where: whereClause,
+        include: requestInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.attendanceChangeRequest.count({ where: whereClause })
+    ]);
+
+    res.json({
+      requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get change request by ID
+router.get('/:id', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const request = await prisma.attendanceChangeRequest.findUnique({
+      where: { id: req.params.id },
+      include: requestInclude
+    });
+
+    if (!request) {
+      return res.status(404).json({
+        error: 'Change request not found',
+        code: 'CHANGE_REQUEST_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    if (request.requestedBy !== user.id && !canReview(user, request.attendanceRecord.section.adviserId)) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    res.json({ request });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// File a change request against an attendance record
+router.post('/', authenticateToken, requireBeadleOrAbove, auditMiddleware('CREATE', 'attendance_change_requests'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createRequestSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const record = await prisma.attendanceRecord.findUnique({
+      where: { id: value.attendanceRecordId },
+      include: {
+        student: {
+          select: {
+            firstName: true,
+            lastName: true
+          }
+        },
+        section: {
+          select: {
+            adviserId: true
+          }
+        }
+      }
+    });
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Attendance record not found',
+        code: 'RECORD_NOT_FOUND'
+      });
+    }
+
+    const assignmentError = await checkAssignment(req.user!, record.sectionId);
+    if (assignmentError) {
+      return res.status(assignmentError.status).json(assignmentError.body);
+    }
+
+    if (record.status === value.proposedStatus && (record.reasonCode ?? undefined) === value.proposedReasonCode) {
+      return res.status(400).json({
+        error: 'Proposed change matches the current record',
+        code: 'NO_CHANGE'
+      });
+    }
+
+    if (value.proofFileId) {
+      const proofFile = await prisma.storedFile.findUnique({
+        where: { id: value.proofFileId }
+      });
+
+      if (!proofFile) {
+        return res.status(404).json({
+          error: 'Proof file not found',
+          code: 'FILE_NOT_FOUND'
+        });
+      }
+    }
+
+    const pendingRequest = await prisma.attendanceChangeRequest.findFirst({
+      where: {
+        attendanceRecordId: value.attendanceRecordId,
+        requestedBy: req.user!.id,
+        status: 'pending'
+      }
+    });
+
+    if (pendingRequest) {
+      return res.status(409).json({
+        error: 'A pending change request already exists for this record',
+        code: 'CHANGE_REQUEST_EXISTS',
+        requestId: pendingRequest.id
+      });
+    }
+
+    const request = await prisma.attendanceChangeRequest.create({
+      data: {
+        ...value,
+        requestedBy: req.user!.id
+      },
+      include: requestInclude
+    });
+
+    if (record.section.adviserId && record.section.adviserId !== req.user!.id) {
+      await notifyUser(
+        record.section.adviserId,
+        'change_request_submitted',
+        'Attendance change request',
+        `${req.user!.fullName} asked to change ${describeRecord(record)} from ${record.status} to ${value.proposedStatus}.`,
+        { changeRequestId: request.id }
+      );
+    }
+
+    res.status(201).json({
+      message: 'Change request submitted successfully',
+      request
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve a change request and apply it to the attendance record
+router.put('/:id/approve', authenticateToken, requireAdviserOrAbove, auditMiddleware('APPROVE', 'attendance_change_requests'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = approveSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const request = await prisma.attendanceChangeRequest.findUnique({
+      where: { id },
+      include: requestInclude
+    });
+
+    if (!request) {
+      return res.status(404).json({
+        error: 'Change request not found',
+        code: 'CHANGE_REQUEST_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    if (!canReview(user, request.attendanceRecord.section.adviserId)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can review this request',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    const changes = {
+      status: request.proposedStatus,
+      reasonCode: request.proposedReasonCode
+    };
+
+    // Claim the request and apply it together, so two reviewers can't both approve
+    // it and a failure leaves it pending
+    const result = await prisma.$transaction(async tx => {
+      const claimed = await tx.attendanceChangeRequest.updateMany({
+        where: { id, status: 'pending' },
+        data: {
+          status: 'approved',
+          reviewedBy: user.id,
+          reviewComment: value.comment || null,
+          reviewedAt: new Date()
+        }
+      });
+      if (claimed.count === 0) return null;
+
+      // Deleting the record deletes its requests, so a claimed request's record exists
+      const updated = await updateAttendanceRecord(request.attendanceRecordId, changes, tx);
+      if (!updated) {
+        throw new Error(`Attendance record ${request.attendanceRecordId} of change request ${id} not found`);
+      }
+      return updated;
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        error: 'Change request has already been reviewed',
+        code: 'REQUEST_NOT_PENDING'
+      });
+    }
+
+    // Approving a change to a finalized day is an override, justified by the request itself
+    const lock = await getLockState(request.attendanceRecord.sectionId, request.attendanceRecord.date);
+    if (lock.finalized) {
+      await logLockOverride(user.id, lock, `Change request ${request.id}: ${request.reason}`);
+    }
+
+    await logAuditEvent(user.id, 'UPDATE', 'attendance_records', request.attendanceRecordId, result.oldData, {
+      ...changes,
+      changeRequestId: request.id
+    });
+    await queueAttendanceFollowUp(result.record.sectionId, result.record.sessionId, [result.record]);
+    await publishAttendanceSaved('attendance.updated', result.record.sectionId, result.record.sessionId, result.record.date, [result.record]);
+
+    // Store old data for audit
+    req.oldData = { status: request.status };
+
+    const reviewedRequest = await prisma.attendanceChangeRequest.findUnique({
+      where: { id },
+      include: requestInclude
+    });
+
+    await notifyUser(
+      request.requestedBy,
+      'change_request_approved',
+      'Change request approved',
+      `${user.fullName} approved your change for ${describeRecord(request.attendanceRecord)}.`,
+      { changeRequestId: request.id, attendanceRecordId: request.attendanceRecordId }
+    );
+
+    res.json({
+      message: 'Change request approved successfully',
+      request: reviewedRequest,
+      record: result.record
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject a change request, leaving the attendance record untouched
+router.put('/:id/reject', authenticateToken, requireAdviserOrAbove, auditMiddleware('REJECT', 'attendance_change_requests'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = rejectSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const request = await prisma.attendanceChangeRequest.findUnique({
+      where: { id },
+      include: requestInclude
+    });
+
+    if (!request) {
+      return res.status(404).json({
+        error: 'Change request not found',
+        code: 'CHANGE_REQUEST_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    if (!canReview(user, request.attendanceRecord.section.adviserId)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can review this request',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    const claimed = await prisma.attendanceChangeRequest.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'rejected',
+        reviewedBy: user.id,
+        reviewComment: value.comment,
+        reviewedAt: new Date()
+      }
+    });
+
+    if (claimed.count === 0) {
+      return res.status(409).json({
+        error: 'Change request has already been reviewed',
+        code: 'REQUEST_NOT_PENDING'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = { status: request.status };
+
+    const reviewedRequest = await prisma.attendanceChangeRequest.findUnique({
+      where: { id },
+      include: requestInclude
+    });
+
+    await notifyUser(
+      request.requestedBy,
+      'change_request_rejected',
+      'Change request rejected',
+      `${user.fullName} rejected your change for ${describeRecord(request.attendanceRecord)}: ${value.comment}`,
+      { changeRequestId: request.id, attendanceRecordId: request.attendanceRecordId }
+    );
+
+    res.json({
+      message: 'Change request rejected',
+      request: reviewedRequest
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,318 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireBeadleOrAbove, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { dateKey } from '../services/schoolCalendar';
+import { checkAssignment } from '../services/sectionAssignments';
+import { selfCheckIn } from '../services/selfCheckIn';
+import {
+  TOKEN_WINDOW_MS,
+  createCheckInToken,
+  currentWindow,
+  generateSessionSecret,
+  windowEndsAt
+} from '../utils/checkInToken';
+import { schoolToday } from '../utils/schoolTime';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createSessionSchema = Joi.object({
+  sectionId: Joi.string().required()
+});
+
+const checkInSchema = Joi.object({
+  token: Joi.string().required(),
+  studentNumber: Joi.string().trim().required()
+});
+
+const getCheckInsSchema = Joi.object({
+  sectionId: Joi.string().required(),
+  date: Joi.date().optional(),
+  since: Joi.date().optional()
+});
+
+// Never expose the signing secret
+const sessionSelect = {
+  id: true,
+  sectionId: true,
+  date: true,
+  createdBy: true,
+  closedAt: true,
+  createdAt: true,
+  section: {
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true,
+      adviserId: true
+    }
+  }
+};
+
+const checkInInclude = {
+  student: {
+    select: {
+      id: true,
+      studentNumber: true,
+      firstName: true,
+      lastName: true
+    }
+  }
+};
+
+const canManage = (user: NonNullable<AuthRequest['user']>, session: { createdBy: string; section: { adviserId: string | null } }) =>
+  user.role === 'coordinator' ||
+  user.role === 'admin' ||
+  session.createdBy === user.id ||
+  session.section.adviserId === user.id;
+
+// Student self check-in from the phone page. Public: the signed, short-lived
+// token stands in for authentication.
+router.post('/', async (req, res, next) => {
+  try {
+    const { error, value } = checkInSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const result = await selfCheckIn(value.token, value.studentNumber, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    if ('error' in result) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    res.status(201).json({
+      message: 'Checked in successfully',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get check-ins for a section and day (today by default), optionally only those
+// after `since`. Beadles only see sections assigned to them that day.
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getCheckInsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { sectionId, since } = value;
+    const day = value.date ? new Date(dateKey(value.date)) : schoolToday();
+
+    const assignmentError = await checkAssignment(req.user!, sectionId, day);
+    if (assignmentError) {
+      return res.status(assignmentError.status).json(assignmentError.body);
+    }
+
+    const checkIns = await prisma.checkIn.findMany({
+      where: {
+        session: { sectionId, date: day },
+        ...(since && { checkedInAt: { gt: since } })
+      },
+      include: checkInInclude,
+      orderBy: { checkedInAt: 'asc' }
+    });
+
+    res.json({ checkIns });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Open a check-in session for a section today, reusing one that is still open
+router.post('/sessions', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'check_in_sessions'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createSessionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const section = await prisma.section.findUnique({
+      where: { id: value.sectionId }
+    });
+
+    if (!section) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    if (user.role === 'adviser' && section.adviserId !== user.id) {
+      return res.status(403).json({
+        error: 'Only the section adviser can open check-in for this section',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    const today = schoolToday();
+
+    const openSession = await prisma.checkInSession.findFirst({
+      where: { sectionId: section.id, date: today, closedAt: null },
+      select: sessionSelect
+    });
+
+    if (openSession) {
+      return res.json({
+        message: 'Check-in session already open',
+        session: openSession
+      });
+    }
+
+    const session = await prisma.checkInSession.create({
+      data: {
+        sectionId: section.id,
+        date: today,
+        secret: generateSessionSecret(),
+        createdBy: user.id
+      },
+      select: sessionSelect
+    });
+
+    res.status(201).json({
+      message: 'Check-in session opened successfully',
+      session
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a check-in session with its check-ins
+router.get('/sessions/:id', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const session = await prisma.checkInSession.findUnique({
+      where: { id: req.params.id },
+      select: {
+        ...sessionSelect,
+        checkIns: {
+          include: checkInInclude,
+          orderBy: { checkedInAt: 'asc' }
+        }
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Check-in session not found',
+        code: 'CHECK_IN_SESSION_NOT_FOUND'
+      });
+    }
+
+    res.json({ session });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the token for the current 30-second window, to render as a QR code
+router.get('/sessions/:id/token', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const session = await prisma.checkInSession.findUnique({
+      where: { id: req.params.id },
+      include: {
+        section: {
+          select: { adviserId: true }
+        }
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Check-in session not found',
+        code: 'CHECK_IN_SESSION_NOT_FOUND'
+      });
+    }
+
+    if (!canManage(req.user!, session)) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    if (session.closedAt) {
+      return res.status(409).json({
+        error: 'Check-in session is closed',
+        code: 'CHECK_IN_SESSION_CLOSED'
+      });
+    }
+
+    const window = currentWindow();
+    const expiresAt = windowEndsAt(window);
+
+    res.json({
+      token: createCheckInToken(session.id, session.secret, window),
+      expiresAt,
+      refreshInMs: Math.max(expiresAt.getTime() - Date.now(), 0),
+      windowMs: TOKEN_WINDOW_MS
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Close a check-in session; codes already on screen stop working immediately
+router.put('/sessions/:id/close', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'check_in_sessions'), async (req: AuthRequest, res, next) => {
+  try {
+    const session = await prisma.checkInSession.findUnique({
+      where: { id: req.params.id },
+      include: {
+        section: {
+          select: { adviserId: true }
+        }
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Check-in session not found',
+        code: 'CHECK_IN_SESSION_NOT_FOUND'
+      });
+    }
+
+    if (!canManage(req.user!, session)) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = { closedAt: session.closedAt };
+
+    const closedSession = await prisma.checkInSession.update({
+      where: { id: session.id },
+      data: { closedAt: session.closedAt || new Date() },
+      select: sessionSelect
+    });
+
+    res.json({
+      message: 'Check-in session closed',
+      session: closedSession
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,273 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireBeadleOrAbove, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Validation schemas
+const createSessionSchema = Joi.object({
+  sectionId: Joi.string().required(),
+  subject: Joi.string().min(1).required(),
+  teacherId: Joi.string().optional(),
+  dayOfWeek: Joi.number().integer().min(0).max(6).required(),
+  startTime: Joi.string().pattern(timePattern).required(),
+  endTime: Joi.string().pattern(timePattern).required()
+});
+
+const updateSessionSchema = Joi.object({
+  subject: Joi.string().min(1),
+  teacherId: Joi.string().allow(null),
+  dayOfWeek: Joi.number().integer().min(0).max(6),
+  startTime: Joi.string().pattern(timePattern),
+  endTime: Joi.string().pattern(timePattern)
+});
+
+const getSessionsSchema = Joi.object({
+  sectionId: Joi.string().optional(),
+  teacherId: Joi.string().optional(),
+  dayOfWeek: Joi.number().integer().min(0).max(6).optional(),
+  subject: Joi.string().optional()
+});
+
+const sessionInclude = {
+  section: {
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true
+    }
+  },
+  teacher: {
+    select: {
+      id: true,
+      fullName: true,
+      email: true
+    }
+  }
+};
+
+// Get class sessions (timetable)
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getSessionsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const sessions = await prisma.classSession.findMany({
+      where: value,
+      include: sessionInclude,
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+    });
+
+    res.json({ sessions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get class session by ID
+router.get('/:id', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const session = await prisma.classSession.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...sessionInclude,
+        _count: {
+          select: {
+            attendanceRecords: true
+          }
+        }
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Class session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+    }
+
+    res.json({ session });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create class session
+router.post('/', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'class_sessions'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createSessionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    if (value.endTime <= value.startTime) {
+      return res.status(400).json({
+        error: 'End time must be after start time',
+        code: 'INVALID_TIME_RANGE'
+      });
+    }
+
+    const section = await prisma.section.findUnique({
+      where: { id: value.sectionId }
+    });
+
+    if (!section) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    if (value.teacherId) {
+      const teacher = await prisma.user.findUnique({
+        where: { id: value.teacherId }
+      });
+
+      if (!teacher) {
+        return res.status(404).json({
+          error: 'Teacher not found',
+          code: 'TEACHER_NOT_FOUND'
+        });
+      }
+    }
+
+    const session = await prisma.classSession.create({
+      data: value,
+      include: sessionInclude
+    });
+
+    res.status(201).json({
+      message: 'Class session created successfully',
+      session
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update class session
+router.put('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'class_sessions'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateSessionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingSession = await prisma.classSession.findUnique({
+      where: { id }
+    });
+
+    if (!existingSession) {
+      return res.status(404).json({
+        error: 'Class session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+    }
+
+    const startTime = value.startTime || existingSession.startTime;
+    const endTime = value.endTime || existingSession.endTime;
+    if (endTime <= startTime) {
+      return res.status(400).json({
+        error: 'End time must be after start time',
+        code: 'INVALID_TIME_RANGE'
+      });
+    }
+
+    if (value.teacherId) {
+      const teacher = await prisma.user.findUnique({
+        where: { id: value.teacherId }
+      });
+
+      if (!teacher) {
+        return res.status(404).json({
+          error: 'Teacher not found',
+          code: 'TEACHER_NOT_FOUND'
+        });
+      }
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      subject: existingSession.subject,
+      teacherId: existingSession.teacherId,
+      dayOfWeek: existingSession.dayOfWeek,
+      startTime: existingSession.startTime,
+      endTime: existingSession.endTime
+    };
+
+    const session = await prisma.classSession.update({
+      where: { id },
+      data: value,
+      include: sessionInclude
+    });
+
+    res.json({
+      message: 'Class session updated successfully',
+      session
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete class session
+router.delete('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('DELETE', 'class_sessions'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingSession = await prisma.classSession.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            attendanceRecords: true
+          }
+        }
+      }
+    });
+
+    if (!existingSession) {
+      return res.status(404).json({
+        error: 'Class session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+    }
+
+    if (existingSession._count.attendanceRecords > 0) {
+      return res.status(409).json({
+        error: 'Cannot delete class session with existing attendance records',
+        code: 'SESSION_HAS_DATA',
+        attendanceRecordsCount: existingSession._count.attendanceRecords
+      });
+    }
+
+    await prisma.classSession.delete({
+      where: { id }
+    });
+
+    res.json({
+      message: 'Class session deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
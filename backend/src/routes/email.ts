@@ -0,0 +1,168 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireAdmin, requireCoordinatorOrAdmin, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { EMAIL_TEMPLATE_KEYS } from '../services/emailTemplates';
+import { isEmailConfigured, retryEmail } from '../services/emailOutbox';
+import { queueWeeklySummaries } from '../services/weeklySummary';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const EMAIL_STATUSES = ['queued', 'sending', 'sent', 'failed'];
+
+// Validation schemas
+const getOutboxSchema = Joi.object({
+  status: Joi.string().valid(...EMAIL_STATUSES).optional(),
+  template: Joi.string().valid(...EMAIL_TEMPLATE_KEYS).optional(),
+  to: Joi.string().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const weeklySummarySchema = Joi.object({
+  // The Monday the week starts on; defaults to last week
+  weekStart: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+    .custom((value, helpers) => (new Date(value).getUTCDay() === 1 ? value : helpers.error('any.invalid')))
+    .messages({ 'any.invalid': '"weekStart" must be a Monday' })
+});
+
+// Everything shown in the list; bodies and attachments are left to the detail view
+const outboxListSelect = {
+  id: true,
+  template: true,
+  to: true,
+  subject: true,
+  status: true,
+  attempts: true,
+  scheduledFor: true,
+  lastAttemptAt: true,
+  sentAt: true,
+  error: true,
+  createdAt: true
+} satisfies Prisma.EmailMessageSelect;
+
+// Get outbox emails newest first, with how many are in each status
+router.get('/outbox', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getOutboxSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { status, template, to, page, limit } = value;
+    const whereClause: Prisma.EmailMessageWhereInput = {};
+
+    if (status) whereClause.status = status;
+    if (template) whereClause.template = template;
+    if (to) whereClause.to = { contains: to, mode: 'insensitive' };
+
+    const [emails, total, statusCounts] = await Promise.all([
+      prisma.emailMessage.findMany({
+        where: whereClause,
+        select: outboxListSelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.emailMessage.count({ where: whereClause }),
+      prisma.emailMessage.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      })
+    ]);
+
+    const counts = Object.fromEntries(EMAIL_STATUSES.map(key => [key, 0]));
+    statusCounts.forEach(row => {
+      counts[row.status] = row._count._all;
+    });
+
+    res.json({
+      emails,
+      counts,
+      smtpConfigured: isEmailConfigured(),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get one email as it was sent. Attachments are listed by name and size only.
+router.get('/outbox/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const email = await prisma.emailMessage.findUnique({
+      where: { id: req.params.id },
+      select: { ...outboxListSelect, text: true, html: true, messageId: true, attachments: true }
+    });
+
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    const attachments = (email.attachments as { filename: string; contentType: string; content: string }[] | null) || [];
+
+    res.json({
+      email: {
+        ...email,
+        attachments: attachments.map(attachment => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          size: Buffer.byteLength(attachment.content, 'base64')
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Send a failed email again, starting its attempts over
+router.post('/outbox/:id/retry', authenticateToken, requireAdmin, auditMiddleware('UPDATE', 'email_outbox'), async (req: AuthRequest, res, next) => {
+  try {
+    const requeued = await retryEmail(req.params.id);
+
+    if (!requeued) {
+      return res.status(404).json({ error: 'No failed email with that id' });
+    }
+
+    res.json({ message: 'Email queued for another try' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Email each adviser their section's attendance for a week. Sections already
+// sent that week are skipped.
+router.post('/weekly-summaries', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('CREATE', 'email_outbox'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = weeklySummarySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { weekStart, queued } = await queueWeeklySummaries(value.weekStart);
+
+    res.json({
+      message: `Queued ${queued} weekly summary email(s)`,
+      weekStart,
+      queued
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import express from 'express';
+import Joi from 'joi';
+import { authenticateToken, requireBeadleOrAbove, AuthRequest } from '../middleware/auth';
+import { watchedSectionIds } from '../services/sectionAssignments';
+import { compareEventIds, eventsAfter, RealtimeEvent, subscribeToEvents } from '../services/realtimeEvents';
+
+const router = express.Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+// Streams end after this long so the client reconnects, checking its token and
+// sections again
+const STREAM_MS = 30 * 60 * 1000;
+const RECONNECT_MS = 3000;
+
+// Validation schemas
+const eventIdSchema = Joi.string().pattern(/^\d+-\d+$/);
+
+const streamSchema = Joi.object({
+  lastEventId: eventIdSchema
+});
+
+// Server-sent events for the sections the user follows. A reconnecting client
+// sends the last id it saw (Last-Event-ID, or lastEventId where the header can't
+// be set) and gets what it missed first, or a resync event when that is no
+// longer kept.
+router.get('/stream', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = streamSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const header = req.headers['last-event-id'];
+    const lastEventId: string | undefined = header && !eventIdSchema.validate(header).error
+      ? String(header)
+      : value.lastEventId;
+    const sectionIds = await watchedSectionIds(req.user!);
+    const watches = (event: RealtimeEvent) => sectionIds === null || sectionIds.includes(event.sectionId);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps compression from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+    let sentId = lastEventId || '';
+    const send = (event: RealtimeEvent) => {
+      sentId = event.id;
+      if (watches(event)) {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    };
+
+    // Live events wait until the missed ones are out, so none arrive out of order
+    let buffered: RealtimeEvent[] | null = [];
+    const unsubscribe = subscribeToEvents(event => {
+      if (buffered) buffered.push(event);
+      else send(event);
+    });
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    const expiry = setTimeout(() => res.end(), STREAM_MS);
+    req.on('close', () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      clearTimeout(expiry);
+    });
+
+    if (lastEventId) {
+      const missed = await eventsAfter(lastEventId);
+      if (missed) {
+        missed.forEach(send);
+      } else {
+        res.write(`event: resync\ndata: ${JSON.stringify({ at: new Date().toISOString() })}\n\n`);
+      }
+    }
+
+    const pending: RealtimeEvent[] = buffered;
+    buffered = null;
+    pending.filter(event => !sentId || compareEventIds(event.id, sentId) > 0).forEach(send);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Realtime event stream failed:', error);
+      res.end();
+      return;
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,487 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireBeadleOrAbove, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware, logAuditEvent } from '../middleware/audit';
+import { canManageSection, getLockState, logLockOverride } from '../services/attendanceLock';
+import { checkAssignment } from '../services/sectionAssignments';
+import { notifyUser } from '../services/notificationService';
+import { publishEvent } from '../services/realtimeEvents';
+import { dateKey } from '../services/schoolCalendar';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createLetterSchema = Joi.object({
+  studentId: Joi.string().required(),
+  startDate: Joi.date().required(),
+  endDate: Joi.date().min(Joi.ref('startDate')).optional(),
+  reason: Joi.string().min(3).required(),
+  proofUrl: Joi.string().uri().required(),
+  authorType: Joi.string().valid('guardian', 'student', 'beadle').required(),
+  authorName: Joi.string().optional()
+});
+
+const getLettersSchema = Joi.object({
+  status: Joi.string().valid('pending', 'approved', 'rejected').optional(),
+  sectionId: Joi.string().optional(),
+  studentId: Joi.string().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const approveSchema = Joi.object({
+  comment: Joi.string().allow('').optional()
+});
+
+const rejectSchema = Joi.object({
+  comment: Joi.string().min(1).required()
+});
+
+const letterInclude = {
+  student: {
+    select: {
+      id: true,
+      studentNumber: true,
+      firstName: true,
+      lastName: true,
+      section: {
+        select: {
+          id: true,
+          name: true,
+          gradeLevel: true,
+          adviserId: true
+        }
+      }
+    }
+  },
+  submitter: {
+    select: {
+      id: true,
+      fullName: true,
+      role: true
+    }
+  },
+  reviewer: {
+    select: {
+      id: true,
+      fullName: true,
+      role: true
+    }
+  },
+  events: {
+    include: {
+      actor: {
+        select: {
+          id: true,
+          fullName: true,
+          role: true
+        }
+      }
+    },
+    orderBy: { createdAt: 'asc' as const }
+  },
+  _count: {
+    select: { attendanceRecords: true }
+  }
+};
+
+const describeLetter = (letter: { startDate: Date; endDate: Date; student: { firstName: string; lastName: string } }) => {
+  const start = dateKey(letter.startDate);
+  const end = dateKey(letter.endDate);
+  return `${letter.student.firstName} ${letter.student.lastName} (${start === end ? start : `${start} to ${end}`})`;
+};
+
+// Get excuse letters. Beadles see the ones they submitted, advisers theirs plus
+// those for sections they advise, coordinators and admins every letter.
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getLettersSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { status, sectionId, studentId, page, limit } = value;
+    const user = req.user!;
+    const whereClause: Prisma.ExcuseLetterWhereInput = {};
+
+    if (status) whereClause.status = status;
+    if (sectionId) whereClause.student = { sectionId };
+    if (studentId) whereClause.studentId = studentId;
+
+    if (user.role === 'beadle') {
+      whereClause.submittedBy = user.id;
+    } else if (user.role === 'adviser') {
+      whereClause.OR = [
+        { submittedBy: user.id },
+        { student: { section: { adviserId: user.id } } }
+      ];
+    }
+
+    const [letters, total] = await Promise.all([
+      prisma.excuseLetter.findMany({
+        where: whereClause,
+        include: letterInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.excuseLetter.count({ where: whereClause })
+    ]);
+
+    res.json({
+      letters,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get an excuse letter with its status history and the records it excused
+router.get('/:id', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const letter = await prisma.excuseLetter.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...letterInclude,
+        attendanceRecords: {
+          select: {
+            id: true,
+            date: true,
+            sessionId: true,
+            status: true
+          },
+          orderBy: { date: 'asc' }
+        }
+      }
+    });
+
+    if (!letter) {
+      return res.status(404).json({
+        error: 'Excuse letter not found',
+        code: 'EXCUSE_LETTER_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    if (letter.submittedBy !== user.id && !canManageSection(user, letter.student.section)) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    res.json({ letter });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Submit an excuse letter for a student's absences
+router.post('/', authenticateToken, requireBeadleOrAbove, auditMiddleware('CREATE', 'excuse_letters'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createLetterSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const student = await prisma.student.findUnique({
+      where: { id: value.studentId },
+      include: {
+        section: {
+          select: { id: true, adviserId: true }
+        }
+      }
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+        code: 'STUDENT_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    const assignmentError = await checkAssignment(user, student.sectionId);
+    if (assignmentError) {
+      return res.status(assignmentError.status).json(assignmentError.body);
+    }
+
+    const letter = await prisma.excuseLetter.create({
+      data: {
+        studentId: student.id,
+        startDate: value.startDate,
+        endDate: value.endDate || value.startDate,
+        reason: value.reason,
+        proofUrl: value.proofUrl,
+        authorType: value.authorType,
+        authorName: value.authorName,
+        submittedBy: user.id,
+        events: {
+          create: { status: 'pending', actorId: user.id }
+        }
+      },
+      include: letterInclude
+    });
+
+    if (student.section.adviserId && student.section.adviserId !== user.id) {
+      await notifyUser(
+        student.section.adviserId,
+        'excuse_letter_submitted',
+        'Excuse letter submitted',
+        `${user.fullName} submitted an excuse letter for ${describeLetter(letter)}.`,
+        { excuseLetterId: letter.id }
+      );
+    }
+
+    res.status(201).json({
+      message: 'Excuse letter submitted successfully',
+      letter
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve an excuse letter. Every absence it covers becomes excused and is linked to the letter.
+router.put('/:id/approve', authenticateToken, requireAdviserOrAbove, auditMiddleware('APPROVE', 'excuse_letters'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = approveSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const letter = await prisma.excuseLetter.findUnique({
+      where: { id },
+      include: letterInclude
+    });
+
+    if (!letter) {
+      return res.status(404).json({
+        error: 'Excuse letter not found',
+        code: 'EXCUSE_LETTER_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    if (!canManageSection(user, letter.student.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can review this letter',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    if (letter.status !== 'pending') {
+      return res.status(409).json({
+        error: 'Excuse letter has already been reviewed',
+        code: 'LETTER_NOT_PENDING',
+        status: letter.status
+      });
+    }
+
+    // Claim the letter and excuse its absences together, so two reviewers can't
+    // both act on it and a failure leaves it pending
+    const absences = await prisma.$transaction(async tx => {
+      const claimed = await tx.excuseLetter.updateMany({
+        where: { id, status: 'pending' },
+        data: {
+          status: 'approved',
+          reviewedBy: user.id,
+          reviewComment: value.comment || null,
+          reviewedAt: new Date()
+        }
+      });
+      if (claimed.count === 0) return null;
+
+      // Absent and cutting marks are both unexcused absences the letter can cover
+      const covered = await tx.attendanceRecord.findMany({
+        where: {
+          studentId: letter.studentId,
+          status: { in: ['absent', 'cutting'] },
+          date: { gte: letter.startDate, lte: letter.endDate }
+        },
+        select: { id: true, sectionId: true, date: true, status: true, reasonCode: true, notes: true }
+      });
+
+      await tx.excuseLetterEvent.create({
+        data: { excuseLetterId: id, status: 'approved', comment: value.comment || null, actorId: user.id }
+      });
+      await tx.attendanceRecord.updateMany({
+        where: { id: { in: covered.map(record => record.id) } },
+        data: { status: 'excused', excuseLetterId: id }
+      });
+
+      return covered;
+    });
+
+    if (!absences) {
+      return res.status(409).json({
+        error: 'Excuse letter has already been reviewed',
+        code: 'LETTER_NOT_PENDING'
+      });
+    }
+
+    // Excusing absences on a finalized day is an override, justified by the letter itself
+    const days = [...new Map(absences.map(record => [`${record.sectionId}:${dateKey(record.date)}`, record])).values()];
+    for (const day of days) {
+      const lock = await getLockState(day.sectionId, day.date);
+      if (lock.finalized) {
+        await logLockOverride(user.id, lock, `Excuse letter ${letter.id}: ${letter.reason}`);
+      }
+    }
+
+    // Store old data for audit
+    req.oldData = { status: letter.status };
+
+    const reviewedLetter = await prisma.excuseLetter.findUniqueOrThrow({
+      where: { id },
+      include: letterInclude
+    });
+
+    for (const record of absences) {
+      await logAuditEvent(user.id, 'UPDATE', 'attendance_records', record.id, {
+        status: record.status,
+        reasonCode: record.reasonCode,
+        notes: record.notes
+      }, {
+        status: 'excused',
+        excuseLetterId: id
+      });
+    }
+
+    await notifyUser(
+      letter.submittedBy,
+      'excuse_letter_approved',
+      'Excuse letter approved',
+      `${user.fullName} approved the excuse letter for ${describeLetter(letter)}. ${absences.length} absence(s) are now excused.`,
+      { excuseLetterId: letter.id }
+    );
+
+    await publishEvent('excuse.reviewed', reviewedLetter.student.section.id, {
+      excuseLetterId: letter.id,
+      studentId: reviewedLetter.student.id,
+      status: 'approved',
+      excused: absences.length
+    });
+
+    res.json({
+      message: 'Excuse letter approved successfully',
+      letter: reviewedLetter,
+      excusedRecordIds: absences.map(record => record.id)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject an excuse letter, leaving the absences as they are
+router.put('/:id/reject', authenticateToken, requireAdviserOrAbove, auditMiddleware('REJECT', 'excuse_letters'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = rejectSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const letter = await prisma.excuseLetter.findUnique({
+      where: { id },
+      include: letterInclude
+    });
+
+    if (!letter) {
+      return res.status(404).json({
+        error: 'Excuse letter not found',
+        code: 'EXCUSE_LETTER_NOT_FOUND'
+      });
+    }
+
+    const user = req.user!;
+    if (!canManageSection(user, letter.student.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can review this letter',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    if (letter.status !== 'pending') {
+      return res.status(409).json({
+        error: 'Excuse letter has already been reviewed',
+        code: 'LETTER_NOT_PENDING',
+        status: letter.status
+      });
+    }
+
+    const claimed = await prisma.excuseLetter.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'rejected',
+        reviewedBy: user.id,
+        reviewComment: value.comment,
+        reviewedAt: new Date()
+      }
+    });
+
+    if (claimed.count === 0) {
+      return res.status(409).json({
+        error: 'Excuse letter has already been reviewed',
+        code: 'LETTER_NOT_PENDING'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = { status: letter.status };
+
+    await prisma.excuseLetterEvent.create({
+      data: { excuseLetterId: id, status: 'rejected', comment: value.comment, actorId: user.id }
+    });
+
+    const reviewedLetter = await prisma.excuseLetter.findUniqueOrThrow({
+      where: { id },
+      include: letterInclude
+    });
+
+    await notifyUser(
+      letter.submittedBy,
+      'excuse_letter_rejected',
+      'Excuse letter rejected',
+      `${user.fullName} rejected the excuse letter for ${describeLetter(letter)}: ${value.comment}`,
+      { excuseLetterId: letter.id }
+    );
+
+    await publishEvent('excuse.reviewed', reviewedLetter.student.section.id, {
+      excuseLetterId: letter.id,
+      studentId: reviewedLetter.student.id,
+      status: 'rejected',
+      excused: 0
+    });
+
+    res.json({
+      message: 'Excuse letter rejected',
+      letter: reviewedLetter
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,21 +1,14 @@
 import express from 'express';
 import multer from 'multer';
-import AWS from 'aws-sdk';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requireBeadleOrAbove, AuthRequest } from '../middleware/auth';
 import { auditMiddleware } from '../middleware/audit';
+import { s3, storeFile } from '../services/fileStorage';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Configure AWS S3
-const s3 = new AWS.S3({
-  accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-  region: process.env.AWS_REGION
-});
-
 // Configure multer for file uploads
 const upload = multer({
   limits: {
@@ -45,7 +38,7 @@ const getFilesSchema = Joi.object({
 });
 
 // Upload file
-router.post('/upload', authenticateToken, upload.single('file'), auditMiddleware('CREATE', 'stored_files'), async (req: AuthRequest, res, next) => {
+router.post('/upload', authenticateToken, requireBeadleOrAbove, upload.single('file'), auditMiddleware('CREATE', 'stored_files'), async (req: AuthRequest, res, next) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -65,42 +58,13 @@ router.post('/upload', authenticateToken, upload.single('file'), auditMiddleware
     const { description, category } = value;
     const file = req.file;
 
-    // Generate unique filename
-    const fileExt = file.originalname.split('.').pop();
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-    const filePath = `uploads/${fileName}`;
-
-    // Upload to S3
-    const uploadParams = {
-      Bucket: process.env.AWS_S3_BUCKET!,
-      Key: filePath,
-      Body: file.buffer,
-      ContentType: file.mimetype,
-      ACL: 'public-read'
-    };
-
-    const uploadResult = await s3.upload(uploadParams).promise();
-
-    // Save file metadata to database
-    const storedFile = await prisma.storedFile.create({
-      data: {
-        name: file.originalname,
-        size: file.size,
-        type: file.mimetype,
-        url: uploadResult.Location,
-        uploadedBy: req.user!.id,
-        description: description || null,
-        category
-      },
-      include: {
-        uploadedByUser: {
-          select: {
-            id: true,
-            fullName: true,
-            role: true
-          }
-        }
-      }
+    // Upload to S3 and save file metadata to database
+    const storedFile = await storeFile(file.buffer, {
+      name: file.originalname,
+      type: file.mimetype,
+      uploadedBy: req.user!.id,
+      description,
+      category
     });
 
     res.status(201).json({
@@ -113,7 +77,7 @@ router.post('/upload', authenticateToken, upload.single('file'), auditMiddleware
 });
 
 // Get files
-router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
     const { error, value } = getFilesSchema.validate(req.query);
     if (error) {
@@ -171,7 +135,7 @@ router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
 });
 
 // Get file by ID
-router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/:id', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
@@ -209,7 +173,7 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
 });
 
 // Delete file
-router.delete('/:id', authenticateToken, auditMiddleware('DELETE', 'stored_files'), async (req: AuthRequest, res, next) => {
+router.delete('/:id', authenticateToken, requireBeadleOrAbove, auditMiddleware('DELETE', 'stored_files'), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
@@ -257,7 +221,7 @@ router.delete('/:id', authenticateToken, auditMiddleware('DELETE', 'stored_files
 });
 
 // Download file
-router.get('/:id/download', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/:id/download', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
@@ -287,7 +251,7 @@ router.get('/:id/download', authenticateToken, async (req: AuthRequest, res, nex
 });
 
 // Get file statistics
-router.get('/stats/overview', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/stats/overview', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
     let whereClause: any = {};
 
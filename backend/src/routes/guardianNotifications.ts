@@ -0,0 +1,195 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma, GuardianChannel } from '@prisma/client';
+import { authenticateToken, requireAdviserOrAbove, requireCoordinatorOrAdmin, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { DEFAULT_TEMPLATES, TEMPLATE_KEYS, listTemplates } from '../services/messageTemplates';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const CHANNELS = ['sms', 'email', 'telegram'];
+
+// Validation schemas
+const getNotificationsSchema = Joi.object({
+  sectionId: Joi.string().optional(),
+  studentId: Joi.string().optional(),
+  date: Joi.date().optional(),
+  status: Joi.string().valid('queued', 'sending', 'sent', 'failed', 'skipped', 'cancelled').optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const templateParamsSchema = Joi.object({
+  key: Joi.string().valid(...TEMPLATE_KEYS).required(),
+  channel: Joi.string().valid(...CHANNELS).required()
+});
+
+const updateTemplateSchema = Joi.object({
+  subject: Joi.string().allow(null, '').optional(),
+  body: Joi.string().min(1).required()
+});
+
+// Get messages sent (or attempted) to guardians, newest first. Advisers see their
+// own sections' students, coordinators and admins everyone's.
+router.get('/', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getNotificationsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { sectionId, studentId, date, status, page, limit } = value;
+    const whereClause: Prisma.GuardianNotificationWhereInput = {};
+    const studentWhere: Prisma.StudentWhereInput = {};
+
+    if (studentId) whereClause.studentId = studentId;
+    if (date) whereClause.date = date;
+    if (status) whereClause.status = status;
+    if (sectionId) studentWhere.sectionId = sectionId;
+
+    if (req.user!.role === 'adviser') {
+      studentWhere.section = { adviserId: req.user!.id };
+    }
+
+    if (Object.keys(studentWhere).length > 0) {
+      whereClause.student = studentWhere;
+    }
+
+    const [notifications, total] = await Promise.all([
+      prisma.guardianNotification.findMany({
+        where: whereClause,
+        include: {
+          guardian: {
+            select: {
+              id: true,
+              name: true,
+              relationship: true
+            }
+          },
+          student: {
+            select: {
+              id: true,
+              studentNumber: true,
+              firstName: true,
+              lastName: true,
+              sectionId: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.guardianNotification.count({ where: whereClause })
+    ]);
+
+    res.json({
+      notifications,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get every message template with its placeholders, defaults filled in
+router.get('/templates', authenticateToken, requireCoordinatorOrAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const templates = await listTemplates();
+    res.json({ templates });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace a template's text for one channel
+router.put('/templates/:key/:channel', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('UPDATE', 'message_templates'), async (req: AuthRequest, res, next) => {
+  try {
+    const params = templateParamsSchema.validate(req.params);
+    if (params.error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: params.error.details.map(d => d.message)
+      });
+    }
+
+    const { error, value } = updateTemplateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const key: string = params.value.key;
+    const channel: GuardianChannel = params.value.channel;
+    const existingTemplate = await prisma.messageTemplate.findUnique({
+      where: { key_channel: { key, channel } }
+    });
+
+    // Store old data for audit
+    req.oldData = existingTemplate || { ...DEFAULT_TEMPLATES[key][channel] };
+
+    const template = await prisma.messageTemplate.upsert({
+      where: { key_channel: { key, channel } },
+      create: {
+        key,
+        channel,
+        subject: value.subject || null,
+        body: value.body,
+        updatedBy: req.user!.id
+      },
+      update: {
+        subject: value.subject || null,
+        body: value.body,
+        updatedBy: req.user!.id
+      }
+    });
+
+    res.json({
+      message: 'Template saved successfully',
+      template
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Go back to the built-in text for one channel
+router.delete('/templates/:key/:channel', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('DELETE', 'message_templates'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = templateParamsSchema.validate(req.params);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingTemplate = await prisma.messageTemplate.findUnique({
+      where: { key_channel: { key: value.key, channel: value.channel } }
+    });
+
+    if (existingTemplate) {
+      // Store old data for audit
+      req.oldData = existingTemplate;
+
+      await prisma.messageTemplate.delete({ where: { id: existingTemplate.id } });
+    }
+
+    res.json({ message: 'Template reset to default' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,393 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware, logAuditEvent } from '../middleware/audit';
+import { canManageSection } from '../services/attendanceLock';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const CHANNELS = ['sms', 'email', 'telegram'];
+
+// The contact field each preferred channel needs
+const CHANNEL_CONTACTS: Record<string, 'phone' | 'email' | 'telegramChatId'> = {
+  sms: 'phone',
+  email: 'email',
+  telegram: 'telegramChatId'
+};
+
+// Validation schemas
+const getGuardiansSchema = Joi.object({
+  studentId: Joi.string().required()
+});
+
+const guardianFields = {
+  name: Joi.string().min(1),
+  relationship: Joi.string().min(1),
+  phone: Joi.string().pattern(/^\+?[0-9 -]{7,20}$/).allow(null, ''),
+  email: Joi.string().email().allow(null, ''),
+  telegramChatId: Joi.string().pattern(/^-?\d+$/).allow(null, ''),
+  preferredChannel: Joi.string().valid(...CHANNELS),
+  // The school can stop (or resume) texting a guardian who asked in person
+  smsOptOut: Joi.boolean()
+};
+
+const createGuardianSchema = Joi.object({
+  ...guardianFields,
+  studentId: Joi.string().required(),
+  name: guardianFields.name.required(),
+  relationship: guardianFields.relationship.required(),
+  preferredChannel: guardianFields.preferredChannel.required()
+});
+
+const updateGuardianSchema = Joi.object(guardianFields);
+
+const portalAccountSchema = Joi.object({
+  email: Joi.string().email().required(),
+  // Only needed when the email has no parent account yet
+  password: Joi.string().min(6).optional()
+});
+
+const guardianInclude = {
+  user: {
+    select: {
+      id: true,
+      email: true
+    }
+  }
+};
+
+// Load a student the user may keep guardians for. Returns an error response to
+// send, or the student.
+const findManageableStudent = async (user: NonNullable<AuthRequest['user']>, studentId: string) => {
+  const student = await prisma.student.findUnique({
+    where: { id: studentId },
+    include: {
+      section: {
+        select: { adviserId: true }
+      }
+    }
+  });
+
+  if (!student) {
+    return { error: { status: 404, body: { error: 'Student not found', code: 'STUDENT_NOT_FOUND' } } };
+  }
+
+  if (!canManageSection(user, student.section)) {
+    return {
+      error: {
+        status: 403,
+        body: {
+          error: 'Only the section adviser or a coordinator can manage guardians',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        }
+      }
+    };
+  }
+
+  return { student };
+};
+
+// Empty contact fields are stored as null
+const contactData = (value: Record<string, string | null | undefined>) => {
+  const data: Record<string, string | null> = {};
+  for (const field of ['phone', 'email', 'telegramChatId']) {
+    if (value[field] !== undefined) data[field] = value[field] || null;
+  }
+  return data;
+};
+
+const missingContact = (guardian: { preferredChannel: string } & Record<string, unknown>) => {
+  const field = CHANNEL_CONTACTS[guardian.preferredChannel];
+  return guardian[field] ? null : field;
+};
+
+// Get a student's guardians
+router.get('/', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getGuardiansSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findManageableStudent(req.user!, value.studentId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const guardians = await prisma.guardian.findMany({
+      where: { studentId: found.student.id },
+      include: guardianInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ guardians });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a guardian to a student. The preferred channel's contact is required.
+router.post('/', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'guardians'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createGuardianSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findManageableStudent(req.user!, value.studentId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const data = {
+      studentId: found.student.id,
+      name: value.name,
+      relationship: value.relationship,
+      preferredChannel: value.preferredChannel,
+      phone: null,
+      email: null,
+      telegramChatId: null,
+      smsOptedOutAt: value.smsOptOut ? new Date() : null,
+      ...contactData(value)
+    };
+
+    const missing = missingContact(data);
+    if (missing) {
+      return res.status(400).json({
+        error: `A ${missing} is required to reach this guardian by ${data.preferredChannel}`,
+        code: 'CONTACT_REQUIRED'
+      });
+    }
+
+    const guardian = await prisma.guardian.create({
+      data,
+      include: guardianInclude
+    });
+
+    res.status(201).json({
+      message: 'Guardian added successfully',
+      guardian
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a guardian's details
+router.put('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'guardians'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const { error, value } = updateGuardianSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingGuardian = await prisma.guardian.findUnique({ where: { id } });
+    if (!existingGuardian) {
+      return res.status(404).json({
+        error: 'Guardian not found',
+        code: 'GUARDIAN_NOT_FOUND'
+      });
+    }
+
+    const found = await findManageableStudent(req.user!, existingGuardian.studentId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const data = {
+      ...(value.name !== undefined && { name: value.name }),
+      ...(value.relationship !== undefined && { relationship: value.relationship }),
+      ...(value.preferredChannel !== undefined && { preferredChannel: value.preferredChannel }),
+      ...(value.smsOptOut !== undefined && {
+        smsOptedOutAt: value.smsOptOut ? existingGuardian.smsOptedOutAt || new Date() : null
+      }),
+      ...contactData(value)
+    };
+
+    const missing = missingContact({ ...existingGuardian, ...data });
+    if (missing) {
+      return res.status(400).json({
+        error: `A ${missing} is required to reach this guardian by ${data.preferredChannel || existingGuardian.preferredChannel}`,
+        code: 'CONTACT_REQUIRED'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = existingGuardian;
+
+    const guardian = await prisma.guardian.update({
+      where: { id },
+      data,
+      include: guardianInclude
+    });
+
+    res.json({
+      message: 'Guardian updated successfully',
+      guardian
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Give a guardian a parent portal login. An email that already has a parent
+// account (e.g. for a sibling) is linked as is; otherwise an account is created.
+router.put('/:id/portal-account', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const { error, value } = portalAccountSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingGuardian = await prisma.guardian.findUnique({ where: { id } });
+    if (!existingGuardian) {
+      return res.status(404).json({
+        error: 'Guardian not found',
+        code: 'GUARDIAN_NOT_FOUND'
+      });
+    }
+
+    const found = await findManageableStudent(req.user!, existingGuardian.studentId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    let account = await prisma.user.findUnique({
+      where: { email: value.email },
+      select: { id: true, role: true }
+    });
+
+    if (account && account.role !== 'parent') {
+      return res.status(409).json({
+        error: 'This email belongs to a staff account',
+        code: 'EMAIL_IN_USE'
+      });
+    }
+
+    if (!account) {
+      if (!value.password) {
+        return res.status(400).json({
+          error: 'A password is required to create the parent account',
+          code: 'PASSWORD_REQUIRED'
+        });
+      }
+
+      account = await prisma.user.create({
+        data: {
+          email: value.email,
+          password: await bcrypt.hash(value.password, 12),
+          fullName: existingGuardian.name,
+          role: 'parent'
+        },
+        select: { id: true, role: true }
+      });
+    }
+
+    const guardian = await prisma.guardian.update({
+      where: { id },
+      data: { userId: account.id },
+      include: guardianInclude
+    });
+
+    // Logged here rather than by auditMiddleware so the password stays out of the log
+    await logAuditEvent(req.user!.id, 'UPDATE', 'guardians', id, {
+      userId: existingGuardian.userId
+    }, {
+      email: value.email,
+      userId: account.id
+    });
+
+    res.json({
+      message: 'Parent portal access granted',
+      guardian
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Take away a guardian's parent portal access to this student
+router.delete('/:id/portal-account', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'guardians'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingGuardian = await prisma.guardian.findUnique({ where: { id } });
+    if (!existingGuardian) {
+      return res.status(404).json({
+        error: 'Guardian not found',
+        code: 'GUARDIAN_NOT_FOUND'
+      });
+    }
+
+    const found = await findManageableStudent(req.user!, existingGuardian.studentId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    // Store old data for audit
+    req.oldData = { userId: existingGuardian.userId };
+
+    const guardian = await prisma.guardian.update({
+      where: { id },
+      data: { userId: null },
+      include: guardianInclude
+    });
+
+    res.json({
+      message: 'Parent portal access removed',
+      guardian
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a guardian along with their notification history
+router.delete('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('DELETE', 'guardians'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingGuardian = await prisma.guardian.findUnique({ where: { id } });
+    if (!existingGuardian) {
+      return res.status(404).json({
+        error: 'Guardian not found',
+        code: 'GUARDIAN_NOT_FOUND'
+      });
+    }
+
+    const found = await findManageableStudent(req.user!, existingGuardian.studentId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    // Store old data for audit
+    req.oldData = existingGuardian;
+
+    await prisma.guardian.delete({ where: { id } });
+
+    res.json({ message: 'Guardian removed successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
+import { queueDriver, queueSummaries } from '../services/jobQueue';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -53,6 +54,7 @@ router.get('/detailed', async (req, res) => {
     const healthChecks = {
       database: await checkDatabaseHealth(),
       fileStorage: await checkFileStorageHealth(),
+      jobQueue: await checkJobQueueHealth(),
       memory: checkMemoryHealth(),
       disk: checkDiskHealth()
     };
@@ -133,6 +135,29 @@ async function checkFileStorageHealth() {
   }
 }
 
+// Job queue health check
+async function checkJobQueueHealth() {
+  const driver = queueDriver();
+  try {
+    const start = Date.now();
+    await driver.ping();
+    const responseTime = Date.now() - start;
+
+    return {
+      status: 'healthy',
+      driver: driver.name,
+      responseTime: `${responseTime}ms`,
+      queues: await queueSummaries()
+    };
+  } catch (error) {
+    return {
+      status: 'unhealthy',
+      driver: driver.name,
+      error: 'Job queue unreachable'
+    };
+  }
+}
+
 // Memory health check
 function checkMemoryHealth() {
   const memUsage = process.memoryUsage();
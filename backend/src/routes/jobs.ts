@@ -0,0 +1,102 @@
+import express from 'express';
+import Joi from 'joi';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { getJob, listJobs, queueDriver, queueSummaries, retryJob } from '../services/jobQueue';
+import { QUEUE_JOB_STATUSES, QueueJobStatus } from '../services/jobQueueDrivers';
+import { QUEUE_NAMES } from '../services/queuedJobs';
+
+const router = express.Router();
+
+// Validation schemas
+const getJobsSchema = Joi.object({
+  queue: Joi.string().valid(...QUEUE_NAMES).default(QUEUE_NAMES[0]),
+  status: Joi.string().valid(...QUEUE_JOB_STATUSES).default('active'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const jobNotFound = {
+  error: 'Job not found',
+  code: 'JOB_NOT_FOUND'
+};
+
+// Get a queue's jobs in one status, with every queue's counts per status
+router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getJobsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { queue, status, page, limit } = value;
+
+    const [jobs, queues] = await Promise.all([
+      listJobs(queue, status, (page - 1) * limit, limit),
+      queueSummaries()
+    ]);
+    const total = queues.find(summary => summary.name === queue)!.counts[status as QueueJobStatus];
+
+    res.json({
+      jobs,
+      queues,
+      driver: queueDriver().name,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a job's status and progress, for polling a task you started. Admins can
+// see every job.
+router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
+
+    if (!job || (req.user!.role !== 'admin' && job.createdBy !== req.user!.id)) {
+      return res.status(404).json(jobNotFound);
+    }
+
+    res.json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Queue a dead job again with a fresh set of attempts
+router.post('/:id/retry', authenticateToken, requireAdmin, auditMiddleware('UPDATE', 'job_queue'), async (req: AuthRequest, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json(jobNotFound);
+    }
+
+    req.oldData = { status: job.status, attempts: job.attempts, error: job.error };
+
+    const retried = await retryJob(job);
+    if (!retried) {
+      return res.status(409).json({
+        error: 'Only dead jobs can be retried',
+        code: 'JOB_NOT_DEAD'
+      });
+    }
+
+    res.json({
+      message: 'Job queued for another try',
+      job: retried
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const getNotificationsSchema = Joi.object({
+  unread: Joi.boolean().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+// Get the current user's notifications
+router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getNotificationsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { unread, page, limit } = value;
+    const whereClause: Prisma.NotificationWhereInput = { userId: req.user!.id };
+    if (unread) whereClause.readAt = null;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: whereClause,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.notification.count({ where: whereClause }),
+      prisma.notification.count({ where: { userId: req.user!.id, readAt: null } })
+    ]);
+
+    res.json({
+      notifications,
+      unreadCount,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark all of the current user's notifications as read
+router.put('/read-all', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await prisma.notification.updateMany({
+      where: { userId: req.user!.id, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    res.json({
+      message: 'Notifications marked as read',
+      count: result.count
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark a notification as read
+router.put('/:id/read', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const notification = await prisma.notification.findFirst({
+      where: { id: req.params.id, userId: req.user!.id }
+    });
+
+    if (!notification) {
+      return res.status(404).json({
+        error: 'Notification not found',
+        code: 'NOTIFICATION_NOT_FOUND'
+      });
+    }
+
+    const updatedNotification = await prisma.notification.update({
+      where: { id: notification.id },
+      data: { readAt: notification.readAt || new Date() }
+    });
+
+    res.json({ notification: updatedNotification });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireParent, requireLinkedStudent, AuthRequest } from '../middleware/auth';
+import { attendanceMonth, recentExcuseLetters, termSummary } from '../services/studentAttendance';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const monthSchema = Joi.object({
+  month: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).default(() => new Date().toISOString().slice(0, 7))
+});
+
+const studentSelect = {
+  id: true,
+  studentNumber: true,
+  firstName: true,
+  lastName: true,
+  section: {
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true,
+      adviser: {
+        select: { fullName: true }
+      }
+    }
+  }
+};
+
+// Get the students linked to the parent's account
+router.get('/students', authenticateToken, requireParent, async (req: AuthRequest, res, next) => {
+  try {
+    const links = await prisma.guardian.findMany({
+      where: { userId: req.user!.id },
+      select: {
+        relationship: true,
+        student: { select: studentSelect }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      students: links.map(link => ({ ...link.student, relationship: link.relationship }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a month of a student's attendance, one entry per calendar day: the day's
+// status (per-period marks rolled up), any remarks, or why there was no class
+router.get('/students/:studentId/attendance', authenticateToken, requireParent, requireLinkedStudent, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = monthSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    res.json(await attendanceMonth(req.params.studentId, value.month));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a student's totals, attendance rate and streaks for the current term
+router.get('/students/:studentId/summary', authenticateToken, requireParent, requireLinkedStudent, async (req: AuthRequest, res, next) => {
+  try {
+    res.json(await termSummary(req.params.studentId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a student's excuse letters, pending ones first, with the adviser's comments
+router.get('/students/:studentId/excuse-letters', authenticateToken, requireParent, requireLinkedStudent, async (req: AuthRequest, res, next) => {
+  try {
+    res.json({ letters: await recentExcuseLetters(req.params.studentId) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
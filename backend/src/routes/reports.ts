@@ -0,0 +1,344 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireAdviserOrAbove, requireCoordinatorOrAdmin, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { canManageSection } from '../services/attendanceLock';
+import { storeFile } from '../services/fileStorage';
+import { queueEmail } from '../services/emailOutbox';
+import { enqueueJob } from '../services/jobQueue';
+import { buildSf2Report, renderSf2Pdf, renderSf2Xlsx, sf2FileName, Sf2Report } from '../services/sf2Report';
+import { buildSf4Report, renderSf4Pdf, renderSf4Xlsx, sf4FileName, Sf4Report } from '../services/sf4Report';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const CONTENT_TYPES = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+const monthField = Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).default(() => new Date().toISOString().slice(0, 7));
+
+// Validation schemas
+const sf2Schema = Joi.object({
+  sectionId: Joi.string().required(),
+  month: monthField,
+  format: Joi.string().valid('xlsx', 'pdf', 'json').default('xlsx')
+});
+
+const saveSf2Schema = sf2Schema.keys({
+  format: Joi.string().valid('xlsx', 'pdf').default('xlsx')
+});
+
+// Recipients default to the person asking
+const emailSf2Schema = saveSf2Schema.keys({
+  to: Joi.string().email().optional()
+});
+
+const sf2BatchSchema = Joi.object({
+  month: monthField,
+  gradeLevel: Joi.string().optional(),
+  format: Joi.string().valid('xlsx', 'pdf').default('xlsx')
+});
+
+const sf4Schema = Joi.object({
+  month: monthField,
+  gradeLevel: Joi.string().optional(),
+  format: Joi.string().valid('xlsx', 'pdf', 'json').default('xlsx')
+});
+
+const saveSf4Schema = sf4Schema.keys({
+  format: Joi.string().valid('xlsx', 'pdf').default('xlsx')
+});
+
+const emailSf4Schema = saveSf4Schema.keys({
+  to: Joi.string().email().optional()
+});
+
+const renderSf2 = (report: Sf2Report, format: 'xlsx' | 'pdf') =>
+  format === 'pdf' ? renderSf2Pdf(report) : renderSf2Xlsx(report);
+
+const renderSf4 = (report: Sf4Report, format: 'xlsx' | 'pdf') =>
+  format === 'pdf' ? renderSf4Pdf(report) : renderSf4Xlsx(report);
+
+// SF2 may be generated by the section's adviser, a coordinator or an admin.
+// Returns an error response to send, or null when the user may go ahead.
+const checkSectionAccess = async (user: NonNullable<AuthRequest['user']>, sectionId: string) => {
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    select: { adviserId: true }
+  });
+
+  if (!section) {
+    return { status: 404, body: { error: 'Section not found', code: 'SECTION_NOT_FOUND' } };
+  }
+
+  if (!canManageSection(user, section)) {
+    return {
+      status: 403,
+      body: {
+        error: 'Only the section adviser or a coordinator can generate school forms',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      }
+    };
+  }
+
+  return null;
+};
+
+// Download DepEd School Form 2 (Daily Attendance Report of Learners) for a section and month
+router.get('/sf2', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = sf2Schema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const accessError = await checkSectionAccess(req.user!, value.sectionId);
+    if (accessError) {
+      return res.status(accessError.status).json(accessError.body);
+    }
+
+    const report = await buildSf2Report(value.sectionId, value.month);
+    if (!report) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    if (value.format === 'json') {
+      return res.json({ report });
+    }
+
+    const file = await renderSf2(report, value.format);
+    res.setHeader('Content-Type', CONTENT_TYPES[value.format as 'xlsx' | 'pdf']);
+    res.setHeader('Content-Disposition', `attachment; filename="${sf2FileName(report, value.format)}"`);
+    res.send(file);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate SF2 and keep it in file storage under attendance_reports
+router.post('/sf2', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'stored_files'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = saveSf2Schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const accessError = await checkSectionAccess(req.user!, value.sectionId);
+    if (accessError) {
+      return res.status(accessError.status).json(accessError.body);
+    }
+
+    const report = await buildSf2Report(value.sectionId, value.month);
+    if (!report) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    const storedFile = await storeFile(await renderSf2(report, value.format), {
+      name: sf2FileName(report, value.format),
+      type: CONTENT_TYPES[value.format as 'xlsx' | 'pdf'],
+      uploadedBy: req.user!.id,
+      description: `SF2 ${report.section.name}, ${report.monthLabel}`,
+      category: 'attendance_reports'
+    });
+
+    res.status(201).json({
+      message: 'SF2 saved successfully',
+      file: storedFile
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate SF2 and email it as an attachment
+router.post('/sf2/email', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'email_outbox'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = emailSf2Schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const accessError = await checkSectionAccess(req.user!, value.sectionId);
+    if (accessError) {
+      return res.status(accessError.status).json(accessError.body);
+    }
+
+    const report = await buildSf2Report(value.sectionId, value.month);
+    if (!report) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    const fileName = sf2FileName(report, value.format);
+    const email = await queueEmail(
+      value.to || req.user!.email,
+      'report_delivery',
+      {
+        reportName: `SF2 ${report.section.name}, ${report.monthLabel}`,
+        requestedBy: req.user!.fullName,
+        fileName
+      },
+      {
+        attachments: [{
+          filename: fileName,
+          contentType: CONTENT_TYPES[value.format as 'xlsx' | 'pdf'],
+          content: await renderSf2(report, value.format)
+        }]
+      }
+    );
+
+    res.status(202).json({
+      message: `SF2 queued for ${email!.to}`,
+      email
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate SF2 for every section, or one grade level, in the background and save
+// each to file storage. Poll the returned job at GET /api/jobs/:id.
+router.post('/sf2/batch', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('CREATE', 'stored_files'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = sf2BatchSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const job = await enqueueJob(
+      'reports',
+      'sf2_batch',
+      { month: value.month, format: value.format, gradeLevel: value.gradeLevel || null },
+      { createdBy: req.user!.id }
+    );
+
+    res.status(202).json({
+      message: 'SF2 generation started',
+      job
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Download DepEd School Form 4 (Monthly Learner's Movement and Attendance) for every
+// section, or one grade level
+router.get('/sf4', authenticateToken, requireCoordinatorOrAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = sf4Schema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const report = await buildSf4Report(value.month, value.gradeLevel);
+
+    if (value.format === 'json') {
+      return res.json({ report });
+    }
+
+    const file = await renderSf4(report, value.format);
+    res.setHeader('Content-Type', CONTENT_TYPES[value.format as 'xlsx' | 'pdf']);
+    res.setHeader('Content-Disposition', `attachment; filename="${sf4FileName(report, value.format)}"`);
+    res.send(file);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate SF4 and keep it in file storage under attendance_reports
+router.post('/sf4', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('CREATE', 'stored_files'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = saveSf4Schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const report = await buildSf4Report(value.month, value.gradeLevel);
+
+    const storedFile = await storeFile(await renderSf4(report, value.format), {
+      name: sf4FileName(report, value.format),
+      type: CONTENT_TYPES[value.format as 'xlsx' | 'pdf'],
+      uploadedBy: req.user!.id,
+      description: `SF4 ${value.gradeLevel ? `Grade ${value.gradeLevel}, ` : ''}${report.monthLabel}`,
+      category: 'attendance_reports'
+    });
+
+    res.status(201).json({
+      message: 'SF4 saved successfully',
+      file: storedFile
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate SF4 and email it as an attachment
+router.post('/sf4/email', authenticateToken, requireCoordinatorOrAdmin, auditMiddleware('CREATE', 'email_outbox'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = emailSf4Schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const report = await buildSf4Report(value.month, value.gradeLevel);
+
+    const fileName = sf4FileName(report, value.format);
+    const email = await queueEmail(
+      value.to || req.user!.email,
+      'report_delivery',
+      {
+        reportName: `SF4 ${value.gradeLevel ? `Grade ${value.gradeLevel}, ` : ''}${report.monthLabel}`,
+        requestedBy: req.user!.fullName,
+        fileName
+      },
+      {
+        attachments: [{
+          filename: fileName,
+          contentType: CONTENT_TYPES[value.format as 'xlsx' | 'pdf'],
+          content: await renderSf4(report, value.format)
+        }]
+      }
+    );
+
+    res.status(202).json({
+      message: `SF4 queued for ${email!.to}`,
+      email
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
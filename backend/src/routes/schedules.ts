@@ -0,0 +1,303 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma, NotificationSchedule } from '@prisma/client';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { isJobRunning, nextRunAt, triggerJob } from '../services/jobScheduler';
+import { SCHEDULED_JOBS } from '../services/scheduledJobs';
+import { isValidCron } from '../utils/cron';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const JOB_TYPES = Object.keys(SCHEDULED_JOBS);
+const JOB_RUN_STATUSES = ['running', 'succeeded', 'failed'];
+
+// Validation schemas
+const cronField = Joi.string().trim()
+  .custom((value, helpers) => (isValidCron(value) ? value : helpers.error('any.invalid')))
+  .messages({ 'any.invalid': '"schedule" must be a cron expression (minute hour day-of-month month day-of-week)' });
+
+const createScheduleSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100).required(),
+  description: Joi.string().trim().max(500).allow(null, '').optional(),
+  schedule: cronField.required(),
+  jobType: Joi.string().valid(...JOB_TYPES).required(),
+  isActive: Joi.boolean().default(true)
+});
+
+const updateScheduleSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100).optional(),
+  description: Joi.string().trim().max(500).allow(null, '').optional(),
+  schedule: cronField.optional(),
+  isActive: Joi.boolean().optional()
+}).min(1);
+
+const getRunsSchema = Joi.object({
+  scheduleId: Joi.string().optional(),
+  jobType: Joi.string().valid(...JOB_TYPES).optional(),
+  status: Joi.string().valid(...JOB_RUN_STATUSES).optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const runSelect = {
+  id: true,
+  scheduleId: true,
+  jobType: true,
+  trigger: true,
+  status: true,
+  startedAt: true,
+  finishedAt: true,
+  durationMs: true,
+  result: true,
+  error: true,
+  schedule: { select: { name: true } },
+  triggerer: { select: { id: true, fullName: true } }
+} satisfies Prisma.JobRunSelect;
+
+const withNextRun = (schedule: NotificationSchedule) => ({
+  ...schedule,
+  nextRunAt: nextRunAt(schedule),
+  running: isJobRunning(schedule.id)
+});
+
+const scheduleNotFound = {
+  error: 'Schedule not found',
+  code: 'SCHEDULE_NOT_FOUND'
+};
+
+// Get every schedule with its next run time and latest run
+router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const schedules = await prisma.notificationSchedule.findMany({
+      include: {
+        creator: { select: { id: true, fullName: true } },
+        runs: { select: runSelect, orderBy: { startedAt: 'desc' }, take: 1 }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      schedules: schedules.map(({ runs, ...schedule }) => ({
+        ...withNextRun(schedule),
+        lastRun: runs[0] || null
+      })),
+      jobTypes: JOB_TYPES
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get job runs newest first
+router.get('/runs', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getRunsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { scheduleId, jobType, status, page, limit } = value;
+    const whereClause: Prisma.JobRunWhereInput = {};
+
+    if (scheduleId) whereClause.scheduleId = scheduleId;
+    if (jobType) whereClause.jobType = jobType;
+    if (status) whereClause.status = status;
+
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where: whereClause,
+        select: runSelect,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.jobRun.count({ where: whereClause })
+    ]);
+
+    res.json({
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get one run with what the job reported
+router.get('/runs/:runId', authenticateToken, requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const run = await prisma.jobRun.findUnique({
+      where: { id: req.params.runId },
+      select: runSelect
+    });
+
+    if (!run) {
+      return res.status(404).json({
+        error: 'Job run not found',
+        code: 'JOB_RUN_NOT_FOUND'
+      });
+    }
+
+    res.json({ run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a schedule
+router.post('/', authenticateToken, requireAdmin, auditMiddleware('CREATE', 'notification_schedules'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createScheduleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const schedule = await prisma.notificationSchedule.create({
+      data: {
+        ...value,
+        description: value.description || null,
+        createdBy: req.user!.id
+      }
+    });
+
+    res.status(201).json({
+      message: 'Schedule created successfully',
+      schedule: withNextRun(schedule)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a schedule's name, description, cron expression or active state
+router.put('/:id', authenticateToken, requireAdmin, auditMiddleware('UPDATE', 'notification_schedules'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateScheduleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existing = await prisma.notificationSchedule.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json(scheduleNotFound);
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      name: existing.name,
+      description: existing.description,
+      schedule: existing.schedule,
+      isActive: existing.isActive
+    };
+
+    const schedule = await prisma.notificationSchedule.update({
+      where: { id },
+      data: {
+        ...value,
+        ...(value.description !== undefined && { description: value.description || null })
+      }
+    });
+
+    res.json({
+      message: 'Schedule updated successfully',
+      schedule: withNextRun(schedule)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Pause or resume a schedule. A paused schedule can still be run by hand.
+const setActive = (isActive: boolean) => async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const existing = await prisma.notificationSchedule.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json(scheduleNotFound);
+    }
+
+    req.oldData = { isActive: existing.isActive };
+
+    const schedule = await prisma.notificationSchedule.update({
+      where: { id: existing.id },
+      data: { isActive }
+    });
+
+    res.json({
+      message: isActive ? 'Schedule resumed' : 'Schedule paused',
+      schedule: withNextRun(schedule)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+router.post('/:id/pause', authenticateToken, requireAdmin, auditMiddleware('UPDATE', 'notification_schedules'), setActive(false));
+
+router.post('/:id/resume', authenticateToken, requireAdmin, auditMiddleware('UPDATE', 'notification_schedules'), setActive(true));
+
+// Run a schedule's job now. The run finishes in the background; poll it by id.
+router.post('/:id/run', authenticateToken, requireAdmin, auditMiddleware('CREATE', 'job_runs'), async (req: AuthRequest, res, next) => {
+  try {
+    const schedule = await prisma.notificationSchedule.findUnique({ where: { id: req.params.id } });
+    if (!schedule) {
+      return res.status(404).json(scheduleNotFound);
+    }
+
+    const run = await triggerJob(schedule, req.user!.id);
+    if (!run) {
+      return res.status(409).json({
+        error: 'This job is already running',
+        code: 'JOB_RUNNING'
+      });
+    }
+
+    res.status(202).json({
+      message: 'Job started',
+      run
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a schedule and its run history
+router.delete('/:id', authenticateToken, requireAdmin, auditMiddleware('DELETE', 'notification_schedules'), async (req: AuthRequest, res, next) => {
+  try {
+    const existing = await prisma.notificationSchedule.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json(scheduleNotFound);
+    }
+
+    req.oldData = {
+      name: existing.name,
+      schedule: existing.schedule,
+      jobType: existing.jobType,
+      isActive: existing.isActive
+    };
+
+    await prisma.notificationSchedule.delete({ where: { id: existing.id } });
+
+    res.json({ message: 'Schedule deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
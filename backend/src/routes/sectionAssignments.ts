@@ -0,0 +1,328 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireBeadleOrAbove, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { canManageSection } from '../services/attendanceLock';
+import { activeOn } from '../services/sectionAssignments';
+import { dateKey } from '../services/schoolCalendar';
+import { schoolToday } from '../utils/schoolTime';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createAssignmentSchema = Joi.object({
+  sectionId: Joi.string().required(),
+  beadleId: Joi.string().required(),
+  startDate: Joi.date().default(() => schoolToday()),
+  endDate: Joi.date().min(Joi.ref('startDate')).allow(null).optional()
+});
+
+const updateAssignmentSchema = Joi.object({
+  startDate: Joi.date(),
+  endDate: Joi.date().allow(null)
+}).min(1);
+
+const getAssignmentsSchema = Joi.object({
+  sectionId: Joi.string().optional(),
+  beadleId: Joi.string().optional(),
+  activeOn: Joi.date().optional()
+});
+
+const assignmentInclude = {
+  section: {
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true,
+      schoolYear: true
+    }
+  },
+  beadle: {
+    select: {
+      id: true,
+      fullName: true,
+      email: true
+    }
+  },
+  assigner: {
+    select: {
+      id: true,
+      fullName: true
+    }
+  }
+};
+
+// Another assignment of the same beadle to the same section sharing any day with the range
+const findOverlap = (
+  sectionId: string,
+  beadleId: string,
+  startDate: Date,
+  endDate: Date | null,
+  excludeId?: string
+) =>
+  prisma.sectionAssignment.findFirst({
+    where: {
+      sectionId,
+      beadleId,
+      id: excludeId ? { not: excludeId } : undefined,
+      startDate: endDate ? { lte: endDate } : undefined,
+      OR: [{ endDate: null }, { endDate: { gte: startDate } }]
+    }
+  });
+
+const overlapResponse = (overlap: { id: string; startDate: Date; endDate: Date | null }) => ({
+  error: 'The beadle is already assigned to this section for part of that period',
+  code: 'ASSIGNMENT_OVERLAP',
+  assignmentId: overlap.id,
+  startDate: dateKey(overlap.startDate),
+  endDate: overlap.endDate ? dateKey(overlap.endDate) : null
+});
+
+// Get section assignments. Beadles only see their own.
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getAssignmentsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const whereClause: Prisma.SectionAssignmentWhereInput = value.activeOn ? activeOn(value.activeOn) : {};
+
+    if (value.sectionId) whereClause.sectionId = value.sectionId;
+    if (value.beadleId) whereClause.beadleId = value.beadleId;
+    if (req.user!.role === 'beadle') whereClause.beadleId = req.user!.id;
+
+    const assignments = await prisma.sectionAssignment.findMany({
+      where: whereClause,
+      include: assignmentInclude,
+      orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }]
+    });
+
+    res.json({ assignments });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get active beadle accounts that can be assigned to a section
+router.get('/beadles', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const beadles = await prisma.user.findMany({
+      where: { role: 'beadle', isActive: true },
+      select: {
+        id: true,
+        fullName: true,
+        email: true
+      },
+      orderBy: { fullName: 'asc' }
+    });
+
+    res.json({ beadles });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Assign a beadle to a section
+router.post('/', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'section_assignments'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createAssignmentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { sectionId, beadleId, startDate } = value;
+    const endDate: Date | null = value.endDate || null;
+
+    const section = await prisma.section.findUnique({
+      where: { id: sectionId },
+      select: { id: true, adviserId: true }
+    });
+
+    if (!section) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can assign beadles',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    const beadle = await prisma.user.findUnique({
+      where: { id: beadleId },
+      select: { id: true, role: true, isActive: true }
+    });
+
+    if (!beadle || !beadle.isActive) {
+      return res.status(404).json({
+        error: 'User not found',
+        code: 'USER_NOT_FOUND'
+      });
+    }
+
+    if (beadle.role !== 'beadle') {
+      return res.status(400).json({
+        error: 'Only beadles can be assigned to a section',
+        code: 'NOT_A_BEADLE'
+      });
+    }
+
+    const overlap = await findOverlap(sectionId, beadleId, startDate, endDate);
+    if (overlap) {
+      return res.status(409).json(overlapResponse(overlap));
+    }
+
+    const assignment = await prisma.sectionAssignment.create({
+      data: {
+        sectionId,
+        beadleId,
+        startDate,
+        endDate,
+        assignedBy: req.user!.id
+      },
+      include: assignmentInclude
+    });
+
+    res.status(201).json({
+      message: 'Beadle assigned successfully',
+      assignment
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change an assignment's dates, e.g. end it
+router.put('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'section_assignments'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const { error, value } = updateAssignmentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingAssignment = await prisma.sectionAssignment.findUnique({
+      where: { id },
+      include: {
+        section: {
+          select: { adviserId: true }
+        }
+      }
+    });
+
+    if (!existingAssignment) {
+      return res.status(404).json({
+        error: 'Assignment not found',
+        code: 'ASSIGNMENT_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, existingAssignment.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can change assignments',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    const startDate: Date = value.startDate || existingAssignment.startDate;
+    const endDate: Date | null = value.endDate !== undefined ? value.endDate : existingAssignment.endDate;
+
+    if (endDate && endDate.getTime() < startDate.getTime()) {
+      return res.status(400).json({
+        error: 'End date cannot be before the start date',
+        code: 'INVALID_DATE_RANGE'
+      });
+    }
+
+    const overlap = await findOverlap(existingAssignment.sectionId, existingAssignment.beadleId, startDate, endDate, id);
+    if (overlap) {
+      return res.status(409).json(overlapResponse(overlap));
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      startDate: existingAssignment.startDate,
+      endDate: existingAssignment.endDate
+    };
+
+    const assignment = await prisma.sectionAssignment.update({
+      where: { id },
+      data: { startDate, endDate },
+      include: assignmentInclude
+    });
+
+    res.json({
+      message: 'Assignment updated successfully',
+      assignment
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove an assignment made by mistake. Use PUT with an endDate to end one that was used.
+router.delete('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('DELETE', 'section_assignments'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingAssignment = await prisma.sectionAssignment.findUnique({
+      where: { id },
+      include: {
+        section: {
+          select: { adviserId: true }
+        }
+      }
+    });
+
+    if (!existingAssignment) {
+      return res.status(404).json({
+        error: 'Assignment not found',
+        code: 'ASSIGNMENT_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, existingAssignment.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can remove assignments',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      sectionId: existingAssignment.sectionId,
+      beadleId: existingAssignment.beadleId,
+      startDate: existingAssignment.startDate,
+      endDate: existingAssignment.endDate
+    };
+
+    await prisma.sectionAssignment.delete({
+      where: { id }
+    });
+
+    res.json({
+      message: 'Assignment removed successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,8 +1,12 @@
 import express from 'express';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireCoordinatorOrAdmin, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requireBeadleOrAbove, requireCoordinatorOrAdmin, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
 import { auditMiddleware } from '../middleware/audit';
+import { canManageSection, finalizeSectionDay, getLockState, getLockStates } from '../services/attendanceLock';
+import { dateKey } from '../services/schoolCalendar';
+import { checkAssignment, sectionScope } from '../services/sectionAssignments';
+import { schoolDateKey, schoolToday } from '../utils/schoolTime';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -22,10 +26,27 @@ const updateSectionSchema = Joi.object({
   adviserId: Joi.string().allow(null)
 });
 
+// Lock state is reported for `date`, today by default
+const lockDateSchema = Joi.object({
+  date: Joi.date().default(() => schoolToday())
+});
+
 // Get all sections
-router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
+    const { error, value } = lockDateSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    // Beadles only see the sections assigned to them
+    const sectionFilter = await sectionScope(req.user!);
+
     const sections = await prisma.section.findMany({
+      where: sectionFilter ? { id: sectionFilter } : undefined,
       include: {
         adviser: {
           select: {
@@ -44,17 +65,29 @@ router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
       orderBy: { name: 'asc' }
     });
 
-    res.json({ sections });
+    const locks = await getLockStates(sections.map(section => section.id), value.date);
+
+    res.json({
+      sections: sections.map(section => ({ ...section, lock: locks.get(section.id) }))
+    });
   } catch (error) {
     next(error);
   }
 });
 
 // Get section by ID
-router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/:id', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
+    const { error, value } = lockDateSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
     const section = await prisma.section.findUnique({
       where: { id },
       include: {
@@ -90,7 +123,64 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
       });
     }
 
-    res.json({ section });
+    const assignmentError = await checkAssignment(req.user!, section.id);
+    if (assignmentError) {
+      return res.status(assignmentError.status).json(assignmentError.body);
+    }
+
+    res.json({
+      section: { ...section, lock: await getLockState(section.id, value.date) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Finalize a day's attendance ahead of the cutoff. Afterwards changes need an override.
+router.post('/:id/finalize', authenticateToken, requireAdviserOrAbove, auditMiddleware('FINALIZE', 'attendance_finalizations'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const { error, value } = lockDateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const section = await prisma.section.findUnique({
+      where: { id },
+      select: { id: true, adviserId: true }
+    });
+
+    if (!section) {
+      return res.status(404).json({
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can finalize attendance',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    if (dateKey(value.date) > schoolDateKey()) {
+      return res.status(400).json({
+        error: 'Cannot finalize attendance for a future date',
+        code: 'FUTURE_DATE'
+      });
+    }
+
+    const lock = await finalizeSectionDay(section.id, value.date, req.user!.id);
+
+    res.json({
+      message: 'Attendance finalized successfully',
+      lock
+    });
   } catch (error) {
     next(error);
   }
@@ -292,7 +382,7 @@ router.delete('/:id', authenticateToken, requireCoordinatorOrAdmin, auditMiddlew
 });
 
 // Get section students
-router.get('/:id/students', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/:id/students', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
@@ -306,6 +396,9 @@ router.get('/:id/students', authenticateToken, async (req: AuthRequest, res, nex
             firstName: true,
             lastName: true,
             middleName: true,
+            enrollmentStatus: true,
+            leftOn: true,
+            transferredInOn: true,
             createdAt: true
           },
           orderBy: { lastName: 'asc' }
@@ -320,6 +413,11 @@ router.get('/:id/students', authenticateToken, async (req: AuthRequest, res, nex
       });
     }
 
+    const assignmentError = await checkAssignment(req.user!, section.id);
+    if (assignmentError) {
+      return res.status(assignmentError.status).json(assignmentError.body);
+    }
+
     res.json({
       section: {
         id: section.id,
@@ -0,0 +1,140 @@
+import express, { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireCoordinatorOrAdmin, AuthRequest } from '../middleware/auth';
+import { getSmsProvider, handleInboundSms, recordDeliveryReceipt, smsUsage } from '../services/smsGateway';
+import { smsCostPerSegment } from '../utils/smsSegments';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const usageSchema = Joi.object({
+  month: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).default(() => new Date().toISOString().slice(0, 7))
+});
+
+// Gateways name these differently; the common spellings are accepted
+const receiptSchema = Joi.object({
+  messageId: Joi.string().required(),
+  status: Joi.string().required(),
+  error: Joi.string().allow(null, '').optional()
+})
+  .rename('id', 'messageId', { ignoreUndefined: true })
+  .rename('message_id', 'messageId', { ignoreUndefined: true })
+  .unknown(true);
+
+const inboundSchema = Joi.object({
+  from: Joi.string().required(),
+  text: Joi.string().allow('').required()
+})
+  .rename('message', 'text', { ignoreUndefined: true })
+  .unknown(true);
+
+// The gateway's callbacks carry SMS_CALLBACK_TOKEN as a bearer token or a
+// ?token= query parameter. Without one configured the callbacks are refused.
+const requireGatewayToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.SMS_CALLBACK_TOKEN;
+  if (!expected) {
+    return res.status(503).json({
+      error: 'SMS callbacks are not configured',
+      code: 'SMS_CALLBACKS_DISABLED'
+    });
+  }
+
+  const header = req.headers['authorization'];
+  const given = (header && header.split(' ')[1]) || (typeof req.query.token === 'string' ? req.query.token : '');
+  const valid = given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+
+  if (!valid) {
+    return res.status(401).json({
+      error: 'Invalid callback token',
+      code: 'INVALID_TOKEN'
+    });
+  }
+
+  next();
+};
+
+// Get a month's texts to guardians: segments against the quota, estimated cost,
+// delivery receipts so far and how many guardians have opted out
+router.get('/usage', authenticateToken, requireCoordinatorOrAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = usageSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const [usage, optedOut] = await Promise.all([
+      smsUsage(value.month),
+      prisma.guardian.count({ where: { smsOptedOutAt: { not: null } } })
+    ]);
+
+    const provider = getSmsProvider();
+
+    res.json({
+      ...usage,
+      costPerSegment: smsCostPerSegment(),
+      provider: provider && provider.isConfigured() ? provider.name : null,
+      optedOutGuardians: optedOut
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delivery receipt from the gateway for a text it was given
+router.post('/receipts', requireGatewayToken, async (req, res, next) => {
+  try {
+    const { error, value } = receiptSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const recorded = await recordDeliveryReceipt({
+      messageId: value.messageId,
+      status: value.status,
+      error: value.error,
+      raw: req.body
+    });
+
+    if (!recorded) {
+      return res.status(404).json({
+        error: 'No message with that id',
+        code: 'MESSAGE_NOT_FOUND'
+      });
+    }
+
+    res.json({ message: 'Receipt recorded' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// A text a guardian sent to the school's number, forwarded by the gateway.
+// STOP opts the number out of SMS and START back in.
+router.post('/inbound', requireGatewayToken, async (req, res, next) => {
+  try {
+    const { error, value } = inboundSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const result = await handleInboundSms(value.from, value.text);
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, requireBeadleOrAbove, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { canManageSection } from '../services/attendanceLock';
+import { sectionScope } from '../services/sectionAssignments';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createLeaveSchema = Joi.object({
+  studentId: Joi.string().required(),
+  startDate: Joi.date().required(),
+  endDate: Joi.date().min(Joi.ref('startDate')).optional(),
+  reason: Joi.string().min(3).required()
+});
+
+const getLeavesSchema = Joi.object({
+  sectionId: Joi.string().optional(),
+  studentId: Joi.string().optional(),
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional()
+});
+
+const leaveInclude = {
+  student: {
+    select: {
+      id: true,
+      studentNumber: true,
+      firstName: true,
+      lastName: true,
+      sectionId: true
+    }
+  },
+  approver: {
+    select: {
+      id: true,
+      fullName: true
+    }
+  }
+};
+
+// Get approved leave, optionally for a section, a student or a date range
+router.get('/', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = getLeavesSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { sectionId, studentId, startDate, endDate } = value;
+    const whereClause: Prisma.StudentLeaveWhereInput = {};
+
+    // Beadles only see the sections assigned to them
+    const sectionFilter = await sectionScope(req.user!, sectionId);
+    if (sectionFilter) whereClause.student = { sectionId: sectionFilter };
+    if (studentId) whereClause.studentId = studentId;
+    if (startDate) whereClause.endDate = { gte: startDate };
+    if (endDate) whereClause.startDate = { lte: endDate };
+
+    const leaves = await prisma.studentLeave.findMany({
+      where: whereClause,
+      include: leaveInclude,
+      orderBy: { startDate: 'asc' }
+    });
+
+    res.json({ leaves });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve leave for a student ahead of time
+router.post('/', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'student_leaves'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = createLeaveSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const student = await prisma.student.findUnique({
+      where: { id: value.studentId },
+      include: {
+        section: {
+          select: { adviserId: true }
+        }
+      }
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+        code: 'STUDENT_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, student.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can approve leave',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    const leave = await prisma.studentLeave.create({
+      data: {
+        studentId: student.id,
+        startDate: value.startDate,
+        endDate: value.endDate || value.startDate,
+        reason: value.reason,
+        approvedBy: req.user!.id
+      },
+      include: leaveInclude
+    });
+
+    res.status(201).json({
+      message: 'Leave approved successfully',
+      leave
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Withdraw approved leave
+router.delete('/:id', authenticateToken, requireAdviserOrAbove, auditMiddleware('DELETE', 'student_leaves'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingLeave = await prisma.studentLeave.findUnique({
+      where: { id },
+      include: {
+        student: {
+          select: {
+            section: {
+              select: { adviserId: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!existingLeave) {
+      return res.status(404).json({
+        error: 'Leave not found',
+        code: 'LEAVE_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, existingLeave.student.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can withdraw leave',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      studentId: existingLeave.studentId,
+      startDate: existingLeave.startDate,
+      endDate: existingLeave.endDate,
+      reason: existingLeave.reason
+    };
+
+    await prisma.studentLeave.delete({
+      where: { id }
+    });
+
+    res.json({
+      message: 'Leave withdrawn successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,274 @@
+import express from 'express';
+import multer from 'multer';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireStudent, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { storeFile } from '../services/fileStorage';
+import { notifyUser } from '../services/notificationService';
+import { dateKey } from '../services/schoolCalendar';
+import { selfCheckIn } from '../services/selfCheckIn';
+import { attendanceMonth, recentExcuseLetters, termSummary } from '../services/studentAttendance';
+import { schoolToday } from '../utils/schoolTime';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Excuse letter attachments: a photo or scan of the signed letter
+const upload = multer({
+  limits: {
+    fileSize: parseInt(process.env.MAX_FILE_SIZE || '2097152') // 2MB default
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ['image/jpeg', 'image/png', 'application/pdf'];
+
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type'));
+    }
+  }
+});
+
+// Validation schemas
+const monthSchema = Joi.object({
+  month: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).default(() => schoolToday().toISOString().slice(0, 7))
+});
+
+const createLetterSchema = Joi.object({
+  startDate: Joi.date().required(),
+  endDate: Joi.date().min(Joi.ref('startDate')).optional(),
+  reason: Joi.string().min(3).required()
+});
+
+const checkInSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+// The student record behind the signed-in account. Returns an error response
+// to send, or the student.
+const findOwnStudent = async (userId: string) => {
+  const student = await prisma.student.findUnique({
+    where: { userId },
+    include: {
+      section: {
+        select: {
+          id: true,
+          name: true,
+          gradeLevel: true,
+          adviserId: true,
+          adviser: {
+            select: { fullName: true }
+          }
+        }
+      }
+    }
+  });
+
+  if (!student) {
+    return { error: { status: 404, body: { error: 'No student record is linked to this account', code: 'STUDENT_NOT_FOUND' } } };
+  }
+
+  return { student };
+};
+
+// Get the student's own record and whether they checked in today
+router.get('/me', authenticateToken, requireStudent, async (req: AuthRequest, res, next) => {
+  try {
+    const found = await findOwnStudent(req.user!.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const { student } = found;
+    const checkIn = await prisma.checkIn.findFirst({
+      where: {
+        studentId: student.id,
+        session: { date: schoolToday() }
+      },
+      select: { checkedInAt: true }
+    });
+
+    res.json({
+      student: {
+        id: student.id,
+        studentNumber: student.studentNumber,
+        firstName: student.firstName,
+        lastName: student.lastName,
+        section: {
+          id: student.section.id,
+          name: student.section.name,
+          gradeLevel: student.section.gradeLevel,
+          adviser: student.section.adviser
+        }
+      },
+      checkedInToday: checkIn ? checkIn.checkedInAt : null
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a month of the student's own attendance
+router.get('/attendance', authenticateToken, requireStudent, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = monthSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findOwnStudent(req.user!.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    res.json(await attendanceMonth(found.student.id, value.month));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the student's totals, attendance rate and streaks for the current term
+router.get('/summary', authenticateToken, requireStudent, async (req: AuthRequest, res, next) => {
+  try {
+    const found = await findOwnStudent(req.user!.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    res.json(await termSummary(found.student.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the student's excuse letters, pending ones first
+router.get('/excuse-letters', authenticateToken, requireStudent, async (req: AuthRequest, res, next) => {
+  try {
+    const found = await findOwnStudent(req.user!.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    res.json({ letters: await recentExcuseLetters(found.student.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Submit an excuse letter with a photo or scan of it attached. It goes to the
+// adviser's review queue like any other letter.
+router.post('/excuse-letters', authenticateToken, requireStudent, upload.single('file'), auditMiddleware('CREATE', 'excuse_letters'), async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Attach a photo or scan of the letter',
+        code: 'NO_FILE'
+      });
+    }
+
+    const { error, value } = createLetterSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findOwnStudent(req.user!.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const { student } = found;
+    const storedFile = await storeFile(req.file.buffer, {
+      name: req.file.originalname,
+      type: req.file.mimetype,
+      uploadedBy: req.user!.id,
+      description: 'Excuse letter',
+      category: 'student_documents'
+    });
+
+    const letter = await prisma.excuseLetter.create({
+      data: {
+        studentId: student.id,
+        startDate: value.startDate,
+        endDate: value.endDate || value.startDate,
+        reason: value.reason,
+        proofUrl: storedFile.url,
+        authorType: 'student',
+        authorName: `${student.firstName} ${student.lastName}`,
+        submittedBy: req.user!.id,
+        events: {
+          create: { status: 'pending', actorId: req.user!.id }
+        }
+      },
+      select: {
+        id: true,
+        startDate: true,
+        endDate: true,
+        reason: true,
+        status: true,
+        createdAt: true
+      }
+    });
+
+    if (student.section.adviserId) {
+      const start = dateKey(letter.startDate);
+      const end = dateKey(letter.endDate);
+      await notifyUser(
+        student.section.adviserId,
+        'excuse_letter_submitted',
+        'Excuse letter submitted',
+        `${student.firstName} ${student.lastName} submitted an excuse letter for ${start === end ? start : `${start} to ${end}`}.`,
+        { excuseLetterId: letter.id }
+      );
+    }
+
+    res.status(201).json({
+      message: 'Excuse letter submitted successfully',
+      letter
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Check in with a scanned check-in code, without typing a student number
+router.post('/check-in', authenticateToken, requireStudent, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = checkInSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findOwnStudent(req.user!.id);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const result = await selfCheckIn(value.token, found.student.studentNumber, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    if ('error' in result) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    res.status(201).json({
+      message: 'Checked in successfully',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,380 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireAdviserOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { canManageSection } from '../services/attendanceLock';
+import { enqueueJob } from '../services/jobQueue';
+import { generateSetupCode } from '../utils/setupCode';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const enrollmentSchema = Joi.object({
+  status: Joi.string().valid('enrolled', 'dropped_out', 'transferred_out').required(),
+  leftOn: Joi.when('status', {
+    is: 'enrolled',
+    then: Joi.valid(null).optional(),
+    otherwise: Joi.date().required()
+  }),
+  transferredInOn: Joi.date().allow(null).optional()
+});
+
+const sectionAccountsSchema = Joi.object({
+  sectionId: Joi.string().required()
+});
+
+// Rows are checked one by one in the import job, so a bad row doesn't stop the rest
+const importStudentsSchema = Joi.object({
+  sectionId: Joi.string().required(),
+  students: Joi.array().items(Joi.object({
+    studentNumber: Joi.string().allow('').required(),
+    firstName: Joi.string().allow('').required(),
+    lastName: Joi.string().allow('').required(),
+    middleName: Joi.string().allow('', null).optional(),
+    sex: Joi.string().valid('male', 'female').allow(null).optional()
+  })).min(1).max(5000).required()
+});
+
+// Students sign in with their student number; the email only has to be unique
+const STUDENT_EMAIL_DOMAIN = 'students.attendify.local';
+
+const studentEmail = (studentNumber: string) =>
+  `${studentNumber.toLowerCase().replace(/[^a-z0-9._-]/g, '')}@${STUDENT_EMAIL_DOMAIN}`;
+
+type ImportRow = { studentNumber: string; firstName: string; lastName: string; middleName?: string | null; sex?: 'male' | 'female' | null };
+
+const normalizeImportRow = (row: ImportRow) => ({
+  studentNumber: row.studentNumber.trim(),
+  firstName: row.firstName.trim(),
+  lastName: row.lastName.trim(),
+  middleName: row.middleName?.trim() || null,
+  sex: row.sex || null
+});
+
+// Load a section the user may provision student accounts for. Returns an error
+// response to send, or the section.
+const findManageableSection = async (user: NonNullable<AuthRequest['user']>, sectionId: string) => {
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    select: { id: true, adviserId: true }
+  });
+
+  if (!section) {
+    return { error: { status: 404, body: { error: 'Section not found', code: 'SECTION_NOT_FOUND' } } };
+  }
+
+  if (!canManageSection(user, section)) {
+    return {
+      error: {
+        status: 403,
+        body: {
+          error: 'Only the section adviser or a coordinator can manage student accounts',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        }
+      }
+    };
+  }
+
+  return { section };
+};
+
+// A password nobody knows, so a provisioned account can't be signed into until
+// the student sets their own with the setup code
+const unusablePassword = () => bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12);
+
+// List a section's enrolled students and where each stands with their account
+router.get('/accounts', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = sectionAccountsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findManageableSection(req.user!, value.sectionId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const students = await prisma.student.findMany({
+      where: { sectionId: found.section.id, enrollmentStatus: 'enrolled' },
+      select: {
+        id: true,
+        studentNumber: true,
+        firstName: true,
+        lastName: true,
+        user: {
+          select: {
+            email: true,
+            isActive: true,
+            passwordSetupCode: true,
+            passwordSetupExpiresAt: true
+          }
+        }
+      },
+      orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }]
+    });
+
+    res.json({
+      students: students.map(({ user, ...student }) => ({
+        ...student,
+        account: user && {
+          email: user.email,
+          isActive: user.isActive,
+          pendingSetup: user.passwordSetupCode !== null,
+          setupExpiresAt: user.passwordSetupExpiresAt
+        }
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create accounts for every enrolled student in a section that doesn't have one.
+// The setup codes are only ever returned here, for the adviser to hand out.
+router.post('/accounts', authenticateToken, requireAdviserOrAbove, auditMiddleware('CREATE', 'users'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = sectionAccountsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findManageableSection(req.user!, value.sectionId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const students = await prisma.student.findMany({
+      where: { sectionId: found.section.id, enrollmentStatus: 'enrolled', userId: null },
+      select: { id: true, studentNumber: true, firstName: true, lastName: true },
+      orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }]
+    });
+
+    const takenEmails = new Set(
+      (await prisma.user.findMany({
+        where: { email: { in: students.map(student => studentEmail(student.studentNumber)) } },
+        select: { email: true }
+      })).map(user => user.email)
+    );
+
+    const password = await unusablePassword();
+    const accounts = [];
+    const skipped = [];
+
+    for (const student of students) {
+      const email = studentEmail(student.studentNumber);
+      if (takenEmails.has(email)) {
+        skipped.push({ ...student, reason: `${email} is already in use` });
+        continue;
+      }
+
+      const setup = generateSetupCode();
+      await prisma.user.create({
+        data: {
+          email,
+          password,
+          fullName: `${student.firstName} ${student.lastName}`,
+          role: 'student',
+          passwordSetupCode: setup.hash,
+          passwordSetupExpiresAt: setup.expiresAt,
+          studentProfile: { connect: { id: student.id } }
+        }
+      });
+
+      accounts.push({ ...student, setupCode: setup.code, setupExpiresAt: setup.expiresAt });
+    }
+
+    res.status(201).json({
+      message: `${accounts.length} student account(s) created`,
+      accounts,
+      skipped
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add students from a CSV upload to a section in the background. Poll the
+// returned job at GET /api/jobs/:id; its result lists the rows that failed.
+router.post('/import', authenticateToken, requireAdviserOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = importStudentsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const found = await findManageableSection(req.user!, value.sectionId);
+    if (found.error) {
+      return res.status(found.error.status).json(found.error.body);
+    }
+
+    const job = await enqueueJob(
+      'imports',
+      'student_import',
+      { sectionId: found.section.id, students: value.students.map(normalizeImportRow) },
+      { createdBy: req.user!.id }
+    );
+
+    res.status(202).json({
+      message: 'Student import started',
+      job
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Issue a new setup code, e.g. for a lost slip or a forgotten password. The
+// current password stops working until the student sets a new one.
+router.post('/:id/account/setup-code', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'users'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const student = await prisma.student.findUnique({
+      where: { id },
+      include: {
+        section: {
+          select: { adviserId: true }
+        }
+      }
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+        code: 'STUDENT_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, student.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can manage student accounts',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    if (!student.userId) {
+      return res.status(404).json({
+        error: 'This student has no account yet',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    const setup = generateSetupCode();
+    await prisma.user.update({
+      where: { id: student.userId },
+      data: {
+        password: await unusablePassword(),
+        passwordSetupCode: setup.hash,
+        passwordSetupExpiresAt: setup.expiresAt
+      }
+    });
+
+    res.json({
+      message: 'New setup code issued',
+      setupCode: setup.code,
+      setupExpiresAt: setup.expiresAt
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Record a dropout, a transfer out or a transfer in. Setting the status back to
+// enrolled clears the leaving date.
+router.put('/:id/enrollment', authenticateToken, requireAdviserOrAbove, auditMiddleware('UPDATE', 'students'), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const { error, value } = enrollmentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const existingStudent = await prisma.student.findUnique({
+      where: { id },
+      include: {
+        section: {
+          select: { adviserId: true }
+        }
+      }
+    });
+
+    if (!existingStudent) {
+      return res.status(404).json({
+        error: 'Student not found',
+        code: 'STUDENT_NOT_FOUND'
+      });
+    }
+
+    if (!canManageSection(req.user!, existingStudent.section)) {
+      return res.status(403).json({
+        error: 'Only the section adviser or a coordinator can change enrollment',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    const leftOn: Date | null = value.status === 'enrolled' ? null : value.leftOn;
+    const transferredInOn: Date | null = value.transferredInOn !== undefined
+      ? value.transferredInOn
+      : existingStudent.transferredInOn;
+
+    if (leftOn && transferredInOn && leftOn.getTime() < transferredInOn.getTime()) {
+      return res.status(400).json({
+        error: 'A learner cannot leave before transferring in',
+        code: 'INVALID_DATE_RANGE'
+      });
+    }
+
+    // Store old data for audit
+    req.oldData = {
+      enrollmentStatus: existingStudent.enrollmentStatus,
+      leftOn: existingStudent.leftOn,
+      transferredInOn: existingStudent.transferredInOn
+    };
+
+    const student = await prisma.student.update({
+      where: { id },
+      data: {
+        enrollmentStatus: value.status,
+        leftOn,
+        transferredInOn
+      },
+      select: {
+        id: true,
+        studentNumber: true,
+        firstName: true,
+        lastName: true,
+        sectionId: true,
+        enrollmentStatus: true,
+        leftOn: true,
+        transferredInOn: true
+      }
+    });
+
+    res.json({
+      message: 'Enrollment updated successfully',
+      student
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
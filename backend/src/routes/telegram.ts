@@ -0,0 +1,144 @@
+import express, { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireAdmin, requireBeadleOrAbove, AuthRequest } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { createLinkCode, handleTelegramUpdate, registerWebhook, unlinkTelegram } from '../services/telegramBot';
+import { isTelegramConfigured } from '../services/telegramApi';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const registerSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['https', 'http'] }).optional()
+});
+
+const botUsername = () => process.env.TELEGRAM_BOT_USERNAME || null;
+
+const notConfigured = {
+  error: 'The Telegram bot is not configured',
+  code: 'TELEGRAM_NOT_CONFIGURED'
+};
+
+// Telegram sends TELEGRAM_WEBHOOK_SECRET back in a header with every update.
+// Without one configured the webhook is refused.
+const requireWebhookSecret = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!expected) {
+    return res.status(503).json({
+      error: 'The Telegram webhook is not configured',
+      code: 'TELEGRAM_WEBHOOK_DISABLED'
+    });
+  }
+
+  const header = req.headers['x-telegram-bot-api-secret-token'];
+  const given = typeof header === 'string' ? header : '';
+  const valid = given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+
+  if (!valid) {
+    return res.status(401).json({
+      error: 'Invalid webhook secret',
+      code: 'INVALID_TOKEN'
+    });
+  }
+
+  next();
+};
+
+// Updates from Telegram. A failing update is logged and still acknowledged,
+// since Telegram would otherwise redeliver it (and hold back the ones after it).
+router.post('/webhook', requireWebhookSecret, async (req, res) => {
+  try {
+    await handleTelegramUpdate(req.body);
+  } catch (error) {
+    console.error(`Telegram update ${req.body?.update_id} failed:`, error);
+  }
+
+  res.json({ ok: true });
+});
+
+// Whether the signed-in user has a chat linked
+router.get('/link', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { telegramChatId: true }
+    });
+
+    res.json({
+      configured: isTelegramConfigured(),
+      linked: Boolean(user?.telegramChatId),
+      botUsername: botUsername()
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// A one-time code, valid for 15 minutes, for the user to send the bot with /link.
+// Only returned here; asking again replaces it.
+router.post('/link-code', authenticateToken, requireBeadleOrAbove, async (req: AuthRequest, res, next) => {
+  try {
+    if (!isTelegramConfigured()) {
+      return res.status(503).json(notConfigured);
+    }
+
+    const { code, expiresAt } = await createLinkCode(req.user!.id);
+    const username = botUsername();
+
+    res.status(201).json({
+      code,
+      expiresAt,
+      botUsername: username,
+      link: username ? `https://t.me/${username}?start=${code}` : null
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Unlink the signed-in user's chat
+router.delete('/link', authenticateToken, requireBeadleOrAbove, auditMiddleware('UPDATE', 'users'), async (req: AuthRequest, res, next) => {
+  try {
+    await unlinkTelegram(req.user!.id);
+
+    res.json({ message: 'Telegram chat unlinked' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Point the bot at this server's webhook (url, defaulting to TELEGRAM_WEBHOOK_URL)
+router.post('/webhook/register', authenticateToken, requireAdmin, auditMiddleware('UPDATE', 'telegram_webhook'), async (req: AuthRequest, res, next) => {
+  try {
+    const { error, value } = registerSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const url = value.url || process.env.TELEGRAM_WEBHOOK_URL;
+    const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+    if (!isTelegramConfigured() || !secret) {
+      return res.status(503).json(notConfigured);
+    }
+    if (!url) {
+      return res.status(400).json({
+        error: 'No webhook URL given and TELEGRAM_WEBHOOK_URL is not set',
+        code: 'WEBHOOK_URL_REQUIRED'
+      });
+    }
+
+    await registerWebhook(url, secret);
+
+    res.json({ message: 'Webhook registered', url });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -12,13 +12,13 @@ const createUserSchema = Joi.object({
   email: Joi.string().email().required(),
   password: Joi.string().min(6).required(),
   fullName: Joi.string().min(2).required(),
-  role: Joi.string().valid('beadle', 'adviser', 'coordinator', 'admin').required()
+  role: Joi.string().valid('beadle', 'adviser', 'coordinator', 'admin', 'parent').required()
 });
 
 const updateUserSchema = Joi.object({
   email: Joi.string().email(),
   fullName: Joi.string().min(2),
-  role: Joi.string().valid('beadle', 'adviser', 'coordinator', 'admin'),
+  role: Joi.string().valid('beadle', 'adviser', 'coordinator', 'admin', 'parent'),
   isActive: Joi.boolean()
 });
 
@@ -11,6 +11,29 @@ import { PrismaClient } from '@prisma/client';
 import authRoutes from './routes/auth';
 import attendanceRoutes from './routes/attendance';
 import sectionRoutes from './routes/sections';
+import classSessionRoutes from './routes/classSessions';
+import changeRequestRoutes from './routes/changeRequests';
+import notificationRoutes from './routes/notifications';
+import calendarRoutes from './routes/calendar';
+import checkInRoutes from './routes/checkIn';
+import studentLeaveRoutes from './routes/studentLeaves';
+import sectionAssignmentRoutes from './routes/sectionAssignments';
+import excuseLetterRoutes from './routes/excuseLetters';
+import reportRoutes from './routes/reports';
+import studentRoutes from './routes/students';
+import alertRoutes from './routes/alerts';
+import alertRuleRoutes from './routes/alertRules';
+import guardianRoutes from './routes/guardians';
+import guardianNotificationRoutes from './routes/guardianNotifications';
+import parentPortalRoutes from './routes/parentPortal';
+import studentPortalRoutes from './routes/studentPortal';
+import emailRoutes from './routes/email';
+import smsRoutes from './routes/sms';
+import telegramRoutes from './routes/telegram';
+import scheduleRoutes from './routes/schedules';
+import jobRoutes from './routes/jobs';
+import eventRoutes from './routes/events';
+import auditRoutes from './routes/audit';
 import userRoutes from './routes/users';
 import fileRoutes from './routes/files';
 import analyticsRoutes from './routes/analytics';
@@ -22,6 +45,13 @@ import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 import { setupSwagger } from './config/swagger';
 
+// Import services
+import { scheduleAlertEvaluation } from './services/alertEngine';
+import { scheduleGuardianNotifications } from './services/guardianNotifications';
+import { scheduleEmailOutbox } from './services/emailOutbox';
+import { scheduleJobs } from './services/jobScheduler';
+import { startJobWorkers } from './services/jobQueue';
+
 // Load environment variables
 dotenv.config();
 
@@ -35,14 +65,32 @@ app.use(cors({
   credentials: true
 }));
 
+// Callbacks left out of the general limit: they come from a few provider IPs
+// and check their own secret
+const CALLBACK_PATHS = [
+  '/api/telegram/webhook',
+  '/api/sms/receipts',
+  '/api/sms/inbound'
+];
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
   max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  // Self check-in is limited separately, below
+  skip: (req) => req.path.startsWith('/api/check-in') || req.path === '/api/student/check-in' || CALLBACK_PATHS.includes(req.path)
 });
 app.use(limiter);
 
+// A class's phones and the classroom display usually share the school's one
+// public IP, so self check-in (with or without signing in) gets a higher limit of its own
+const checkInLimiter = rateLimit({
+  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'),
+  max: parseInt(process.env.CHECK_IN_RATE_LIMIT_MAX_REQUESTS || '3000'),
+  message: 'Too many check-in requests from this IP, please try again later.'
+});
+
 // Body parsing middleware
 app.use(compression());
 app.use(express.json({ limit: '10mb' }));
@@ -72,6 +120,30 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/attendance', attendanceRoutes);
 app.use('/api/sections', sectionRoutes);
+app.use('/api/class-sessions', classSessionRoutes);
+app.use('/api/attendance-change-requests', changeRequestRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/check-in', checkInLimiter, checkInRoutes);
+app.use('/api/student-leaves', studentLeaveRoutes);
+app.use('/api/section-assignments', sectionAssignmentRoutes);
+app.use('/api/excuse-letters', excuseLetterRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/students', studentRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/alert-rules', alertRuleRoutes);
+app.use('/api/guardians', guardianRoutes);
+app.use('/api/guardian-notifications', guardianNotificationRoutes);
+app.use('/api/parent', parentPortalRoutes);
+app.use('/api/student/check-in', checkInLimiter);
+app.use('/api/student', studentPortalRoutes);
+app.use('/api/email', emailRoutes);
+app.use('/api/sms', smsRoutes);
+app.use('/api/telegram', telegramRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/audit', auditRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/analytics', analyticsRoutes);
@@ -106,6 +178,12 @@ app.listen(PORT, () => {
   console.log(`🚀 POD AI Monitoring Backend Server running on port ${PORT}`);
   console.log(`📚 API Documentation available at http://localhost:${PORT}/api-docs`);
   console.log(`🏥 Health check available at http://localhost:${PORT}/health`);
+
+  scheduleAlertEvaluation();
+  scheduleGuardianNotifications();
+  scheduleEmailOutbox();
+  scheduleJobs();
+  startJobWorkers();
 });
 
 export default app;
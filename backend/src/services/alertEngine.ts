@@ -0,0 +1,387 @@
+import { PrismaClient, Prisma, Alert, AlertRule, AttendanceStatus } from '@prisma/client';
+import { loadSchoolCalendar, dateKey, SchoolCalendar } from './schoolCalendar';
+import { publishEvent } from './realtimeEvents';
+import { attendanceWeight, isAbsence, roundRate, rollupDaily } from '../utils/attendanceStatus';
+import { schoolTimeOn, schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Thresholds kept in AlertRule.params for each rule type
+export interface AlertRuleParams {
+  // Absent this many marked school days in a row, up to today
+  consecutive_absences: { days: number };
+  // Attendance rate (percent) under threshold over the last schoolDays school days
+  low_attendance_rate: { threshold: number; schoolDays: number };
+  // No marks for the section by this local time (HH:mm)
+  missing_submission: { time: string };
+  // More than threshold absences on a weekday (0 = Sunday) over the last schoolDays school days
+  weekday_absences: { weekday: number; threshold: number; schoolDays: number };
+}
+
+// Missing submissions are checked for the last week of school days, so a day
+// nobody submitted stays flagged after midnight
+const MISSING_SUBMISSION_DAYS = 5;
+
+export interface EvaluationSummary {
+  rules: number;
+  raised: number;
+  updated: number;
+  cleared: number;
+}
+
+interface Finding {
+  key: string;
+  sectionId: string;
+  studentId?: string;
+  title: string;
+  message: string;
+  count: number;
+  data?: Prisma.InputJsonValue;
+}
+
+interface ScopedSection {
+  id: string;
+  name: string;
+  gradeLevel: string;
+  students: { id: string; firstName: string; lastName: string }[];
+}
+
+interface RuleContext {
+  now: Date;
+  calendar: SchoolCalendar;
+  start: Date;
+  today: Date;
+  // Daily status keyed by `${studentId}:${date}`
+  marks: Map<string, AttendanceStatus>;
+  // `${sectionId}:${date}` for every section-day with at least one mark
+  submitted: Set<string>;
+}
+
+const params = <T extends keyof AlertRuleParams>(rule: AlertRule, type: T) => {
+  if (rule.type !== type) {
+    throw new Error(`Alert rule ${rule.id} is not a ${type} rule`);
+  }
+  return rule.params as unknown as AlertRuleParams[T];
+};
+
+// How many school days back a rule looks
+const schoolDaysNeeded = (rule: AlertRule) => {
+  switch (rule.type) {
+    case 'consecutive_absences':
+      return params(rule, 'consecutive_absences').days * 2;
+    case 'low_attendance_rate':
+      return params(rule, 'low_attendance_rate').schoolDays;
+    case 'missing_submission':
+      return MISSING_SUBMISSION_DAYS;
+    case 'weekday_absences':
+      return params(rule, 'weekday_absences').schoolDays;
+  }
+};
+
+// The last `count` school days for a grade level, oldest first
+const recentSchoolDays = (context: RuleContext, gradeLevel: string, count: number) =>
+  context.calendar.schoolDays(context.start, context.today, gradeLevel).slice(-count);
+
+const markedStatuses = (context: RuleContext, studentId: string, days: string[]) =>
+  days
+    .map(day => context.marks.get(`${studentId}:${day}`))
+    .filter((status): status is AttendanceStatus => status !== undefined);
+
+const fullName = (student: { firstName: string; lastName: string }) => `${student.firstName} ${student.lastName}`;
+
+// Unmarked days (today before anyone submits, or a day the section skipped) neither
+// extend nor break a streak; any mark other than absent ends it
+const consecutiveAbsences = (rule: AlertRule, sections: ScopedSection[], context: RuleContext): Finding[] => {
+  const { days } = params(rule, 'consecutive_absences');
+
+  return sections.flatMap(section => {
+    const schoolDays = recentSchoolDays(context, section.gradeLevel, days * 2).reverse();
+
+    return section.students.flatMap(student => {
+      const absentDays: string[] = [];
+      for (const day of schoolDays) {
+        const status = context.marks.get(`${student.id}:${day}`);
+        if (!status) continue;
+        if (status !== 'absent') break;
+        absentDays.push(day);
+      }
+
+      if (absentDays.length < days) return [];
+      const since = absentDays[absentDays.length - 1];
+      return [{
+        key: `student:${student.id}`,
+        sectionId: section.id,
+        studentId: student.id,
+        title: 'Consecutive absences',
+        message: `${fullName(student)} has been absent ${absentDays.length} school days in a row since ${since}`,
+        count: absentDays.length,
+        data: { since }
+      }];
+    });
+  });
+};
+
+const lowAttendanceRate = (rule: AlertRule, sections: ScopedSection[], context: RuleContext): Finding[] => {
+  const { threshold, schoolDays } = params(rule, 'low_attendance_rate');
+
+  return sections.flatMap(section => {
+    const days = recentSchoolDays(context, section.gradeLevel, schoolDays);
+
+    return section.students.flatMap(student => {
+      const statuses = markedStatuses(context, student.id, days);
+      if (statuses.length === 0) return [];
+
+      const rate = roundRate((statuses.reduce((sum, status) => sum + attendanceWeight(status), 0) / statuses.length) * 100);
+      if (rate >= threshold) return [];
+
+      return [{
+        key: `student:${student.id}`,
+        sectionId: section.id,
+        studentId: student.id,
+        title: 'Low attendance',
+        message: `${fullName(student)} attended ${rate}% of the last ${statuses.length} marked school days (under ${threshold}%)`,
+        count: statuses.filter(isAbsence).length,
+        data: { rate }
+      }];
+    });
+  });
+};
+
+const missingSubmission = (rule: AlertRule, sections: ScopedSection[], context: RuleContext): Finding[] => {
+  const { time } = params(rule, 'missing_submission');
+
+  return sections
+    .filter(section => section.students.length > 0)
+    .flatMap(section =>
+      recentSchoolDays(context, section.gradeLevel, MISSING_SUBMISSION_DAYS)
+        .filter(day => context.now.getTime() >= schoolTimeOn(day, time).getTime())
+        .filter(day => !context.submitted.has(`${section.id}:${day}`))
+        .map(day => ({
+          key: `section:${section.id}:${day}`,
+          sectionId: section.id,
+          title: 'Attendance not submitted',
+          message: `${section.name} has no attendance for ${day} (due by ${time})`,
+          count: section.students.length,
+          data: { date: day }
+        }))
+    );
+};
+
+const weekdayAbsences = (rule: AlertRule, sections: ScopedSection[], context: RuleContext): Finding[] => {
+  const { weekday, threshold, schoolDays } = params(rule, 'weekday_absences');
+
+  return sections.flatMap(section => {
+    const days = recentSchoolDays(context, section.gradeLevel, schoolDays)
+      .filter(day => new Date(day).getUTCDay() === weekday);
+
+    return section.students.flatMap(student => {
+      const absences = markedStatuses(context, student.id, days).filter(status => status === 'absent').length;
+      if (absences <= threshold) return [];
+
+      return [{
+        key: `student:${student.id}`,
+        sectionId: section.id,
+        studentId: student.id,
+        title: `${WEEKDAYS[weekday]} absences`,
+        message: `${fullName(student)} was absent on ${absences} of the last ${days.length} ${WEEKDAYS[weekday]}s`,
+        count: absences
+      }];
+    });
+  });
+};
+
+const FINDERS = {
+  consecutive_absences: consecutiveAbsences,
+  low_attendance_rate: lowAttendanceRate,
+  missing_submission: missingSubmission,
+  weekday_absences: weekdayAbsences
+};
+
+const ruleScope = (rule: AlertRule): Prisma.SectionWhereInput =>
+  rule.sectionId ? { id: rule.sectionId } : rule.gradeLevel ? { gradeLevel: rule.gradeLevel } : {};
+
+const findAlerts = async (rule: AlertRule, onlySectionId: string | undefined, now: Date) => {
+  const sections: ScopedSection[] = await prisma.section.findMany({
+    where: { AND: [ruleScope(rule), onlySectionId ? { id: onlySectionId } : {}] },
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true,
+      students: {
+        where: { enrollmentStatus: 'enrolled' },
+        select: { id: true, firstName: true, lastName: true },
+        orderBy: { lastName: 'asc' }
+      }
+    }
+  });
+
+  if (sections.length === 0) return [];
+
+  // School days are counted back from today; the extra calendar days cover
+  // weekends and short breaks
+  const today = schoolToday(now);
+  const start = new Date(today.getTime() - (schoolDaysNeeded(rule) * 2 + 21) * DAY_MS);
+
+  const [calendar, records] = await Promise.all([
+    loadSchoolCalendar(start, today),
+    prisma.attendanceRecord.findMany({
+      where: {
+        sectionId: { in: sections.map(section => section.id) },
+        date: { gte: start, lte: today }
+      },
+      select: { studentId: true, sectionId: true, sessionId: true, date: true, status: true }
+    })
+  ]);
+
+  const context: RuleContext = {
+    now,
+    calendar,
+    start,
+    today,
+    marks: new Map(rollupDaily(records).map(record => [`${record.studentId}:${dateKey(record.date)}`, record.status])),
+    submitted: new Set(records.map(record => `${record.sectionId}:${dateKey(record.date)}`))
+  };
+
+  return FINDERS[rule.type](rule, sections, context);
+};
+
+// Raise alerts for new findings and refresh the current ones. A finding that no
+// longer holds clears its alert, resolving it if nobody had; an alert someone
+// resolved stays resolved until its condition clears, after which it can be raised
+// again.
+const syncAlerts = async (rule: AlertRule, findings: Finding[], onlySectionId: string | undefined, now: Date) => {
+  const current = await prisma.alert.findMany({
+    where: {
+      ruleId: rule.id,
+      clearedAt: null,
+      ...(onlySectionId && { sectionId: onlySectionId })
+    }
+  });
+  const currentByKey = new Map(current.map(alert => [alert.key, alert]));
+  const found = new Set(findings.map(finding => finding.key));
+
+  const raised = findings.filter(finding => !currentByKey.has(finding.key));
+  const refreshed = findings.filter(finding => currentByKey.has(finding.key));
+  const cleared = current.filter(alert => !found.has(alert.key));
+
+  const results = await prisma.$transaction([
+    ...raised.map(finding => prisma.alert.create({
+      data: {
+        ...finding,
+        ruleId: rule.id,
+        severity: rule.severity,
+        lastDetectedAt: now
+      }
+    })),
+    ...refreshed.map(finding => {
+      const alert = currentByKey.get(finding.key)!;
+      return prisma.alert.update({
+        where: { id: alert.id },
+        data: alert.status === 'resolved'
+          ? { lastDetectedAt: now }
+          : {
+            severity: rule.severity,
+            title: finding.title,
+            message: finding.message,
+            count: finding.count,
+            data: finding.data,
+            lastDetectedAt: now
+          }
+      });
+    }),
+    prisma.alert.updateMany({
+      where: { id: { in: cleared.filter(alert => alert.status === 'resolved').map(alert => alert.id) } },
+      data: { clearedAt: now }
+    }),
+    prisma.alert.updateMany({
+      where: { id: { in: cleared.filter(alert => alert.status !== 'resolved').map(alert => alert.id) } },
+      data: { clearedAt: now, status: 'resolved', resolvedAt: now }
+    })
+  ]);
+
+  // The creates come first in the transaction
+  for (const alert of results.slice(0, raised.length) as Alert[]) {
+    await publishEvent('alert.raised', alert.sectionId, {
+      alertId: alert.id,
+      studentId: alert.studentId,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message
+    });
+  }
+
+  return { raised: raised.length, updated: refreshed.length, cleared: cleared.length };
+};
+
+// An inactive rule finds nothing, so evaluating it clears its alerts
+const evaluateRule = async (rule: AlertRule, onlySectionId?: string, now = new Date()) => {
+  const findings = rule.isActive ? await findAlerts(rule, onlySectionId, now) : [];
+  return syncAlerts(rule, findings, onlySectionId, now);
+};
+
+const evaluateRules = async (rules: AlertRule[], onlySectionId?: string): Promise<EvaluationSummary> => {
+  const summary: EvaluationSummary = { rules: rules.length, raised: 0, updated: 0, cleared: 0 };
+  const now = new Date();
+
+  // One rule at a time keeps the load on the database flat
+  for (const rule of rules) {
+    const result = await evaluateRule(rule, onlySectionId, now);
+    summary.raised += result.raised;
+    summary.updated += result.updated;
+    summary.cleared += result.cleared;
+  }
+  return summary;
+};
+
+// Evaluations run one after another, so a scheduled run and a submission never
+// raise the same alert twice
+let queue: Promise<unknown> = Promise.resolve();
+
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+// Evaluate every active rule across its whole scope
+export const evaluateAlertRules = () => serialize(async () =>
+  evaluateRules(await prisma.alertRule.findMany({ where: { isActive: true } }))
+);
+
+// Re-check one rule after it was created or changed
+export const evaluateAlertRule = (rule: AlertRule) => serialize(() => evaluateRules([rule]));
+
+// Re-check the rules covering a section after its attendance changed. Runs in
+// the attendance follow-up job, which retries when this throws.
+export const evaluateSectionAlerts = (sectionId: string) => serialize(async () => {
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    select: { gradeLevel: true }
+  });
+  if (!section) return null;
+
+  const rules = await prisma.alertRule.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { sectionId },
+        { sectionId: null, gradeLevel: section.gradeLevel },
+        { sectionId: null, gradeLevel: null }
+      ]
+    }
+  });
+  return evaluateRules(rules, sectionId);
+});
+
+// Evaluate every rule each ALERT_EVALUATION_INTERVAL_MINUTES (15 by default)
+export const scheduleAlertEvaluation = () => {
+  const minutes = parseInt(process.env.ALERT_EVALUATION_INTERVAL_MINUTES || '15');
+
+  return setInterval(() => {
+    evaluateAlertRules().catch(error => console.error('Scheduled alert evaluation failed:', error));
+  }, minutes * 60 * 1000);
+};
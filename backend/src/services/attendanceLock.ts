@@ -0,0 +1,170 @@
+import { PrismaClient } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { logAuditEvent } from '../middleware/audit';
+import { dateKey } from './schoolCalendar';
+import { schoolTimeOn } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+export interface LockState {
+  sectionId: string;
+  date: string;
+  finalized: boolean;
+  // 'manual' when an adviser finalized the day, 'cutoff' once the daily cutoff passed
+  finalizedBy: 'manual' | 'cutoff' | null;
+  finalizedAt: Date | null;
+  finalizer: { id: string; fullName: string } | null;
+  cutoffAt: Date;
+}
+
+type LockUser = NonNullable<AuthRequest['user']>;
+
+// ATTENDANCE_CUTOFF_TIME is the school's local time (HH:mm) after which a day's
+// attendance is final.
+export const cutoffAt = (date: Date) => {
+  const time = process.env.ATTENDANCE_CUTOFF_TIME || '17:00';
+  const cutoff = schoolTimeOn(dateKey(date), time);
+
+  if (isNaN(cutoff.getTime())) {
+    throw new Error(`Invalid attendance cutoff "${time}"`);
+  }
+  return cutoff;
+};
+
+const toLockState = (
+  sectionId: string,
+  date: Date,
+  finalization: { finalizedAt: Date; finalizer: { id: string; fullName: string } } | null,
+  now: Date
+): LockState => {
+  const cutoff = cutoffAt(date);
+  const pastCutoff = now.getTime() >= cutoff.getTime();
+
+  if (finalization && finalization.finalizedAt.getTime() < cutoff.getTime()) {
+    return {
+      sectionId,
+      date: dateKey(date),
+      finalized: true,
+      finalizedBy: 'manual',
+      finalizedAt: finalization.finalizedAt,
+      finalizer: finalization.finalizer,
+      cutoffAt: cutoff
+    };
+  }
+
+  return {
+    sectionId,
+    date: dateKey(date),
+    finalized: pastCutoff,
+    finalizedBy: pastCutoff ? 'cutoff' : null,
+    finalizedAt: pastCutoff ? cutoff : null,
+    finalizer: null,
+    cutoffAt: cutoff
+  };
+};
+
+const finalizationSelect = {
+  sectionId: true,
+  finalizedAt: true,
+  finalizer: {
+    select: { id: true, fullName: true }
+  }
+};
+
+export const getLockState = async (sectionId: string, date: Date | string, now = new Date()) => {
+  const day = new Date(dateKey(new Date(date)));
+  const finalization = await prisma.attendanceFinalization.findUnique({
+    where: { sectionId_date: { sectionId, date: day } },
+    select: finalizationSelect
+  });
+
+  return toLockState(sectionId, day, finalization, now);
+};
+
+// Lock state of several sections on one day, keyed by section id
+export const getLockStates = async (sectionIds: string[], date: Date | string, now = new Date()) => {
+  const day = new Date(dateKey(new Date(date)));
+  const finalizations = await prisma.attendanceFinalization.findMany({
+    where: { sectionId: { in: sectionIds }, date: day },
+    select: finalizationSelect
+  });
+  const bySection = new Map(finalizations.map(finalization => [finalization.sectionId, finalization]));
+
+  return new Map(sectionIds.map(sectionId => [
+    sectionId,
+    toLockState(sectionId, day, bySection.get(sectionId) || null, now)
+  ]));
+};
+
+// Finalize a section-day ahead of the cutoff. Finalizing twice keeps the first.
+export const finalizeSectionDay = async (sectionId: string, date: Date | string, userId: string) => {
+  const day = new Date(dateKey(new Date(date)));
+
+  await prisma.attendanceFinalization.upsert({
+    where: { sectionId_date: { sectionId, date: day } },
+    create: { sectionId, date: day, finalizedBy: userId },
+    update: {}
+  });
+
+  return getLockState(sectionId, day);
+};
+
+// Advisers manage their own sections, coordinators and admins any section
+export const canManageSection = (user: LockUser, section: { adviserId: string | null }) =>
+  user.role === 'coordinator' || user.role === 'admin' || (user.role === 'adviser' && section.adviserId === user.id);
+
+// Gate a write to a section-day. Finalized days need an override reason from
+// someone allowed to override; the override itself is written to the audit log.
+// Past the cutoff, marks for students without one may still be added (late and
+// backdated entry); a day the adviser finalized accepts nothing without an override.
+// Returns an error response to send, or null when the write may go ahead.
+export const checkLock = async (
+  user: LockUser,
+  sectionId: string,
+  date: Date | string,
+  overrideReason?: string,
+  addsOnly = false
+) => {
+  const lock = await getLockState(sectionId, date);
+  if (!lock.finalized || (addsOnly && lock.finalizedBy === 'cutoff')) {
+    return null;
+  }
+
+  if (!overrideReason) {
+    return {
+      status: 423,
+      body: {
+        error: 'Attendance for this day is finalized',
+        code: 'ATTENDANCE_FINALIZED',
+        lock
+      }
+    };
+  }
+
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    select: { adviserId: true }
+  });
+
+  if (!section || !canManageSection(user, section)) {
+    return {
+      status: 403,
+      body: {
+        error: 'Only the section adviser or a coordinator can change finalized attendance',
+        code: 'OVERRIDE_NOT_ALLOWED',
+        lock
+      }
+    };
+  }
+
+  await logLockOverride(user.id, lock, overrideReason);
+  return null;
+};
+
+export const logLockOverride = (userId: string, lock: LockState, reason: string) =>
+  logAuditEvent(userId, 'OVERRIDE', 'attendance_finalizations', undefined, undefined, {
+    sectionId: lock.sectionId,
+    date: lock.date,
+    finalizedBy: lock.finalizedBy,
+    reason
+  });
@@ -0,0 +1,155 @@
+import { PrismaClient } from '@prisma/client';
+import { dateKey, loadSchoolCalendar } from './schoolCalendar';
+import { schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many school days back each role may submit attendance
+const DEFAULT_BACKDATE_DAYS: Record<string, number> = {
+  beadle: 2,
+  adviser: 5,
+  coordinator: 20,
+  admin: 60
+};
+
+// How far ahead the date picker offers days with pre-approved leave
+export const LEAVE_LOOKAHEAD_DAYS = 30;
+
+interface PolicySection {
+  id: string;
+  gradeLevel: string;
+}
+
+interface PolicyRecord {
+  studentId: string;
+  status: string;
+}
+
+// ATTENDANCE_BACKDATE_DAYS overrides the defaults per role, e.g. "beadle:1,adviser:5"
+export const backdateLimits = () => {
+  const limits = { ...DEFAULT_BACKDATE_DAYS };
+  (process.env.ATTENDANCE_BACKDATE_DAYS || '').split(',').forEach(entry => {
+    const [role, days] = entry.split(':').map(part => part.trim());
+    if (role && /^\d+$/.test(days || '')) {
+      limits[role] = Number(days);
+    }
+  });
+  return limits;
+};
+
+export const maxDaysBack = (role: string) => backdateLimits()[role] ?? 0;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+// The oldest date a role may still submit: the Nth school day before today
+export const earliestAllowedDate = async (role: string, gradeLevel: string) => {
+  const limit = maxDaysBack(role);
+  const end = schoolToday();
+  if (limit === 0) return end;
+
+  // Two weeks of slack per school week covers long weekends and holiday breaks
+  const start = addDays(end, -(Math.ceil(limit / 5) * 14 + 14));
+  const calendar = await loadSchoolCalendar(start, end);
+  const pastSchoolDays = calendar.schoolDays(start, addDays(end, -1), gradeLevel);
+
+  return pastSchoolDays.length >= limit
+    ? new Date(pastSchoolDays[pastSchoolDays.length - limit])
+    : start;
+};
+
+// Approved leave for a section's students overlapping a date range
+export const leavesInRange = (sectionId: string, start: Date, end: Date) =>
+  prisma.studentLeave.findMany({
+    where: {
+      student: { sectionId },
+      startDate: { lte: end },
+      endDate: { gte: start }
+    },
+    orderBy: { startDate: 'asc' }
+  });
+
+// Check a submission's date against the policy: no weekends or holidays, no
+// further back than the role allows, and future dates only for students on
+// approved leave, recorded as excused. Returns an error response to send, or
+// null when the date is allowed.
+export const checkDatePolicy = async (
+  role: string,
+  section: PolicySection,
+  date: Date | string,
+  records: PolicyRecord[]
+) => {
+  const day = new Date(dateKey(new Date(date)));
+  const calendar = await loadSchoolCalendar(day, day);
+
+  const closure = calendar.closureFor(day, section.gradeLevel);
+  if (closure) {
+    return {
+      status: 400,
+      body: {
+        error: `Attendance cannot be taken on a non-school day (${closure.reason})`,
+        code: 'NON_SCHOOL_DAY',
+        closure
+      }
+    };
+  }
+
+  if (day.getTime() > schoolToday().getTime()) {
+    const leaves = await leavesInRange(section.id, day, day);
+    const onLeave = new Set(leaves.map(leave => leave.studentId));
+    const notAllowed = records
+      .filter(record => !onLeave.has(record.studentId) || record.status !== 'excused')
+      .map(record => record.studentId);
+
+    if (notAllowed.length > 0) {
+      return {
+        status: 400,
+        body: {
+          error: 'Future dates only accept excused marks for students on approved leave',
+          code: 'FUTURE_DATE_NOT_ALLOWED',
+          studentIds: notAllowed
+        }
+      };
+    }
+
+    return null;
+  }
+
+  const earliest = await earliestAllowedDate(role, section.gradeLevel);
+  if (day.getTime() < earliest.getTime()) {
+    return {
+      status: 400,
+      body: {
+        error: `Attendance can only be submitted up to ${maxDaysBack(role)} school day(s) back`,
+        code: 'DATE_TOO_OLD',
+        earliestDate: dateKey(earliest),
+        maxDaysBack: maxDaysBack(role)
+      }
+    };
+  }
+
+  return null;
+};
+
+// What the date picker needs to offer only dates the policy accepts
+export const getDatePolicy = async (role: string, section: PolicySection) => {
+  const earliest = await earliestAllowedDate(role, section.gradeLevel);
+  const end = addDays(schoolToday(), LEAVE_LOOKAHEAD_DAYS);
+  const [calendar, leaves] = await Promise.all([
+    loadSchoolCalendar(earliest, end),
+    leavesInRange(section.id, addDays(schoolToday(), 1), end)
+  ]);
+
+  return {
+    maxDaysBack: maxDaysBack(role),
+    earliestDate: dateKey(earliest),
+    today: dateKey(schoolToday()),
+    nonSchoolDays: calendar.nonSchoolDays(earliest, end, section.gradeLevel),
+    leaves: leaves.map(leave => ({
+      studentId: leave.studentId,
+      startDate: dateKey(leave.startDate),
+      endDate: dateKey(leave.endDate)
+    }))
+  };
+};
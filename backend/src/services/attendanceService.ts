@@ -0,0 +1,56 @@
+import { PrismaClient, Prisma, AttendanceStatus } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface AttendanceUpdate {
+  status?: AttendanceStatus;
+  reasonCode?: string | null;
+  notes?: string;
+}
+
+const recordInclude = {
+  student: {
+    select: {
+      id: true,
+      studentNumber: true,
+      firstName: true,
+      lastName: true,
+      middleName: true
+    }
+  },
+  section: {
+    select: {
+      id: true,
+      name: true,
+      gradeLevel: true,
+      schoolYear: true
+    }
+  }
+};
+
+// Apply a correction to a single attendance record. Returns null when the record
+// does not exist; otherwise the updated record and the audited fields as they were.
+// Pass a transaction client as `db` to make the update part of a transaction.
+export const updateAttendanceRecord = async (id: string, changes: AttendanceUpdate, db: Prisma.TransactionClient = prisma) => {
+  const existingRecord = await db.attendanceRecord.findUnique({
+    where: { id }
+  });
+
+  if (!existingRecord) {
+    return null;
+  }
+
+  const oldData = {
+    status: existingRecord.status,
+    reasonCode: existingRecord.reasonCode,
+    notes: existingRecord.notes
+  };
+
+  const record = await db.attendanceRecord.update({
+    where: { id },
+    data: changes,
+    include: recordInclude
+  });
+
+  return { record, oldData };
+};
@@ -0,0 +1,195 @@
+import { PrismaClient, AttendanceStatus } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { checkLock, getLockState } from './attendanceLock';
+import { checkDatePolicy } from './attendancePolicy';
+import { checkAssignment } from './sectionAssignments';
+import { enqueueJob } from './jobQueue';
+import { publishEvent } from './realtimeEvents';
+import { dateKey } from './schoolCalendar';
+import { isAbsence } from '../utils/attendanceStatus';
+
+const prisma = new PrismaClient();
+
+interface SavedMark {
+  studentId: string;
+  date: Date | string;
+  status: AttendanceStatus;
+}
+
+// Re-check the section's alert rules and message guardians on the notifications
+// queue. Guardians hear about the day's attendance, not individual periods, so
+// period marks only re-check alerts. A failure to queue is logged rather than
+// failing the save.
+export const queueAttendanceFollowUp = async (sectionId: string, sessionId: string | null, marks: SavedMark[]) => {
+  try {
+    await enqueueJob('notifications', 'attendance_follow_up', {
+      sectionId,
+      marks: sessionId
+        ? []
+        : marks.map(mark => ({ studentId: mark.studentId, date: new Date(mark.date).toISOString(), status: mark.status }))
+    });
+  } catch (error) {
+    console.error('Failed to queue attendance follow-up:', error);
+  }
+};
+
+// Tell the section's live dashboards which marks were just saved: a first
+// submission, or corrections to one
+export const publishAttendanceSaved = (
+  type: 'attendance.submitted' | 'attendance.updated',
+  sectionId: string,
+  sessionId: string | null,
+  date: Date | string,
+  marks: SavedMark[]
+) => publishEvent(type, sectionId, {
+  date: dateKey(new Date(date)),
+  sessionId,
+  marked: marks.length,
+  absent: marks.filter(mark => isAbsence(mark.status)).length,
+  late: marks.filter(mark => mark.status === 'late').length
+});
+
+export interface SubmittedRecord {
+  studentId: string;
+  status: AttendanceStatus;
+  reasonCode?: string;
+  proofUrl?: string;
+  notes?: string;
+}
+
+// Shared checks for a day's submission: the section exists and a beadle submitting is
+// assigned to it, the class session (if any) belongs to it, every submitted student is
+// enrolled in it and the date is one the submitter's role may still enter
+export async function checkSubmission(
+  user: NonNullable<AuthRequest['user']>,
+  sectionId: string,
+  sessionId: string | undefined,
+  date: Date,
+  records: SubmittedRecord[]
+) {
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    include: { students: true }
+  });
+
+  if (!section) {
+    return {
+      status: 404,
+      body: {
+        error: 'Section not found',
+        code: 'SECTION_NOT_FOUND'
+      }
+    };
+  }
+
+  const assignmentError = await checkAssignment(user, sectionId, date);
+  if (assignmentError) {
+    return assignmentError;
+  }
+
+  if (sessionId) {
+    const session = await prisma.classSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session || session.sectionId !== sectionId) {
+      return {
+        status: 404,
+        body: {
+          error: 'Class session not found for this section',
+          code: 'SESSION_NOT_FOUND'
+        }
+      };
+    }
+  }
+
+  const sectionStudentIds = section.students.map(s => s.id);
+  const invalidStudents = records
+    .map(record => record.studentId)
+    .filter(id => !sectionStudentIds.includes(id));
+
+  if (invalidStudents.length > 0) {
+    return {
+      status: 400,
+      body: {
+        error: 'Some students do not belong to this section',
+        code: 'INVALID_STUDENTS',
+        invalidStudentIds: invalidStudents
+      }
+    };
+  }
+
+  return checkDatePolicy(user.role, section, date, records);
+}
+
+// Record a day's (or a period's) first submission for a section, the way every
+// channel does it: the submission checks, the cutoff lock, then alerts and guardian
+// messages. Returns an error response to send, or what was created.
+export const createAttendance = async (
+  user: NonNullable<AuthRequest['user']>,
+  submission: {
+    sectionId: string;
+    sessionId?: string;
+    date: Date;
+    records: SubmittedRecord[];
+    overrideReason?: string;
+  }
+) => {
+  const { sectionId, sessionId, date, records } = submission;
+
+  const submissionError = await checkSubmission(user, sectionId, sessionId, date, records);
+  if (submissionError) {
+    return { error: submissionError };
+  }
+
+  // Only creates records, so a day past the cutoff still accepts it
+  const lockError = await checkLock(user, sectionId, date, submission.overrideReason, true);
+  if (lockError) {
+    return { error: lockError };
+  }
+
+  // Check if attendance already exists for this date (and period, when given)
+  const existingAttendance = await prisma.attendanceRecord.count({
+    where: {
+      sectionId,
+      sessionId: sessionId || null,
+      date: new Date(date)
+    }
+  });
+
+  if (existingAttendance > 0) {
+    return {
+      error: {
+        status: 409,
+        body: {
+          error: 'Attendance already marked for this date',
+          code: 'ATTENDANCE_EXISTS',
+          existingRecords: existingAttendance
+        }
+      }
+    };
+  }
+
+  const attendanceRecords = await prisma.attendanceRecord.createMany({
+    data: records.map(record => ({
+      studentId: record.studentId,
+      sectionId,
+      sessionId: sessionId || null,
+      date: new Date(date),
+      status: record.status,
+      reasonCode: record.reasonCode || null,
+      proofUrl: record.proofUrl || null,
+      submittedBy: user.id,
+      notes: record.notes || null
+    }))
+  });
+
+  const marks = records.map(record => ({ studentId: record.studentId, date, status: record.status }));
+  await queueAttendanceFollowUp(sectionId, sessionId || null, marks);
+  await publishAttendanceSaved('attendance.submitted', sectionId, sessionId || null, date, marks);
+
+  return {
+    recordsCreated: attendanceRecords.count,
+    lock: await getLockState(sectionId, date)
+  };
+};
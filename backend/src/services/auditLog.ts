@@ -0,0 +1,169 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuditFilters {
+  userId?: string;
+  action?: string;
+  table?: string;
+  recordId?: string;
+  startDate?: Date;
+  // Inclusive: the whole day counts
+  endDate?: Date;
+  // Matched anywhere in the old or new data, ignoring case
+  q?: string;
+}
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Rows written before the data was stored as objects hold it as a JSON string
+const parseData = (value: Prisma.JsonValue | null): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fields never shown from stored data, at any depth: older entries may hold a
+// password or token that was in a request body
+const SECRET_FIELD = /password|secret|token/i;
+
+const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redact);
+  if (!isRecord(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([field, item]) => [field, SECRET_FIELD.test(field) ? '[redacted]' : redact(item)])
+  );
+};
+
+// Fields whose value differs between the old and new data. Creates and deletes
+// list every field they have.
+export const changedFields = (oldData: unknown, newData: unknown): AuditChange[] => {
+  const before = isRecord(oldData) ? oldData : {};
+  const after = isRecord(newData) ? newData : {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+};
+
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Matches entries with `pattern` in a value of the old or new data, at any depth.
+// Keys aren't searched, and neither is anything under a field redact() hides.
+// Rows that hold their data as a JSON string are read as JSON first.
+const searchCondition = (pattern: string) => Prisma.sql`EXISTS (
+  WITH RECURSIVE "nodes"("value") AS (
+    SELECT CASE
+      WHEN jsonb_typeof("root") = 'string' AND left(ltrim("root" #>> '{}'), 1) IN ('{', '[') THEN ("root" #>> '{}')::jsonb
+      ELSE "root"
+    END
+    FROM (VALUES ("old_data"), ("new_data")) AS "roots"("root")
+    UNION ALL
+    SELECT "child"."value" FROM "nodes", LATERAL (
+      SELECT "field"."value" FROM jsonb_each(CASE WHEN jsonb_typeof("nodes"."value") = 'object' THEN "nodes"."value" ELSE '{}'::jsonb END) AS "field"
+      WHERE "field"."key" !~* ${SECRET_FIELD.source}
+      UNION ALL
+      SELECT "item"."value" FROM jsonb_array_elements(CASE WHEN jsonb_typeof("nodes"."value") = 'array' THEN "nodes"."value" ELSE '[]'::jsonb END) AS "item"
+    ) AS "child"
+  )
+  SELECT 1 FROM "nodes"
+  WHERE jsonb_typeof("value") IN ('string', 'number', 'boolean') AND ("value" #>> '{}') ILIKE ${pattern}
+)`;
+
+const filterConditions = (filters: AuditFilters) => {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.userId) conditions.push(Prisma.sql`"user_id" = ${filters.userId}`);
+  if (filters.action) conditions.push(Prisma.sql`"action" = ${filters.action}`);
+  if (filters.table) conditions.push(Prisma.sql`"table_name" = ${filters.table}`);
+  if (filters.recordId) conditions.push(Prisma.sql`"record_id" = ${filters.recordId}`);
+  if (filters.startDate) conditions.push(Prisma.sql`"created_at" >= ${filters.startDate}`);
+  if (filters.endDate) {
+    conditions.push(Prisma.sql`"created_at" < ${new Date(filters.endDate.getTime() + DAY_MS)}`);
+  }
+  if (filters.q) {
+    conditions.push(searchCondition(`%${escapeLike(filters.q)}%`));
+  }
+
+  return conditions;
+};
+
+// One page of entries, newest first, after the entry `cursor` names. Returns null
+// when the cursor is not an entry.
+export const findAuditLogs = async (filters: AuditFilters, cursor: string | undefined, limit: number) => {
+  const conditions = filterConditions(filters);
+
+  if (cursor) {
+    const anchor = await prisma.auditLog.findUnique({
+      where: { id: cursor },
+      select: { createdAt: true }
+    });
+    if (!anchor) return null;
+    conditions.push(Prisma.sql`("created_at", "id") < (${anchor.createdAt}, ${cursor})`);
+  }
+
+  // Raw SQL for the text search over the JSON columns; Prisma loads the rows
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT "id" FROM "audit_logs"
+    ${conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+    ORDER BY "created_at" DESC, "id" DESC
+    LIMIT ${limit + 1}
+  `;
+
+  const ids = rows.slice(0, limit).map(row => row.id);
+  const logs = await prisma.auditLog.findMany({
+    where: { id: { in: ids } },
+    include: {
+      user: {
+        select: { id: true, fullName: true, email: true, role: true }
+      }
+    }
+  });
+  const byId = new Map(logs.map(log => [log.id, log]));
+
+  const entries = ids.filter(id => byId.has(id)).map(id => {
+    const log = byId.get(id)!;
+    const oldData = redact(parseData(log.oldData));
+    const newData = redact(parseData(log.newData));
+    return { ...log, oldData, newData, changes: changedFields(oldData, newData) };
+  });
+
+  return {
+    entries,
+    nextCursor: rows.length > limit ? ids[ids.length - 1] : null
+  };
+};
+
+// Actions, tables and users that appear in the log, for filter menus
+export const auditFacets = async () => {
+  const [actions, tables, userIds] = await Promise.all([
+    prisma.auditLog.groupBy({ by: ['action'], orderBy: { action: 'asc' } }),
+    prisma.auditLog.groupBy({ by: ['tableName'], orderBy: { tableName: 'asc' } }),
+    prisma.auditLog.groupBy({ by: ['userId'] })
+  ]);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds.map(row => row.userId) } },
+    select: { id: true, fullName: true, email: true, role: true },
+    orderBy: { fullName: 'asc' }
+  });
+
+  return {
+    actions: actions.map(row => row.action),
+    tables: tables.map(row => row.tableName),
+    users
+  };
+};
@@ -0,0 +1,170 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { EmailTemplateKey, EmailTemplateVariables, renderEmail } from './emailTemplates';
+
+const prisma = new PrismaClient();
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+interface QueueOptions {
+  attachments?: EmailAttachment[];
+  dedupeKey?: string;
+}
+
+const MAX_ATTEMPTS = 5;
+// Retries wait 2, 4, 8, then 16 minutes
+const RETRY_BASE_MINUTES = 2;
+// Emails sent per dispatch run; the rest wait for the next one
+const DISPATCH_BATCH = 50;
+
+const MINUTE_MS = 60 * 1000;
+
+let transporter: Transporter | null = null;
+
+export const isEmailConfigured = () => Boolean(process.env.SMTP_HOST);
+
+// SMTP_HOST/SMTP_PORT can point at a local catcher such as MailHog (port 1025,
+// no login) during development
+const getTransporter = () => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+  return transporter;
+};
+
+const retryDelayMs = (attempts: number) => RETRY_BASE_MINUTES * 2 ** (attempts - 1) * MINUTE_MS;
+
+// Send queued emails that are due. Each is claimed first so overlapping runs
+// never send one twice; failures are retried with a doubling delay up to
+// MAX_ATTEMPTS. Nothing is attempted while SMTP is not configured.
+export const dispatchEmails = async () => {
+  if (!isEmailConfigured()) return { sent: 0, failed: 0 };
+
+  const due = await prisma.emailMessage.findMany({
+    where: { status: 'queued', scheduledFor: { lte: new Date() } },
+    orderBy: { scheduledFor: 'asc' },
+    take: DISPATCH_BATCH
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const email of due) {
+    const claimed = await prisma.emailMessage.updateMany({
+      where: { id: email.id, status: 'queued' },
+      data: { status: 'sending' }
+    });
+    if (claimed.count === 0) continue;
+
+    const attempts = email.attempts + 1;
+    const attemptedAt = new Date();
+    const attachments = (email.attachments as { filename: string; contentType: string; content: string }[] | null) || [];
+
+    try {
+      const info = await getTransporter().sendMail({
+        from: process.env.EMAIL_FROM || `"${process.env.SCHOOL_NAME || 'POD Attendify'}" <no-reply@localhost>`,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+        attachments: attachments.map(attachment => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: Buffer.from(attachment.content, 'base64')
+        }))
+      });
+
+      await prisma.emailMessage.update({
+        where: { id: email.id },
+        data: { status: 'sent', attempts, lastAttemptAt: attemptedAt, sentAt: attemptedAt, messageId: info.messageId, error: null }
+      });
+      sent++;
+    } catch (error) {
+      const retry = attempts < MAX_ATTEMPTS;
+
+      await prisma.emailMessage.update({
+        where: { id: email.id },
+        data: {
+          status: retry ? 'queued' : 'failed',
+          attempts,
+          lastAttemptAt: attemptedAt,
+          error: error instanceof Error ? error.message : String(error),
+          ...(retry && { scheduledFor: new Date(attemptedAt.getTime() + retryDelayMs(attempts)) })
+        }
+      });
+      if (!retry) failed++;
+    }
+  }
+
+  return { sent, failed };
+};
+
+const dispatchInBackground = () => {
+  dispatchEmails().catch(error => console.error('Failed to send emails:', error));
+};
+
+// Render an email and put it in the outbox; it goes out right away when SMTP is
+// up, otherwise on a later run. With a dedupeKey already in the outbox nothing is
+// queued and null is returned.
+export const queueEmail = async <K extends EmailTemplateKey>(
+  to: string,
+  template: K,
+  variables: EmailTemplateVariables[K],
+  options: QueueOptions = {}
+) => {
+  if (options.dedupeKey) {
+    const existing = await prisma.emailMessage.findUnique({
+      where: { dedupeKey: options.dedupeKey },
+      select: { id: true }
+    });
+    if (existing) return null;
+  }
+
+  const rendered = renderEmail(template, variables);
+  const email = await prisma.emailMessage.create({
+    data: {
+      template,
+      to,
+      ...rendered,
+      attachments: options.attachments
+        ? options.attachments.map(attachment => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            content: attachment.content.toString('base64')
+          }))
+        : Prisma.JsonNull,
+      dedupeKey: options.dedupeKey
+    },
+    select: { id: true, to: true, subject: true, status: true, createdAt: true }
+  });
+
+  dispatchInBackground();
+  return email;
+};
+
+// Put a failed email back in the queue with a fresh set of attempts. Returns
+// false when there is no such failed email.
+export const retryEmail = async (id: string) => {
+  const requeued = await prisma.emailMessage.updateMany({
+    where: { id, status: 'failed' },
+    data: { status: 'queued', attempts: 0, scheduledFor: new Date(), error: null }
+  });
+  if (requeued.count === 0) return false;
+
+  dispatchInBackground();
+  return true;
+};
+
+// Send due emails (new ones whose first try failed, and retries) every minute
+export const scheduleEmailOutbox = () => setInterval(dispatchInBackground, MINUTE_MS);
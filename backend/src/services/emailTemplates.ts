@@ -0,0 +1,151 @@
+import { StatusSummary } from '../utils/attendanceStatus';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// What each email template is filled in with
+export interface EmailTemplateVariables {
+  // A guardian's absence or late notice. The wording comes from the school's
+  // guardian message templates; this only lays it out.
+  absence_alert: {
+    subject: string;
+    message: string;
+  };
+  weekly_summary: {
+    adviserName: string;
+    sectionName: string;
+    weekStart: string;
+    weekEnd: string;
+    schoolDays: number;
+    summary: StatusSummary;
+    // Students with unexcused absences that week, most first
+    absentees: { name: string; absences: number }[];
+  };
+  password_reset: {
+    fullName: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  report_delivery: {
+    reportName: string;
+    requestedBy: string;
+    fileName: string;
+  };
+}
+
+export type EmailTemplateKey = keyof EmailTemplateVariables;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const schoolName = () => process.env.SCHOOL_NAME || 'POD Attendify';
+
+// Plain text as HTML paragraphs, keeping single line breaks
+const paragraphs = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p style="margin:0 0 16px">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+// Inline styles only: most mail clients drop <style> blocks
+const layout = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+  <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px">
+    <tr><td style="padding:16px 24px;border-bottom:1px solid #e4e4e7;font-size:14px;color:#71717a">${escapeHtml(schoolName())}</td></tr>
+    <tr><td style="padding:24px">
+      <h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h1>
+      ${body}
+    </td></tr>
+  </table>
+</body>
+</html>`;
+
+const TEMPLATES: { [K in EmailTemplateKey]: (variables: EmailTemplateVariables[K]) => RenderedEmail } = {
+  absence_alert: ({ subject, message }) => ({
+    subject,
+    text: message,
+    html: layout(subject, paragraphs(message))
+  }),
+
+  weekly_summary: ({ adviserName, sectionName, weekStart, weekEnd, schoolDays, summary, absentees }) => {
+    const subject = `${sectionName} attendance, week of ${weekStart}`;
+    const figures: [string, number | string][] = [
+      ['Attendance rate', `${summary.attendanceRate}%`],
+      ['School days', schoolDays],
+      ['Present', summary.presentRecords],
+      ['Late', summary.lateRecords],
+      ['Half day', summary.halfDayRecords],
+      ['Excused', summary.excusedRecords],
+      ['Absent', summary.absentRecords],
+      ['Cutting', summary.cuttingRecords]
+    ];
+    const absenteeLines = absentees.map(student => `${student.name}: ${student.absences}`);
+
+    return {
+      subject,
+      text: [
+        `Hi ${adviserName},`,
+        `Here is ${sectionName}'s attendance from ${weekStart} to ${weekEnd}.`,
+        figures.map(([label, value]) => `${label}: ${value}`).join('\n'),
+        absentees.length > 0
+          ? `Unexcused absences:\n${absenteeLines.join('\n')}`
+          : 'No unexcused absences this week.',
+        schoolName()
+      ].join('\n\n'),
+      html: layout(subject, [
+        paragraphs(`Hi ${adviserName},\n\nHere is ${sectionName}'s attendance from ${weekStart} to ${weekEnd}.`),
+        '<table role="presentation" style="border-collapse:collapse;margin:0 0 16px">',
+        ...figures.map(([label, value]) =>
+          `<tr><td style="padding:4px 16px 4px 0;color:#71717a">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:bold">${escapeHtml(String(value))}</td></tr>`
+        ),
+        '</table>',
+        absentees.length > 0
+          ? `<p style="margin:0 0 8px;font-weight:bold">Unexcused absences</p><ul style="margin:0 0 16px;padding-left:20px">${
+              absenteeLines.map(line => `<li>${escapeHtml(line)}</li>`).join('')
+            }</ul>`
+          : paragraphs('No unexcused absences this week.')
+      ].join(''))
+    };
+  },
+
+  password_reset: ({ fullName, resetUrl, expiresInMinutes }) => {
+    const subject = 'Reset your password';
+    const intro = `Hi ${fullName},\n\nSomeone asked to reset the password for your account. The link works once and expires in ${expiresInMinutes} minutes.`;
+    const outro = 'If you did not ask for this, ignore this email and your password stays the same.';
+
+    return {
+      subject,
+      text: `${intro}\n\n${resetUrl}\n\n${outro}`,
+      html: layout(subject, [
+        paragraphs(intro),
+        `<p style="margin:0 0 16px"><a href="${escapeHtml(resetUrl)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none">Choose a new password</a></p>`,
+        paragraphs(outro)
+      ].join(''))
+    };
+  },
+
+  report_delivery: ({ reportName, requestedBy, fileName }) => {
+    const subject = reportName;
+    const message = `${requestedBy} sent you ${reportName}. It is attached as ${fileName}.`;
+
+    return {
+      subject,
+      text: `${message}\n\n${schoolName()}`,
+      html: layout(subject, paragraphs(message))
+    };
+  }
+};
+
+export const EMAIL_TEMPLATE_KEYS = Object.keys(TEMPLATES) as EmailTemplateKey[];
+
+export const renderEmail = <K extends EmailTemplateKey>(key: K, variables: EmailTemplateVariables[K]): RenderedEmail =>
+  TEMPLATES[key](variables);
@@ -0,0 +1,56 @@
+import AWS from 'aws-sdk';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Configure AWS S3
+export const s3 = new AWS.S3({
+  accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+  region: process.env.AWS_REGION
+});
+
+interface StoreFileOptions {
+  name: string;
+  type: string;
+  uploadedBy: string;
+  description?: string | null;
+  category?: string;
+}
+
+// Upload a file to S3 under uploads/ with a generated name and save its metadata.
+// Deleting through /api/files relies on that prefix.
+export const storeFile = async (body: Buffer, options: StoreFileOptions) => {
+  const fileExt = options.name.split('.').pop();
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+  const filePath = `uploads/${fileName}`;
+
+  const uploadResult = await s3.upload({
+    Bucket: process.env.AWS_S3_BUCKET!,
+    Key: filePath,
+    Body: body,
+    ContentType: options.type,
+    ACL: 'public-read'
+  }).promise();
+
+  return prisma.storedFile.create({
+    data: {
+      name: options.name,
+      size: body.length,
+      type: options.type,
+      url: uploadResult.Location,
+      uploadedBy: options.uploadedBy,
+      description: options.description || null,
+      category: options.category || 'other'
+    },
+    include: {
+      uploadedByUser: {
+        select: {
+          id: true,
+          fullName: true,
+          role: true
+        }
+      }
+    }
+  });
+};
@@ -0,0 +1,271 @@
+import { PrismaClient, Prisma, AttendanceStatus, Guardian, GuardianChannel } from '@prisma/client';
+import { dateKey } from './schoolCalendar';
+import { MESSAGE_CHANNELS, sendMessage } from './messageChannels';
+import { loadTemplateRenderer } from './messageTemplates';
+import { smsMonthlyQuota, smsUsage } from './smsGateway';
+import { estimateSmsCost, segmentSms } from '../utils/smsSegments';
+import { schoolDateKey, schoolMinuteOfDay } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+interface Mark {
+  studentId: string;
+  date: Date | string;
+  status: AttendanceStatus;
+}
+
+// Marks guardians are told about
+const NOTIFIED_STATUSES: AttendanceStatus[] = ['absent', 'late'];
+
+const MAX_ATTEMPTS = 3;
+// Retries wait this many minutes times the attempts so far
+const RETRY_DELAY_MINUTES = 5;
+// Messages sent per dispatch run; the rest wait for the next one
+const DISPATCH_BATCH = 100;
+// A message still sending after this long was cut off (e.g. by a restart) and is queued again
+const SENDING_TIMEOUT_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+// A guardian who opted out of SMS has no SMS contact
+const CONTACTS: Record<GuardianChannel, (guardian: Guardian) => string | null> = {
+  sms: guardian => (guardian.smsOptedOutAt ? null : guardian.phone),
+  email: guardian => guardian.email,
+  telegram: guardian => guardian.telegramChatId
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// NOTIFICATION_QUIET_HOURS (school local HH:mm-HH:mm, e.g. 21:00-06:00) holds back
+// messages until it ends. Returns when a message created at `now` may go out.
+export const deliveryTime = (now: Date) => {
+  const quietHours = process.env.NOTIFICATION_QUIET_HOURS;
+  if (!quietHours) return now;
+
+  const match = quietHours.match(/^(\d{2}:\d{2})-(\d{2}:\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid notification quiet hours "${quietHours}"`);
+  }
+
+  const start = toMinutes(match[1]);
+  const end = toMinutes(match[2]);
+  const local = schoolMinuteOfDay(now);
+  const quiet = start <= end ? local >= start && local < end : local >= start || local < end;
+
+  if (!quiet) return now;
+
+  const wait = (end - local + DAY_MINUTES) % DAY_MINUTES;
+  const startOfMinute = now.getTime() - (now.getTime() % MINUTE_MS);
+  return new Date(startOfMinute + wait * MINUTE_MS);
+};
+
+// The preferred channel first, then any other with a contact, skipping channels
+// the server has no configuration for
+const pickRoute = (guardian: Guardian) => {
+  const channels = [guardian.preferredChannel, ...(Object.keys(CONTACTS) as GuardianChannel[])];
+
+  for (const channel of channels) {
+    const recipient = CONTACTS[channel](guardian);
+    if (recipient && MESSAGE_CHANNELS[channel].isConfigured()) {
+      return { channel, recipient };
+    }
+  }
+  return null;
+};
+
+// Send queued messages that are due. Each is claimed first so overlapping runs
+// never send one twice; failures are retried with a growing delay up to MAX_ATTEMPTS.
+// A text that would take the month past SMS_MONTHLY_QUOTA is skipped.
+export const dispatchGuardianNotifications = async () => {
+  await prisma.guardianNotification.updateMany({
+    where: {
+      status: 'sending',
+      updatedAt: { lt: new Date(Date.now() - SENDING_TIMEOUT_MINUTES * MINUTE_MS) }
+    },
+    data: { status: 'queued', error: 'Interrupted while sending' }
+  });
+
+  const due = await prisma.guardianNotification.findMany({
+    where: { status: 'queued', scheduledFor: { lte: new Date() } },
+    orderBy: { scheduledFor: 'asc' },
+    take: DISPATCH_BATCH
+  });
+
+  const quota = smsMonthlyQuota();
+  // Segments sent this month, looked up at the first text of the run
+  let smsSegmentsUsed: number | null = null;
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const notification of due) {
+    const claimed = await prisma.guardianNotification.updateMany({
+      where: { id: notification.id, status: 'queued' },
+      data: { status: 'sending' }
+    });
+    if (claimed.count === 0) continue;
+
+    const attempts = notification.attempts + 1;
+    const attemptedAt = new Date();
+    const segments = notification.channel === 'sms' ? notification.segments || 0 : 0;
+
+    if (segments > 0 && quota) {
+      if (smsSegmentsUsed === null) smsSegmentsUsed = (await smsUsage()).segments;
+
+      if (smsSegmentsUsed + segments > quota) {
+        await prisma.guardianNotification.update({
+          where: { id: notification.id },
+          data: { status: 'skipped', error: `Monthly SMS quota of ${quota} segments reached` }
+        });
+        continue;
+      }
+    }
+
+    try {
+      const result = await sendMessage(notification.channel!, {
+        to: notification.recipient!,
+        subject: notification.subject,
+        text: notification.message
+      });
+
+      await prisma.guardianNotification.update({
+        where: { id: notification.id },
+        data: {
+          status: 'sent',
+          attempts,
+          lastAttemptAt: attemptedAt,
+          sentAt: attemptedAt,
+          error: null,
+          ...(notification.channel === 'sms' && {
+            providerMessageId: result?.providerMessageId || null,
+            deliveryStatus: 'pending' as const
+          })
+        }
+      });
+      if (smsSegmentsUsed !== null) smsSegmentsUsed += segments;
+      sent++;
+    } catch (error) {
+      const retry = attempts < MAX_ATTEMPTS;
+
+      await prisma.guardianNotification.update({
+        where: { id: notification.id },
+        data: {
+          status: retry ? 'queued' : 'failed',
+          attempts,
+          lastAttemptAt: attemptedAt,
+          error: error instanceof Error ? error.message : String(error),
+          ...(retry && { scheduledFor: new Date(attemptedAt.getTime() + attempts * RETRY_DELAY_MINUTES * MINUTE_MS) })
+        }
+      });
+      if (!retry) failed++;
+    }
+  }
+
+  return { sent, failed };
+};
+
+const dispatchInBackground = () => {
+  dispatchGuardianNotifications().catch(error => console.error('Failed to send guardian notifications:', error));
+};
+
+// Queue messages to the guardians of students just marked absent or late, and
+// withdraw queued ones whose mark has since changed. Only today's marks are sent,
+// so backdated entry does not message families about past days. Runs in the
+// attendance follow-up job, which retries when this throws.
+export const notifyGuardians = async (marks: Mark[]) => {
+  const today = schoolDateKey();
+  const todaysMarks = marks.filter(mark => dateKey(new Date(mark.date)) === today);
+  if (todaysMarks.length === 0) return;
+
+  const date = new Date(today);
+
+  await prisma.guardianNotification.updateMany({
+    where: {
+      status: 'queued',
+      date,
+      OR: todaysMarks.map(mark => ({ studentId: mark.studentId, event: { not: mark.status } }))
+    },
+    data: { status: 'cancelled' }
+  });
+
+  const notifiable = todaysMarks.filter(mark => NOTIFIED_STATUSES.includes(mark.status));
+  if (notifiable.length === 0) return;
+
+  const [students, existing, render] = await Promise.all([
+    prisma.student.findMany({
+      where: { id: { in: notifiable.map(mark => mark.studentId) } },
+      include: {
+        guardians: true,
+        section: { select: { name: true } }
+      }
+    }),
+    prisma.guardianNotification.findMany({
+      where: {
+        date,
+        studentId: { in: notifiable.map(mark => mark.studentId) },
+        status: { not: 'cancelled' }
+      },
+      select: { guardianId: true, event: true }
+    }),
+    loadTemplateRenderer()
+  ]);
+
+  // A guardian hears about each kind of mark at most once a day
+  const alreadyNotified = new Set(existing.map(notification => `${notification.guardianId}:${notification.event}`));
+  const studentsById = new Map(students.map(student => [student.id, student]));
+  const now = new Date();
+  const scheduledFor = deliveryTime(now);
+
+  const data: Prisma.GuardianNotificationCreateManyInput[] = notifiable.flatMap(mark => {
+    const student = studentsById.get(mark.studentId);
+    if (!student) return [];
+
+    return student.guardians
+      .filter(guardian => !alreadyNotified.has(`${guardian.id}:${mark.status}`))
+      .map(guardian => {
+        const route = pickRoute(guardian);
+        const text = render(`guardian_${mark.status}`, route ? route.channel : guardian.preferredChannel, {
+          guardianName: guardian.name,
+          studentName: `${student.firstName} ${student.lastName}`,
+          sectionName: student.section.name,
+          date: today,
+          schoolName: process.env.SCHOOL_NAME || ''
+        });
+
+        const segments = route?.channel === 'sms' ? segmentSms(text.body).segments : null;
+
+        return {
+          guardianId: guardian.id,
+          studentId: student.id,
+          date,
+          event: mark.status,
+          channel: route ? route.channel : null,
+          recipient: route ? route.recipient : null,
+          subject: text.subject,
+          message: text.body,
+          segments,
+          cost: segments === null ? null : estimateSmsCost(segments),
+          status: route ? 'queued' as const : 'skipped' as const,
+          error: route
+            ? null
+            : guardian.smsOptedOutAt ? 'Opted out of SMS, with no other contact on a configured channel' : 'No contact on a configured channel',
+          scheduledFor
+        };
+      });
+  });
+
+  if (data.length === 0) return;
+
+  await prisma.guardianNotification.createMany({ data });
+
+  if (scheduledFor.getTime() <= now.getTime()) {
+    dispatchInBackground();
+  }
+};
+
+// Send due messages (after quiet hours, and retries) every minute
+export const scheduleGuardianNotifications = () => setInterval(dispatchInBackground, MINUTE_MS);
@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import { JOB_QUEUES, JobHandler, QUEUE_NAMES, QueueName } from './queuedJobs';
+import {
+  createMemoryDriver,
+  createRedisDriver,
+  QUEUE_JOB_STATUSES,
+  QueueDriver,
+  QueueJob,
+  QueueJobStatus
+} from './jobQueueDrivers';
+
+const POLL_MS = 1000;
+const HEARTBEAT_MS = 10 * 1000;
+// An active job no worker has touched for this long lost its worker
+const STALLED_MS = 60 * 1000;
+const STALL_CHECK_MS = 30 * 1000;
+// Finished jobs kept per queue, newest first
+const KEEP_COMPLETED = 500;
+const KEEP_DEAD = 1000;
+
+// JOB_QUEUE_DRIVER picks where jobs are kept: redis (the default once REDIS_URL
+// is set) or memory, which loses queued jobs on restart
+const createDriver = (): QueueDriver => {
+  const name = process.env.JOB_QUEUE_DRIVER || (process.env.REDIS_URL ? 'redis' : 'memory');
+  if (name === 'redis') {
+    return createRedisDriver(process.env.REDIS_URL || 'redis://localhost:6379', process.env.JOB_QUEUE_PREFIX || undefined);
+  }
+  return createMemoryDriver();
+};
+
+let driver: QueueDriver | null = null;
+
+export const queueDriver = () => {
+  if (!driver) driver = createDriver();
+  return driver;
+};
+
+// Replace the driver, e.g. with a fresh memory driver in a test
+export const setQueueDriver = (next: QueueDriver) => {
+  driver = next;
+};
+
+// Jobs this process is running, per queue
+const running = new Map<QueueName, Set<string>>(QUEUE_NAMES.map(queue => [queue, new Set()]));
+const filling = new Set<QueueName>();
+let workersStarted = false;
+
+const keepFor = (status: QueueJobStatus) => (status === 'completed' ? KEEP_COMPLETED : status === 'dead' ? KEEP_DEAD : 0);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// After a failed attempt the job waits out its backoff, or goes to the dead
+// letters once it has used up its attempts
+const failAttempt = (job: QueueJob, error: string, now: Date) => {
+  job.error = error;
+  job.finishedAt = now.toISOString();
+  job.heartbeatAt = null;
+
+  if (job.attempts < job.maxAttempts) {
+    const backoffMs = JOB_QUEUES[job.queue as QueueName].backoffMs * 2 ** (job.attempts - 1);
+    job.status = 'delayed';
+    job.runAt = new Date(now.getTime() + backoffMs).toISOString();
+  } else {
+    job.status = 'dead';
+  }
+};
+
+// Queue a job for `name`'s handler. `data` must survive JSON. Pass delayMs to
+// hold the job back.
+export const enqueueJob = async <Q extends QueueName>(
+  queue: Q,
+  name: keyof (typeof JOB_QUEUES)[Q]['handlers'] & string,
+  data: Record<string, unknown>,
+  options: { createdBy?: string | null; delayMs?: number } = {}
+) => {
+  const now = new Date();
+  const runAt = new Date(now.getTime() + (options.delayMs || 0));
+
+  const job: QueueJob = {
+    id: crypto.randomUUID(),
+    queue,
+    name,
+    data,
+    status: runAt > now ? 'delayed' : 'waiting',
+    attempts: 0,
+    maxAttempts: JOB_QUEUES[queue].attempts,
+    progress: 0,
+    progressMessage: null,
+    result: null,
+    error: null,
+    createdBy: options.createdBy || null,
+    createdAt: now.toISOString(),
+    runAt: runAt.toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    heartbeatAt: null
+  };
+
+  await queueDriver().move(job, null);
+  if (workersStarted) setImmediate(() => fillQueue(queue));
+  return job;
+};
+
+const runJob = async (job: QueueJob) => {
+  const store = queueDriver();
+  const handler = (JOB_QUEUES[job.queue as QueueName].handlers as Record<string, JobHandler>)[job.name];
+  const now = new Date().toISOString();
+
+  job.status = 'active';
+  job.attempts += 1;
+  job.startedAt = now;
+  job.heartbeatAt = now;
+  job.finishedAt = null;
+
+  // Saves go one after another, so a late heartbeat never overwrites the outcome
+  let saving = Promise.resolve();
+  let finished = false;
+  const save = () => {
+    saving = saving
+      .then(() => store.save(job))
+      .catch(error => console.error(`Failed to save job ${job.id}:`, errorMessage(error)));
+    return saving;
+  };
+
+  save();
+  const heartbeat = setInterval(() => {
+    job.heartbeatAt = new Date().toISOString();
+    save();
+  }, HEARTBEAT_MS);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for ${job.queue} job "${job.name}"`);
+    }
+
+    const result = await handler(job.data, {
+      id: job.id,
+      attempt: job.attempts,
+      createdBy: job.createdBy,
+      createdAt: new Date(job.createdAt),
+      progress: async (percent, message) => {
+        if (finished) return;
+        job.progress = Math.max(0, Math.min(100, Math.round(percent)));
+        if (message !== undefined) job.progressMessage = message;
+        await save();
+      }
+    });
+
+    job.status = 'completed';
+    job.progress = 100;
+    job.progressMessage = null;
+    job.result = result ?? null;
+    job.error = null;
+    job.finishedAt = new Date().toISOString();
+    job.heartbeatAt = null;
+  } catch (error) {
+    console.error(`${job.queue} job "${job.name}" (${job.id}) failed on attempt ${job.attempts}:`, error);
+    failAttempt(job, errorMessage(error), new Date());
+  } finally {
+    finished = true;
+    clearInterval(heartbeat);
+  }
+
+  await saving;
+  const moved = await store.move(job, 'active', keepFor(job.status));
+  if (!moved) {
+    console.warn(`Job ${job.id} was taken over as stalled before it finished; its outcome was dropped`);
+  }
+};
+
+// Claim jobs until the queue is at its concurrency or has nothing waiting
+let lastPollError = '';
+
+const fillQueue = async (queue: QueueName) => {
+  if (filling.has(queue)) return;
+  filling.add(queue);
+
+  try {
+    const ids = running.get(queue)!;
+    while (ids.size < JOB_QUEUES[queue].concurrency) {
+      const job = await queueDriver().claim(queue, new Date());
+      if (!job) break;
+
+      ids.add(job.id);
+      runJob(job)
+        .catch(error => console.error(`Failed to finish job ${job.id}:`, errorMessage(error)))
+        .finally(() => {
+          ids.delete(job.id);
+          fillQueue(queue);
+        });
+    }
+    lastPollError = '';
+  } catch (error) {
+    // Logged once while the driver stays unreachable
+    if (errorMessage(error) !== lastPollError) console.error(`Failed to claim ${queue} jobs:`, errorMessage(error));
+    lastPollError = errorMessage(error);
+  } finally {
+    filling.delete(queue);
+  }
+};
+
+// Active jobs no worker here is running, with the heartbeat they had when first
+// seen. One still unchanged STALLED_MS later had its server stop under it.
+const suspects = new Map<string, { heartbeatAt: string | null; seenAt: number }>();
+
+const recoverStalled = async (queue: QueueName) => {
+  const now = Date.now();
+  const active = await queueDriver().list(queue, 'active', 0, 1000);
+  const activeIds = new Set(active.map(job => job.id));
+
+  for (const [id] of suspects) {
+    if (id.startsWith(`${queue}:`) && !activeIds.has(id.slice(queue.length + 1))) suspects.delete(id);
+  }
+
+  for (const job of active) {
+    if (running.get(queue)!.has(job.id)) continue;
+
+    const key = `${queue}:${job.id}`;
+    const seen = suspects.get(key);
+    if (!seen || seen.heartbeatAt !== job.heartbeatAt) {
+      suspects.set(key, { heartbeatAt: job.heartbeatAt, seenAt: now });
+      continue;
+    }
+    if (now - seen.seenAt < STALLED_MS) continue;
+
+    suspects.delete(key);
+    failAttempt(job, 'The server running this job stopped before it finished', new Date(now));
+    if (await queueDriver().move(job, 'active', keepFor(job.status))) {
+      console.warn(`Recovered stalled ${queue} job "${job.name}" (${job.id})`);
+    }
+  }
+};
+
+// Poll every queue each second, and look for stalled jobs every half minute
+export const startJobWorkers = () => {
+  workersStarted = true;
+  console.log(`🧵 Job queue running on the ${queueDriver().name} driver`);
+
+  let lastStallCheck = Date.now();
+  return setInterval(() => {
+    QUEUE_NAMES.forEach(queue => fillQueue(queue));
+
+    if (Date.now() - lastStallCheck >= STALL_CHECK_MS) {
+      lastStallCheck = Date.now();
+      QUEUE_NAMES.forEach(queue => {
+        recoverStalled(queue).catch(error => console.error(`Failed to check ${queue} for stalled jobs:`, errorMessage(error)));
+      });
+    }
+  }, POLL_MS);
+};
+
+export const getJob = (id: string) => queueDriver().get(id);
+
+export const listJobs = (queue: QueueName, status: QueueJobStatus, offset: number, limit: number) =>
+  queueDriver().list(queue, status, offset, limit);
+
+// Each queue's settings and how many of its jobs are in each status
+export const queueSummaries = () => Promise.all(QUEUE_NAMES.map(async queue => {
+  const counts = await Promise.all(QUEUE_JOB_STATUSES.map(status => queueDriver().count(queue, status)));
+
+  return {
+    name: queue,
+    concurrency: JOB_QUEUES[queue].concurrency,
+    attempts: JOB_QUEUES[queue].attempts,
+    backoffMs: JOB_QUEUES[queue].backoffMs,
+    counts: Object.fromEntries(QUEUE_JOB_STATUSES.map((status, index) => [status, counts[index]])) as Record<QueueJobStatus, number>
+  };
+}));
+
+// Give a dead job a fresh set of attempts. Returns null when it is not dead.
+export const retryJob = async (job: QueueJob) => {
+  if (job.status !== 'dead') return null;
+
+  const retried: QueueJob = {
+    ...job,
+    status: 'waiting',
+    attempts: 0,
+    maxAttempts: JOB_QUEUES[job.queue as QueueName].attempts,
+    progress: 0,
+    progressMessage: null,
+    result: null,
+    runAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    heartbeatAt: null
+  };
+
+  if (!(await queueDriver().move(retried, 'dead'))) return null;
+  if (workersStarted) setImmediate(() => fillQueue(retried.queue as QueueName));
+  return retried;
+};
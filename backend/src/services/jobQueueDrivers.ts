@@ -0,0 +1,214 @@
+import { connectRedis } from '../utils/redis';
+
+export type QueueJobStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'dead';
+
+export const QUEUE_JOB_STATUSES: QueueJobStatus[] = ['waiting', 'delayed', 'active', 'completed', 'dead'];
+
+export interface QueueJob {
+  id: string;
+  queue: string;
+  name: string;
+  data: Record<string, unknown>;
+  status: QueueJobStatus;
+  // Attempts started so far, out of maxAttempts
+  attempts: number;
+  maxAttempts: number;
+  progress: number;
+  progressMessage: string | null;
+  result: unknown;
+  error: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  // When a waiting or delayed job may start
+  runAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Refreshed while a worker runs the job; an old one means the worker died
+  heartbeatAt: string | null;
+}
+
+// Where a queue's jobs are kept. Each status is its own collection: waiting is
+// first in, first out; delayed is ordered by runAt; completed and dead are newest
+// first and trimmed to `keep`.
+export interface QueueDriver {
+  name: string;
+  ping: () => Promise<void>;
+  get: (id: string) => Promise<QueueJob | null>;
+  // Store the job's fields without moving it
+  save: (job: QueueJob) => Promise<void>;
+  // Take the job out of `from` (nothing, for a new job) and file it under its
+  // status. Returns false, changing nothing, when it was no longer in `from`,
+  // so two servers never both move the same job.
+  move: (job: QueueJob, from: QueueJobStatus | null, keep?: number) => Promise<boolean>;
+  // Move delayed jobs that are due to waiting, then the oldest waiting job to active
+  claim: (queue: string, now: Date) => Promise<QueueJob | null>;
+  list: (queue: string, status: QueueJobStatus, offset: number, limit: number) => Promise<QueueJob[]>;
+  count: (queue: string, status: QueueJobStatus) => Promise<number>;
+}
+
+// For tests and single-server development: jobs live in this process and are
+// gone after a restart
+export const createMemoryDriver = (): QueueDriver => {
+  const jobs = new Map<string, QueueJob>();
+  const collections = new Map<string, string[]>();
+
+  const collection = (queue: string, status: QueueJobStatus) => {
+    const key = `${queue}:${status}`;
+    if (!collections.has(key)) collections.set(key, []);
+    return collections.get(key)!;
+  };
+
+  // Copies, so callers never change a stored job by accident
+  const copy = (job: QueueJob): QueueJob => JSON.parse(JSON.stringify(job));
+  const load = (id: string) => (jobs.has(id) ? copy(jobs.get(id)!) : null);
+
+  return {
+    name: 'memory',
+    ping: async () => undefined,
+    get: async id => load(id),
+    save: async job => {
+      jobs.set(job.id, copy(job));
+    },
+    move: async (job, from, keep = 0) => {
+      if (from) {
+        const ids = collection(job.queue, from);
+        const index = ids.indexOf(job.id);
+        if (index === -1) return false;
+        ids.splice(index, 1);
+      }
+
+      jobs.set(job.id, copy(job));
+      const ids = collection(job.queue, job.status);
+      if (job.status === 'waiting') {
+        ids.push(job.id);
+      } else if (job.status === 'delayed') {
+        ids.push(job.id);
+        ids.sort((a, b) => Date.parse(jobs.get(a)!.runAt) - Date.parse(jobs.get(b)!.runAt));
+      } else {
+        ids.unshift(job.id);
+        if (keep > 0) ids.splice(keep).forEach(id => jobs.delete(id));
+      }
+      return true;
+    },
+    claim: async (queue, now) => {
+      const delayed = collection(queue, 'delayed');
+      while (delayed.length > 0 && Date.parse(jobs.get(delayed[0])!.runAt) <= now.getTime()) {
+        collection(queue, 'waiting').push(delayed.shift()!);
+      }
+
+      const id = collection(queue, 'waiting').shift();
+      if (!id) return null;
+      collection(queue, 'active').unshift(id);
+      return load(id);
+    },
+    list: async (queue, status, offset, limit) =>
+      collection(queue, status).slice(offset, offset + limit).map(id => load(id)!),
+    count: async (queue, status) => collection(queue, status).length
+  };
+};
+
+// Take a job out of one collection, save it and add it to another, as one step.
+// KEYS: from, job, to. ARGV: id, from type, job JSON, to type, score, keep, job key prefix.
+const MOVE_SCRIPT = `
+local id = ARGV[1]
+if ARGV[2] == 'list' then
+  if redis.call('LREM', KEYS[1], 1, id) == 0 then return 0 end
+elseif ARGV[2] == 'zset' then
+  if redis.call('ZREM', KEYS[1], id) == 0 then return 0 end
+end
+redis.call('SET', KEYS[2], ARGV[3])
+if ARGV[4] == 'zset' then
+  redis.call('ZADD', KEYS[3], ARGV[5], id)
+else
+  redis.call('LPUSH', KEYS[3], id)
+  local keep = tonumber(ARGV[6])
+  if keep > 0 then
+    for _, old in ipairs(redis.call('LRANGE', KEYS[3], keep, -1)) do
+      redis.call('DEL', ARGV[7] .. old)
+    end
+    redis.call('LTRIM', KEYS[3], 0, keep - 1)
+  end
+end
+return 1
+`;
+
+// KEYS: delayed, waiting, active. ARGV: now in ms. Returns the claimed job's id.
+const CLAIM_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 100)
+for _, id in ipairs(due) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('LPUSH', KEYS[2], id)
+end
+return redis.call('RPOPLPUSH', KEYS[2], KEYS[3])
+`;
+
+// Jobs as JSON strings under <prefix>:job:<id>, and each queue's collections as
+// lists (a sorted set by runAt for delayed) under <prefix>:<queue>:<status>
+export const createRedisDriver = (url: string, prefix = 'attendify:jobs'): QueueDriver => {
+  const redis = connectRedis(url, 'Job queue');
+
+  const jobKey = (id: string) => `${prefix}:job:${id}`;
+  const collectionKey = (queue: string, status: QueueJobStatus) => `${prefix}:${queue}:${status}`;
+  const keyType = (status: QueueJobStatus | null) => (status === null ? '' : status === 'delayed' ? 'zset' : 'list');
+
+  const get = async (id: string) => {
+    const json = await redis.get(jobKey(id));
+    return json ? (JSON.parse(json) as QueueJob) : null;
+  };
+
+  return {
+    name: 'redis',
+    ping: async () => {
+      await redis.ping();
+    },
+    get,
+    save: async job => {
+      await redis.set(jobKey(job.id), JSON.stringify(job));
+    },
+    move: async (job, from, keep = 0) => {
+      const to = collectionKey(job.queue, job.status);
+      const moved = await redis.eval(
+        MOVE_SCRIPT,
+        3,
+        from ? collectionKey(job.queue, from) : to,
+        jobKey(job.id),
+        to,
+        job.id,
+        keyType(from),
+        JSON.stringify(job),
+        keyType(job.status),
+        Date.parse(job.runAt),
+        keep,
+        `${prefix}:job:`
+      );
+      return moved === 1;
+    },
+    claim: async (queue, now) => {
+      const id = await redis.eval(
+        CLAIM_SCRIPT,
+        3,
+        collectionKey(queue, 'delayed'),
+        collectionKey(queue, 'waiting'),
+        collectionKey(queue, 'active'),
+        now.getTime()
+      );
+      return typeof id === 'string' ? get(id) : null;
+    },
+    list: async (queue, status, offset, limit) => {
+      const key = collectionKey(queue, status);
+      const ids = status === 'delayed'
+        ? await redis.zrange(key, offset, offset + limit - 1)
+        // Waiting jobs are taken from the tail, so the oldest is listed first
+        : status === 'waiting'
+          ? (await redis.lrange(key, -(offset + limit), -(offset + 1))).reverse()
+          : await redis.lrange(key, offset, offset + limit - 1);
+
+      const jobs = await Promise.all(ids.map(get));
+      return jobs.filter((job): job is QueueJob => job !== null);
+    },
+    count: async (queue, status) => {
+      const key = collectionKey(queue, status);
+      return status === 'delayed' ? redis.zcard(key) : redis.llen(key);
+    }
+  };
+};
@@ -0,0 +1,120 @@
+import { PrismaClient, Prisma, JobRunTrigger, NotificationSchedule } from '@prisma/client';
+import { SCHEDULED_JOBS } from './scheduledJobs';
+import { fromSchoolTime, toSchoolTime } from '../utils/schoolTime';
+import { cronMatches, nextCronTime, parseCron } from '../utils/cron';
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+
+// Schedules with a run in progress in this process; a schedule's runs never overlap
+const inProgress = new Set<string>();
+
+const startOfMinute = (time: Date) => new Date(time.getTime() - (time.getTime() % MINUTE_MS));
+
+// When an active schedule runs next, or null for a paused one (or an expression
+// that never fires). Schedules are written in school local time, so cron fields
+// are compared against the school's wall clock.
+export const nextRunAt = (schedule: Pick<NotificationSchedule, 'schedule' | 'isActive'>, after = new Date()) => {
+  if (!schedule.isActive) return null;
+  const next = nextCronTime(parseCron(schedule.schedule), toSchoolTime(after));
+  return next ? fromSchoolTime(next) : null;
+};
+
+export const isJobRunning = (scheduleId: string) => inProgress.has(scheduleId);
+
+// Record a run, carry out the job and store how it went. The job's own errors
+// end up on the run rather than being thrown.
+const execute = async (schedule: NotificationSchedule, runId: string, triggeredBy?: string) => {
+  inProgress.add(schedule.id);
+  const started = Date.now();
+
+  try {
+    const result = await SCHEDULED_JOBS[schedule.jobType]({
+      now: new Date(started),
+      userId: triggeredBy || schedule.createdBy
+    });
+
+    return await prisma.jobRun.update({
+      where: { id: runId },
+      data: { status: 'succeeded', finishedAt: new Date(), durationMs: Date.now() - started, result }
+    });
+  } catch (error) {
+    console.error(`Job "${schedule.name}" (${schedule.jobType}) failed:`, error);
+
+    return await prisma.jobRun.update({
+      where: { id: runId },
+      data: {
+        status: 'failed',
+        finishedAt: new Date(),
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    });
+  } finally {
+    inProgress.delete(schedule.id);
+  }
+};
+
+const createRun = (schedule: NotificationSchedule, trigger: JobRunTrigger, triggeredBy?: string) =>
+  prisma.jobRun.create({
+    data: {
+      scheduleId: schedule.id,
+      jobType: schedule.jobType,
+      trigger,
+      triggeredBy: triggeredBy || null
+    }
+  });
+
+// Start a schedule's job now for an admin. Returns the new run, which finishes
+// in the background, or null when the schedule's job is already running.
+export const triggerJob = async (schedule: NotificationSchedule, userId: string) => {
+  if (inProgress.has(schedule.id)) return null;
+
+  const run = await createRun(schedule, 'manual', userId);
+  execute(schedule, run.id, userId).catch(error => console.error('Failed to record job run:', error));
+  return run;
+};
+
+// Run every active schedule whose cron expression matches this minute. Each
+// schedule's minute is claimed first, so only one server runs it; the claimed
+// jobs then run side by side so a slow one does not hold back the rest.
+export const runDueJobs = async (now = new Date()) => {
+  const minute = startOfMinute(now);
+  const schedules = await prisma.notificationSchedule.findMany({ where: { isActive: true } });
+  const due: Array<{ schedule: NotificationSchedule; runId: string }> = [];
+
+  for (const schedule of schedules) {
+    try {
+      if (!cronMatches(parseCron(schedule.schedule), toSchoolTime(minute))) continue;
+    } catch (error) {
+      console.error(`Schedule "${schedule.name}" has an invalid cron expression:`, error);
+      continue;
+    }
+
+    if (inProgress.has(schedule.id)) continue;
+
+    const claim: Prisma.NotificationScheduleWhereInput = {
+      id: schedule.id,
+      isActive: true,
+      OR: [{ lastRunAt: null }, { lastRunAt: { lt: minute } }]
+    };
+    const claimed = await prisma.notificationSchedule.updateMany({ where: claim, data: { lastRunAt: minute } });
+    if (claimed.count === 0) continue;
+
+    const run = await createRun(schedule, 'schedule');
+    due.push({ schedule, runId: run.id });
+  }
+
+  return Promise.all(due.map(({ schedule, runId }) => execute(schedule, runId)));
+};
+
+// Check the schedules at the start of every minute
+export const scheduleJobs = () => {
+  const tick = () => runDueJobs().catch(error => console.error('Scheduled jobs failed:', error));
+
+  return setTimeout(() => {
+    tick();
+    setInterval(tick, MINUTE_MS);
+  }, MINUTE_MS - (Date.now() % MINUTE_MS));
+};
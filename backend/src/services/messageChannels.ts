@@ -0,0 +1,52 @@
+import { GuardianChannel } from '@prisma/client';
+import { isEmailConfigured, queueEmail } from './emailOutbox';
+import { isSmsConfigured, sendSms } from './smsGateway';
+import { callTelegram, isTelegramConfigured } from './telegramApi';
+
+export interface OutgoingMessage {
+  to: string;
+  subject?: string | null;
+  text: string;
+}
+
+// providerMessageId is kept for channels whose gateway sends delivery receipts
+interface MessageChannel {
+  isConfigured: () => boolean;
+  send: (message: OutgoingMessage) => Promise<{ providerMessageId?: string | null } | void>;
+}
+
+// Straight to the Bot API
+const telegram: MessageChannel = {
+  isConfigured: isTelegramConfigured,
+  send: async ({ to, text }) => {
+    await callTelegram('sendMessage', { chat_id: to, text });
+  }
+};
+
+// Through whichever SMS_PROVIDER is set up; texts have no subject
+const sms: MessageChannel = {
+  isConfigured: isSmsConfigured,
+  send: ({ to, text }) => sendSms(to, text)
+};
+
+// Handed to the email outbox, which sends it over SMTP as HTML and plain text and
+// does its own retrying; a guardian email counts as sent once it is queued there
+const email: MessageChannel = {
+  isConfigured: isEmailConfigured,
+  send: async ({ to, subject, text }) => {
+    await queueEmail(to, 'absence_alert', { subject: subject || '', message: text });
+  }
+};
+
+export const MESSAGE_CHANNELS: Record<GuardianChannel, MessageChannel> = {
+  sms,
+  email,
+  telegram
+};
+
+export const sendMessage = async (channel: GuardianChannel, message: OutgoingMessage) => {
+  if (!MESSAGE_CHANNELS[channel].isConfigured()) {
+    throw new Error(`The ${channel} channel is not configured`);
+  }
+  return MESSAGE_CHANNELS[channel].send(message);
+};
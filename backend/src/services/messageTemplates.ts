@@ -0,0 +1,73 @@
+import { PrismaClient, GuardianChannel } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface TemplateText {
+  subject: string | null;
+  body: string;
+}
+
+// Placeholders each template may use, as {{name}}
+export const TEMPLATE_VARIABLES: Record<string, string[]> = {
+  guardian_absent: ['guardianName', 'studentName', 'sectionName', 'date', 'schoolName'],
+  guardian_late: ['guardianName', 'studentName', 'sectionName', 'date', 'schoolName']
+};
+
+export const TEMPLATE_KEYS = Object.keys(TEMPLATE_VARIABLES);
+
+// SMS and Telegram get the short text, email wraps it in a letter
+const guardianTemplates = (text: string, subject: string): Record<GuardianChannel, TemplateText> => ({
+  sms: { subject: null, body: text },
+  telegram: { subject: null, body: text },
+  email: { subject, body: `Dear {{guardianName}},\n\n${text}\n\nThank you,\n{{schoolName}}` }
+});
+
+export const DEFAULT_TEMPLATES: Record<string, Record<GuardianChannel, TemplateText>> = {
+  guardian_absent: guardianTemplates(
+    '{{schoolName}}: {{studentName}} ({{sectionName}}) was marked absent on {{date}}. Please contact the class adviser if this is unexpected.',
+    '{{studentName}} was absent on {{date}}'
+  ),
+  guardian_late: guardianTemplates(
+    '{{schoolName}}: {{studentName}} ({{sectionName}}) arrived late on {{date}}.',
+    '{{studentName}} was late on {{date}}'
+  )
+};
+
+const fill = (text: string, variables: Record<string, string>) =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, name: string) => variables[name] ?? match);
+
+// Every template key and channel with the text in use and whether the school has
+// replaced the default
+export const listTemplates = async () => {
+  const saved = await prisma.messageTemplate.findMany();
+  const savedText = new Map(saved.map(template => [`${template.key}:${template.channel}`, template]));
+
+  return TEMPLATE_KEYS.flatMap(key =>
+    (Object.keys(DEFAULT_TEMPLATES[key]) as GuardianChannel[]).map(channel => {
+      const template = savedText.get(`${key}:${channel}`);
+      return {
+        key,
+        channel,
+        subject: template ? template.subject : DEFAULT_TEMPLATES[key][channel].subject,
+        body: template ? template.body : DEFAULT_TEMPLATES[key][channel].body,
+        variables: TEMPLATE_VARIABLES[key],
+        isDefault: !template,
+        updatedAt: template?.updatedAt ?? null
+      };
+    })
+  );
+};
+
+// Load the school's templates once and render any number of messages with them
+export const loadTemplateRenderer = async () => {
+  const saved = await prisma.messageTemplate.findMany();
+  const savedText = new Map(saved.map(template => [`${template.key}:${template.channel}`, template]));
+
+  return (key: string, channel: GuardianChannel, variables: Record<string, string>): TemplateText => {
+    const template = savedText.get(`${key}:${channel}`) || DEFAULT_TEMPLATES[key][channel];
+    return {
+      subject: template.subject ? fill(template.subject, variables) : null,
+      body: fill(template.body, variables)
+    };
+  };
+};
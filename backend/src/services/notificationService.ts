@@ -0,0 +1,28 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Store an in-app notification. Failures are logged rather than thrown so a
+// notification problem never fails the request that triggered it.
+export const notifyUser = async (
+  userId: string,
+  type: string,
+  title: string,
+  message: string,
+  data?: Prisma.InputJsonValue
+) => {
+  try {
+    return await prisma.notification.create({
+      data: {
+        userId,
+        type,
+        title,
+        message,
+        data
+      }
+    });
+  } catch (error) {
+    console.error('Failed to create notification:', error);
+    return null;
+  }
+};
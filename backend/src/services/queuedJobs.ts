@@ -0,0 +1,198 @@
+import { PrismaClient, AttendanceStatus, Sex } from '@prisma/client';
+import { logAuditEvent } from '../middleware/audit';
+import { evaluateSectionAlerts } from './alertEngine';
+import { notifyGuardians } from './guardianNotifications';
+import { storeFile } from './fileStorage';
+import { buildSf2Report, renderSf2Pdf, renderSf2Xlsx, sf2FileName } from './sf2Report';
+
+const prisma = new PrismaClient();
+
+const CONTENT_TYPES = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+export interface JobControl {
+  id: string;
+  attempt: number;
+  createdBy: string | null;
+  createdAt: Date;
+  // Percent done (0-100) and what the job is on, for whoever polls it
+  progress: (percent: number, message?: string) => Promise<void>;
+}
+
+// Data and results are stored as JSON. A thrown error fails the attempt.
+export type JobHandler = (data: Record<string, unknown>, job: JobControl) => Promise<unknown>;
+
+export interface QueueDefinition {
+  // Jobs of the queue each server runs at the same time
+  concurrency: number;
+  // Attempts before a job goes to the dead letters; retries wait backoffMs,
+  // then twice as long after each further failure
+  attempts: number;
+  backoffMs: number;
+  handlers: Record<string, JobHandler>;
+}
+
+export type AttendanceFollowUpData = {
+  sectionId: string;
+  // Whole-day marks guardians may hear about; period marks leave this empty
+  marks: Array<{ studentId: string; date: string; status: AttendanceStatus }>;
+};
+
+export type Sf2BatchData = {
+  month: string;
+  format: 'xlsx' | 'pdf';
+  gradeLevel: string | null;
+};
+
+export type StudentImportData = {
+  sectionId: string;
+  // Rows of the uploaded CSV, in file order
+  students: Array<{
+    studentNumber: string;
+    firstName: string;
+    lastName: string;
+    middleName: string | null;
+    sex: Sex | null;
+  }>;
+};
+
+// Alert rules and guardian messages after a section's attendance was saved.
+// Both skip what they already raised or queued, so a retry is safe.
+const attendanceFollowUp: JobHandler = async data => {
+  const { sectionId, marks } = data as AttendanceFollowUpData;
+
+  const alerts = await evaluateSectionAlerts(sectionId);
+  if (marks.length > 0) {
+    await notifyGuardians(marks);
+  }
+
+  return { sectionId, alerts, guardianMarks: marks.length };
+};
+
+// SF2 for every section (or one grade level) in a month, saved to file storage
+const sf2Batch: JobHandler = async (data, job) => {
+  const { month, format, gradeLevel } = data as Sf2BatchData;
+  if (!job.createdBy) {
+    throw new Error('A batch of school forms needs the user who asked for it');
+  }
+
+  const sections = await prisma.section.findMany({
+    where: gradeLevel ? { gradeLevel } : {},
+    select: { id: true, name: true },
+    orderBy: [{ gradeLevel: 'asc' }, { name: 'asc' }]
+  });
+
+  // Forms stored by an earlier attempt of this job are not stored twice
+  const earlier = await prisma.storedFile.findMany({
+    where: { uploadedBy: job.createdBy, category: 'attendance_reports', createdAt: { gte: job.createdAt } },
+    select: { id: true, name: true, url: true }
+  });
+
+  const files: Array<{ id: string; name: string; url: string }> = [];
+
+  // One at a time: each form is built and uploaded in memory
+  for (const [index, section] of sections.entries()) {
+    await job.progress(Math.floor((index / sections.length) * 100), `SF2 for ${section.name}`);
+
+    const report = await buildSf2Report(section.id, month);
+    if (!report) continue;
+
+    const name = sf2FileName(report, format);
+    const file = earlier.find(stored => stored.name === name) || await storeFile(
+      format === 'pdf' ? await renderSf2Pdf(report) : await renderSf2Xlsx(report),
+      {
+        name,
+        type: CONTENT_TYPES[format],
+        uploadedBy: job.createdBy,
+        description: `SF2 ${report.section.name}, ${report.monthLabel}`,
+        category: 'attendance_reports'
+      }
+    );
+    files.push({ id: file.id, name: file.name, url: file.url });
+  }
+
+  return { month, format, gradeLevel, sections: sections.length, files };
+};
+
+// Students from a CSV upload added to a section. Student numbers already in use
+// are reported per row; students an earlier attempt of this job added count as added.
+const studentImport: JobHandler = async (data, job) => {
+  const { sectionId, students } = data as StudentImportData;
+
+  const existing = await prisma.student.findMany({
+    where: { studentNumber: { in: students.map(student => student.studentNumber) } },
+    select: { studentNumber: true, sectionId: true, createdAt: true }
+  });
+  const existingByNumber = new Map(existing.map(student => [student.studentNumber, student]));
+
+  const seen = new Set<string>();
+  let created = 0;
+  const errors: string[] = [];
+
+  for (const [index, student] of students.entries()) {
+    // The header is row 1
+    const row = index + 2;
+    if (index % 20 === 0) {
+      await job.progress(Math.floor((index / students.length) * 100), `Student ${index + 1} of ${students.length}`);
+    }
+
+    if (!student.studentNumber || !student.firstName || !student.lastName) {
+      errors.push(`Row ${row}: Missing required fields (student_number, first_name, last_name)`);
+      continue;
+    }
+
+    if (seen.has(student.studentNumber)) {
+      errors.push(`Row ${row}: Student ${student.studentNumber} appears more than once`);
+      continue;
+    }
+    seen.add(student.studentNumber);
+
+    const found = existingByNumber.get(student.studentNumber);
+    if (found) {
+      if (found.sectionId === sectionId && found.createdAt >= job.createdAt) {
+        created++;
+      } else {
+        errors.push(`Row ${row}: Student ${student.studentNumber} already exists`);
+      }
+      continue;
+    }
+
+    const record = await prisma.student.create({
+      data: { ...student, sectionId }
+    });
+    created++;
+
+    if (job.createdBy) {
+      await logAuditEvent(job.createdBy, 'CREATE', 'students', record.id, null, record);
+    }
+  }
+
+  return { sectionId, total: students.length, created, errors };
+};
+
+export const JOB_QUEUES = {
+  notifications: {
+    concurrency: 4,
+    attempts: 5,
+    backoffMs: 5 * 1000,
+    handlers: { attendance_follow_up: attendanceFollowUp }
+  },
+  reports: {
+    concurrency: 1,
+    attempts: 3,
+    backoffMs: 30 * 1000,
+    handlers: { sf2_batch: sf2Batch }
+  },
+  imports: {
+    concurrency: 1,
+    attempts: 3,
+    backoffMs: 10 * 1000,
+    handlers: { student_import: studentImport }
+  }
+} satisfies Record<string, QueueDefinition>;
+
+export type QueueName = keyof typeof JOB_QUEUES;
+
+export const QUEUE_NAMES = Object.keys(JOB_QUEUES) as QueueName[];
@@ -0,0 +1,178 @@
+import { connectRedis } from '../utils/redis';
+
+// How long published events are kept for clients catching up after a reconnect
+const RETENTION_MS = 10 * 60 * 1000;
+// Most events replayed to one client; further behind than this, it reloads instead
+const MAX_REPLAY = 500;
+const READ_BLOCK_MS = 5000;
+
+export type RealtimeEventType =
+  | 'attendance.submitted'
+  | 'attendance.updated'
+  | 'alert.raised'
+  | 'checkin.received'
+  | 'excuse.reviewed';
+
+export interface RealtimeEvent {
+  // <milliseconds>-<sequence>, increasing in publish order
+  id: string;
+  type: RealtimeEventType;
+  sectionId: string;
+  at: string;
+  data: Record<string, unknown>;
+}
+
+type Listener = (event: RealtimeEvent) => void;
+
+// Carries events between the servers that publish them and the servers holding
+// the subscribers' streams
+interface EventBus {
+  name: string;
+  publish: (event: Omit<RealtimeEvent, 'id'>) => Promise<void>;
+  // Events published after `lastId`, oldest first, up to `limit`
+  after: (lastId: string, limit: number) => Promise<RealtimeEvent[]>;
+  // Time (ms) from which every event is still kept
+  keptSince: () => number;
+  subscribe: (listener: Listener) => () => void;
+}
+
+const idTime = (id: string) => {
+  const match = /^(\d+)-(\d+)$/.exec(id);
+  return match ? Number(match[1]) : null;
+};
+
+// Orders event ids the way they were published
+export const compareEventIds = (a: string, b: string) => {
+  const [aMs, aSeq] = a.split('-').map(Number);
+  const [bMs, bSeq] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+};
+
+const notify = (listeners: Set<Listener>, event: RealtimeEvent) => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Realtime event listener failed:', error);
+    }
+  });
+};
+
+// Events live in this process: fine for one server, and clients reload after
+// a restart since what they missed is gone
+const createMemoryBus = (): EventBus => {
+  const startedAt = Date.now();
+  const events: RealtimeEvent[] = [];
+  const listeners = new Set<Listener>();
+  let lastMs = 0;
+  let sequence = 0;
+
+  return {
+    name: 'memory',
+    publish: async event => {
+      const now = Math.max(Date.now(), lastMs);
+      sequence = now === lastMs ? sequence + 1 : 0;
+      lastMs = now;
+
+      const stored: RealtimeEvent = { ...event, id: `${now}-${sequence}` };
+      events.push(stored);
+      while (events.length > 0 && idTime(events[0].id)! < now - RETENTION_MS) events.shift();
+
+      notify(listeners, stored);
+    },
+    after: async (lastId, limit) => events.filter(event => compareEventIds(event.id, lastId) > 0).slice(0, limit),
+    keptSince: () => Math.max(startedAt, Date.now() - RETENTION_MS),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+// Events in a Redis stream, trimmed to the retention window. Each server reads
+// the stream on its own blocking connection and hands new entries to its
+// subscribers.
+const createRedisBus = (url: string, key = 'attendify:events'): EventBus => {
+  const redis = connectRedis(url, 'Realtime events');
+  const listeners = new Set<Listener>();
+  let reading = false;
+
+  const parseEntries = (entries: Array<[string, string[]]>) =>
+    entries.map(([id, fields]) => ({ ...JSON.parse(fields[1]), id }) as RealtimeEvent);
+
+  const read = async () => {
+    const reader = connectRedis(url, 'Realtime events reader');
+    let lastId: string | null = null;
+
+    for (;;) {
+      try {
+        if (!lastId) {
+          const [newest] = await redis.xrevrange(key, '+', '-', 'COUNT', 1);
+          lastId = newest ? newest[0] : '0-0';
+        }
+
+        const result: Array<[string, Array<[string, string[]]>]> | null =
+          await reader.xread('COUNT', 100, 'BLOCK', READ_BLOCK_MS, 'STREAMS', key, lastId);
+        for (const event of parseEntries(result ? result[0][1] : [])) {
+          lastId = event.id;
+          notify(listeners, event);
+        }
+      } catch {
+        // The connection logs the failure; try again once it is back
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+  };
+
+  return {
+    name: 'redis',
+    publish: async event => {
+      await redis.xadd(key, 'MINID', '~', String(Date.now() - RETENTION_MS), '*', 'event', JSON.stringify(event));
+    },
+    after: async (lastId, limit) => parseEntries(await redis.xrange(key, `(${lastId}`, '+', 'COUNT', limit)),
+    keptSince: () => Date.now() - RETENTION_MS,
+    subscribe: listener => {
+      listeners.add(listener);
+      if (!reading) {
+        reading = true;
+        read();
+      }
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+let bus: EventBus | null = null;
+
+const eventBus = () => {
+  if (!bus) bus = process.env.REDIS_URL ? createRedisBus(process.env.REDIS_URL) : createMemoryBus();
+  return bus;
+};
+
+export const eventBusName = () => eventBus().name;
+
+// Tell subscribers watching the section what happened. A failure is logged
+// rather than failing what was already saved.
+export const publishEvent = async (type: RealtimeEventType, sectionId: string, data: Record<string, unknown> = {}) => {
+  try {
+    await eventBus().publish({ type, sectionId, at: new Date().toISOString(), data });
+  } catch (error) {
+    console.error(`Failed to publish ${type} event:`, error);
+  }
+};
+
+export const subscribeToEvents = (listener: Listener) => eventBus().subscribe(listener);
+
+// Events since the last one a reconnecting client saw, or null when some of them
+// are no longer kept and the client should reload instead
+export const eventsAfter = async (lastId: string) => {
+  const time = idTime(lastId);
+  if (time === null || time < eventBus().keptSince()) return null;
+
+  const events = await eventBus().after(lastId, MAX_REPLAY + 1);
+  return events.length > MAX_REPLAY ? null : events;
+};
@@ -0,0 +1,98 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+
+export type PdfCell = string | number | { text: string | number; span: number };
+
+interface PdfTableOptions {
+  rowHeight?: number;
+  fontSize?: number;
+  // Columns whose text is left-aligned; the rest are centered
+  leftAligned?: number[];
+}
+
+const thin = { style: 'thin' as const };
+export const THIN_BORDER = { top: thin, left: thin, bottom: thin, right: thin };
+
+// Workbook with a single sheet set up to print landscape on legal paper
+export const createReportWorkbook = (sheetName: string) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName, {
+    pageSetup: { orientation: 'landscape', paperSize: 5, fitToPage: true, fitToWidth: 1, fitToHeight: 0 }
+  });
+  return { workbook, sheet };
+};
+
+// Legal-size landscape document, buffered so it can be sent or stored whole
+export const createReportPdf = () => {
+  const doc = new PDFDocument({ size: 'LEGAL', layout: 'landscape', margin: 24 });
+  const chunks: Buffer[] = [];
+  const buffer = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  return { doc, buffer };
+};
+
+// Split the page width left after the fixed columns evenly over `count` columns
+export const spreadWidth = (doc: PDFKit.PDFDocument, fixed: number[], count: number) => {
+  const usable = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  return count > 0 ? (usable - fixed.reduce((sum, width) => sum + width, 0)) / count : 0;
+};
+
+// Bordered table with fixed column widths, drawn row by row from the current
+// position. Header rows are repeated at the top of every page the table runs onto.
+export const pdfTable = (doc: PDFKit.PDFDocument, widths: number[], options: PdfTableOptions = {}) => {
+  const rowHeight = options.rowHeight ?? 12;
+  const fontSize = options.fontSize ?? 6.5;
+  const leftAligned = options.leftAligned ?? [1];
+  const left = doc.page.margins.left;
+  let headerRows: PdfCell[][] = [];
+
+  const drawCells = (cells: PdfCell[], bold: boolean) => {
+    const y = doc.y;
+    let x = left;
+    let column = 0;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(fontSize);
+
+    while (column < widths.length) {
+      const cell = cells[column];
+      const span = typeof cell === 'object' ? cell.span : 1;
+      const value = typeof cell === 'object' ? cell.text : cell;
+      const width = widths.slice(column, column + span).reduce((sum, w) => sum + w, 0);
+
+      doc.rect(x, y, width, rowHeight).stroke();
+      if (value !== undefined && value !== '') {
+        doc.text(String(value), x + 2, y + (rowHeight - fontSize) / 2, {
+          width: width - 4,
+          height: rowHeight - 3,
+          align: leftAligned.includes(column) ? 'left' : 'center',
+          lineBreak: false,
+          ellipsis: true
+        });
+      }
+
+      x += width;
+      column += span;
+    }
+
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  const row = (cells: PdfCell[], bold = false) => {
+    if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      headerRows.forEach(header => drawCells(header, true));
+    }
+    drawCells(cells, bold);
+  };
+
+  const header = (rows: PdfCell[][]) => {
+    headerRows = rows;
+    rows.forEach(cells => row(cells, true));
+  };
+
+  return { header, row };
+};
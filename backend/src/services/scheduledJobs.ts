@@ -0,0 +1,211 @@
+import { PrismaClient, Prisma, ScheduledJobType } from '@prisma/client';
+import { notifyUser } from './notificationService';
+import { dateKey, loadSchoolCalendar } from './schoolCalendar';
+import { activeOn } from './sectionAssignments';
+import { schoolToday } from '../utils/schoolTime';
+import { previousWeekStart, queueWeeklySummaries } from './weeklySummary';
+import { storeFile } from './fileStorage';
+import { buildSf2Report, renderSf2Xlsx, sf2FileName } from './sf2Report';
+import { buildSf4Report, renderSf4Xlsx, sf4FileName } from './sf4Report';
+import { callTelegram, isTelegramConfigured } from './telegramApi';
+import { rollupDaily, summarizeStatuses } from '../utils/attendanceStatus';
+
+const prisma = new PrismaClient();
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+// Sections named in the daily summary's "not marked yet" line
+const LISTED_SECTIONS = 10;
+
+export interface JobContext {
+  now: Date;
+  // Owner of anything the job stores: the admin who started a manual run, or
+  // the schedule's creator
+  userId: string;
+}
+
+type Job = (context: JobContext) => Promise<Prisma.InputJsonObject>;
+
+interface StaffRecipient {
+  id: string;
+  telegramChatId: string | null;
+}
+
+const staffSelect = { id: true, telegramChatId: true } satisfies Prisma.UserSelect;
+
+// An in-app notification, and a Telegram message too for users who linked a chat.
+// A failed Telegram message is logged and does not stop the others.
+const notifyStaff = async (user: StaffRecipient, type: string, title: string, message: string, data: Prisma.InputJsonObject) => {
+  await notifyUser(user.id, type, title, message, data);
+
+  if (user.telegramChatId && isTelegramConfigured()) {
+    await callTelegram('sendMessage', { chat_id: user.telegramChatId, text: `${title}\n\n${message}` })
+      .catch(error => console.error(`Failed to send ${type} to Telegram:`, error));
+  }
+};
+
+// Sections holding class today, with their enrolled students
+const sectionsInSession = async (day: Date) => {
+  const [sections, calendar] = await Promise.all([
+    prisma.section.findMany({
+      select: {
+        id: true,
+        name: true,
+        gradeLevel: true,
+        adviser: { select: { ...staffSelect, isActive: true } },
+        _count: { select: { students: { where: { enrollmentStatus: 'enrolled' } } } }
+      },
+      orderBy: [{ gradeLevel: 'asc' }, { name: 'asc' }]
+    }),
+    loadSchoolCalendar(day, day)
+  ]);
+
+  return sections.filter(section => section._count.students > 0 && calendar.isSchoolDay(day, section.gradeLevel));
+};
+
+// The school's attendance so far today, to coordinators and admins
+const dailySummary: Job = async ({ now }) => {
+  const day = schoolToday(now);
+  const sections = await sectionsInSession(day);
+  if (sections.length === 0) {
+    return { date: dateKey(day), schoolDay: false, notified: 0 };
+  }
+
+  const marks = rollupDaily(await prisma.attendanceRecord.findMany({
+    where: { date: day, sectionId: { in: sections.map(section => section.id) } },
+    select: { studentId: true, sectionId: true, date: true, sessionId: true, status: true }
+  }));
+
+  const summary = summarizeStatuses(marks.map(mark => mark.status));
+  const markedSections = new Set(marks.map(mark => mark.sectionId));
+  const unmarked = sections.filter(section => !markedSections.has(section.id)).map(section => section.name);
+  const students = sections.reduce((sum, section) => sum + section._count.students, 0);
+
+  const lines = [
+    `${summary.totalRecords} of ${students} students marked in ${markedSections.size} of ${sections.length} sections.`,
+    `${summary.unexcusedAbsences} absent, ${summary.excusedRecords} excused, ${summary.lateRecords} late; ${summary.attendanceRate}% attendance.`
+  ];
+  if (unmarked.length > 0) {
+    const listed = unmarked.slice(0, LISTED_SECTIONS).join(', ');
+    lines.push(`Not marked yet: ${listed}${unmarked.length > LISTED_SECTIONS ? ` and ${unmarked.length - LISTED_SECTIONS} more` : ''}`);
+  }
+
+  const result = {
+    date: dateKey(day),
+    schoolDay: true,
+    sections: sections.length,
+    markedSections: markedSections.size,
+    students,
+    marked: summary.totalRecords,
+    absent: summary.unexcusedAbsences,
+    late: summary.lateRecords,
+    attendanceRate: summary.attendanceRate
+  };
+
+  const recipients = await prisma.user.findMany({
+    where: { role: { in: ['coordinator', 'admin'] }, isActive: true },
+    select: staffSelect
+  });
+  for (const recipient of recipients) {
+    await notifyStaff(recipient, 'daily_summary', `Attendance for ${dateKey(day)}`, lines.join('\n'), result);
+  }
+
+  return { ...result, notified: recipients.length };
+};
+
+// Last week's summary to each section's adviser; sent once per section and week
+const weeklyReport: Job = async ({ now }) => queueWeeklySummaries(previousWeekStart(now));
+
+// A nudge to the beadles and adviser of every section with no attendance yet today
+const missingSubmissionReminder: Job = async ({ now }) => {
+  const day = schoolToday(now);
+  const sections = await sectionsInSession(day);
+
+  const marked = await prisma.attendanceRecord.findMany({
+    where: { date: day, sectionId: { in: sections.map(section => section.id) } },
+    select: { sectionId: true },
+    distinct: ['sectionId']
+  });
+  const markedIds = new Set(marked.map(record => record.sectionId));
+  const missing = sections.filter(section => !markedIds.has(section.id));
+
+  const assignments = await prisma.sectionAssignment.findMany({
+    where: { sectionId: { in: missing.map(section => section.id) }, ...activeOn(day), beadle: { isActive: true } },
+    select: { sectionId: true, beadle: { select: staffSelect } }
+  });
+
+  // One message per person, listing all of their sections
+  const reminders = new Map<string, { user: StaffRecipient; sections: string[] }>();
+  const remind = (user: StaffRecipient, sectionName: string) => {
+    const entry = reminders.get(user.id) || { user, sections: [] };
+    if (!entry.sections.includes(sectionName)) entry.sections.push(sectionName);
+    reminders.set(user.id, entry);
+  };
+
+  missing.forEach(section => {
+    if (section.adviser?.isActive) remind(section.adviser, section.name);
+    assignments
+      .filter(assignment => assignment.sectionId === section.id)
+      .forEach(assignment => remind(assignment.beadle, section.name));
+  });
+
+  for (const { user, sections: names } of reminders.values()) {
+    await notifyStaff(
+      user,
+      'missing_submission',
+      'Attendance not submitted',
+      `No attendance has been submitted for ${dateKey(day)} in ${names.join(', ')}.${user.telegramChatId ? ' Send /mark to submit it here.' : ''}`,
+      { date: dateKey(day), sections: names }
+    );
+  }
+
+  return { date: dateKey(day), missingSections: missing.length, reminded: reminders.size };
+};
+
+// The month before `day`, as YYYY-MM
+const previousMonth = (day: Date) =>
+  new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+
+// Last month's SF2 for every section and the school's SF4, saved to file storage.
+// Forms already stored under the same name are left alone, so reruns are safe.
+const monthlyArchival: Job = async ({ now, userId }) => {
+  const month = previousMonth(schoolToday(now));
+  const sections = await prisma.section.findMany({ select: { id: true }, orderBy: { name: 'asc' } });
+  let stored = 0;
+  let skipped = 0;
+
+  const archive = async (name: string, description: string, render: () => Promise<Buffer>) => {
+    const existing = await prisma.storedFile.count({ where: { name, category: 'attendance_reports' } });
+    if (existing > 0) {
+      skipped++;
+      return;
+    }
+
+    await storeFile(await render(), {
+      name,
+      type: XLSX_TYPE,
+      uploadedBy: userId,
+      description,
+      category: 'attendance_reports'
+    });
+    stored++;
+  };
+
+  // One at a time: each form is built and uploaded in memory
+  for (const section of sections) {
+    const report = await buildSf2Report(section.id, month);
+    if (!report) continue;
+    await archive(sf2FileName(report, 'xlsx'), `SF2 ${report.section.name}, ${report.monthLabel}`, () => renderSf2Xlsx(report));
+  }
+
+  const sf4 = await buildSf4Report(month);
+  await archive(sf4FileName(sf4, 'xlsx'), `SF4 ${sf4.monthLabel}`, () => renderSf4Xlsx(sf4));
+
+  return { month, stored, skipped };
+};
+
+export const SCHEDULED_JOBS: Record<ScheduledJobType, Job> = {
+  daily_summary: dailySummary,
+  weekly_report: weeklyReport,
+  missing_submission_reminder: missingSubmissionReminder,
+  monthly_archival: monthlyArchival
+};
@@ -0,0 +1,122 @@
+import { PrismaClient, CalendarEventType } from '@prisma/client';
+import { schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CalendarEntry {
+  title: string;
+  type: CalendarEventType;
+  startDate: Date;
+  endDate: Date;
+  gradeLevels: string[];
+}
+
+export interface NonSchoolDay {
+  date: string;
+  reason: string;
+  type: CalendarEventType | 'weekend';
+}
+
+export const dateKey = (date: Date) => date.toISOString().split('T')[0];
+
+// Every calendar date from start to end inclusive, as UTC midnight
+export const eachDate = (start: Date, end: Date) => {
+  const dates: Date[] = [];
+  const first = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  for (let time = first; time <= end.getTime(); time += DAY_MS) {
+    dates.push(new Date(time));
+  }
+  return dates;
+};
+
+const appliesTo = (entry: CalendarEntry, gradeLevel?: string) =>
+  entry.gradeLevels.length === 0 || (gradeLevel !== undefined && entry.gradeLevels.includes(gradeLevel));
+
+const covers = (entry: CalendarEntry, date: Date) =>
+  entry.startDate.getTime() <= date.getTime() && date.getTime() <= entry.endDate.getTime();
+
+// Decide school days from weekend rules and calendar events. Closures (holiday,
+// suspension, non_school_day) beat a school_day, which in turn beats the weekend
+// rules. Without a grade level only whole-school events are considered.
+export const buildSchoolCalendar = (weekendDays: number[], events: CalendarEntry[]) => {
+  const closureFor = (date: Date, gradeLevel?: string): NonSchoolDay | null => {
+    const matching = events.filter(event => covers(event, date) && appliesTo(event, gradeLevel));
+
+    const closure = matching.find(event => event.type !== 'school_day');
+    if (closure) {
+      return { date: dateKey(date), reason: closure.title, type: closure.type };
+    }
+
+    if (weekendDays.includes(date.getUTCDay()) && !matching.some(event => event.type === 'school_day')) {
+      return { date: dateKey(date), reason: 'Weekend', type: 'weekend' };
+    }
+
+    return null;
+  };
+
+  const isSchoolDay = (date: Date, gradeLevel?: string) => closureFor(date, gradeLevel) === null;
+
+  const schoolDays = (start: Date, end: Date, gradeLevel?: string) =>
+    eachDate(start, end).filter(date => isSchoolDay(date, gradeLevel)).map(dateKey);
+
+  const nonSchoolDays = (start: Date, end: Date, gradeLevel?: string) =>
+    eachDate(start, end)
+      .map(date => closureFor(date, gradeLevel))
+      .filter((day): day is NonSchoolDay => day !== null);
+
+  return { closureFor, isSchoolDay, schoolDays, nonSchoolDays };
+};
+
+export type SchoolCalendar = ReturnType<typeof buildSchoolCalendar>;
+
+// Load the weekend rules and every event overlapping the given range
+export const loadSchoolCalendar = async (start: Date, end: Date): Promise<SchoolCalendar> => {
+  const [weekendRules, events] = await Promise.all([
+    prisma.weekendRule.findMany(),
+    prisma.calendarEvent.findMany({
+      where: {
+        startDate: { lte: end },
+        endDate: { gte: start }
+      }
+    })
+  ]);
+
+  return buildSchoolCalendar(weekendRules.map(rule => rule.dayOfWeek), events);
+};
+
+// Resolve an optional reporting range. Missing bounds fall back to the given
+// first-record date and today.
+export const resolveRange = (startDate?: Date | string, endDate?: Date | string, firstRecord?: Date) => {
+  const today = schoolToday();
+  const start = startDate ? new Date(startDate) : firstRecord || today;
+  const end = endDate ? new Date(endDate) : today;
+  return { start, end };
+};
+
+// Load the calendar for a set of records. Without an explicit range it spans the
+// earliest record to today (or the latest record, if later).
+export const loadCalendarForRecords = async (
+  records: Array<{ date: Date }>,
+  startDate?: Date | string,
+  endDate?: Date | string
+) => {
+  const times = records.map(record => record.date.getTime());
+  const first = times.reduce((min, time) => Math.min(min, time), Infinity);
+  const last = times.reduce((max, time) => Math.max(max, time), -Infinity);
+
+  const range = resolveRange(startDate, endDate, times.length > 0 ? new Date(first) : undefined);
+  if (!endDate && last > range.end.getTime()) {
+    range.end = new Date(last);
+  }
+
+  const calendar = await loadSchoolCalendar(range.start, range.end);
+  return { calendar, ...range };
+};
+
+// Drop records dated on a holiday, suspension or weekend for the record's grade level
+export const onSchoolDays = <T extends { date: Date; section: { gradeLevel: string } }>(
+  calendar: SchoolCalendar,
+  records: T[]
+) => records.filter(record => calendar.isSchoolDay(record.date, record.section.gradeLevel));
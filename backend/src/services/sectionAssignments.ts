@@ -0,0 +1,77 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { dateKey } from './schoolCalendar';
+import { schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+type ScopeUser = NonNullable<AuthRequest['user']>;
+
+// Assignments covering a date: started on or before it and not yet ended
+export const activeOn = (date: Date | string): Prisma.SectionAssignmentWhereInput => {
+  const day = new Date(dateKey(new Date(date)));
+  return {
+    startDate: { lte: day },
+    OR: [{ endDate: null }, { endDate: { gte: day } }]
+  };
+};
+
+// Sections a beadle is assigned to on a date, today by default
+export const assignedSectionIds = async (beadleId: string, date: Date | string = schoolToday()) => {
+  const assignments = await prisma.sectionAssignment.findMany({
+    where: { beadleId, ...activeOn(date) },
+    select: { sectionId: true }
+  });
+  return [...new Set(assignments.map(assignment => assignment.sectionId))];
+};
+
+export const isAssignedToSection = async (beadleId: string, sectionId: string, date: Date | string = schoolToday()) =>
+  (await prisma.sectionAssignment.count({
+    where: { beadleId, sectionId, ...activeOn(date) }
+  })) > 0;
+
+// Filter on sectionId limiting a query to what the user may see. Beadles get their
+// currently assigned sections (narrowed to `sectionId` when given); everyone else
+// gets `sectionId` as is, or undefined for no filter.
+export const sectionScope = async (user: ScopeUser, sectionId?: string) => {
+  if (user.role !== 'beadle') {
+    return sectionId;
+  }
+
+  const assigned = await assignedSectionIds(user.id);
+  return { in: sectionId ? assigned.filter(id => id === sectionId) : assigned };
+};
+
+// Beadles may only act on sections assigned to them on the given date. Returns an
+// error response to send, or null when the user may go ahead.
+export const checkAssignment = async (user: ScopeUser, sectionId: string, date: Date | string = schoolToday()) => {
+  if (user.role !== 'beadle' || await isAssignedToSection(user.id, sectionId, date)) {
+    return null;
+  }
+
+  return {
+    status: 403,
+    body: {
+      error: 'You are not assigned to this section',
+      code: 'SECTION_NOT_ASSIGNED'
+    }
+  };
+};
+
+// Sections whose live activity the user follows: the ones they advise, or are
+// assigned to as a beadle. Coordinators and admins follow every section (null).
+export const watchedSectionIds = async (user: ScopeUser) => {
+  if (user.role === 'adviser') {
+    const sections = await prisma.section.findMany({
+      where: { adviserId: user.id },
+      select: { id: true }
+    });
+    return sections.map(section => section.id);
+  }
+
+  if (user.role === 'beadle') {
+    return assignedSectionIds(user.id);
+  }
+
+  return null;
+};
@@ -0,0 +1,135 @@
+import { PrismaClient } from '@prisma/client';
+import { logAuditEvent } from '../middleware/audit';
+import { getLockState } from './attendanceLock';
+import { publishEvent } from './realtimeEvents';
+import { dateKey } from './schoolCalendar';
+import { parseCheckInToken, verifyCheckInToken } from '../utils/checkInToken';
+import { schoolDateKey } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+const failure = (status: number, body: Record<string, unknown>) => ({ error: { status, body } });
+
+// Check a student in with a scanned check-in token and mark them present. Shared
+// by the public phone page and signed-in student accounts. Returns an error
+// response to send, or the student and check-in time.
+export const selfCheckIn = async (
+  token: string,
+  studentNumber: string,
+  client: { ipAddress?: string; userAgent?: string }
+) => {
+  const parsed = parseCheckInToken(token);
+  const session = parsed
+    ? await prisma.checkInSession.findUnique({ where: { id: parsed.sessionId } })
+    : null;
+
+  if (!parsed || !session) {
+    return failure(400, { error: 'Invalid check-in code', code: 'INVALID_CHECK_IN_TOKEN' });
+  }
+
+  const tokenCheck = verifyCheckInToken(parsed, session.secret);
+  if (tokenCheck === 'invalid') {
+    return failure(400, { error: 'Invalid check-in code', code: 'INVALID_CHECK_IN_TOKEN' });
+  }
+
+  if (tokenCheck === 'expired' || session.closedAt || dateKey(session.date) !== schoolDateKey()) {
+    return failure(410, {
+      error: 'This check-in code has expired, scan the current one',
+      code: 'CHECK_IN_TOKEN_EXPIRED'
+    });
+  }
+
+  const lock = await getLockState(session.sectionId, session.date);
+  if (lock.finalized) {
+    return failure(423, {
+      error: 'Attendance for today is already finalized',
+      code: 'ATTENDANCE_FINALIZED'
+    });
+  }
+
+  const student = await prisma.student.findUnique({
+    where: { studentNumber }
+  });
+
+  if (!student || student.sectionId !== session.sectionId) {
+    return failure(404, {
+      error: 'Student number not found in this section',
+      code: 'STUDENT_NOT_FOUND'
+    });
+  }
+
+  // One check-in per student per day, whichever session it came through
+  const previousCheckIn = await prisma.checkIn.findFirst({
+    where: {
+      studentId: student.id,
+      session: { sectionId: session.sectionId, date: session.date }
+    }
+  });
+
+  if (previousCheckIn) {
+    return failure(409, {
+      error: 'Already checked in today',
+      code: 'ALREADY_CHECKED_IN',
+      checkedInAt: previousCheckIn.checkedInAt
+    });
+  }
+
+  const existingRecord = await prisma.attendanceRecord.findFirst({
+    where: { studentId: student.id, date: session.date, sessionId: null }
+  });
+
+  const checkedInAt = new Date();
+  const notes = `Self check-in at ${checkedInAt.toISOString()}`;
+
+  const [checkIn, record] = await prisma.$transaction([
+    prisma.checkIn.create({
+      data: {
+        sessionId: session.id,
+        studentId: student.id,
+        tokenWindow: parsed.window,
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+        checkedInAt
+      }
+    }),
+    existingRecord
+      ? prisma.attendanceRecord.update({
+          where: { id: existingRecord.id },
+          data: { status: 'present', reasonCode: null, notes }
+        })
+      : prisma.attendanceRecord.create({
+          data: {
+            studentId: student.id,
+            sectionId: session.sectionId,
+            date: session.date,
+            status: 'present',
+            submittedBy: session.createdBy,
+            notes
+          }
+        })
+  ]);
+
+  await logAuditEvent(
+    session.createdBy,
+    existingRecord ? 'UPDATE' : 'CREATE',
+    'attendance_records',
+    record.id,
+    existingRecord ? { status: existingRecord.status, reasonCode: existingRecord.reasonCode, notes: existingRecord.notes } : undefined,
+    { status: 'present', notes, checkInId: checkIn.id }
+  );
+
+  await publishEvent('checkin.received', session.sectionId, {
+    date: dateKey(session.date),
+    studentId: student.id,
+    studentName: `${student.firstName} ${student.lastName}`,
+    checkedInAt: checkedInAt.toISOString()
+  });
+
+  return {
+    student: {
+      firstName: student.firstName,
+      lastName: student.lastName
+    },
+    checkedInAt
+  };
+};
@@ -0,0 +1,388 @@
+import { PrismaClient, AttendanceStatus, EnrollmentStatus, Sex } from '@prisma/client';
+import { loadSchoolCalendar, dateKey } from './schoolCalendar';
+import { createReportPdf, createReportWorkbook, pdfTable, spreadWidth, THIN_BORDER } from './reportDocuments';
+import { attendanceWeight, roundRate, rollupDaily } from '../utils/attendanceStatus';
+import { schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+// DepEd School Form 2 (SF2), Daily Attendance Report of Learners
+
+const WEEKDAYS = ['Su', 'M', 'T', 'W', 'Th', 'F', 'Sa'];
+
+// Blank means present. Tardiness is split the way SF2 shades it: late comers
+// and cutting classes. Excused absences still count as absences on the form.
+const MARKS: Record<AttendanceStatus, string> = {
+  present: '',
+  late: 'L',
+  half_day: 'H',
+  cutting: 'C',
+  excused: 'E',
+  absent: 'x'
+};
+
+const MOVEMENT_REMARKS: Record<EnrollmentStatus, string> = {
+  enrolled: '',
+  dropped_out: 'Dropped out',
+  transferred_out: 'Transferred out'
+};
+
+export const SF2_LEGEND = 'Blank = present, x = absent, E = excused absence, L = late, C = cutting classes, H = half day, - = not marked';
+
+export interface Sf2Learner {
+  studentId: string;
+  studentNumber: string;
+  name: string;
+  sex: Sex | null;
+  leftOn: string | null;
+  marks: string[];
+  absent: number;
+  tardy: number;
+  remarks: string;
+}
+
+export interface Sf2Group {
+  label: string;
+  learners: Sf2Learner[];
+  // Learners present on each day, aligned with `days`
+  dailyTotals: number[];
+}
+
+interface Sf2Figure {
+  male: number;
+  female: number;
+  total: number;
+}
+
+export interface Sf2Report {
+  school: { id: string; name: string; head: string };
+  schoolYear: string;
+  month: string;
+  monthLabel: string;
+  section: { id: string; name: string; gradeLevel: string; adviser: string | null };
+  days: { date: string; day: number; weekday: string }[];
+  groups: Sf2Group[];
+  dailyTotals: number[];
+  summary: {
+    schoolDays: number;
+    enrolment: Sf2Figure;
+    averageDailyAttendance: Sf2Figure;
+    percentageOfAttendance: Sf2Figure;
+  };
+}
+
+const formatName = (student: { lastName: string; firstName: string; middleName: string | null }) =>
+  `${student.lastName}, ${student.firstName}${student.middleName ? ` ${student.middleName}` : ''}`;
+
+// Build SF2 for a section and month (YYYY-MM), or null when the section does not
+// exist. Only school days up to today are reported, so a report for the current
+// month covers the month so far.
+export const buildSf2Report = async (sectionId: string, month: string): Promise<Sf2Report | null> => {
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    include: {
+      adviser: { select: { fullName: true } },
+      students: {
+        select: {
+          id: true,
+          studentNumber: true,
+          firstName: true,
+          lastName: true,
+          middleName: true,
+          sex: true,
+          enrollmentStatus: true,
+          leftOn: true,
+          transferredInOn: true
+        },
+        orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }]
+      }
+    }
+  });
+
+  if (!section) {
+    return null;
+  }
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const start = new Date(Date.UTC(year, monthIndex - 1, 1));
+  const end = new Date(Date.UTC(year, monthIndex, 0));
+  const today = schoolToday();
+  const lastDay = end.getTime() < today.getTime() ? end : today;
+
+  const calendar = await loadSchoolCalendar(start, end);
+  const dayKeys = lastDay.getTime() < start.getTime() ? [] : calendar.schoolDays(start, lastDay, section.gradeLevel);
+
+  const records = rollupDaily(await prisma.attendanceRecord.findMany({
+    where: {
+      sectionId,
+      date: { gte: start, lte: end }
+    },
+    select: { studentId: true, date: true, status: true, sessionId: true }
+  }));
+
+  const statusOf = new Map(records.map(record => [`${record.studentId}:${dateKey(record.date)}`, record.status]));
+
+  // Learners who left before the month or joined after it are not on the form
+  const onRoll = section.students.filter(student =>
+    (student.leftOn === null || student.leftOn.getTime() >= start.getTime()) &&
+    (student.transferredInOn === null || student.transferredInOn.getTime() <= end.getTime())
+  );
+
+  const learners: Sf2Learner[] = onRoll.map(student => {
+    const statuses = dayKeys.map(day => statusOf.get(`${student.id}:${day}`));
+    const excused = statuses.filter(status => status === 'excused').length;
+    const remarks = [
+      excused > 0 ? `${excused} excused` : '',
+      student.transferredInOn && student.transferredInOn.getTime() >= start.getTime()
+        ? `Transferred in ${dateKey(student.transferredInOn)}` : '',
+      student.leftOn ? `${MOVEMENT_REMARKS[student.enrollmentStatus]} ${dateKey(student.leftOn)}` : ''
+    ];
+
+    return {
+      studentId: student.id,
+      studentNumber: student.studentNumber,
+      name: formatName(student),
+      sex: student.sex,
+      leftOn: student.leftOn ? dateKey(student.leftOn) : null,
+      marks: statuses.map(status => status ? MARKS[status] : '-'),
+      absent: statuses.filter(status => status === 'absent' || status === 'excused').length,
+      tardy: statuses.filter(status => status === 'late' || status === 'cutting' || status === 'half_day').length,
+      remarks: remarks.filter(Boolean).join('; ')
+    };
+  });
+
+  const presentOn = (group: Sf2Learner[]) =>
+    dayKeys.map(day => group.filter(learner => {
+      const status = statusOf.get(`${learner.studentId}:${day}`);
+      return status !== undefined && attendanceWeight(status) > 0;
+    }).length);
+
+  const male = learners.filter(learner => learner.sex === 'male');
+  const female = learners.filter(learner => learner.sex === 'female');
+  const unspecified = learners.filter(learner => learner.sex === null);
+
+  const groups: Sf2Group[] = [
+    { label: 'MALE', learners: male, dailyTotals: presentOn(male) },
+    { label: 'FEMALE', learners: female, dailyTotals: presentOn(female) }
+  ];
+  if (unspecified.length > 0) {
+    groups.push({ label: 'SEX NOT RECORDED', learners: unspecified, dailyTotals: presentOn(unspecified) });
+  }
+
+  const dailyTotals = presentOn(learners);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const average = (values: number[]) => dayKeys.length > 0 ? roundRate(sum(values) / dayKeys.length) : 0;
+  const percentage = (ada: number, enrolled: number) => enrolled > 0 ? roundRate((ada / enrolled) * 100) : 0;
+
+  const averageDailyAttendance = {
+    male: average(groups[0].dailyTotals),
+    female: average(groups[1].dailyTotals),
+    total: average(dailyTotals)
+  };
+  // Enrolment as of the end of the month, so learners who left during it are not counted
+  const stillEnrolled = (group: Sf2Learner[]) => group.filter(learner => !learner.leftOn || learner.leftOn > dateKey(end)).length;
+  const enrolment = { male: stillEnrolled(male), female: stillEnrolled(female), total: stillEnrolled(learners) };
+
+  return {
+    school: {
+      id: process.env.SCHOOL_ID || '',
+      name: process.env.SCHOOL_NAME || '',
+      head: process.env.SCHOOL_HEAD || ''
+    },
+    schoolYear: section.schoolYear,
+    month,
+    monthLabel: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+    section: {
+      id: section.id,
+      name: section.name,
+      gradeLevel: section.gradeLevel,
+      adviser: section.adviser?.fullName || null
+    },
+    days: dayKeys.map(day => {
+      const date = new Date(day);
+      return { date: day, day: date.getUTCDate(), weekday: WEEKDAYS[date.getUTCDay()] };
+    }),
+    groups,
+    dailyTotals,
+    summary: {
+      schoolDays: dayKeys.length,
+      enrolment,
+      averageDailyAttendance,
+      percentageOfAttendance: {
+        male: percentage(averageDailyAttendance.male, enrolment.male),
+        female: percentage(averageDailyAttendance.female, enrolment.female),
+        total: percentage(averageDailyAttendance.total, enrolment.total)
+      }
+    }
+  };
+};
+
+export const sf2FileName = (report: Sf2Report, format: 'xlsx' | 'pdf') =>
+  `SF2_${report.section.name.replace(/[^A-Za-z0-9-]+/g, '_')}_${report.month}.${format}`;
+
+// Header, summary and signature lines shared by both renderers
+const headerLines = (report: Sf2Report) => [
+  ['School ID', report.school.id, 'School Year', report.schoolYear, 'Report for the Month of', report.monthLabel],
+  ['Name of School', report.school.name, 'Grade Level', report.section.gradeLevel, 'Section', report.section.name]
+];
+
+const summaryLines = (report: Sf2Report) => {
+  const { summary } = report;
+  return [
+    ['', 'Male', 'Female', 'Total'],
+    ['Enrolment', summary.enrolment.male, summary.enrolment.female, summary.enrolment.total],
+    ['Average Daily Attendance', summary.averageDailyAttendance.male, summary.averageDailyAttendance.female, summary.averageDailyAttendance.total],
+    ['Percentage of Attendance for the Month', `${summary.percentageOfAttendance.male}%`, `${summary.percentageOfAttendance.female}%`, `${summary.percentageOfAttendance.total}%`]
+  ];
+};
+
+const signatureLines = (report: Sf2Report) => [
+  `Prepared by: ${report.section.adviser || '________________________'} (Class Adviser)`,
+  `Attested by: ${report.school.head || '________________________'} (School Head)`
+];
+
+export const renderSf2Xlsx = async (report: Sf2Report): Promise<Buffer> => {
+  const { workbook, sheet } = createReportWorkbook('SF2');
+
+  const dayCount = report.days.length;
+  const lastColumn = dayCount + 5;
+
+  sheet.getColumn(1).width = 5;
+  sheet.getColumn(2).width = 36;
+  for (let column = 3; column < dayCount + 3; column++) {
+    sheet.getColumn(column).width = 4;
+  }
+  sheet.getColumn(dayCount + 3).width = 8;
+  sheet.getColumn(dayCount + 4).width = 8;
+  sheet.getColumn(lastColumn).width = 20;
+
+  const title = sheet.addRow(['School Form 2 (SF2) Daily Attendance Report of Learners']);
+  title.font = { bold: true, size: 14 };
+  sheet.mergeCells(title.number, 1, title.number, lastColumn);
+  title.alignment = { horizontal: 'center' };
+  sheet.addRow([]);
+
+  headerLines(report).forEach(line => {
+    const row = sheet.addRow(line);
+    [1, 3, 5].forEach(column => { row.getCell(column).font = { bold: true }; });
+  });
+  sheet.addRow([]);
+
+  const header = sheet.addRow(['No.', "LEARNER'S NAME (Last Name, First Name, Middle Name)", ...report.days.map(day => day.day), 'ABSENT', 'TARDY', 'REMARKS']);
+  const weekdays = sheet.addRow(['', '', ...report.days.map(day => day.weekday), '', '', '']);
+  [header, weekdays].forEach(row => {
+    row.font = { bold: true };
+    row.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+  });
+
+  const gridRows = [header, weekdays];
+  let number = 0;
+  report.groups.forEach(group => {
+    const label = sheet.addRow(['', group.label]);
+    label.font = { bold: true };
+    gridRows.push(label);
+
+    group.learners.forEach(learner => {
+      number++;
+      const row = sheet.addRow([number, learner.name, ...learner.marks, learner.absent, learner.tardy, learner.remarks]);
+      for (let column = 3; column < dayCount + 5; column++) {
+        row.getCell(column).alignment = { horizontal: 'center' };
+      }
+      gridRows.push(row);
+    });
+
+    const total = sheet.addRow(['', `${group.label} | TOTAL Per Day`, ...group.dailyTotals]);
+    total.font = { bold: true };
+    gridRows.push(total);
+  });
+
+  const combined = sheet.addRow(['', 'Combined TOTAL PER DAY', ...report.dailyTotals]);
+  combined.font = { bold: true };
+  gridRows.push(combined);
+
+  gridRows.forEach(row => {
+    for (let column = 1; column <= lastColumn; column++) {
+      row.getCell(column).border = THIN_BORDER;
+    }
+  });
+
+  sheet.addRow([]);
+  sheet.addRow(['', `Legend: ${SF2_LEGEND}`]);
+  sheet.addRow([]);
+
+  const daysRow = sheet.addRow(['', 'No. of Days of Classes', report.summary.schoolDays]);
+  daysRow.getCell(2).font = { bold: true };
+  summaryLines(report).forEach(line => {
+    const row = sheet.addRow(['', ...line]);
+    row.getCell(2).font = { bold: true };
+  });
+
+  sheet.addRow([]);
+  signatureLines(report).forEach(line => sheet.addRow(['', line]));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+export const renderSf2Pdf = (report: Sf2Report): Promise<Buffer> => {
+  const { doc, buffer } = createReportPdf();
+  const left = doc.page.margins.left;
+
+  // No., name, one column per day, absent, tardy, remarks
+  const fixed = [22, 170];
+  const trailing = [36, 36, 90];
+  const dayWidth = spreadWidth(doc, [...fixed, ...trailing], report.days.length);
+  const table = pdfTable(doc, [...fixed, ...report.days.map(() => dayWidth), ...trailing]);
+
+  doc.font('Helvetica-Bold').fontSize(12)
+    .text('School Form 2 (SF2) Daily Attendance Report of Learners', { align: 'center' });
+  doc.moveDown(0.5);
+  doc.fontSize(8);
+  headerLines(report).forEach(line => {
+    doc.font('Helvetica').text(
+      `${line[0]}: ${line[1] || '-'}     ${line[2]}: ${line[3]}     ${line[4]}: ${line[5]}`,
+      left
+    );
+  });
+  doc.moveDown(0.5);
+
+  table.header([
+    ['No.', "LEARNER'S NAME", ...report.days.map(day => day.day), 'ABSENT', 'TARDY', 'REMARKS'],
+    ['', '(Last Name, First Name, Middle Name)', ...report.days.map(day => day.weekday), '', '', '']
+  ]);
+  let number = 0;
+  report.groups.forEach(group => {
+    table.row(['', group.label], true);
+    group.learners.forEach(learner => {
+      number++;
+      table.row([number, learner.name, ...learner.marks, learner.absent, learner.tardy, learner.remarks]);
+    });
+    table.row(['', `${group.label} | TOTAL Per Day`, ...group.dailyTotals], true);
+  });
+  table.row(['', 'Combined TOTAL PER DAY', ...report.dailyTotals], true);
+
+  if (doc.y + 120 > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+
+  doc.moveDown();
+  doc.font('Helvetica').fontSize(7).text(`Legend: ${SF2_LEGEND}`, left);
+  doc.moveDown();
+  doc.fontSize(8).font('Helvetica-Bold').text(`No. of Days of Classes: ${report.summary.schoolDays}`, left);
+  summaryLines(report).forEach(([label, maleValue, femaleValue, totalValue], index) => {
+    const y = doc.y;
+    doc.font(index === 0 ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(String(label), left, y, { width: 200 });
+    doc.text(String(maleValue), left + 200, y, { width: 60 });
+    doc.text(String(femaleValue), left + 260, y, { width: 60 });
+    doc.text(String(totalValue), left + 320, y, { width: 60 });
+  });
+
+  doc.moveDown(2);
+  signatureLines(report).forEach(line => {
+    doc.font('Helvetica').text(line, left);
+    doc.moveDown();
+  });
+
+  doc.end();
+  return buffer;
+};
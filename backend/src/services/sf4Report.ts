@@ -0,0 +1,342 @@
+import { PrismaClient, AttendanceStatus, EnrollmentStatus, Sex } from '@prisma/client';
+import { loadSchoolCalendar, dateKey } from './schoolCalendar';
+import { createReportPdf, createReportWorkbook, pdfTable, spreadWidth, THIN_BORDER, PdfCell } from './reportDocuments';
+import { attendanceWeight, roundRate, rollupDaily } from '../utils/attendanceStatus';
+import { schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+// DepEd School Form 4 (SF4), Monthly Learner's Movement and Attendance
+
+// Absent for this many school days in a row gets a learner flagged on the form
+export const CONSECUTIVE_ABSENCE_DAYS = 5;
+
+interface Sf4Figure {
+  male: number;
+  female: number;
+  total: number;
+}
+
+interface Sf4Movement {
+  month: Sf4Figure;
+  cumulative: Sf4Figure;
+}
+
+export interface Sf4Row {
+  gradeLevel: string;
+  // null on grade-level and school totals
+  section: { id: string; name: string; adviser: string | null } | null;
+  enrolment: Sf4Figure;
+  averageDailyAttendance: Sf4Figure;
+  percentageOfAttendance: Sf4Figure;
+  absentFiveDays: Sf4Figure;
+  droppedOut: Sf4Movement;
+  transferredOut: Sf4Movement;
+  transferredIn: Sf4Movement;
+}
+
+export interface Sf4Report {
+  school: { id: string; name: string; head: string };
+  month: string;
+  monthLabel: string;
+  grades: { gradeLevel: string; sections: Sf4Row[]; total: Sf4Row }[];
+  total: Sf4Row;
+}
+
+interface Learner {
+  id: string;
+  sex: Sex | null;
+  enrollmentStatus: EnrollmentStatus;
+  leftOn: Date | null;
+  transferredInOn: Date | null;
+}
+
+const figure = (learners: Learner[], predicate: (learner: Learner) => boolean): Sf4Figure => {
+  const matching = learners.filter(predicate);
+  return {
+    male: matching.filter(learner => learner.sex === 'male').length,
+    female: matching.filter(learner => learner.sex === 'female').length,
+    total: matching.length
+  };
+};
+
+const addFigures = (figures: Sf4Figure[]): Sf4Figure => ({
+  male: roundRate(figures.reduce((sum, value) => sum + value.male, 0)),
+  female: roundRate(figures.reduce((sum, value) => sum + value.female, 0)),
+  total: roundRate(figures.reduce((sum, value) => sum + value.total, 0))
+});
+
+const percentages = (ada: Sf4Figure, enrolment: Sf4Figure): Sf4Figure => {
+  const percent = (value: number, base: number) => base > 0 ? roundRate((value / base) * 100) : 0;
+  return {
+    male: percent(ada.male, enrolment.male),
+    female: percent(ada.female, enrolment.female),
+    total: percent(ada.total, enrolment.total)
+  };
+};
+
+const within = (date: Date | null, start: Date, end: Date) =>
+  date !== null && start.getTime() <= date.getTime() && date.getTime() <= end.getTime();
+
+const upTo = (date: Date | null, end: Date) => date !== null && date.getTime() <= end.getTime();
+
+// Learners who left with the given status during the month, and since the start of the school year
+const movement = (learners: Learner[], status: EnrollmentStatus, start: Date, end: Date): Sf4Movement => ({
+  month: figure(learners, learner => learner.enrollmentStatus === status && within(learner.leftOn, start, end)),
+  cumulative: figure(learners, learner => learner.enrollmentStatus === status && upTo(learner.leftOn, end))
+});
+
+const sumRows = (gradeLevel: string, rows: Sf4Row[]): Sf4Row => {
+  const enrolment = addFigures(rows.map(row => row.enrolment));
+  const averageDailyAttendance = addFigures(rows.map(row => row.averageDailyAttendance));
+  const sumMovement = (pick: (row: Sf4Row) => Sf4Movement) => ({
+    month: addFigures(rows.map(row => pick(row).month)),
+    cumulative: addFigures(rows.map(row => pick(row).cumulative))
+  });
+
+  return {
+    gradeLevel,
+    section: null,
+    enrolment,
+    averageDailyAttendance,
+    percentageOfAttendance: percentages(averageDailyAttendance, enrolment),
+    absentFiveDays: addFigures(rows.map(row => row.absentFiveDays)),
+    droppedOut: sumMovement(row => row.droppedOut),
+    transferredOut: sumMovement(row => row.transferredOut),
+    transferredIn: sumMovement(row => row.transferredIn)
+  };
+};
+
+// Build SF4 for a month (YYYY-MM) across every section, or one grade level.
+// Enrolment counts learners in the section at the end of the month; attendance
+// only covers school days up to today.
+export const buildSf4Report = async (month: string, gradeLevel?: string): Promise<Sf4Report> => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const start = new Date(Date.UTC(year, monthIndex - 1, 1));
+  const end = new Date(Date.UTC(year, monthIndex, 0));
+  const today = schoolToday();
+  const lastDay = end.getTime() < today.getTime() ? end : today;
+
+  const sections = await prisma.section.findMany({
+    where: gradeLevel ? { gradeLevel } : undefined,
+    include: {
+      adviser: { select: { fullName: true } },
+      students: {
+        select: {
+          id: true,
+          sex: true,
+          enrollmentStatus: true,
+          leftOn: true,
+          transferredInOn: true
+        }
+      }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const [calendar, records] = await Promise.all([
+    loadSchoolCalendar(start, end),
+    prisma.attendanceRecord.findMany({
+      where: {
+        sectionId: { in: sections.map(section => section.id) },
+        date: { gte: start, lte: end }
+      },
+      select: { studentId: true, date: true, status: true, sessionId: true }
+    })
+  ]);
+
+  const statusOf = new Map<string, AttendanceStatus>(
+    rollupDaily(records).map(record => [`${record.studentId}:${dateKey(record.date)}`, record.status])
+  );
+
+  const sectionRows: Sf4Row[] = sections.map(section => {
+    const learners = section.students;
+    const dayKeys = lastDay.getTime() < start.getTime() ? [] : calendar.schoolDays(start, lastDay, section.gradeLevel);
+
+    const enrolment = figure(learners, learner =>
+      (learner.transferredInOn === null || upTo(learner.transferredInOn, end)) &&
+      (learner.leftOn === null || learner.leftOn.getTime() > end.getTime())
+    );
+
+    const presentDays = (learner: Learner) => dayKeys.filter(day => {
+      const status = statusOf.get(`${learner.id}:${day}`);
+      return status !== undefined && attendanceWeight(status) > 0;
+    }).length;
+    const average = (sex?: Sex) => dayKeys.length > 0
+      ? roundRate(learners
+        .filter(learner => sex === undefined || learner.sex === sex)
+        .reduce((sum, learner) => sum + presentDays(learner), 0) / dayKeys.length)
+      : 0;
+    const averageDailyAttendance = { male: average('male'), female: average('female'), total: average() };
+
+    const longestAbsence = (learner: Learner) => {
+      let longest = 0;
+      let streak = 0;
+      dayKeys.forEach(day => {
+        const status = statusOf.get(`${learner.id}:${day}`);
+        streak = status === 'absent' || status === 'excused' ? streak + 1 : 0;
+        longest = Math.max(longest, streak);
+      });
+      return longest;
+    };
+
+    return {
+      gradeLevel: section.gradeLevel,
+      section: { id: section.id, name: section.name, adviser: section.adviser?.fullName || null },
+      enrolment,
+      averageDailyAttendance,
+      percentageOfAttendance: percentages(averageDailyAttendance, enrolment),
+      absentFiveDays: figure(learners, learner => longestAbsence(learner) >= CONSECUTIVE_ABSENCE_DAYS),
+      droppedOut: movement(learners, 'dropped_out', start, end),
+      transferredOut: movement(learners, 'transferred_out', start, end),
+      transferredIn: {
+        month: figure(learners, learner => within(learner.transferredInOn, start, end)),
+        cumulative: figure(learners, learner => upTo(learner.transferredInOn, end))
+      }
+    };
+  });
+
+  const gradeLevels = [...new Set(sectionRows.map(row => row.gradeLevel))]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const grades = gradeLevels.map(level => {
+    const rows = sectionRows.filter(row => row.gradeLevel === level);
+    return { gradeLevel: level, sections: rows, total: sumRows(level, rows) };
+  });
+
+  return {
+    school: {
+      id: process.env.SCHOOL_ID || '',
+      name: process.env.SCHOOL_NAME || '',
+      head: process.env.SCHOOL_HEAD || ''
+    },
+    month,
+    monthLabel: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+    grades,
+    total: sumRows('All', sectionRows)
+  };
+};
+
+export const sf4FileName = (report: Sf4Report, format: 'xlsx' | 'pdf') => `SF4_${report.month}.${format}`;
+
+const COLUMN_GROUPS: Array<{ label: string; pick: (row: Sf4Row) => Sf4Figure; percent?: boolean }> = [
+  { label: 'Enrolment (end of month)', pick: row => row.enrolment },
+  { label: 'Average Daily Attendance', pick: row => row.averageDailyAttendance },
+  { label: 'Percentage of Attendance', pick: row => row.percentageOfAttendance, percent: true },
+  { label: `Absent ${CONSECUTIVE_ABSENCE_DAYS}+ Consecutive Days`, pick: row => row.absentFiveDays },
+  { label: 'Dropped Out (month)', pick: row => row.droppedOut.month },
+  { label: 'Dropped Out (cumulative)', pick: row => row.droppedOut.cumulative },
+  { label: 'Transferred Out (month)', pick: row => row.transferredOut.month },
+  { label: 'Transferred Out (cumulative)', pick: row => row.transferredOut.cumulative },
+  { label: 'Transferred In (month)', pick: row => row.transferredIn.month },
+  { label: 'Transferred In (cumulative)', pick: row => row.transferredIn.cumulative }
+];
+
+const rowCells = (row: Sf4Row) => [
+  row.section ? row.gradeLevel : `${row.gradeLevel === 'All' ? 'SCHOOL' : `Grade ${row.gradeLevel}`} TOTAL`,
+  row.section?.name || '',
+  row.section?.adviser || '',
+  ...COLUMN_GROUPS.flatMap(({ pick, percent }) => {
+    const value = pick(row);
+    return [value.male, value.female, value.total].map(number => percent ? `${number}%` : number);
+  })
+];
+
+// Sections, then a total for their grade level, then the school total
+const tableRows = (report: Sf4Report) => [
+  ...report.grades.flatMap(grade => [
+    ...grade.sections.map(row => ({ cells: rowCells(row), total: false })),
+    { cells: rowCells(grade.total), total: true }
+  ]),
+  { cells: rowCells(report.total), total: true }
+];
+
+const titleLine = "School Form 4 (SF4) Monthly Learner's Movement and Attendance";
+
+const headerLine = (report: Sf4Report) =>
+  `School ID: ${report.school.id || '-'}     Name of School: ${report.school.name || '-'}     Report for the Month of: ${report.monthLabel}`;
+
+const signatureLine = (report: Sf4Report) =>
+  `Prepared and submitted by: ${report.school.head || '________________________'} (School Head)`;
+
+export const renderSf4Xlsx = async (report: Sf4Report): Promise<Buffer> => {
+  const { workbook, sheet } = createReportWorkbook('SF4');
+  const lastColumn = 3 + COLUMN_GROUPS.length * 3;
+
+  sheet.getColumn(1).width = 14;
+  sheet.getColumn(2).width = 18;
+  sheet.getColumn(3).width = 22;
+  for (let column = 4; column <= lastColumn; column++) {
+    sheet.getColumn(column).width = 6;
+  }
+
+  const title = sheet.addRow([titleLine]);
+  title.font = { bold: true, size: 14 };
+  title.alignment = { horizontal: 'center' };
+  sheet.mergeCells(title.number, 1, title.number, lastColumn);
+  sheet.addRow([headerLine(report)]);
+  sheet.addRow([]);
+
+  const groups = sheet.addRow(['Grade Level', 'Section', 'Adviser', ...COLUMN_GROUPS.flatMap(group => [group.label, '', ''])]);
+  const sexes = sheet.addRow(['', '', '', ...COLUMN_GROUPS.flatMap(() => ['M', 'F', 'T'])]);
+  COLUMN_GROUPS.forEach((_, index) => {
+    const first = 4 + index * 3;
+    sheet.mergeCells(groups.number, first, groups.number, first + 2);
+  });
+  [1, 2, 3].forEach(column => sheet.mergeCells(groups.number, column, sexes.number, column));
+  groups.height = 42;
+  [groups, sexes].forEach(row => {
+    row.font = { bold: true };
+    row.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+  });
+
+  const gridRows = [groups, sexes];
+  tableRows(report).forEach(({ cells, total }) => {
+    const row = sheet.addRow(cells);
+    if (total) row.font = { bold: true };
+    for (let column = 4; column <= lastColumn; column++) {
+      row.getCell(column).alignment = { horizontal: 'center' };
+    }
+    gridRows.push(row);
+  });
+
+  gridRows.forEach(row => {
+    for (let column = 1; column <= lastColumn; column++) {
+      row.getCell(column).border = THIN_BORDER;
+    }
+  });
+
+  sheet.addRow([]);
+  sheet.addRow([signatureLine(report)]);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+export const renderSf4Pdf = (report: Sf4Report): Promise<Buffer> => {
+  const { doc, buffer } = createReportPdf();
+  const left = doc.page.margins.left;
+
+  const fixed = [50, 80, 80];
+  const figureWidth = spreadWidth(doc, fixed, COLUMN_GROUPS.length * 3);
+  const table = pdfTable(doc, [...fixed, ...COLUMN_GROUPS.flatMap(() => [figureWidth, figureWidth, figureWidth])], {
+    leftAligned: [0, 1, 2],
+    fontSize: 6
+  });
+
+  doc.font('Helvetica-Bold').fontSize(12).text(titleLine, { align: 'center' });
+  doc.moveDown(0.5);
+  doc.font('Helvetica').fontSize(8).text(headerLine(report), left);
+  doc.moveDown(0.5);
+
+  table.header([
+    ['Grade Level', 'Section', 'Adviser', ...COLUMN_GROUPS.map((group): PdfCell => ({ text: group.label, span: 3 }))],
+    ['', '', '', ...COLUMN_GROUPS.flatMap(() => ['M', 'F', 'T'])]
+  ]);
+  tableRows(report).forEach(({ cells, total }) => table.row(cells, total));
+
+  doc.moveDown(2);
+  doc.font('Helvetica').fontSize(8).text(signatureLine(report), left);
+
+  doc.end();
+  return buffer;
+};
@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { PrismaClient, Prisma, SmsDeliveryStatus } from '@prisma/client';
+import { estimateSmsCost, smsCurrency } from '../utils/smsSegments';
+
+const prisma = new PrismaClient();
+
+export interface SmsProvider {
+  name: string;
+  isConfigured: () => boolean;
+  // Returns the gateway's id for the message, which its delivery receipts refer to
+  send: (to: string, text: string) => Promise<{ providerMessageId: string | null }>;
+}
+
+// Local numbers (09171234567) get SMS_DEFAULT_COUNTRY_CODE in place of the
+// leading zero; spaces and dashes are dropped
+export const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/[^0-9]/g, '');
+  if (phone.trim().startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('0')) return `+${process.env.SMS_DEFAULT_COUNTRY_CODE || '63'}${digits.slice(1)}`;
+  return `+${digits}`;
+};
+
+// Posts { to, text, senderId } to SMS_GATEWAY_URL with SMS_GATEWAY_TOKEN as a
+// bearer token, and reads the message id from { messageId } or { id } in the reply
+const httpProvider: SmsProvider = {
+  name: 'http',
+  isConfigured: () => Boolean(process.env.SMS_GATEWAY_URL),
+  send: async (to, text) => {
+    const response = await fetch(process.env.SMS_GATEWAY_URL!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.SMS_GATEWAY_TOKEN && { Authorization: `Bearer ${process.env.SMS_GATEWAY_TOKEN}` })
+      },
+      body: JSON.stringify({ to, text, senderId: process.env.SMS_SENDER_ID || undefined })
+    });
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    try {
+      const reply = JSON.parse(body);
+      const id = reply.messageId ?? reply.id;
+      return { providerMessageId: id === undefined || id === null ? null : String(id) };
+    } catch {
+      return { providerMessageId: null };
+    }
+  }
+};
+
+// For development: nothing leaves the server. The message is printed and, with
+// the file provider, appended as a JSON line to SMS_FILE_PATH.
+const localProvider = (name: 'file' | 'console'): SmsProvider => ({
+  name,
+  isConfigured: () => true,
+  send: async (to, text) => {
+    const providerMessageId = `local-${crypto.randomUUID()}`;
+    console.log(`📱 SMS to ${to} (${providerMessageId}): ${text}`);
+
+    if (name === 'file') {
+      await fs.appendFile(
+        process.env.SMS_FILE_PATH || 'sms-outbox.log',
+        `${JSON.stringify({ id: providerMessageId, to, text, at: new Date().toISOString() })}\n`
+      );
+    }
+    return { providerMessageId };
+  }
+});
+
+const SMS_PROVIDERS: Record<string, SmsProvider> = {
+  http: httpProvider,
+  file: localProvider('file'),
+  console: localProvider('console')
+};
+
+// SMS_PROVIDER picks the provider; unset (or unknown) leaves SMS off
+export const getSmsProvider = (): SmsProvider | null => SMS_PROVIDERS[process.env.SMS_PROVIDER || ''] || null;
+
+export const isSmsConfigured = () => Boolean(getSmsProvider()?.isConfigured());
+
+export const sendSms = async (to: string, text: string) => {
+  const provider = getSmsProvider();
+  if (!provider || !provider.isConfigured()) {
+    throw new Error('No SMS provider is configured');
+  }
+  return provider.send(normalizePhone(to), text);
+};
+
+// Segments the school may send in a calendar month; 0 or unset means no limit
+export const smsMonthlyQuota = () => parseInt(process.env.SMS_MONTHLY_QUOTA || '0') || 0;
+
+const monthRange = (month: string) => {
+  const start = new Date(`${month}-01T00:00:00.000Z`);
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return { start, end };
+};
+
+// Guardian texts sent in a month (YYYY-MM, default this one): how many, their
+// segments and estimated cost, and what the gateway has reported back
+export const smsUsage = async (month = new Date().toISOString().slice(0, 7)) => {
+  const { start, end } = monthRange(month);
+  const where = { channel: 'sms' as const, status: 'sent' as const, sentAt: { gte: start, lt: end } };
+
+  const [totals, deliveries] = await Promise.all([
+    prisma.guardianNotification.aggregate({
+      where,
+      _count: { _all: true },
+      _sum: { segments: true }
+    }),
+    prisma.guardianNotification.groupBy({
+      by: ['deliveryStatus'],
+      where,
+      _count: { _all: true }
+    })
+  ]);
+
+  const segments = totals._sum.segments || 0;
+  const delivery: Record<SmsDeliveryStatus, number> = { pending: 0, delivered: 0, undelivered: 0 };
+  deliveries.forEach(row => {
+    if (row.deliveryStatus) delivery[row.deliveryStatus] = row._count._all;
+  });
+
+  return {
+    month,
+    messages: totals._count._all,
+    segments,
+    quota: smsMonthlyQuota() || null,
+    estimatedCost: estimateSmsCost(segments),
+    currency: smsCurrency(),
+    delivery
+  };
+};
+
+// Gateway statuses that mean the handset got it, or never will
+const DELIVERED = ['delivered', 'delivrd', 'success'];
+const UNDELIVERED = ['undelivered', 'undeliv', 'failed', 'expired', 'rejected', 'rejectd'];
+
+export const deliveryStatusFor = (status: string): SmsDeliveryStatus => {
+  const normalized = status.toLowerCase();
+  if (DELIVERED.includes(normalized)) return 'delivered';
+  if (UNDELIVERED.includes(normalized)) return 'undelivered';
+  return 'pending';
+};
+
+// Store a gateway's delivery receipt on the message it is for. Returns false
+// when no message has that id.
+export const recordDeliveryReceipt = async (receipt: {
+  messageId: string;
+  status: string;
+  error?: string | null;
+  raw: Prisma.InputJsonObject;
+}) => {
+  const updated = await prisma.guardianNotification.updateMany({
+    where: { channel: 'sms', providerMessageId: receipt.messageId },
+    data: {
+      deliveryStatus: deliveryStatusFor(receipt.status),
+      deliveryError: receipt.error || null,
+      deliveryUpdatedAt: new Date(),
+      deliveryReceipt: receipt.raw
+    }
+  });
+  return updated.count > 0;
+};
+
+const OPT_OUT_KEYWORDS = ['STOP', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'SUBSCRIBE', 'UNSTOP'];
+
+// Handle a text a guardian sent back. STOP (and the like) opts every guardian
+// with that number out of SMS and withdraws texts still queued to them; START
+// opts them back in. Other replies are ignored.
+export const handleInboundSms = async (from: string, text: string) => {
+  const keyword = text.trim().split(/\s+/)[0]?.toUpperCase() || '';
+  const action = OPT_OUT_KEYWORDS.includes(keyword) ? 'opt_out' : OPT_IN_KEYWORDS.includes(keyword) ? 'opt_in' : null;
+  if (!action) return { action: null, guardians: 0 };
+
+  const phone = normalizePhone(from);
+  const candidates = await prisma.guardian.findMany({
+    where: { phone: { not: null } },
+    select: { id: true, phone: true }
+  });
+  const guardianIds = candidates
+    .filter(guardian => normalizePhone(guardian.phone!) === phone)
+    .map(guardian => guardian.id);
+
+  if (guardianIds.length === 0) return { action, guardians: 0 };
+
+  await prisma.guardian.updateMany({
+    where: { id: { in: guardianIds } },
+    data: { smsOptedOutAt: action === 'opt_out' ? new Date() : null }
+  });
+
+  if (action === 'opt_out') {
+    await prisma.guardianNotification.updateMany({
+      where: { guardianId: { in: guardianIds }, channel: 'sms', status: 'queued' },
+      data: { status: 'cancelled', error: 'Guardian opted out of SMS' }
+    });
+  }
+
+  return { action, guardians: guardianIds.length };
+};
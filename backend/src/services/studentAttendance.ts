@@ -0,0 +1,157 @@
+import { PrismaClient, AttendanceStatus } from '@prisma/client';
+import { dateKey, eachDate, loadSchoolCalendar } from './schoolCalendar';
+import { attendanceWeight, isAbsence, rollupDaily, summarizeStatuses } from '../utils/attendanceStatus';
+import { schoolDateKey } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+// The term containing today, from SCHOOL_TERM_STARTS (comma-separated YYYY-MM-DD
+// start dates). Without it the summary covers every record.
+export const currentTerm = () => {
+  const today = schoolDateKey();
+  const starts = (process.env.SCHOOL_TERM_STARTS || '')
+    .split(',')
+    .map(start => start.trim())
+    .filter(start => /^\d{4}-\d{2}-\d{2}$/.test(start))
+    .sort();
+
+  const start = starts.filter(day => day <= today).pop();
+  return { start: start || null, end: today };
+};
+
+// Runs of marked days, oldest first. A present streak is full days in class
+// (present or late); an absence streak is days missed, excused or not.
+export const attendanceStreaks = (statuses: AttendanceStatus[]) => {
+  let present = 0;
+  let absent = 0;
+  let longestPresent = 0;
+
+  statuses.forEach(status => {
+    present = attendanceWeight(status) === 1 ? present + 1 : 0;
+    absent = isAbsence(status) ? absent + 1 : 0;
+    longestPresent = Math.max(longestPresent, present);
+  });
+
+  return {
+    currentPresent: present,
+    longestPresent,
+    currentAbsent: absent
+  };
+};
+
+// A month of a student's attendance, one entry per calendar day: the day's
+// status (per-period marks rolled up), any remarks, or why there was no class
+export const attendanceMonth = async (studentId: string, month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const start = new Date(Date.UTC(year, monthIndex - 1, 1));
+  const end = new Date(Date.UTC(year, monthIndex, 0));
+
+  const [student, records, calendar] = await Promise.all([
+    prisma.student.findUnique({
+      where: { id: studentId },
+      select: { section: { select: { gradeLevel: true } } }
+    }),
+    prisma.attendanceRecord.findMany({
+      where: {
+        studentId,
+        date: { gte: start, lte: end }
+      },
+      select: {
+        studentId: true,
+        date: true,
+        sessionId: true,
+        status: true,
+        reasonCode: true,
+        notes: true
+      }
+    }),
+    loadSchoolCalendar(start, end)
+  ]);
+
+  const daily = new Map(rollupDaily(records).map(record => [dateKey(record.date), record]));
+  const remarks = new Map<string, string[]>();
+  records.forEach(record => {
+    if (!record.notes) return;
+    const day = dateKey(record.date);
+    remarks.set(day, [...(remarks.get(day) || []), record.notes]);
+  });
+
+  const days = eachDate(start, end).map(date => {
+    const day = dateKey(date);
+    const record = daily.get(day);
+    const closure = calendar.closureFor(date, student?.section.gradeLevel);
+
+    return {
+      date: day,
+      schoolDay: closure === null,
+      closure: closure ? closure.reason : null,
+      status: record ? record.status : null,
+      reasonCode: record ? record.reasonCode : null,
+      remarks: [...new Set(remarks.get(day) || [])]
+    };
+  });
+
+  return {
+    month,
+    days,
+    summary: summarizeStatuses([...daily.values()].map(record => record.status))
+  };
+};
+
+// A student's totals, attendance rate and streaks for the current term
+export const termSummary = async (studentId: string) => {
+  const term = currentTerm();
+
+  const records = await prisma.attendanceRecord.findMany({
+    where: {
+      studentId,
+      date: {
+        ...(term.start && { gte: new Date(term.start) }),
+        lte: new Date(term.end)
+      }
+    },
+    select: {
+      studentId: true,
+      date: true,
+      sessionId: true,
+      status: true
+    }
+  });
+
+  const statuses = rollupDaily(records)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(record => record.status);
+
+  return {
+    term,
+    summary: summarizeStatuses(statuses),
+    streaks: attendanceStreaks(statuses)
+  };
+};
+
+// A student's latest excuse letters, pending ones first, with the adviser's comments
+export const recentExcuseLetters = async (studentId: string) => {
+  const letters = await prisma.excuseLetter.findMany({
+    where: { studentId },
+    select: {
+      id: true,
+      startDate: true,
+      endDate: true,
+      reason: true,
+      status: true,
+      reviewComment: true,
+      reviewedAt: true,
+      createdAt: true,
+      reviewer: {
+        select: { fullName: true }
+      }
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 20
+  });
+
+  return [
+    ...letters.filter(letter => letter.status === 'pending'),
+    ...letters.filter(letter => letter.status !== 'pending')
+  ];
+};
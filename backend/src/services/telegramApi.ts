@@ -0,0 +1,27 @@
+// Calls a Bot API method with TELEGRAM_BOT_TOKEN. TELEGRAM_API_URL can point at
+// a local stand-in, which only needs to answer { ok: true, result } as Telegram does.
+export const isTelegramConfigured = () => Boolean(process.env.TELEGRAM_BOT_TOKEN);
+
+export const callTelegram = async <T = unknown>(method: string, payload: Record<string, unknown>): Promise<T> => {
+  const response = await fetch(
+    `${process.env.TELEGRAM_API_URL || 'https://api.telegram.org'}/bot${process.env.TELEGRAM_BOT_TOKEN}/${method}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    }
+  );
+
+  const body = await response.text();
+  let reply: { ok?: boolean; result?: T; description?: string } = {};
+  try {
+    reply = JSON.parse(body);
+  } catch {
+    // Reported below with the raw body
+  }
+
+  if (!response.ok || !reply.ok) {
+    throw new Error(`Telegram ${method} responded with ${response.status}: ${(reply.description || body).slice(0, 200)}`);
+  }
+  return reply.result as T;
+};
@@ -0,0 +1,615 @@
+import { PrismaClient, Prisma, AttendanceStatus } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { logAuditEvent } from '../middleware/audit';
+import { createAttendance } from './attendanceSubmission';
+import { assignedSectionIds, checkAssignment } from './sectionAssignments';
+import { dateKey } from './schoolCalendar';
+import { termSummary } from './studentAttendance';
+import { callTelegram } from './telegramApi';
+import { generateSetupCode, hashSetupCode } from '../utils/setupCode';
+import { isAbsence, rollupDaily, summarizeStatuses } from '../utils/attendanceStatus';
+import { schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+type BotUser = NonNullable<AuthRequest['user']>;
+
+interface TelegramChat {
+  id: number;
+  type: string;
+}
+
+// The parts of a Bot API Update the bot reads
+export interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    message_id: number;
+    chat: TelegramChat;
+    text?: string;
+  };
+  callback_query?: {
+    id: string;
+    data?: string;
+    message?: {
+      message_id: number;
+      chat: TelegramChat;
+    };
+  };
+}
+
+interface InlineButton {
+  text: string;
+  callback_data: string;
+}
+
+type CallbackAnswer = { text: string; alert?: boolean } | undefined;
+
+type DraftMark = {
+  studentId: string;
+  name: string;
+  status: AttendanceStatus;
+};
+
+// The roles requireBeadleOrAbove lets through; parent and student accounts have no bot
+const BOT_ROLES = ['beadle', 'adviser', 'coordinator', 'admin'];
+
+export const TELEGRAM_LINK_TTL_MS = 15 * 60 * 1000;
+
+// Telegram refuses longer messages, and keyboards much past this get unwieldy
+const MAX_MESSAGE_LENGTH = 4096;
+const MAX_MARK_STUDENTS = 90;
+const MAX_SECTION_BUTTONS = 20;
+
+// A tap on a student moves their mark along this cycle
+const MARK_CYCLE: AttendanceStatus[] = ['present', 'absent', 'late', 'excused'];
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'present',
+  late: 'late',
+  half_day: 'half day',
+  excused: 'excused',
+  absent: 'absent',
+  cutting: 'cutting'
+};
+
+const STATUS_ICONS: Partial<Record<AttendanceStatus, string>> = {
+  present: '✅',
+  absent: '❌',
+  late: '⏰',
+  excused: '📝'
+};
+
+export const BOT_COMMANDS = [
+  { command: 'today', description: "Today's attendance in your sections" },
+  { command: 'absent', description: 'Who is absent today in a section' },
+  { command: 'student', description: "A student's mark today and term totals" },
+  { command: 'mark', description: "Submit today's attendance for a section" },
+  { command: 'unlink', description: 'Stop using the bot in this chat' },
+  { command: 'help', description: 'What the bot can do' }
+];
+
+const HELP = [
+  '/today - attendance so far in your sections',
+  '/absent <section> - who is absent today',
+  '/student <student number> - a student\'s mark today and term totals',
+  '/mark [section] - submit today\'s attendance',
+  '/unlink - stop using the bot in this chat'
+].join('\n');
+
+const NOT_LINKED =
+  'This chat is not linked to a POD Attendify account. Get a code from the Telegram card on your dashboard and send /link <code>.';
+
+const CLOSED_LIST: CallbackAnswer = { text: 'This list is no longer open.', alert: true };
+
+const reply = (chatId: string, text: string, keyboard?: InlineButton[][]) =>
+  callTelegram<{ message_id: number }>('sendMessage', {
+    chat_id: chatId,
+    text: text.slice(0, MAX_MESSAGE_LENGTH),
+    ...(keyboard && { reply_markup: { inline_keyboard: keyboard } })
+  });
+
+const editMessage = (chatId: string, messageId: number, text: string, keyboard?: InlineButton[][]) =>
+  callTelegram('editMessageText', {
+    chat_id: chatId,
+    message_id: messageId,
+    text: text.slice(0, MAX_MESSAGE_LENGTH),
+    ...(keyboard && { reply_markup: { inline_keyboard: keyboard } })
+  });
+
+
+// A fresh one-time code for linking a chat, replacing any earlier one
+export const createLinkCode = async (userId: string) => {
+  const { code, hash } = generateSetupCode();
+  const expiresAt = new Date(Date.now() + TELEGRAM_LINK_TTL_MS);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { telegramLinkCode: hash, telegramLinkExpiresAt: expiresAt }
+  });
+
+  return { code, expiresAt };
+};
+
+export const unlinkTelegram = async (userId: string) => {
+  await prisma.$transaction([
+    prisma.telegramMarkDraft.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { telegramChatId: null, telegramLinkCode: null, telegramLinkExpiresAt: null }
+    })
+  ]);
+};
+
+// Points Telegram at the webhook and lists the commands in the chat's menu
+export const registerWebhook = async (url: string, secret: string) => {
+  await callTelegram('setWebhook', {
+    url,
+    secret_token: secret,
+    allowed_updates: ['message', 'callback_query']
+  });
+  await callTelegram('setMyCommands', { commands: BOT_COMMANDS });
+};
+
+// The account linked to a chat, looked up on every update so a deactivated
+// account or changed role takes effect right away, as it does for API tokens
+const linkedUser = async (chatId: string): Promise<BotUser | null> => {
+  const user = await prisma.user.findUnique({
+    where: { telegramChatId: chatId },
+    select: { id: true, email: true, role: true, fullName: true, isActive: true }
+  });
+
+  if (!user || !user.isActive || !BOT_ROLES.includes(user.role)) {
+    return null;
+  }
+  return { id: user.id, email: user.email, role: user.role, fullName: user.fullName };
+};
+
+const linkChat = async (chatId: string, code: string) => {
+  if (!code) {
+    await reply(chatId, `Welcome to POD Attendify. ${NOT_LINKED}`);
+    return;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { telegramLinkCode: hashSetupCode(code) },
+    select: { id: true, fullName: true, role: true, isActive: true, telegramLinkExpiresAt: true }
+  });
+
+  if (!user || !user.telegramLinkExpiresAt || user.telegramLinkExpiresAt.getTime() < Date.now()) {
+    await reply(chatId, 'That code is invalid or has expired. Get a new one from the Telegram card on your dashboard.');
+    return;
+  }
+
+  if (!user.isActive || !BOT_ROLES.includes(user.role)) {
+    await reply(chatId, 'This account cannot use the bot.');
+    return;
+  }
+
+  // A chat belongs to one account; linking it again moves it over
+  await prisma.$transaction([
+    prisma.telegramMarkDraft.deleteMany({ where: { chatId } }),
+    prisma.user.updateMany({
+      where: { telegramChatId: chatId, id: { not: user.id } },
+      data: { telegramChatId: null }
+    }),
+    prisma.user.update({
+      where: { id: user.id },
+      data: { telegramChatId: chatId, telegramLinkCode: null, telegramLinkExpiresAt: null }
+    })
+  ]);
+
+  await logAuditEvent(user.id, 'UPDATE', 'users', user.id, undefined, { telegramLinked: true });
+  await reply(chatId, `Linked to ${user.fullName} (${user.role}).\n\n${HELP}`);
+};
+
+// The sections a command covers when none is named: a beadle's assigned sections,
+// an adviser's own sections, and every section for coordinators and admins
+const ownSections = async (user: BotUser) => {
+  const where: Prisma.SectionWhereInput =
+    user.role === 'beadle'
+      ? { id: { in: await assignedSectionIds(user.id) } }
+      : user.role === 'adviser'
+        ? { adviserId: user.id }
+        : {};
+
+  return prisma.section.findMany({
+    where,
+    select: { id: true, name: true },
+    orderBy: [{ gradeLevel: 'asc' }, { name: 'asc' }]
+  });
+};
+
+// A section named in a command, with the assignment check the REST API makes.
+// Replies with what went wrong and returns null when the user cannot use it.
+const findSection = async (chatId: string, user: BotUser, name: string) => {
+  const section = await prisma.section.findFirst({
+    where: { name: { equals: name, mode: 'insensitive' } },
+    select: { id: true, name: true }
+  });
+
+  if (!section) {
+    await reply(chatId, `There is no section named "${name}".`);
+    return null;
+  }
+
+  const assignmentError = await checkAssignment(user, section.id);
+  if (assignmentError) {
+    await reply(chatId, `${assignmentError.body.error}.`);
+    return null;
+  }
+
+  return section;
+};
+
+// A day's marks, per-period sections rolled up to one per student
+const dailyMarks = async (where: Prisma.AttendanceRecordWhereInput) =>
+  rollupDaily(
+    await prisma.attendanceRecord.findMany({
+      where,
+      select: { studentId: true, sectionId: true, date: true, sessionId: true, status: true }
+    })
+  );
+
+const today = async (chatId: string, user: BotUser) => {
+  const day = schoolToday();
+  const sections = await ownSections(user);
+  if (sections.length === 0) {
+    await reply(chatId, user.role === 'beadle' ? 'You have no sections assigned today.' : 'You have no sections.');
+    return;
+  }
+
+  const sectionIds = sections.map(section => section.id);
+  const [enrolled, marks] = await Promise.all([
+    prisma.student.groupBy({
+      by: ['sectionId'],
+      where: { sectionId: { in: sectionIds }, enrollmentStatus: 'enrolled' },
+      _count: { _all: true }
+    }),
+    dailyMarks({ sectionId: { in: sectionIds }, date: day })
+  ]);
+
+  const lines = sections.map(section => {
+    const students = enrolled.find(group => group.sectionId === section.id)?._count._all || 0;
+    const summary = summarizeStatuses(marks.filter(mark => mark.sectionId === section.id).map(mark => mark.status));
+
+    if (summary.totalRecords === 0) {
+      return `${section.name}: not marked yet (${students} students)`;
+    }
+    return `${section.name}: ${summary.totalRecords}/${students} marked, ${summary.unexcusedAbsences} absent, ${summary.lateRecords} late`;
+  });
+
+  await reply(chatId, [`Attendance for ${dateKey(day)}`, '', ...lines].join('\n'));
+};
+
+const absent = async (chatId: string, user: BotUser, argument: string) => {
+  if (!argument) {
+    await reply(chatId, 'Usage: /absent <section>');
+    return;
+  }
+
+  const section = await findSection(chatId, user, argument);
+  if (!section) return;
+
+  const marks = await dailyMarks({ sectionId: section.id, date: schoolToday() });
+  if (marks.length === 0) {
+    await reply(chatId, `${section.name} has no attendance marked today.`);
+    return;
+  }
+
+  const absences = marks.filter(mark => isAbsence(mark.status));
+  if (absences.length === 0) {
+    await reply(chatId, `Nobody in ${section.name} is absent today.`);
+    return;
+  }
+
+  const students = await prisma.student.findMany({
+    where: { id: { in: absences.map(mark => mark.studentId) } },
+    select: { id: true, firstName: true, lastName: true },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }]
+  });
+
+  const lines = students.map(student => {
+    const status = absences.find(mark => mark.studentId === student.id)!.status;
+    return `• ${student.lastName}, ${student.firstName} (${STATUS_LABELS[status]})`;
+  });
+
+  await reply(chatId, [`Absent today in ${section.name}: ${absences.length}`, ...lines].join('\n'));
+};
+
+const student = async (chatId: string, user: BotUser, argument: string) => {
+  if (!argument) {
+    await reply(chatId, 'Usage: /student <student number>');
+    return;
+  }
+
+  const found = await prisma.student.findUnique({
+    where: { studentNumber: argument },
+    select: { id: true, firstName: true, lastName: true, sectionId: true, section: { select: { name: true } } }
+  });
+
+  if (!found) {
+    await reply(chatId, `There is no student with number ${argument}.`);
+    return;
+  }
+
+  const assignmentError = await checkAssignment(user, found.sectionId);
+  if (assignmentError) {
+    await reply(chatId, `${assignmentError.body.error}.`);
+    return;
+  }
+
+  const [marks, { term, summary, streaks }] = await Promise.all([
+    dailyMarks({ studentId: found.id, date: schoolToday() }),
+    termSummary(found.id)
+  ]);
+
+  const lines = [
+    `${found.lastName}, ${found.firstName} (${found.section.name})`,
+    `Today: ${marks.length > 0 ? STATUS_LABELS[marks[0].status] : 'not marked yet'}`,
+    '',
+    term.start ? `This term, since ${term.start}:` : 'All recorded days:',
+    `Attendance rate ${summary.attendanceRate}% over ${summary.totalRecords} days`,
+    `${summary.unexcusedAbsences} unexcused absences, ${summary.excusedRecords} excused, ${summary.lateRecords} late`,
+    streaks.currentAbsent > 0
+      ? `Absent ${streaks.currentAbsent} day(s) in a row`
+      : `In class ${streaks.currentPresent} day(s) in a row`
+  ];
+
+  await reply(chatId, lines.join('\n'));
+};
+
+const draftText = (sectionName: string, date: Date, marks: DraftMark[]) => {
+  const summary = summarizeStatuses(marks.map(mark => mark.status));
+  return [
+    `${sectionName}, ${dateKey(date)}`,
+    `${summary.presentRecords} present, ${summary.absentRecords} absent, ${summary.lateRecords} late, ${summary.excusedRecords} excused`,
+    '',
+    'Tap a name to change the mark (present, absent, late, excused), then Submit.'
+  ].join('\n');
+};
+
+const draftKeyboard = (draftId: string, marks: DraftMark[]): InlineButton[][] => [
+  ...marks.map((mark, index) => [{
+    text: `${STATUS_ICONS[mark.status] || ''} ${mark.name}`.trim(),
+    callback_data: `m:${draftId}:${index}`
+  }]),
+  [
+    { text: 'Submit', callback_data: `s:${draftId}` },
+    { text: 'Cancel', callback_data: `c:${draftId}` }
+  ]
+];
+
+// Open a new list for a section, everyone present to start with. The chat's
+// earlier list, if any, is closed so its buttons stop working.
+const startDraft = async (chatId: string, user: BotUser, section: { id: string; name: string }) => {
+  const day = schoolToday();
+
+  const existing = await prisma.attendanceRecord.count({
+    where: { sectionId: section.id, sessionId: null, date: day }
+  });
+  if (existing > 0) {
+    await reply(chatId, `Attendance for ${section.name} is already marked today. Make corrections in POD Attendify.`);
+    return;
+  }
+
+  const students = await prisma.student.findMany({
+    where: { sectionId: section.id, enrollmentStatus: 'enrolled' },
+    select: { id: true, firstName: true, lastName: true },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }]
+  });
+
+  if (students.length === 0) {
+    await reply(chatId, `${section.name} has no enrolled students.`);
+    return;
+  }
+  if (students.length > MAX_MARK_STUDENTS) {
+    await reply(chatId, `${section.name} has too many students to mark here. Use POD Attendify instead.`);
+    return;
+  }
+
+  const marks: DraftMark[] = students.map(entry => ({
+    studentId: entry.id,
+    name: `${entry.lastName}, ${entry.firstName}`,
+    status: 'present'
+  }));
+
+  const previous = await prisma.telegramMarkDraft.findUnique({ where: { chatId } });
+  if (previous) {
+    await prisma.telegramMarkDraft.delete({ where: { id: previous.id } });
+    if (previous.messageId) {
+      await editMessage(chatId, previous.messageId, 'This list was replaced by a newer one.').catch(() => undefined);
+    }
+  }
+
+  const draft = await prisma.telegramMarkDraft.create({
+    data: { chatId, userId: user.id, sectionId: section.id, date: day, marks }
+  });
+
+  const sent = await reply(chatId, draftText(section.name, day, marks), draftKeyboard(draft.id, marks));
+  await prisma.telegramMarkDraft.update({
+    where: { id: draft.id },
+    data: { messageId: sent.message_id }
+  });
+};
+
+const mark = async (chatId: string, user: BotUser, argument: string) => {
+  if (argument) {
+    const section = await findSection(chatId, user, argument);
+    if (section) await startDraft(chatId, user, section);
+    return;
+  }
+
+  const sections = await ownSections(user);
+  if (sections.length === 1) {
+    await startDraft(chatId, user, sections[0]);
+  } else if (sections.length === 0) {
+    await reply(chatId, user.role === 'beadle' ? 'You have no sections assigned today.' : 'Usage: /mark <section>');
+  } else if (sections.length > MAX_SECTION_BUTTONS) {
+    await reply(chatId, 'Usage: /mark <section>');
+  } else {
+    await reply(chatId, 'Which section?', sections.map(section => [{ text: section.name, callback_data: `p:${section.id}` }]));
+  }
+};
+
+const unlink = async (chatId: string, user: BotUser) => {
+  await unlinkTelegram(user.id);
+  await reply(chatId, 'This chat is no longer linked. Send /link <code> to link it again.');
+};
+
+const COMMANDS: Record<string, (chatId: string, user: BotUser, argument: string) => Promise<void>> = {
+  today,
+  absent,
+  student,
+  mark,
+  unlink
+};
+
+const pickSection = async (chatId: string, user: BotUser, sectionId: string): Promise<CallbackAnswer> => {
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    select: { id: true, name: true }
+  });
+  if (!section) return { text: 'That section no longer exists.', alert: true };
+
+  const assignmentError = await checkAssignment(user, section.id);
+  if (assignmentError) return { text: assignmentError.body.error, alert: true };
+
+  await startDraft(chatId, user, section);
+  return undefined;
+};
+
+// A tap on a /mark list: change a student's mark, submit the list or drop it
+const updateDraft = async (
+  chatId: string,
+  user: BotUser,
+  messageId: number,
+  action: string,
+  draftId: string,
+  index: number
+): Promise<CallbackAnswer> => {
+  const draft = await prisma.telegramMarkDraft.findUnique({
+    where: { id: draftId },
+    include: { section: { select: { name: true } } }
+  });
+  if (!draft || draft.chatId !== chatId || draft.userId !== user.id) return CLOSED_LIST;
+
+  const marks = draft.marks as unknown as DraftMark[];
+
+  if (action === 'm') {
+    const entry = marks[index];
+    if (!entry) return undefined;
+
+    entry.status = MARK_CYCLE[(MARK_CYCLE.indexOf(entry.status) + 1) % MARK_CYCLE.length];
+    await prisma.telegramMarkDraft.update({ where: { id: draft.id }, data: { marks } });
+    await editMessage(chatId, messageId, draftText(draft.section.name, draft.date, marks), draftKeyboard(draft.id, marks));
+    return undefined;
+  }
+
+  if (action === 'c') {
+    await prisma.telegramMarkDraft.delete({ where: { id: draft.id } });
+    await editMessage(chatId, messageId, `${draft.section.name}, ${dateKey(draft.date)}: cancelled, nothing was submitted.`);
+    return { text: 'Cancelled' };
+  }
+
+  if (action !== 's') return undefined;
+
+  // Submitted exactly as POST /api/attendance/mark would submit it
+  const records = marks.map(entry => ({ studentId: entry.studentId, status: entry.status }));
+  const result = await createAttendance(user, { sectionId: draft.sectionId, date: draft.date, records });
+
+  if (result.error) {
+    if (result.error.body.code === 'ATTENDANCE_EXISTS') {
+      await prisma.telegramMarkDraft.delete({ where: { id: draft.id } });
+      await editMessage(chatId, messageId, `${draft.section.name}, ${dateKey(draft.date)}: already marked by someone else.`);
+    }
+    return { text: result.error.body.error, alert: true };
+  }
+
+  await prisma.telegramMarkDraft.delete({ where: { id: draft.id } });
+  await logAuditEvent(user.id, 'CREATE', 'attendance_records', undefined, undefined, {
+    sectionId: draft.sectionId,
+    date: dateKey(draft.date),
+    records,
+    channel: 'telegram'
+  });
+
+  const absentees = marks.filter(entry => entry.status !== 'present');
+  await editMessage(chatId, messageId, [
+    `${draft.section.name}, ${dateKey(draft.date)}: submitted ${result.recordsCreated} marks.`,
+    ...absentees.map(entry => `• ${entry.name} (${STATUS_LABELS[entry.status]})`)
+  ].join('\n'));
+
+  return { text: 'Attendance submitted' };
+};
+
+const handleCallback = async (query: NonNullable<TelegramUpdate['callback_query']>) => {
+  let answer: CallbackAnswer;
+
+  try {
+    const chatId = query.message ? String(query.message.chat.id) : null;
+    const user = chatId ? await linkedUser(chatId) : null;
+    const [action, id, index] = (query.data || '').split(':');
+
+    if (!chatId || !user) {
+      answer = { text: NOT_LINKED, alert: true };
+    } else if (action === 'p') {
+      answer = await pickSection(chatId, user, id);
+    } else {
+      answer = await updateDraft(chatId, user, query.message!.message_id, action, id, Number(index));
+    }
+  } finally {
+    // Telegram keeps the button spinning until the query is answered
+    await callTelegram('answerCallbackQuery', {
+      callback_query_id: query.id,
+      ...(answer && { text: answer.text, show_alert: Boolean(answer.alert) })
+    });
+  }
+};
+
+// Handle one update from the webhook. Commands run as the linked account, with
+// the same role and section checks as the REST API.
+export const handleTelegramUpdate = async (update: TelegramUpdate) => {
+  if (update.callback_query) {
+    await handleCallback(update.callback_query);
+    return;
+  }
+
+  const message = update.message;
+  if (!message || !message.text) return;
+
+  const chatId = String(message.chat.id);
+  const match = message.text.trim().match(/^\/(\w+)(?:@\w+)?(?:\s+([\s\S]*))?$/);
+
+  // Group chats are shared, so the bot only takes commands one to one
+  if (message.chat.type !== 'private') {
+    if (match) await reply(chatId, 'Message me directly; I only take commands in a private chat.');
+    return;
+  }
+
+  if (!match) {
+    await reply(chatId, HELP);
+    return;
+  }
+
+  const command = match[1].toLowerCase();
+  const argument = (match[2] || '').trim();
+
+  if (command === 'start' || command === 'link') {
+    await linkChat(chatId, argument);
+    return;
+  }
+
+  if (command === 'help') {
+    await reply(chatId, HELP);
+    return;
+  }
+
+  const user = await linkedUser(chatId);
+  if (!user) {
+    await reply(chatId, NOT_LINKED);
+    return;
+  }
+
+  const handler = COMMANDS[command];
+  await (handler ? handler(chatId, user, argument) : reply(chatId, HELP));
+};
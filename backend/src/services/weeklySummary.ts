@@ -0,0 +1,84 @@
+import { PrismaClient } from '@prisma/client';
+import { dateKey, loadSchoolCalendar } from './schoolCalendar';
+import { queueEmail } from './emailOutbox';
+import { isUnexcusedAbsence, rollupDaily, summarizeStatuses } from '../utils/attendanceStatus';
+import { schoolToday } from '../utils/schoolTime';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Students listed by name in the summary
+const TOP_ABSENTEES = 10;
+
+// Monday of the week before the one containing `now`
+export const previousWeekStart = (now = new Date()) => {
+  const today = schoolToday(now);
+  const sinceMonday = (today.getUTCDay() + 6) % 7;
+  return dateKey(new Date(today.getTime() - (sinceMonday + 7) * DAY_MS));
+};
+
+// Queue the week's attendance summary to the adviser of every section that has
+// one. Each section and week is emailed once however often this runs. Returns how
+// many emails were queued.
+export const queueWeeklySummaries = async (weekStart = previousWeekStart()) => {
+  const start = new Date(weekStart);
+  const end = new Date(start.getTime() + 6 * DAY_MS);
+
+  const [sections, records, calendar] = await Promise.all([
+    prisma.section.findMany({
+      where: { adviser: { isActive: true } },
+      select: {
+        id: true,
+        name: true,
+        gradeLevel: true,
+        adviser: { select: { fullName: true, email: true } },
+        students: {
+          where: { enrollmentStatus: 'enrolled' },
+          select: { id: true, firstName: true, lastName: true }
+        }
+      }
+    }),
+    prisma.attendanceRecord.findMany({
+      where: { date: { gte: start, lte: end } },
+      select: { studentId: true, sectionId: true, date: true, sessionId: true, status: true }
+    }),
+    loadSchoolCalendar(start, end)
+  ]);
+
+  const daily = rollupDaily(records);
+  let queued = 0;
+
+  for (const section of sections) {
+    if (!section.adviser) continue;
+
+    const sectionDays = daily.filter(record => record.sectionId === section.id);
+    const absences = new Map<string, number>();
+    sectionDays
+      .filter(record => isUnexcusedAbsence(record.status))
+      .forEach(record => absences.set(record.studentId, (absences.get(record.studentId) || 0) + 1));
+
+    const absentees = section.students
+      .filter(student => absences.has(student.id))
+      .map(student => ({ name: `${student.lastName}, ${student.firstName}`, absences: absences.get(student.id)! }))
+      .sort((a, b) => b.absences - a.absences || a.name.localeCompare(b.name))
+      .slice(0, TOP_ABSENTEES);
+
+    const email = await queueEmail(
+      section.adviser.email,
+      'weekly_summary',
+      {
+        adviserName: section.adviser.fullName,
+        sectionName: section.name,
+        weekStart,
+        weekEnd: dateKey(end),
+        schoolDays: calendar.schoolDays(start, end, section.gradeLevel).length,
+        summary: summarizeStatuses(sectionDays.map(record => record.status)),
+        absentees
+      },
+      { dedupeKey: `weekly_summary:${section.id}:${weekStart}` }
+    );
+    if (email) queued++;
+  }
+
+  return { weekStart, queued };
+};
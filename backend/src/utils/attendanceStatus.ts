@@ -0,0 +1,160 @@
+import { AttendanceStatus } from '@prisma/client';
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = [
+  'present',
+  'late',
+  'half_day',
+  'excused',
+  'absent',
+  'cutting'
+];
+
+// Reason codes a beadle or adviser can attach to a non-present mark
+export const REASON_CODES = [
+  'sick',
+  'family_emergency',
+  'school_activity',
+  'transportation',
+  'weather',
+  'other'
+];
+
+export interface StatusSummary {
+  totalRecords: number;
+  presentRecords: number;
+  lateRecords: number;
+  halfDayRecords: number;
+  excusedRecords: number;
+  absentRecords: number;
+  cuttingRecords: number;
+  unexcusedAbsences: number;
+  attendanceRate: number;
+}
+
+// Late students were in class, half-day students only count for half a day.
+// Cutting is treated as an unexcused absence for the period the student skipped.
+const ATTENDANCE_WEIGHT: Record<AttendanceStatus, number> = {
+  present: 1,
+  late: 1,
+  half_day: 0.5,
+  excused: 0,
+  absent: 0,
+  cutting: 0
+};
+
+export const attendanceWeight = (status: AttendanceStatus) => ATTENDANCE_WEIGHT[status] ?? 0;
+
+export const isAbsence = (status: AttendanceStatus) =>
+  status === 'absent' || status === 'excused' || status === 'cutting';
+
+export const isUnexcusedAbsence = (status: AttendanceStatus) =>
+  status === 'absent' || status === 'cutting';
+
+export const roundRate = (rate: number) => Math.round(rate * 100) / 100;
+
+export const summarizeCounts = (
+  counts: Partial<Record<AttendanceStatus, number>>
+): StatusSummary => {
+  const count = (status: AttendanceStatus) => counts[status] || 0;
+  const totalRecords = ATTENDANCE_STATUSES.reduce((sum, status) => sum + count(status), 0);
+  const attended = ATTENDANCE_STATUSES.reduce(
+    (sum, status) => sum + count(status) * attendanceWeight(status),
+    0
+  );
+
+  return {
+    totalRecords,
+    presentRecords: count('present'),
+    lateRecords: count('late'),
+    halfDayRecords: count('half_day'),
+    excusedRecords: count('excused'),
+    absentRecords: count('absent'),
+    cuttingRecords: count('cutting'),
+    unexcusedAbsences: count('absent') + count('cutting'),
+    attendanceRate: totalRecords > 0 ? roundRate((attended / totalRecords) * 100) : 0
+  };
+};
+
+export const summarizeStatuses = (statuses: AttendanceStatus[]): StatusSummary => {
+  const counts: Partial<Record<AttendanceStatus, number>> = {};
+  statuses.forEach(status => {
+    counts[status] = (counts[status] || 0) + 1;
+  });
+  return summarizeCounts(counts);
+};
+
+// Same summary, built from a Prisma groupBy over the status column
+export const summarizeStatusGroups = (
+  groups: Array<{ status: AttendanceStatus; _count: { _all: number } }>
+): StatusSummary => {
+  const counts: Partial<Record<AttendanceStatus, number>> = {};
+  groups.forEach(({ status, _count }) => {
+    counts[status] = _count._all;
+  });
+  return summarizeCounts(counts);
+};
+
+// Group records by key and summarize each group's statuses, keeping first-seen order
+export const groupStatuses = <T extends { status: AttendanceStatus }>(
+  records: T[],
+  keyOf: (record: T) => string
+) => {
+  const groups = new Map<string, T[]>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(record);
+  });
+
+  return Array.from(groups.entries()).map(([key, groupRecords]) => ({
+    key,
+    records: groupRecords,
+    summary: summarizeStatuses(groupRecords.map(r => r.status))
+  }));
+};
+
+export const weekKey = (date: Date) => {
+  const weekStart = new Date(date);
+  weekStart.setDate(date.getDate() - date.getDay());
+  return weekStart.toISOString().split('T')[0];
+};
+
+// Collapse one student's period marks for a day into a single whole-day status.
+// All periods attended -> present (late if any late), none attended -> excused only
+// when every period was excused, otherwise absent. A partly attended day is
+// cutting when any period was skipped, otherwise half_day.
+export const rollupDailyStatus = (statuses: AttendanceStatus[]): AttendanceStatus => {
+  if (statuses.length === 1) return statuses[0];
+
+  const attended = statuses.filter(status => attendanceWeight(status) > 0);
+
+  if (attended.length === 0) {
+    return statuses.every(status => status === 'excused') ? 'excused' : 'absent';
+  }
+
+  if (attended.length === statuses.length && attended.every(status => status !== 'half_day')) {
+    return attended.some(status => status === 'late') ? 'late' : 'present';
+  }
+
+  return statuses.includes('cutting') ? 'cutting' : 'half_day';
+};
+
+// Reduce per-period records to one record per student per day so daily rollups
+// keep working for sections that take attendance by subject period. A whole-day
+// record (no session) always wins over period records for the same day.
+export const rollupDaily = <T extends { studentId: string; date: Date; status: AttendanceStatus; sessionId?: string | null }>(
+  records: T[]
+): T[] => {
+  const days = new Map<string, T[]>();
+  records.forEach(record => {
+    const key = `${record.studentId}:${record.date.toISOString().split('T')[0]}`;
+    if (!days.has(key)) days.set(key, []);
+    days.get(key)!.push(record);
+  });
+
+  return Array.from(days.values()).map(dayRecords => {
+    const wholeDay = dayRecords.find(record => !record.sessionId);
+    if (wholeDay) return wholeDay;
+    return { ...dayRecords[0], sessionId: null, status: rollupDailyStatus(dayRecords.map(r => r.status)) };
+  });
+};
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+// Tokens rotate every 30 seconds. The previous window is still accepted so a code
+// scanned just before it changes doesn't fail on a slow phone.
+export const TOKEN_WINDOW_MS = 30 * 1000;
+
+export type TokenCheck = 'valid' | 'invalid' | 'expired';
+
+export const currentWindow = (now = Date.now()) => Math.floor(now / TOKEN_WINDOW_MS);
+
+export const windowEndsAt = (window: number) => new Date((window + 1) * TOKEN_WINDOW_MS);
+
+export const generateSessionSecret = () => crypto.randomBytes(32).toString('hex');
+
+const sign = (secret: string, sessionId: string, window: number) =>
+  crypto.createHmac('sha256', secret).update(`${sessionId}.${window}`).digest('base64url');
+
+export const createCheckInToken = (sessionId: string, secret: string, window = currentWindow()) =>
+  `${sessionId}.${window}.${sign(secret, sessionId, window)}`;
+
+// Split a token into its parts without trusting it; verify before use
+export const parseCheckInToken = (token: string) => {
+  const [sessionId, window, signature, ...rest] = token.split('.');
+  if (!sessionId || !window || !signature || rest.length > 0 || !/^\d+$/.test(window)) {
+    return null;
+  }
+  return { sessionId, window: Number(window), signature };
+};
+
+export const verifyCheckInToken = (
+  token: { sessionId: string; window: number; signature: string },
+  secret: string,
+  now = Date.now()
+): TokenCheck => {
+  const expected = Buffer.from(sign(secret, token.sessionId, token.window));
+  const actual = Buffer.from(token.signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return 'invalid';
+  }
+
+  const window = currentWindow(now);
+  if (token.window > window) return 'invalid';
+  if (token.window < window - 1) return 'expired';
+  return 'valid';
+};
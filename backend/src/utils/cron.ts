@@ -0,0 +1,116 @@
+// Five-field cron expressions: minute, hour, day of month, month, day of week.
+// Each field takes *, numbers, ranges (1-5), steps (*/15, 8-18/2) and comma lists;
+// Sunday is 0 or 7. As in cron, when both day fields are restricted a day matching
+// either one counts.
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const MINUTE_MS = 60 * 1000;
+// How far ahead nextCronTime looks before giving up (e.g. on 0 0 31 2 *)
+const SEARCH_LIMIT_MS = 366 * 24 * 60 * MINUTE_MS;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const parseField = (text: string, field: typeof FIELDS[number]) => {
+  const values = new Set<number>();
+
+  text.split(',').forEach(part => {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    const start = match[1] === '*' ? field.min : Number(match[2]);
+    const end = match[1] === '*' ? field.max : match[3] !== undefined ? Number(match[3]) : match[4] ? field.max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return values;
+};
+
+// Throws with the offending field when the expression is not valid
+export const parseCron = (expression: string): CronSchedule => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error('A cron expression has five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*'
+  };
+};
+
+export const isValidCron = (expression: string) => {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Compares the UTC fields of `time`, so callers pass a time already shifted
+// into the zone the schedule is written for
+const dayMatches = (schedule: CronSchedule, time: Date) => {
+  const dayOfMonth = schedule.daysOfMonth.has(time.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(time.getUTCDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+};
+
+export const cronMatches = (schedule: CronSchedule, time: Date) =>
+  schedule.minutes.has(time.getUTCMinutes()) &&
+  schedule.hours.has(time.getUTCHours()) &&
+  schedule.months.has(time.getUTCMonth() + 1) &&
+  dayMatches(schedule, time);
+
+// The first matching minute after `after` (same zone rule as cronMatches), or
+// null when there is none within a year
+export const nextCronTime = (schedule: CronSchedule, after: Date) => {
+  let time = new Date(after.getTime() - (after.getTime() % MINUTE_MS) + MINUTE_MS);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1) || !dayMatches(schedule, time)) {
+      time = new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate() + 1));
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time = new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate(), time.getUTCHours() + 1));
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time = new Date(time.getTime() + MINUTE_MS);
+    } else {
+      return time;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,18 @@
+import Redis from 'ioredis';
+
+// A Redis connection that logs each distinct failure once under `label`. ioredis
+// keeps reconnecting on its own, so an outage would otherwise log every retry.
+export const connectRedis = (url: string, label: string) => {
+  const redis = new Redis(url, { maxRetriesPerRequest: 3 });
+
+  let lastError = '';
+  redis.on('error', error => {
+    if (error.message !== lastError) console.error(`${label} Redis error:`, error.message);
+    lastError = error.message;
+  });
+  redis.on('ready', () => {
+    lastError = '';
+  });
+
+  return redis;
+};
@@ -0,0 +1,39 @@
+// The school's clock. SCHOOL_UTC_OFFSET (e.g. +08:00) is the school's offset from
+// UTC; calendar dates are stored as UTC midnight of the school's local date.
+
+const MINUTE_MS = 60 * 1000;
+
+// SCHOOL_UTC_OFFSET in minutes; unset or Z is UTC
+export const utcOffsetMinutes = () => {
+  const offset = process.env.SCHOOL_UTC_OFFSET || 'Z';
+  if (offset === 'Z') return 0;
+
+  const match = offset.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid school UTC offset "${offset}"`);
+  }
+  return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+};
+
+// `time` shifted by the offset, so its UTC fields read as the school's wall clock
+export const toSchoolTime = (time: Date) => new Date(time.getTime() + utcOffsetMinutes() * MINUTE_MS);
+export const fromSchoolTime = (time: Date) => new Date(time.getTime() - utcOffsetMinutes() * MINUTE_MS);
+
+// The school's calendar date at `now`, as YYYY-MM-DD
+export const schoolDateKey = (now = new Date()) => toSchoolTime(now).toISOString().split('T')[0];
+
+// The school's date at `now` as UTC midnight, the way dates are stored
+export const schoolToday = (now = new Date()) => new Date(schoolDateKey(now));
+
+// Minutes since the school's local midnight at `now`
+export const schoolMinuteOfDay = (now = new Date()) => {
+  const local = toSchoolTime(now);
+  return local.getUTCHours() * 60 + local.getUTCMinutes();
+};
+
+// The moment a school day (YYYY-MM-DD) reaches a local time (HH:mm); an
+// invalid date or time gives an invalid Date
+export const schoolTimeOn = (day: string, time: string) => {
+  if (!/^\d{2}:\d{2}$/.test(time)) return new Date(NaN);
+  return fromSchoolTime(new Date(`${day}T${time}:00Z`));
+};
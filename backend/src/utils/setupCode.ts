@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+
+// Provisioned student accounts get a one-time code to set their first password
+// with. Codes are random enough that a plain hash is safe to store.
+export const SETUP_CODE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Eight characters without look-alikes (0/O, 1/I/L) so it can be read off a slip
+const ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const hashSetupCode = (code: string) =>
+  crypto.createHash('sha256').update(code.trim().toUpperCase()).digest('hex');
+
+export const generateSetupCode = () => {
+  const code = Array.from(crypto.randomBytes(8), byte => ALPHABET[byte % ALPHABET.length]).join('');
+  return {
+    code,
+    hash: hashSetupCode(code),
+    expiresAt: new Date(Date.now() + SETUP_CODE_TTL_MS)
+  };
+};
+
+export const verifySetupCode = (code: string, hash: string) => {
+  const expected = Buffer.from(hash);
+  const actual = Buffer.from(hashSetupCode(code));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
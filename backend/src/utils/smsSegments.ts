@@ -0,0 +1,57 @@
+// Texts in the GSM 03.38 alphabet go out 7 bits a character; anything else
+// (emoji, curly quotes, most non-Latin scripts) switches the whole message to
+// UCS-2. Long messages are split into parts that each carry a header, so they
+// hold a little less than a single message.
+const GSM_BASIC = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+// Sent as an escape plus the character, so they take two places
+const GSM_EXTENDED = new Set('^{}\\[~]|€\f');
+
+const LIMITS = {
+  'GSM-7': { single: 160, part: 153 },
+  'UCS-2': { single: 70, part: 67 }
+};
+
+export type SmsEncoding = keyof typeof LIMITS;
+
+export interface SmsSegments {
+  encoding: SmsEncoding;
+  // In the encoding's units: extended GSM characters and UCS-2 surrogate pairs count twice
+  length: number;
+  segments: number;
+}
+
+export const segmentSms = (text: string): SmsSegments => {
+  let length = 0;
+  let encoding: SmsEncoding = 'GSM-7';
+
+  for (const character of text) {
+    if (GSM_BASIC.has(character)) {
+      length += 1;
+    } else if (GSM_EXTENDED.has(character)) {
+      length += 2;
+    } else {
+      encoding = 'UCS-2';
+      break;
+    }
+  }
+
+  if (encoding === 'UCS-2') {
+    length = text.length;
+  }
+
+  const limits = LIMITS[encoding];
+  const segments = length === 0 ? 0 : length <= limits.single ? 1 : Math.ceil(length / limits.part);
+
+  return { encoding, length, segments };
+};
+
+// SMS_COST_PER_SEGMENT is what the gateway charges per part, in SMS_CURRENCY
+export const smsCostPerSegment = () => parseFloat(process.env.SMS_COST_PER_SEGMENT || '0') || 0;
+
+export const smsCurrency = () => process.env.SMS_CURRENCY || 'PHP';
+
+export const estimateSmsCost = (segments: number) =>
+  Math.round(segments * smsCostPerSegment() * 10000) / 10000;
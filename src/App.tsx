@@ -10,7 +10,19 @@ import Attendance from "./pages/Attendance";
 import Analytics from "./pages/Analytics";
 import CSVUpload from "./pages/CSVUpload";
 import FileStorage from "./pages/FileStorage";
+import SchoolForm4 from "./pages/SchoolForm4";
+import AlertRules from "./pages/AlertRules";
+import GuardianMessages from "./pages/GuardianMessages";
+import EmailOutbox from "./pages/EmailOutbox";
+import ScheduledJobs from "./pages/ScheduledJobs";
+import BackgroundJobs from "./pages/BackgroundJobs";
+import AuditLog from "./pages/AuditLog";
+import ParentPortal from "./pages/ParentPortal";
+import StudentPortal from "./pages/StudentPortal";
+import ResetPassword from "./pages/ResetPassword";
 import AdviserDashboard from "./pages/AdviserDashboard";
+import CheckIn from "./pages/CheckIn";
+import CheckInDisplay from "./pages/CheckInDisplay";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -25,11 +37,23 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/attendance" element={<Attendance />} />
+          <Route path="/attendance/:sectionId?/:date?" element={<Attendance />} />
           <Route path="/analytics" element={<Analytics />} />
           <Route path="/csv-upload" element={<CSVUpload />} />
           <Route path="/file-storage" element={<FileStorage />} />
-          <Route path="/adviser-dashboard" element={<AdviserDashboard />} />
+          <Route path="/sf4" element={<SchoolForm4 />} />
+          <Route path="/alert-rules" element={<AlertRules />} />
+          <Route path="/guardian-messages" element={<GuardianMessages />} />
+          <Route path="/email-outbox" element={<EmailOutbox />} />
+          <Route path="/scheduled-jobs" element={<ScheduledJobs />} />
+          <Route path="/background-jobs" element={<BackgroundJobs />} />
+          <Route path="/audit-log" element={<AuditLog />} />
+          <Route path="/parent" element={<ParentPortal />} />
+          <Route path="/student" element={<StudentPortal />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/adviser-dashboard/:sectionId?" element={<AdviserDashboard />} />
+          <Route path="/check-in" element={<CheckIn />} />
+          <Route path="/check-in/display/:sectionId" element={<CheckInDisplay />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
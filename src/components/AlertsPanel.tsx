@@ -1,22 +1,63 @@
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle, FileWarning, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveRefresh } from "@/hooks/use-realtime-events";
+import { AlertCircle, CalendarX, Check, CheckCheck, FileWarning, TrendingDown, Users } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-interface Alert {
-  id: string;
-  type: 'missing_report' | 'incomplete_data' | 'absent_students';
-  title: string;
-  description: string;
-  count: number;
-  severity: 'low' | 'medium' | 'high';
-}
+import { apiClient, type Alert, type AlertRuleType } from "@/lib/api";
 
 interface AlertsPanelProps {
-  alerts: Alert[];
+  // Without a section the panel lists every alert the user can see
+  sectionId?: string;
 }
 
-export function AlertsPanel({ alerts }: AlertsPanelProps) {
+export function AlertsPanel({ sectionId }: AlertsPanelProps) {
+  const { toast } = useToast();
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const { alerts } = await apiClient.getAlerts({ sectionId, status: 'active' });
+      setAlerts(alerts);
+    } catch (error) {
+      console.error("Error fetching alerts:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  useLiveRefresh(fetchAlerts, event => event.type === "alert.raised" && (!sectionId || event.sectionId === sectionId));
+
+  const handleAction = async (alert: Alert, action: 'acknowledge' | 'resolve') => {
+    setWorkingId(alert.id);
+    try {
+      if (action === 'acknowledge') {
+        const { alert: updated } = await apiClient.acknowledgeAlert(alert.id);
+        setAlerts(prev => prev.map(a => a.id === updated.id ? updated : a));
+      } else {
+        await apiClient.resolveAlert(alert.id);
+        setAlerts(prev => prev.filter(a => a.id !== alert.id));
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update alert",
+        variant: "destructive",
+      });
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'high':
@@ -30,36 +71,42 @@ export function AlertsPanel({ alerts }: AlertsPanelProps) {
     }
   };
 
-  const getIcon = (type: string) => {
+  const getIcon = (type: AlertRuleType) => {
     switch (type) {
-      case 'missing_report':
+      case 'missing_submission':
         return <FileWarning className="h-5 w-5" />;
-      case 'incomplete_data':
-        return <AlertCircle className="h-5 w-5" />;
-      case 'absent_students':
+      case 'consecutive_absences':
         return <Users className="h-5 w-5" />;
+      case 'low_attendance_rate':
+        return <TrendingDown className="h-5 w-5" />;
+      case 'weekday_absences':
+        return <CalendarX className="h-5 w-5" />;
       default:
         return <AlertCircle className="h-5 w-5" />;
     }
   };
 
+  const openCount = alerts.filter(alert => alert.status === 'open').length;
+
   return (
     <Card className="lg:sticky lg:top-20">
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">Alerts</CardTitle>
-          {alerts.length > 0 && (
+          {openCount > 0 && (
             <Badge variant="destructive" className="animate-pulse">
-              {alerts.reduce((sum, alert) => sum + alert.count, 0)}
+              {openCount}
             </Badge>
           )}
         </div>
         <CardDescription>
-          Important notifications and missing reports
+          Raised by the school's alert rules
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-3">
-        {alerts.length === 0 ? (
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : alerts.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <AlertCircle className="h-12 w-12 mx-auto mb-2 opacity-50" />
             <p className="text-sm">No alerts at this time</p>
@@ -69,7 +116,8 @@ export function AlertsPanel({ alerts }: AlertsPanelProps) {
             <div
               key={alert.id}
               className={cn(
-                "p-3 rounded-lg border transition-all hover:shadow-md cursor-pointer",
+                "p-3 rounded-lg border transition-all hover:shadow-md",
+                alert.status === 'acknowledged' && "opacity-75",
                 alert.severity === 'high' && "border-red-500/50 bg-red-500/5",
                 alert.severity === 'medium' && "border-yellow-500/50 bg-yellow-500/5",
                 alert.severity === 'low' && "border-blue-500/50 bg-blue-500/5"
@@ -82,23 +130,47 @@ export function AlertsPanel({ alerts }: AlertsPanelProps) {
                   alert.severity === 'medium' && "bg-yellow-500/10 text-yellow-500",
                   alert.severity === 'low' && "bg-blue-500/10 text-blue-500"
                 )}>
-                  {getIcon(alert.type)}
+                  {getIcon(alert.rule.type)}
                 </div>
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between gap-2">
                     <p className="text-sm font-semibold">{alert.title}</p>
-                    <Badge
-                      className={cn(
-                        "animate-bounce",
-                        getSeverityColor(alert.severity)
-                      )}
-                    >
+                    <Badge className={getSeverityColor(alert.severity)}>
                       {alert.count}
                     </Badge>
                   </div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    {alert.description}
+                    {alert.message}
                   </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {alert.rule.name}
+                    {!sectionId && ` · ${alert.section.name}`}
+                    {alert.acknowledger && ` · acknowledged by ${alert.acknowledger.fullName}`}
+                  </p>
+                  <div className="flex gap-2 mt-2">
+                    {alert.status === 'open' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 px-2 text-xs"
+                        disabled={workingId === alert.id}
+                        onClick={() => handleAction(alert, 'acknowledge')}
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        Acknowledge
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 px-2 text-xs"
+                      disabled={workingId === alert.id}
+                      onClick={() => handleAction(alert, 'resolve')}
+                    >
+                      <CheckCheck className="h-3 w-3 mr-1" />
+                      Resolve
+                    </Button>
+                  </div>
                 </div>
               </div>
             </div>
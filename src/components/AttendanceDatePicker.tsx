@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarDays } from "lucide-react";
+import type { AttendanceDatePolicy } from "@/lib/api";
+
+interface AttendanceDatePickerProps {
+  // yyyy-MM-dd
+  value: string;
+  // Without a policy (e.g. offline) only future dates are ruled out
+  policy: AttendanceDatePolicy | null;
+  onChange: (date: string) => void;
+}
+
+export function AttendanceDatePicker({ value, policy, onChange }: AttendanceDatePickerProps) {
+  const [open, setOpen] = useState(false);
+  const today = policy?.today ?? format(new Date(), "yyyy-MM-dd");
+  const nonSchoolDays = new Set(policy?.nonSchoolDays.map(day => day.date));
+  const hasLeave = (key: string) =>
+    key > today && (policy?.leaves.some(leave => leave.startDate <= key && key <= leave.endDate) ?? false);
+
+  // The same rules /attendance/mark enforces: school days only, no further back
+  // than the role allows, and future days only while someone is on approved leave
+  const isDisabled = (day: Date) => {
+    const key = format(day, "yyyy-MM-dd");
+    if (!policy) return key > today;
+    if (key < policy.earliestDate || nonSchoolDays.has(key)) return true;
+    return key > today && !hasLeave(key);
+  };
+
+  const handleSelect = (day: Date | undefined) => {
+    if (!day) return;
+    onChange(format(day, "yyyy-MM-dd"));
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <CalendarDays className="h-4 w-4" />
+          {value === today ? "Today" : format(parseISO(value), "EEE, MMM d")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={parseISO(value)}
+          defaultMonth={parseISO(value)}
+          onSelect={handleSelect}
+          disabled={isDisabled}
+          modifiers={{ leave: day => hasLeave(format(day, "yyyy-MM-dd")) }}
+          modifiersClassNames={{ leave: "underline decoration-dotted" }}
+          initialFocus
+        />
+        {policy && (
+          <p className="px-3 pb-3 text-xs text-muted-foreground max-w-[280px]">
+            Up to {policy.maxDaysBack} school day{policy.maxDaysBack === 1 ? "" : "s"} back.
+            Underlined days ahead have students on approved leave.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,203 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ATTENDANCE_STATUSES, getStatusLabel } from "@/lib/attendanceStatus";
+import type { AttendanceStreaks, AttendanceSummary, ParentAttendanceDay, ParentExcuseLetter } from "@/lib/api";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const LETTER_VARIANTS = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+} as const;
+
+const shiftMonth = (month: string, by: number) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + by, 1)).toISOString().slice(0, 7);
+};
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString(undefined, { timeZone: "UTC" });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+
+const statusColor = (status: string | null) => ATTENDANCE_STATUSES.find(s => s.value === status)?.color;
+
+interface AttendanceMonthCardProps {
+  month: string;
+  days: ParentAttendanceDay[];
+  summary: AttendanceSummary | null;
+  onMonthChange: (month: string) => void;
+}
+
+// One month of a student's attendance as a calendar, colored by status
+export function AttendanceMonthCard({ month, days, summary, onMonthChange }: AttendanceMonthCardProps) {
+  const leadingBlanks = days.length > 0 ? new Date(days[0].date).getUTCDay() : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{formatMonth(month)}</CardTitle>
+          <div className="flex gap-1">
+            <Button size="sm" variant="outline" onClick={() => onMonthChange(shiftMonth(month, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onMonthChange(shiftMonth(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {summary && summary.totalRecords > 0 && (
+          <CardDescription>
+            {summary.attendanceRate}% attendance this month · {summary.absentRecords} absent · {summary.lateRecords} late
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {WEEKDAYS.map(weekday => (
+            <p key={weekday} className="text-xs font-medium text-muted-foreground">{weekday}</p>
+          ))}
+          {Array.from({ length: leadingBlanks }, (_, index) => <div key={`blank-${index}`} />)}
+          {days.map(day => (
+            <div
+              key={day.date}
+              title={day.closure || (day.status ? getStatusLabel(day.status) : undefined)}
+              className={cn(
+                "aspect-square rounded-md border p-1 text-xs flex flex-col items-center justify-center",
+                !day.schoolDay && "bg-muted text-muted-foreground"
+              )}
+              style={day.status ? { backgroundColor: `${statusColor(day.status)}33`, borderColor: statusColor(day.status) } : undefined}
+            >
+              <span className="font-medium">{Number(day.date.slice(8))}</span>
+              {day.status && <span className="hidden sm:block truncate">{getStatusLabel(day.status)}</span>}
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {ATTENDANCE_STATUSES.map(status => (
+            <span key={status.value} className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: status.color }} />
+              {status.label}
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface AttendanceRemarksCardProps {
+  month: string;
+  days: ParentAttendanceDay[];
+}
+
+export function AttendanceRemarksCard({ month, days }: AttendanceRemarksCardProps) {
+  const remarkedDays = days.filter(day => day.remarks.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Remarks</CardTitle>
+        <CardDescription>Notes from the class on {formatMonth(month)} marks</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {remarkedDays.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No remarks this month</p>
+        ) : (
+          remarkedDays.map(day => (
+            <div key={day.date} className="p-3 rounded-lg border">
+              <p className="text-sm font-semibold">
+                {formatDay(day.date)}
+                {day.status && <span className="font-normal text-muted-foreground"> · {getStatusLabel(day.status)}</span>}
+              </p>
+              {day.remarks.map(remark => (
+                <p key={remark} className="text-xs text-muted-foreground mt-1">{remark}</p>
+              ))}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface TermSummaryCardProps {
+  term: { start: string | null; end: string } | null;
+  summary: AttendanceSummary | null;
+  streaks: AttendanceStreaks | null;
+}
+
+export function TermSummaryCard({ term, summary, streaks }: TermSummaryCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">This Term</CardTitle>
+        <CardDescription>
+          {term?.start ? `${formatDay(term.start)} to ${formatDay(term.end)}` : "All recorded school days"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {summary && (
+          <div className="space-y-3">
+            <p className="text-3xl font-bold">{summary.attendanceRate}%</p>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <p>Present: {summary.presentRecords}</p>
+              <p>Late: {summary.lateRecords}</p>
+              <p>Half day: {summary.halfDayRecords}</p>
+              <p>Excused: {summary.excusedRecords}</p>
+              <p>Absent: {summary.absentRecords}</p>
+              <p>Cutting: {summary.cuttingRecords}</p>
+            </div>
+            {streaks && (
+              <div className="grid grid-cols-2 gap-2 text-sm border-t pt-3">
+                <p>Days in class in a row: {streaks.currentPresent}</p>
+                <p>Best run: {streaks.longestPresent}</p>
+                {streaks.currentAbsent > 0 && (
+                  <p className="col-span-2 text-destructive">Absent {streaks.currentAbsent} day(s) in a row</p>
+                )}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">{summary.totalRecords} school days recorded</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ExcuseLetterHistoryProps {
+  letters: ParentExcuseLetter[];
+}
+
+export function ExcuseLetterHistory({ letters }: ExcuseLetterHistoryProps) {
+  if (letters.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No excuse letters</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {letters.map(letter => (
+        <div key={letter.id} className="p-3 rounded-lg border">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold">
+              {formatDay(letter.startDate)}
+              {letter.endDate !== letter.startDate && ` to ${formatDay(letter.endDate)}`}
+            </p>
+            <Badge variant={LETTER_VARIANTS[letter.status]} className="capitalize">{letter.status}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">{letter.reason}</p>
+          {letter.reviewComment && (
+            <p className="text-xs mt-1">
+              <span className="font-medium">{letter.reviewer?.fullName || "Adviser"}:</span> {letter.reviewComment}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
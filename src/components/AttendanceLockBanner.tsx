@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Clock, Lock, LockOpen } from "lucide-react";
+import type { AttendanceLock } from "@/lib/api";
+import type { QueuedSubmission } from "@/lib/offlineStore";
+
+interface AttendanceLockBannerProps {
+  lock: AttendanceLock;
+  canOverride: boolean;
+  overrideReason: string | null;
+  // Queued marks for this day the server turned away
+  rejectedSubmission?: QueuedSubmission;
+  onFinalize: () => Promise<void>;
+  onOverride: (reason: string) => Promise<void>;
+  onDiscard: () => Promise<void>;
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export function AttendanceLockBanner({
+  lock,
+  canOverride,
+  overrideReason,
+  rejectedSubmission,
+  onFinalize,
+  onOverride,
+  onDiscard,
+}: AttendanceLockBannerProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleOverride = () => run(async () => {
+    await onOverride(reason.trim());
+    setDialogOpen(false);
+    setReason("");
+  });
+
+  const rejection = rejectedSubmission && (
+    <p>Marks queued on this device were not saved: {rejectedSubmission.lastError}</p>
+  );
+
+  const discardButton = rejectedSubmission && (
+    <Button variant="ghost" size="sm" disabled={isWorking} onClick={() => run(onDiscard)}>
+      Discard queued marks
+    </Button>
+  );
+
+  if (!lock.finalized) {
+    return (
+      <Alert variant={rejectedSubmission ? "destructive" : "default"}>
+        <Clock className="h-4 w-4" />
+        <AlertTitle>Open until {formatTime(lock.cutoffAt)}</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <span>Attendance for {lock.date} becomes final at the daily cutoff.</span>
+            {canOverride && (
+              <Button variant="outline" size="sm" disabled={isWorking} onClick={() => run(onFinalize)}>
+                <Lock className="h-4 w-4 mr-2" />
+                Finalize now
+              </Button>
+            )}
+          </div>
+          {rejection}
+          {discardButton}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <>
+      <Alert variant={rejectedSubmission ? "destructive" : "default"}>
+        {overrideReason ? <LockOpen className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+        <AlertTitle>
+          {lock.finalizedBy === "manual"
+            ? `Finalized by ${lock.finalizer?.fullName ?? "the adviser"} at ${formatTime(lock.finalizedAt!)}`
+            : `Finalized at the ${formatTime(lock.cutoffAt)} cutoff`}
+        </AlertTitle>
+        <AlertDescription className="space-y-2">
+          {overrideReason ? (
+            <p>Editing with an override: “{overrideReason}”. Your changes and the reason are recorded in the audit log.</p>
+          ) : lock.finalizedBy === "cutoff" ? (
+            <p>Recorded marks are final{canOverride ? " unless overridden with a reason" : ""}. Students without a mark can still be filled in.</p>
+          ) : canOverride ? (
+            <p>Changes to a finalized day need an override reason.</p>
+          ) : (
+            <p>Attendance can no longer be edited here. Ask your adviser for a correction.</p>
+          )}
+          {rejection}
+          <div className="flex gap-2">
+            {canOverride && !overrideReason && (
+              <Button variant="outline" size="sm" disabled={isWorking} onClick={() => setDialogOpen(true)}>
+                <LockOpen className="h-4 w-4 mr-2" />
+                Override
+              </Button>
+            )}
+            {discardButton}
+          </div>
+        </AlertDescription>
+      </Alert>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override finalized attendance</DialogTitle>
+            <DialogDescription>
+              Explain why attendance for {lock.date} needs to change. The reason is kept in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="overrideReason">Reason</Label>
+            <Textarea
+              id="overrideReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Student arrived with a late pass from the guidance office"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button disabled={isWorking || reason.trim().length < 3} onClick={handleOverride}>
+              Override
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
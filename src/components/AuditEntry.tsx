@@ -0,0 +1,67 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AuditLogEntry } from "@/lib/api";
+
+interface AuditEntryProps {
+  entry: AuditLogEntry;
+  // Off in a single record's history, where every entry is the same record
+  showRecord?: boolean;
+}
+
+const ACTION_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  CREATE: "default",
+  UPDATE: "secondary",
+  DELETE: "destructive",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+};
+
+// One audit log entry: who did what, and each changed field before and after
+export function AuditEntry({ entry, showRecord = true }: AuditEntryProps) {
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant={ACTION_VARIANTS[entry.action] || "outline"}>{entry.action}</Badge>
+        {showRecord && (
+          <span className="font-mono text-xs">
+            {entry.tableName}
+            {entry.recordId && ` · ${entry.recordId}`}
+          </span>
+        )}
+        <span className="text-muted-foreground">
+          by {entry.user.fullName} ({entry.user.role})
+        </span>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {new Date(entry.createdAt).toLocaleString()}
+        </span>
+      </div>
+
+      {entry.changes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No field changes recorded</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-1/4">Field</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entry.changes.map(change => (
+              <TableRow key={change.field}>
+                <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                <TableCell className="text-xs text-destructive break-all">{formatValue(change.before)}</TableCell>
+                <TableCell className="text-xs text-success break-all">{formatValue(change.after)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
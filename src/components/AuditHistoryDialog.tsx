@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AuditEntry } from "@/components/AuditEntry";
+import { useToast } from "@/hooks/use-toast";
+import { apiClient, type AuditLogEntry } from "@/lib/api";
+
+interface AuditHistoryDialogProps {
+  // Table and id as the audit log names them, with a label for the title
+  record: { table: string; id: string; label: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PAGE_SIZE = 20;
+
+// Every audit log entry for one record, newest first
+export function AuditHistoryDialog({ record, onOpenChange }: AuditHistoryDialogProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Keyed on the table and id, since callers build the record object as they render
+  const table = record?.table;
+  const recordId = record?.id;
+
+  const fetchEntries = useCallback(async (cursor?: string) => {
+    if (!table || !recordId) return;
+    setIsLoading(true);
+    try {
+      const page = await apiClient.getAuditLogs({ table, recordId, cursor, limit: PAGE_SIZE });
+      setEntries(current => (cursor ? [...current, ...page.entries] : page.entries));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [table, recordId, toast]);
+
+  useEffect(() => {
+    setEntries([]);
+    setNextCursor(null);
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return (
+    <Dialog open={!!record} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History: {record?.label}</DialogTitle>
+          <DialogDescription>Changes recorded in the audit log, newest first</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <AuditEntry key={entry.id} entry={entry} showRecord={false} />
+          ))}
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No changes recorded</p>
+          ) : nextCursor && (
+            <div className="flex justify-center">
+              <Button size="sm" variant="outline" onClick={() => fetchEntries(nextCursor)}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
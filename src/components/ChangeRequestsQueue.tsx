@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRight, Check, ClipboardEdit, Paperclip, X } from "lucide-react";
+import { apiClient, type AttendanceChangeRequest } from "@/lib/api";
+import { getStatusLabel, REASON_CODES } from "@/lib/attendanceStatus";
+
+interface ChangeRequestsQueueProps {
+  sectionId?: string;
+}
+
+export function ChangeRequestsQueue({ sectionId }: ChangeRequestsQueueProps) {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<AttendanceChangeRequest[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const { requests } = await apiClient.getChangeRequests({ status: 'pending', sectionId });
+      setRequests(requests);
+    } catch (error) {
+      console.error("Error fetching change requests:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleReview = async (request: AttendanceChangeRequest, decision: 'approve' | 'reject') => {
+    const comment = comments[request.id]?.trim() || "";
+    if (decision === 'reject' && !comment) {
+      toast({
+        title: "Comment required",
+        description: "Add a comment explaining why the request is rejected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReviewingId(request.id);
+    try {
+      if (decision === 'approve') {
+        await apiClient.approveChangeRequest(request.id, comment || undefined);
+      } else {
+        await apiClient.rejectChangeRequest(request.id, comment);
+      }
+
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+      toast({
+        title: decision === 'approve' ? "Change approved" : "Change rejected",
+        description: `${request.requester.fullName} has been notified`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review change request",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const getReasonLabel = (code: string | null) =>
+    REASON_CODES.find(r => r.value === code)?.label;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Change Requests</CardTitle>
+          {requests.length > 0 && (
+            <Badge variant="secondary">{requests.length}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Attendance corrections waiting for your review
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <ClipboardEdit className="h-12 w-12 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No pending change requests</p>
+          </div>
+        ) : (
+          requests.map((request) => {
+            const record = request.attendanceRecord;
+            return (
+              <div key={request.id} className="p-3 rounded-lg border space-y-2">
+                <div>
+                  <p className="text-sm font-semibold">
+                    {record.student.lastName}, {record.student.firstName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(record.date).toLocaleDateString()} · {record.section.name}
+                    {record.session && ` · ${record.session.subject}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant="outline">{getStatusLabel(record.status)}</Badge>
+                  <ArrowRight className="h-3 w-3" />
+                  <Badge>{getStatusLabel(request.proposedStatus)}</Badge>
+                  {getReasonLabel(request.proposedReasonCode) && (
+                    <span className="text-xs text-muted-foreground">
+                      {getReasonLabel(request.proposedReasonCode)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs">
+                  <span className="text-muted-foreground">{request.requester.fullName}:</span> {request.reason}
+                </p>
+                {request.proofFile && (
+                  <a
+                    href={request.proofFile.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    <Paperclip className="h-3 w-3" />
+                    {request.proofFile.name}
+                  </a>
+                )}
+                <Textarea
+                  placeholder="Comment (required to reject)"
+                  value={comments[request.id] || ""}
+                  onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                  className="min-h-[60px] text-xs"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="flex-1"
+                    disabled={reviewingId === request.id}
+                    onClick={() => handleReview(request, 'approve')}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1"
+                    disabled={reviewingId === request.id}
+                    onClick={() => handleReview(request, 'reject')}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
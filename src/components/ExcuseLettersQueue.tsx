@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveRefresh } from "@/hooks/use-realtime-events";
+import { Check, FileText, Paperclip, X } from "lucide-react";
+import { apiClient, type ExcuseLetter, type ExcuseLetterAuthor } from "@/lib/api";
+
+interface ExcuseLettersQueueProps {
+  sectionId?: string;
+}
+
+const AUTHOR_LABELS: Record<ExcuseLetterAuthor, string> = {
+  guardian: "Parent / guardian",
+  student: "Student",
+  beadle: "Beadle",
+};
+
+export function ExcuseLettersQueue({ sectionId }: ExcuseLettersQueueProps) {
+  const { toast } = useToast();
+  const [letters, setLetters] = useState<ExcuseLetter[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchLetters = useCallback(async () => {
+    try {
+      const { letters } = await apiClient.getExcuseLetters({ status: 'pending', sectionId });
+      setLetters(letters);
+    } catch (error) {
+      console.error("Error fetching excuse letters:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    fetchLetters();
+  }, [fetchLetters]);
+
+  // Letters someone else reviewed leave the queue
+  useLiveRefresh(fetchLetters, event => event.type === "excuse.reviewed" && (!sectionId || event.sectionId === sectionId));
+
+  const handleReview = async (letter: ExcuseLetter, decision: 'approve' | 'reject') => {
+    const comment = comments[letter.id]?.trim() || "";
+    if (decision === 'reject' && !comment) {
+      toast({
+        title: "Comment required",
+        description: "Add a comment explaining why the letter is rejected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReviewingId(letter.id);
+    try {
+      let description = `${letter.submitter.fullName} has been notified`;
+      if (decision === 'approve') {
+        const { excusedRecordIds } = await apiClient.approveExcuseLetter(letter.id, comment || undefined);
+        description = `${excusedRecordIds.length} absence(s) excused. ${description}`;
+      } else {
+        await apiClient.rejectExcuseLetter(letter.id, comment);
+      }
+
+      setLetters(prev => prev.filter(l => l.id !== letter.id));
+      toast({
+        title: decision === 'approve' ? "Letter approved" : "Letter rejected",
+        description,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review excuse letter",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const formatRange = (letter: ExcuseLetter) => {
+    const start = new Date(letter.startDate).toLocaleDateString();
+    const end = new Date(letter.endDate).toLocaleDateString();
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Excuse Letters</CardTitle>
+          {letters.length > 0 && (
+            <Badge variant="secondary">{letters.length}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Approving a letter excuses the absences it covers
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : letters.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <FileText className="h-12 w-12 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No pending excuse letters</p>
+          </div>
+        ) : (
+          letters.map((letter) => (
+            <div key={letter.id} className="p-3 rounded-lg border space-y-2">
+              <div>
+                <p className="text-sm font-semibold">
+                  {letter.student.lastName}, {letter.student.firstName}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatRange(letter)} · {letter.student.section.name}
+                </p>
+              </div>
+              <p className="text-xs">
+                <span className="text-muted-foreground">
+                  {AUTHOR_LABELS[letter.authorType]}{letter.authorName && ` (${letter.authorName})`}:
+                </span> {letter.reason}
+              </p>
+              <a
+                href={letter.proofUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                <Paperclip className="h-3 w-3" />
+                View letter
+              </a>
+              <p className="text-xs text-muted-foreground">
+                Submitted by {letter.submitter.fullName} on {new Date(letter.createdAt).toLocaleDateString()}
+              </p>
+              <Textarea
+                placeholder="Comment (required to reject)"
+                value={comments[letter.id] || ""}
+                onChange={(e) => setComments(prev => ({ ...prev, [letter.id]: e.target.value }))}
+                className="min-h-[60px] text-xs"
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  disabled={reviewingId === letter.id}
+                  onClick={() => handleReview(letter, 'approve')}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="flex-1"
+                  disabled={reviewingId === letter.id}
+                  onClick={() => handleReview(letter, 'reject')}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
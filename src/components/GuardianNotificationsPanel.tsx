@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare } from "lucide-react";
+import {
+  apiClient,
+  type GuardianChannel,
+  type GuardianNotification,
+  type GuardianNotificationStatus,
+  type SmsDeliveryStatus,
+} from "@/lib/api";
+import { localDateKey } from "@/lib/utils";
+
+interface GuardianNotificationsPanelProps {
+  sectionId?: string;
+}
+
+const STATUS_BADGES: Record<GuardianNotificationStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  queued: { label: "Queued", variant: "secondary" },
+  sending: { label: "Sending", variant: "secondary" },
+  sent: { label: "Sent", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+  skipped: { label: "Not sent", variant: "outline" },
+  cancelled: { label: "Withdrawn", variant: "outline" },
+};
+
+const DELIVERY_LABELS: Record<SmsDeliveryStatus, string> = {
+  pending: "awaiting receipt",
+  delivered: "delivered",
+  undelivered: "not delivered",
+};
+
+const CHANNEL_LABELS: Record<GuardianChannel, string> = {
+  sms: "SMS",
+  email: "Email",
+  telegram: "Telegram",
+};
+
+// Whether each guardian was told about today's absences and late arrivals
+export function GuardianNotificationsPanel({ sectionId }: GuardianNotificationsPanelProps) {
+  const [notifications, setNotifications] = useState<GuardianNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!sectionId) return;
+
+    setIsLoading(true);
+    apiClient.getGuardianNotifications({ sectionId, date: localDateKey() })
+      .then(({ notifications }) => setNotifications(notifications))
+      .catch(error => console.error("Error fetching guardian notifications:", error))
+      .finally(() => setIsLoading(false));
+  }, [sectionId]);
+
+  const describe = (notification: GuardianNotification) => {
+    if (notification.status === 'sent' && notification.sentAt) {
+      const sent = `${CHANNEL_LABELS[notification.channel!]} at ${new Date(notification.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+      return notification.deliveryStatus
+        ? `${sent}, ${DELIVERY_LABELS[notification.deliveryStatus]}${notification.deliveryError ? ` (${notification.deliveryError})` : ""}`
+        : sent;
+    }
+    if (notification.status === 'queued' && new Date(notification.scheduledFor) > new Date()) {
+      return `Held until ${new Date(notification.scheduledFor).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    }
+    if (notification.status === 'cancelled') {
+      return "Attendance was corrected before sending";
+    }
+    return notification.error || (notification.channel && CHANNEL_LABELS[notification.channel]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Guardian Messages</CardTitle>
+        <CardDescription>
+          Today's absence and late notices to parents
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            <MessageSquare className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No messages today</p>
+          </div>
+        ) : (
+          notifications.map(notification => (
+            <div key={notification.id} className="flex items-start justify-between gap-2 p-3 rounded-lg border">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold">
+                  {notification.student.lastName}, {notification.student.firstName}
+                  <span className="font-normal text-muted-foreground"> · {notification.event}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {notification.guardian.name} ({notification.guardian.relationship})
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {describe(notification)}
+                  {notification.attempts > 1 && ` · ${notification.attempts} attempts`}
+                </p>
+              </div>
+              <Badge variant={STATUS_BADGES[notification.status].variant} className="shrink-0">
+                {STATUS_BADGES[notification.status].label}
+              </Badge>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
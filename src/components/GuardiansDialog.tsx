@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Edit, KeyRound, Plus, Trash2 } from "lucide-react";
+import { apiClient, type Guardian, type GuardianChannel } from "@/lib/api";
+
+interface GuardiansDialogProps {
+  student: { id: string; first_name: string; last_name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type GuardianForm = Pick<Guardian, 'name' | 'relationship' | 'preferredChannel'> & {
+  phone: string;
+  email: string;
+  telegramChatId: string;
+  smsOptOut: boolean;
+};
+
+const CHANNEL_LABELS: Record<GuardianChannel, string> = {
+  sms: "SMS",
+  email: "Email",
+  telegram: "Telegram",
+};
+
+const EMPTY_FORM: GuardianForm = {
+  name: "",
+  relationship: "",
+  phone: "",
+  email: "",
+  telegramChatId: "",
+  preferredChannel: "sms",
+  smsOptOut: false,
+};
+
+export function GuardiansDialog({ student, onOpenChange }: GuardiansDialogProps) {
+  const { toast } = useToast();
+  const [guardians, setGuardians] = useState<Guardian[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // null: no form open; "new": adding a guardian; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<GuardianForm>(EMPTY_FORM);
+  // Guardian whose parent portal login is being set up
+  const [portalId, setPortalId] = useState<string | null>(null);
+  const [portalEmail, setPortalEmail] = useState("");
+  const [portalPassword, setPortalPassword] = useState("");
+
+  useEffect(() => {
+    setEditingId(null);
+    setPortalId(null);
+    if (!student) return;
+
+    setIsLoading(true);
+    apiClient.getGuardians(student.id)
+      .then(({ guardians }) => setGuardians(guardians))
+      .catch(error => {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load guardians",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [student, toast]);
+
+  const startEdit = (guardian?: Guardian) => {
+    setEditingId(guardian ? guardian.id : "new");
+    setForm(guardian ? {
+      name: guardian.name,
+      relationship: guardian.relationship,
+      phone: guardian.phone || "",
+      email: guardian.email || "",
+      telegramChatId: guardian.telegramChatId || "",
+      preferredChannel: guardian.preferredChannel,
+      smsOptOut: !!guardian.smsOptedOutAt,
+    } : EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!student || !editingId) return;
+
+    setIsSaving(true);
+    try {
+      if (editingId === "new") {
+        const { guardian } = await apiClient.createGuardian({ studentId: student.id, ...form });
+        setGuardians(prev => [...prev, guardian]);
+      } else {
+        const { guardian } = await apiClient.updateGuardian(editingId, form);
+        setGuardians(prev => prev.map(g => g.id === guardian.id ? guardian : g));
+      }
+      setEditingId(null);
+      toast({ title: "Guardian saved" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save guardian",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (guardian: Guardian) => {
+    try {
+      await apiClient.deleteGuardian(guardian.id);
+      setGuardians(prev => prev.filter(g => g.id !== guardian.id));
+      toast({ title: "Guardian removed" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove guardian",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startPortal = (guardian: Guardian) => {
+    setPortalId(guardian.id);
+    setPortalEmail(guardian.email || "");
+    setPortalPassword("");
+  };
+
+  const handlePortal = async (guardian: Guardian, grant: boolean) => {
+    setIsSaving(true);
+    try {
+      const { guardian: updated, message } = grant
+        ? await apiClient.grantPortalAccess(guardian.id, {
+            email: portalEmail,
+            ...(portalPassword && { password: portalPassword }),
+          })
+        : await apiClient.revokePortalAccess(guardian.id);
+      setGuardians(prev => prev.map(g => g.id === updated.id ? updated : g));
+      setPortalId(null);
+      toast({ title: message });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update portal access",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setField = (field: keyof GuardianForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Guardians</DialogTitle>
+          <DialogDescription>
+            {student && `${student.first_name} ${student.last_name}'s guardians are messaged when the student is marked absent or late.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Loading guardians...</p>
+          ) : guardians.length === 0 && editingId !== "new" ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No guardians yet</p>
+          ) : (
+            guardians.map(guardian => (
+              <div key={guardian.id} className="flex items-start justify-between gap-2 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold">
+                    {guardian.name} <span className="font-normal text-muted-foreground">({guardian.relationship})</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[guardian.phone, guardian.email, guardian.telegramChatId && `Telegram ${guardian.telegramChatId}`]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                  {guardian.smsOptedOutAt && (
+                    <p className="text-xs text-destructive">
+                      Opted out of SMS on {new Date(guardian.smsOptedOutAt).toLocaleDateString()}
+                    </p>
+                  )}
+                  {guardian.user && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      Parent portal: {guardian.user.email}
+                      <button
+                        className="ml-2 underline disabled:opacity-50"
+                        disabled={isSaving}
+                        onClick={() => handlePortal(guardian, false)}
+                      >
+                        Remove access
+                      </button>
+                    </p>
+                  )}
+                  {portalId === guardian.id && (
+                    <div className="mt-2 space-y-2">
+                      <Input
+                        type="email"
+                        placeholder="Login email"
+                        value={portalEmail}
+                        onChange={(e) => setPortalEmail(e.target.value)}
+                      />
+                      <Input
+                        type="password"
+                        placeholder="Password (new accounts only)"
+                        value={portalPassword}
+                        onChange={(e) => setPortalPassword(e.target.value)}
+                      />
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setPortalId(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" disabled={isSaving || !portalEmail} onClick={() => handlePortal(guardian, true)}>
+                          Grant access
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge variant="outline">{CHANNEL_LABELS[guardian.preferredChannel]}</Badge>
+                  {!guardian.user && (
+                    <Button size="sm" variant="ghost" title="Parent portal access" onClick={() => startPortal(guardian)}>
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => startEdit(guardian)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="text-destructive" onClick={() => handleDelete(guardian)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {editingId ? (
+            <div className="space-y-3 p-3 rounded-lg border bg-muted/40">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="guardianName">Name</Label>
+                  <Input id="guardianName" value={form.name} onChange={setField("name")} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="guardianRelationship">Relationship</Label>
+                  <Input
+                    id="guardianRelationship"
+                    placeholder="Mother, Father, Aunt..."
+                    value={form.relationship}
+                    onChange={setField("relationship")}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="guardianPhone">Mobile number</Label>
+                  <Input id="guardianPhone" placeholder="+639171234567" value={form.phone} onChange={setField("phone")} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="guardianEmail">Email</Label>
+                  <Input id="guardianEmail" type="email" value={form.email} onChange={setField("email")} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="guardianTelegram">Telegram chat ID</Label>
+                  <Input id="guardianTelegram" value={form.telegramChatId} onChange={setField("telegramChatId")} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Preferred channel</Label>
+                  <Select
+                    value={form.preferredChannel}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, preferredChannel: value as GuardianChannel }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CHANNEL_LABELS) as GuardianChannel[]).map(channel => (
+                        <SelectItem key={channel} value={channel}>
+                          {CHANNEL_LABELS[channel]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="guardianSmsOptOut"
+                  checked={form.smsOptOut}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, smsOptOut: checked }))}
+                />
+                <Label htmlFor="guardianSmsOptOut">Do not send text messages</Label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+                <Button size="sm" disabled={isSaving || !form.name || !form.relationship} onClick={handleSave}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button size="sm" variant="outline" className="w-full gap-2" onClick={() => startEdit()}>
+              <Plus className="h-4 w-4" />
+              Add guardian
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRightLeft } from "lucide-react";
+import { apiClient, type EnrollmentStatus } from "@/lib/api";
+import { localDateKey } from "@/lib/utils";
+
+interface MovementStudent {
+  id: string;
+  first_name: string;
+  last_name: string;
+  enrollment_status?: string;
+  left_on?: string | null;
+  transferred_in_on?: string | null;
+}
+
+interface LearnerMovementPanelProps {
+  students: MovementStudent[];
+  onStudentChange: (student: MovementStudent) => void;
+}
+
+type Movement = 'dropped_out' | 'transferred_out' | 'transferred_in' | 'enrolled';
+
+const MOVEMENTS: { value: Movement; label: string }[] = [
+  { value: "dropped_out", label: "Dropped out" },
+  { value: "transferred_out", label: "Transferred out" },
+  { value: "transferred_in", label: "Transferred in" },
+  { value: "enrolled", label: "Back in class" },
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  dropped_out: "Dropped out",
+  transferred_out: "Transferred out",
+};
+
+export function LearnerMovementPanel({ students, onStudentChange }: LearnerMovementPanelProps) {
+  const { toast } = useToast();
+  const [studentId, setStudentId] = useState("");
+  const [movement, setMovement] = useState<Movement>("dropped_out");
+  const [date, setDate] = useState(localDateKey());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const student = students.find(s => s.id === studentId);
+    if (!student) return;
+
+    // Transfers in keep the learner enrolled; the other movements set the status
+    const status: EnrollmentStatus = movement === "transferred_in" ? "enrolled" : movement;
+    setIsSaving(true);
+    try {
+      const { student: updated } = await apiClient.updateStudentEnrollment(student.id, {
+        status,
+        leftOn: status === "enrolled" ? null : date,
+        ...(movement === "transferred_in" && { transferredInOn: date }),
+      });
+      onStudentChange({
+        ...student,
+        enrollment_status: updated.enrollmentStatus,
+        left_on: updated.leftOn,
+        transferred_in_on: updated.transferredInOn,
+      });
+      setStudentId("");
+      toast({
+        title: "Learner updated",
+        description: `${updated.firstName} ${updated.lastName}: ${MOVEMENTS.find(m => m.value === movement)?.label.toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update learner",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const moved = students.filter(s =>
+    (s.enrollment_status && s.enrollment_status !== "enrolled") || s.transferred_in_on
+  );
+
+  const formatDay = (value: string) => new Date(value).toLocaleDateString();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Learner Movement</CardTitle>
+        <CardDescription>
+          Dropouts and transfers for the school forms
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Select value={studentId} onValueChange={setStudentId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Student" />
+            </SelectTrigger>
+            <SelectContent>
+              {students.map(student => (
+                <SelectItem key={student.id} value={student.id}>
+                  {student.last_name}, {student.first_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={movement} onValueChange={(value) => setMovement(value as Movement)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MOVEMENTS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="space-y-1">
+              <Label htmlFor="movementDate" className="sr-only">Date</Label>
+              <Input
+                id="movementDate"
+                type="date"
+                value={date}
+                disabled={movement === "enrolled"}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={isSaving || !studentId || (movement !== "enrolled" && !date)}
+            onClick={handleSave}
+          >
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Record movement
+          </Button>
+        </div>
+
+        {moved.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No dropouts or transfers</p>
+        ) : (
+          moved.map(student => (
+            <div key={student.id} className="flex items-center justify-between gap-2 p-3 rounded-lg border">
+              <p className="text-sm font-semibold">{student.last_name}, {student.first_name}</p>
+              <div className="flex flex-col items-end gap-1">
+                {student.left_on && student.enrollment_status && STATUS_LABELS[student.enrollment_status] && (
+                  <Badge variant="destructive">
+                    {STATUS_LABELS[student.enrollment_status]} {formatDay(student.left_on)}
+                  </Badge>
+                )}
+                {student.transferred_in_on && (
+                  <Badge variant="secondary">Transferred in {formatDay(student.transferred_in_on)}</Badge>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useLiveRefresh, useRealtimeEvents } from "@/hooks/use-realtime-events";
+import { Activity } from "lucide-react";
+import { apiClient, type RealtimeEvent, type TodayAttendance } from "@/lib/api";
+import type { RealtimeStatus } from "@/lib/realtime";
+
+const RECENT_LIMIT = 8;
+
+const STATUS_BADGES: Record<RealtimeStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  connecting: { label: "Connecting", variant: "outline" },
+  live: { label: "Live", variant: "default" },
+  reconnecting: { label: "Reconnecting", variant: "secondary" },
+  stopped: { label: "Offline", variant: "destructive" },
+};
+
+const describeEvent = (event: RealtimeEvent, sectionName: string) => {
+  const data = event.data;
+  switch (event.type) {
+    case "attendance.submitted":
+      return `${sectionName}: attendance submitted, ${data.marked} marked, ${data.absent} absent`;
+    case "attendance.updated":
+      return `${sectionName}: attendance corrected for ${data.marked} student(s)`;
+    case "alert.raised":
+      return `${sectionName}: ${data.title}`;
+    case "checkin.received":
+      return `${sectionName}: ${data.studentName} checked in`;
+    case "excuse.reviewed":
+      return `${sectionName}: excuse letter ${data.status}`;
+  }
+};
+
+// Today's attendance across the sections the user follows, kept current by
+// live events from the server
+export function LiveAttendanceCard() {
+  const [today, setToday] = useState<TodayAttendance | null>(null);
+  const [recent, setRecent] = useState<RealtimeEvent[]>([]);
+
+  const fetchToday = useCallback(async () => {
+    try {
+      setToday(await apiClient.getTodayAttendance());
+    } catch (error) {
+      console.error("Error fetching today's attendance:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchToday();
+  }, [fetchToday]);
+
+  // A burst of events (a whole section checking in) reloads the counters once
+  const status = useLiveRefresh(fetchToday, () => true);
+
+  useRealtimeEvents(event => {
+    if (event) setRecent(current => [event, ...current].slice(0, RECENT_LIMIT));
+  });
+
+  const sectionName = (sectionId: string) =>
+    today?.sections.find(section => section.id === sectionId)?.name || "A section";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-primary" />
+            Today's Attendance
+          </CardTitle>
+          <CardDescription>
+            {today
+              ? `${today.totals.sectionsSubmitted} of ${today.totals.sections} sections have submitted`
+              : "Loading..."}
+          </CardDescription>
+        </div>
+        <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+      </CardHeader>
+      {today && (
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">
+                {today.totals.marked} of {today.totals.students} students marked
+              </span>
+              <span className="font-medium">{today.totals.completionRate}%</span>
+            </div>
+            <Progress value={today.totals.completionRate} />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-bold text-success">{today.totals.present}</p>
+              <p className="text-xs text-muted-foreground">Present</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-warning">{today.totals.late}</p>
+              <p className="text-xs text-muted-foreground">Late</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-destructive">{today.totals.absent}</p>
+              <p className="text-xs text-muted-foreground">Absent</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{today.totals.activeAlerts}</p>
+              <p className="text-xs text-muted-foreground">Active alerts</p>
+            </div>
+          </div>
+
+          {recent.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Recent activity</p>
+              {recent.map(event => (
+                <p key={event.id} className="text-xs text-muted-foreground truncate">
+                  {new Date(event.at).toLocaleTimeString()} · {describeEvent(event, sectionName(event.sectionId))}
+                </p>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
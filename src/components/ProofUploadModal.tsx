@@ -2,10 +2,15 @@ import { useState, useCallback } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { Upload, X, FileCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { apiClient, type ExcuseLetter, type ExcuseLetterAuthor } from "@/lib/api";
 
 interface ProofUploadModalProps {
   open: boolean;
@@ -14,9 +19,19 @@ interface ProofUploadModalProps {
   studentName: string;
   sectionId: string;
   date: string;
-  onUploadComplete: (url: string) => void;
+  onUploadComplete?: (url: string) => void;
+  // Submit the file as an excuse letter for the adviser to review instead of
+  // attaching it to the record
+  excuseLetter?: boolean;
+  onLetterSubmitted?: (letter: ExcuseLetter) => void;
 }
 
+const AUTHOR_TYPES: { value: ExcuseLetterAuthor; label: string }[] = [
+  { value: "guardian", label: "Parent / guardian" },
+  { value: "student", label: "Student" },
+  { value: "beadle", label: "Beadle" },
+];
+
 export function ProofUploadModal({
   open,
   onOpenChange,
@@ -25,12 +40,18 @@ export function ProofUploadModal({
   sectionId,
   date,
   onUploadComplete,
+  excuseLetter = false,
+  onLetterSubmitted,
 }: ProofUploadModalProps) {
   const { toast } = useToast();
   const [file, setFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [reason, setReason] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [authorType, setAuthorType] = useState<ExcuseLetterAuthor>("guardian");
+  const [authorName, setAuthorName] = useState("");
 
   const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
 
@@ -113,19 +134,42 @@ export function ProofUploadModal({
         .from("attendance-files")
         .getPublicUrl(filePath);
 
-      toast({
-        title: "Success",
-        description: "Proof uploaded successfully",
-      });
+      if (excuseLetter) {
+        const { letter } = await apiClient.submitExcuseLetter({
+          studentId,
+          startDate: date,
+          endDate: endDate || undefined,
+          reason: reason.trim(),
+          proofUrl: publicUrl,
+          authorType,
+          authorName: authorName.trim() || undefined,
+        });
+
+        toast({
+          title: "Excuse letter submitted",
+          description: "The adviser will review it and excuse the covered absences",
+        });
+
+        onLetterSubmitted?.(letter);
+        setReason("");
+        setEndDate("");
+        setAuthorName("");
+      } else {
+        toast({
+          title: "Success",
+          description: "Proof uploaded successfully",
+        });
+
+        onUploadComplete?.(publicUrl);
+      }
 
-      onUploadComplete(publicUrl);
       setFile(null);
       onOpenChange(false);
     } catch (error) {
       console.error("Upload error:", error);
       toast({
         title: "Error",
-        description: "Failed to upload proof",
+        description: error instanceof Error && excuseLetter ? error.message : "Failed to upload proof",
         variant: "destructive",
       });
     } finally {
@@ -138,9 +182,11 @@ export function ProofUploadModal({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Upload Proof</DialogTitle>
+          <DialogTitle>{excuseLetter ? "Submit Excuse Letter" : "Upload Proof"}</DialogTitle>
           <DialogDescription>
-            Upload attendance proof for {studentName} ({date})
+            {excuseLetter
+              ? `Upload the excuse letter for ${studentName}, absent from ${date}`
+              : `Upload attendance proof for ${studentName} (${date})`}
           </DialogDescription>
         </DialogHeader>
 
@@ -198,6 +244,46 @@ export function ProofUploadModal({
             )}
           </div>
 
+          {excuseLetter && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Written by</Label>
+                  <Select value={authorType} onValueChange={(value) => setAuthorType(value as ExcuseLetterAuthor)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AUTHOR_TYPES.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="letterEnd" className="text-xs">Absent until (optional)</Label>
+                  <Input id="letterEnd" type="date" value={endDate} min={date} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="letterAuthor" className="text-xs">Name of the writer (optional)</Label>
+                <Input id="letterAuthor" value={authorName} onChange={(e) => setAuthorName(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="letterReason" className="text-xs">Reason</Label>
+                <Textarea
+                  id="letterReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Fever, see attached medical certificate"
+                  rows={2}
+                />
+              </div>
+            </div>
+          )}
+
           {isUploading && (
             <div className="space-y-2">
               <Progress value={uploadProgress} className="h-2" />
@@ -220,9 +306,9 @@ export function ProofUploadModal({
             </Button>
             <Button
               onClick={handleUpload}
-              disabled={!file || isUploading}
+              disabled={!file || isUploading || (excuseLetter && reason.trim().length < 3)}
             >
-              {isUploading ? "Uploading..." : "Upload"}
+              {isUploading ? "Uploading..." : excuseLetter ? "Submit" : "Upload"}
             </Button>
           </div>
         </div>
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Mail, Save } from "lucide-react";
+import { apiClient } from "@/lib/api";
+import { saveBlob } from "@/lib/utils";
+
+interface SchoolFormsPanelProps {
+  sectionId?: string;
+  sectionName?: string;
+}
+
+export function SchoolFormsPanel({ sectionId, sectionName }: SchoolFormsPanelProps) {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [format, setFormat] = useState<'xlsx' | 'pdf'>('xlsx');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleDownload = async () => {
+    if (!sectionId) return;
+    setIsWorking(true);
+    try {
+      const blob = await apiClient.downloadSf2(sectionId, month, format);
+      saveBlob(blob, `SF2_${(sectionName || sectionId).replace(/[^A-Za-z0-9-]+/g, "_")}_${month}.${format}`);
+    } catch (error) {
+      showError(error, "Failed to generate SF2");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!sectionId) return;
+    setIsWorking(true);
+    try {
+      const { file } = await apiClient.saveSf2({ sectionId, month, format });
+      toast({
+        title: "SF2 saved",
+        description: `${file.name} is now in the attendance reports files`,
+      });
+    } catch (error) {
+      showError(error, "Failed to save SF2");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Emailed to the signed-in user's own address
+  const handleEmail = async () => {
+    if (!sectionId) return;
+    setIsWorking(true);
+    try {
+      const { message } = await apiClient.emailSf2({ sectionId, month, format });
+      toast({ title: "SF2 on its way", description: message });
+    } catch (error) {
+      showError(error, "Failed to email SF2");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">School Form 2</CardTitle>
+        <CardDescription>
+          Daily Attendance Report of Learners for a month
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="sf2Month" className="text-xs">Month</Label>
+            <Input id="sf2Month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as 'xlsx' | 'pdf')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                <SelectItem value="pdf">PDF</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" disabled={isWorking || !sectionId || !month} onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-1" />
+            Download
+          </Button>
+          <Button size="sm" variant="outline" className="flex-1" disabled={isWorking || !sectionId || !month} onClick={handleSave}>
+            <Save className="h-4 w-4 mr-1" />
+            Save to files
+          </Button>
+          <Button size="sm" variant="outline" className="flex-1" disabled={isWorking || !sectionId || !month} onClick={handleEmail}>
+            <Mail className="h-4 w-4 mr-1" />
+            Email me
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { UserCheck, UserMinus } from "lucide-react";
+import { apiClient, type SectionAssignment } from "@/lib/api";
+import { localDateKey } from "@/lib/utils";
+
+interface SectionAssignmentsPanelProps {
+  sectionId?: string;
+}
+
+const today = () => localDateKey();
+
+const yesterday = () => {
+  const date = new Date();
+  date.setDate(date.getDate() - 1);
+  return localDateKey(date);
+};
+
+export function SectionAssignmentsPanel({ sectionId }: SectionAssignmentsPanelProps) {
+  const { toast } = useToast();
+  const [assignments, setAssignments] = useState<SectionAssignment[]>([]);
+  const [beadles, setBeadles] = useState<{ id: string; fullName: string; email: string }[]>([]);
+  const [beadleId, setBeadleId] = useState("");
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchAssignments = useCallback(async () => {
+    if (!sectionId) return;
+    try {
+      const [{ assignments }, { beadles }] = await Promise.all([
+        apiClient.getSectionAssignments({ sectionId }),
+        apiClient.getAssignableBeadles(),
+      ]);
+      setAssignments(assignments);
+      setBeadles(beadles);
+    } catch (error) {
+      console.error("Error fetching section assignments:", error);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleAssign = async () => {
+    if (!sectionId) return;
+    setIsSaving(true);
+    try {
+      const { assignment } = await apiClient.createSectionAssignment({
+        sectionId,
+        beadleId,
+        startDate,
+        endDate: endDate || null,
+      });
+      setAssignments(prev => [assignment, ...prev]);
+      setBeadleId("");
+      setEndDate("");
+      toast({
+        title: "Beadle assigned",
+        description: `${assignment.beadle.fullName} can take attendance from ${assignment.startDate.split('T')[0]}`,
+      });
+    } catch (error) {
+      showError(error, "Failed to assign beadle");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // An assignment that never started is removed; one in use is ended yesterday
+  const handleEnd = async (assignment: SectionAssignment) => {
+    try {
+      if (assignment.startDate.split('T')[0] >= today()) {
+        await apiClient.deleteSectionAssignment(assignment.id);
+        setAssignments(prev => prev.filter(item => item.id !== assignment.id));
+      } else {
+        const { assignment: updated } = await apiClient.updateSectionAssignment(assignment.id, { endDate: yesterday() });
+        setAssignments(prev => prev.map(item => item.id === updated.id ? updated : item));
+      }
+    } catch (error) {
+      showError(error, "Failed to end assignment");
+    }
+  };
+
+  const isActive = (assignment: SectionAssignment) =>
+    assignment.startDate.split('T')[0] <= today() &&
+    (!assignment.endDate || assignment.endDate.split('T')[0] >= today());
+
+  const formatDay = (value: string) => new Date(value).toLocaleDateString();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Beadles</CardTitle>
+        <CardDescription>
+          Beadles can only see and mark sections assigned to them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Select value={beadleId} onValueChange={setBeadleId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Beadle" />
+            </SelectTrigger>
+            <SelectContent>
+              {beadles.map(beadle => (
+                <SelectItem key={beadle.id} value={beadle.id}>
+                  {beadle.fullName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="assignmentStart" className="text-xs">From</Label>
+              <Input id="assignmentStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="assignmentEnd" className="text-xs">Until (optional)</Label>
+              <Input id="assignmentEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={isSaving || !sectionId || !beadleId || !startDate}
+            onClick={handleAssign}
+          >
+            <UserCheck className="h-4 w-4 mr-2" />
+            Assign beadle
+          </Button>
+        </div>
+
+        {assignments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No beadles assigned yet</p>
+        ) : (
+          assignments.map(assignment => (
+            <div key={assignment.id} className="flex items-start justify-between gap-2 p-3 rounded-lg border">
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-semibold">{assignment.beadle.fullName}</p>
+                  {isActive(assignment) && <Badge variant="secondary">Active</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDay(assignment.startDate)} – {assignment.endDate ? formatDay(assignment.endDate) : "ongoing"}
+                </p>
+              </div>
+              {(!assignment.endDate || assignment.endDate.split('T')[0] >= today()) && (
+                <Button variant="ghost" size="icon" onClick={() => handleEnd(assignment)} aria-label="End assignment">
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
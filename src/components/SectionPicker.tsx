@@ -0,0 +1,25 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SectionOption } from "@/lib/sections";
+
+interface SectionPickerProps {
+  sections: SectionOption[];
+  value?: string;
+  onChange: (sectionId: string) => void;
+}
+
+export function SectionPicker({ sections, value, onChange }: SectionPickerProps) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={sections.length < 2}>
+      <SelectTrigger className="w-[220px]">
+        <SelectValue placeholder="Select section" />
+      </SelectTrigger>
+      <SelectContent>
+        {sections.map(section => (
+          <SelectItem key={section.id} value={section.id}>
+            {section.name} - {section.grade_level} ({section.school_year})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
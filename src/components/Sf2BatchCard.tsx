@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useQueueJobPolling } from "@/hooks/use-queue-job";
+import { FileSpreadsheet } from "lucide-react";
+import { apiClient, type QueueJob, type Sf2BatchResult } from "@/lib/api";
+
+interface Sf2BatchCardProps {
+  month: string;
+  gradeLevel?: string;
+}
+
+// Saves the SF2 of every section (or one grade level) to file storage in the
+// background, following the job until it finishes
+export function Sf2BatchCard({ month, gradeLevel }: Sf2BatchCardProps) {
+  const { toast } = useToast();
+  const [job, setJob] = useState<QueueJob<Sf2BatchResult> | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const isRunning = !!job && job.status !== "completed" && job.status !== "dead";
+  const jobId = isRunning ? job.id : null;
+
+  useQueueJobPolling<Sf2BatchResult>(jobId, setJob);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const { job } = await apiClient.startSf2Batch({ month, format: "xlsx", gradeLevel });
+      setJob(job);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start SF2 generation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>SF2 for every section</CardTitle>
+          <CardDescription>
+            {gradeLevel ? `Grade ${gradeLevel}'s` : "Every section's"} School Form 2 for the month, saved to the attendance reports files
+          </CardDescription>
+        </div>
+        <Button variant="outline" disabled={isStarting || isRunning || !month} onClick={handleStart}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Generate
+        </Button>
+      </CardHeader>
+      {job && (
+        <CardContent className="space-y-2">
+          {isRunning && (
+            <>
+              <Progress value={job.progress} />
+              <p className="text-sm text-muted-foreground">
+                {job.status === "active"
+                  ? job.progressMessage || "Starting..."
+                  : job.attempts > 0 ? `Retrying after: ${job.error}` : "Waiting for other reports to finish..."}
+              </p>
+            </>
+          )}
+          {job.status === "completed" && job.result && (
+            <p className="text-sm">
+              Saved {job.result.files.length} of {job.result.sections} sections' SF2.
+            </p>
+          )}
+          {job.status === "dead" && (
+            <p className="text-sm text-destructive">
+              Generation failed after {job.attempts} attempts: {job.error}
+            </p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
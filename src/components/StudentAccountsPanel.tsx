@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Download, KeyRound, UserPlus } from "lucide-react";
+import { apiClient, type StudentAccountStatus, type StudentSetupCode } from "@/lib/api";
+
+interface StudentAccountsPanelProps {
+  sectionId?: string;
+}
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString();
+
+// Student portal logins for a section. Setup codes are only returned when they
+// are issued, so the ones from this visit are kept here to hand out or download.
+export function StudentAccountsPanel({ sectionId }: StudentAccountsPanelProps) {
+  const { toast } = useToast();
+  const [students, setStudents] = useState<StudentAccountStatus[]>([]);
+  const [codes, setCodes] = useState<StudentSetupCode[]>([]);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    if (!sectionId) return;
+    try {
+      const { students } = await apiClient.getStudentAccounts(sectionId);
+      setStudents(students);
+    } catch (error) {
+      console.error("Error fetching student accounts:", error);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    setCodes([]);
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const addCodes = (issued: StudentSetupCode[]) =>
+    setCodes(prev => [...issued, ...prev.filter(code => !issued.some(item => item.id === code.id))]);
+
+  const handleProvision = async () => {
+    if (!sectionId) return;
+    setWorkingId("all");
+    try {
+      const { message, accounts, skipped } = await apiClient.provisionStudentAccounts(sectionId);
+      addCodes(accounts);
+      toast({
+        title: message,
+        description: skipped.length > 0
+          ? `Skipped: ${skipped.map(student => `${student.firstName} ${student.lastName} (${student.reason})`).join("; ")}`
+          : "Hand each student their setup code",
+      });
+      await fetchAccounts();
+    } catch (error) {
+      showError(error, "Failed to create student accounts");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleNewCode = async (student: StudentAccountStatus) => {
+    setWorkingId(student.id);
+    try {
+      const { setupCode, setupExpiresAt } = await apiClient.issueStudentSetupCode(student.id);
+      addCodes([{ ...student, setupCode, setupExpiresAt }]);
+      await fetchAccounts();
+    } catch (error) {
+      showError(error, "Failed to issue a setup code");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleDownload = () => {
+    const rows = [
+      ["Student Number", "Last Name", "First Name", "Setup Code", "Expires"],
+      ...codes.map(code => [code.studentNumber, code.lastName, code.firstName, code.setupCode, formatDay(code.setupExpiresAt)]),
+    ];
+    const csv = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(",")).join("\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "student-setup-codes.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const withoutAccount = students.filter(student => !student.account).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Student Accounts</CardTitle>
+        <CardDescription>
+          Logins for the student portal at /student
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Button
+          className="w-full"
+          disabled={!sectionId || withoutAccount === 0 || workingId !== null}
+          onClick={handleProvision}
+        >
+          <UserPlus className="h-4 w-4 mr-2" />
+          {withoutAccount > 0 ? `Create ${withoutAccount} account(s)` : "Every student has an account"}
+        </Button>
+
+        {codes.length > 0 && (
+          <div className="space-y-2 p-3 rounded-lg border border-primary/40">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold">Setup codes</p>
+              <Button size="sm" variant="outline" onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Shown only now. Students use them on their first sign-in.
+            </p>
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {codes.map(code => (
+                <div key={code.id} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{code.lastName}, {code.firstName}</span>
+                  <span className="font-mono">{code.setupCode}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {students.map(student => (
+            <div key={student.id} className="flex items-center justify-between gap-2 p-2 rounded-md border">
+              <div className="min-w-0">
+                <p className="text-sm truncate">{student.lastName}, {student.firstName}</p>
+                <p className="text-xs text-muted-foreground">{student.studentNumber}</p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {!student.account ? (
+                  <Badge variant="outline">No account</Badge>
+                ) : student.account.pendingSetup ? (
+                  <Badge variant="secondary">Not signed in yet</Badge>
+                ) : (
+                  <Badge>Active</Badge>
+                )}
+                {student.account && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Issue a new setup code"
+                    disabled={workingId !== null}
+                    onClick={() => handleNewCode(student)}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarOff, Trash2 } from "lucide-react";
+import { apiClient, type StudentLeave } from "@/lib/api";
+import { localDateKey } from "@/lib/utils";
+
+interface StudentLeavePanelProps {
+  sectionId?: string;
+  students: { id: string; first_name: string; last_name: string }[];
+}
+
+export function StudentLeavePanel({ sectionId, students }: StudentLeavePanelProps) {
+  const { toast } = useToast();
+  const [leaves, setLeaves] = useState<StudentLeave[]>([]);
+  const [studentId, setStudentId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchLeaves = useCallback(async () => {
+    if (!sectionId) return;
+    try {
+      const { leaves } = await apiClient.getStudentLeaves({
+        sectionId,
+        startDate: localDateKey(),
+      });
+      setLeaves(leaves);
+    } catch (error) {
+      console.error("Error fetching student leave:", error);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    fetchLeaves();
+  }, [fetchLeaves]);
+
+  const handleApprove = async () => {
+    setIsSaving(true);
+    try {
+      const { leave } = await apiClient.createStudentLeave({
+        studentId,
+        startDate,
+        endDate: endDate || undefined,
+        reason: reason.trim(),
+      });
+      setLeaves(prev => [...prev, leave].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+      setStudentId("");
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      toast({
+        title: "Leave approved",
+        description: `${leave.student.firstName} ${leave.student.lastName} can be marked excused ahead of time`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to approve leave",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleWithdraw = async (leave: StudentLeave) => {
+    try {
+      await apiClient.deleteStudentLeave(leave.id);
+      setLeaves(prev => prev.filter(item => item.id !== leave.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to withdraw leave",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatDay = (value: string) => new Date(value).toLocaleDateString();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Approved Leave</CardTitle>
+        <CardDescription>
+          Students on leave can be marked excused for future days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Select value={studentId} onValueChange={setStudentId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Student" />
+            </SelectTrigger>
+            <SelectContent>
+              {students.map(student => (
+                <SelectItem key={student.id} value={student.id}>
+                  {student.last_name}, {student.first_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="leaveStart" className="text-xs">From</Label>
+              <Input id="leaveStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="leaveEnd" className="text-xs">To</Label>
+              <Input id="leaveEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <Input placeholder="Reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={isSaving || !studentId || !startDate || reason.trim().length < 3}
+            onClick={handleApprove}
+          >
+            Approve leave
+          </Button>
+        </div>
+
+        {leaves.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            <CalendarOff className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No upcoming leave</p>
+          </div>
+        ) : (
+          leaves.map(leave => (
+            <div key={leave.id} className="flex items-start justify-between gap-2 p-3 rounded-lg border">
+              <div>
+                <p className="text-sm font-semibold">
+                  {leave.student.lastName}, {leave.student.firstName}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDay(leave.startDate)}
+                  {leave.endDate !== leave.startDate && ` – ${formatDay(leave.endDate)}`} · {leave.reason}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => handleWithdraw(leave)} aria-label="Withdraw leave">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
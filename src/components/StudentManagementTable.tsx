@@ -3,7 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { Edit, Trash2, Plus, Check, X } from "lucide-react";
+import { Edit, Trash2, Plus, Check, X, Users, History } from "lucide-react";
 import {
   Table,
   TableBody,
@@ -22,6 +22,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { GuardiansDialog } from "@/components/GuardiansDialog";
+import { AuditHistoryDialog } from "@/components/AuditHistoryDialog";
 
 interface Student {
   id: string;
@@ -36,6 +38,8 @@ interface StudentManagementTableProps {
   onStudentUpdate: (student: Student) => void;
   onStudentDelete: (studentId: string) => void;
   onStudentCreate: (student: Omit<Student, 'id'>) => void;
+  // Adds a button opening each student's audit history (admins only)
+  showHistory?: boolean;
 }
 
 export function StudentManagementTable({
@@ -43,6 +47,7 @@ export function StudentManagementTable({
   onStudentUpdate,
   onStudentDelete,
   onStudentCreate,
+  showHistory = false,
 }: StudentManagementTableProps) {
   const { toast } = useToast();
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -50,6 +55,8 @@ export function StudentManagementTable({
   const [isCreating, setIsCreating] = useState(false);
   const [newStudent, setNewStudent] = useState<Partial<Student>>({});
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [guardiansFor, setGuardiansFor] = useState<Student | null>(null);
+  const [historyFor, setHistoryFor] = useState<Student | null>(null);
 
   const handleEdit = (student: Student) => {
     setEditingId(student.id);
@@ -231,6 +238,14 @@ export function StudentManagementTable({
                         <TableCell>{student.middle_name || '-'}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="ghost" title="Guardians" onClick={() => setGuardiansFor(student)}>
+                              <Users className="h-4 w-4" />
+                            </Button>
+                            {showHistory && (
+                              <Button size="sm" variant="ghost" title="History" onClick={() => setHistoryFor(student)}>
+                                <History className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button size="sm" variant="ghost" onClick={() => handleEdit(student)}>
                               <Edit className="h-4 w-4" />
                             </Button>
@@ -254,6 +269,17 @@ export function StudentManagementTable({
         </CardContent>
       </Card>
 
+      <GuardiansDialog student={guardiansFor} onOpenChange={() => setGuardiansFor(null)} />
+
+      <AuditHistoryDialog
+        record={historyFor && {
+          table: "students",
+          id: historyFor.id,
+          label: `${historyFor.first_name} ${historyFor.last_name}`,
+        }}
+        onOpenChange={() => setHistoryFor(null)}
+      />
+
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
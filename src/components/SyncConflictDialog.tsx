@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ConflictChoice } from "@/lib/attendanceSync";
+import type { QueuedSubmission } from "@/lib/offlineStore";
+import { getStatusLabel } from "@/lib/attendanceStatus";
+
+interface SyncConflictDialogProps {
+  submission: QueuedSubmission | null;
+  studentNames: Record<string, string>;
+  onOpenChange: (open: boolean) => void;
+  onResolve: (choices: Record<string, ConflictChoice>) => Promise<void>;
+}
+
+export function SyncConflictDialog({ submission, studentNames, onOpenChange, onResolve }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  // Default every conflicting student to the marks taken on this device
+  useEffect(() => {
+    const initial: Record<string, ConflictChoice> = {};
+    submission?.conflicts?.forEach(conflict => {
+      initial[conflict.studentId] = "mine";
+    });
+    setChoices(initial);
+  }, [submission]);
+
+  const handleResolve = async () => {
+    setIsResolving(true);
+    try {
+      await onResolve(choices);
+      onOpenChange(false);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const setAll = (choice: ConflictChoice) => {
+    setChoices(prev => Object.fromEntries(Object.keys(prev).map(studentId => [studentId, choice])));
+  };
+
+  return (
+    <Dialog open={submission !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Resolve attendance conflicts</DialogTitle>
+          <DialogDescription>
+            Someone else changed these students for {submission?.date} while your marks were waiting to sync.
+            Choose which mark to keep for each student.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setAll("mine")}>Keep all mine</Button>
+          <Button variant="ghost" size="sm" onClick={() => setAll("server")}>Keep all server</Button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {submission?.conflicts?.map(conflict => (
+            <div key={conflict.studentId} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {studentNames[conflict.studentId] || conflict.studentId}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Server: {conflict.server ? getStatusLabel(conflict.server.status) : "No record"}
+                  {conflict.server && ` (updated ${new Date(conflict.server.updatedAt).toLocaleTimeString()})`}
+                  {" · "}
+                  Yours: {getStatusLabel(conflict.submitted.status)}
+                </p>
+              </div>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={choices[conflict.studentId]}
+                onValueChange={(value) => value && setChoices(prev => ({ ...prev, [conflict.studentId]: value as ConflictChoice }))}
+              >
+                <ToggleGroupItem value="mine" className="text-xs">Keep mine</ToggleGroupItem>
+                <ToggleGroupItem value="server" className="text-xs">Keep server</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Later</Button>
+          <Button onClick={handleResolve} disabled={isResolving}>
+            {isResolving ? "Syncing..." : "Apply and sync"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
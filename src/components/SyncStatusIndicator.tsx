@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CloudOff, CloudUpload, RefreshCw, CheckCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SyncStatusIndicatorProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflictCount: number;
+  unsubmittedCount: number;
+  onSyncNow: () => void;
+  onShowConflicts: () => void;
+}
+
+export function SyncStatusIndicator({
+  isOnline,
+  isSyncing,
+  pendingCount,
+  conflictCount,
+  unsubmittedCount,
+  onSyncNow,
+  onShowConflicts,
+}: SyncStatusIndicatorProps) {
+  if (conflictCount > 0) {
+    return (
+      <Button variant="outline" size="sm" onClick={onShowConflicts} className="gap-2 border-yellow-500 text-yellow-600">
+        <AlertTriangle className="h-4 w-4" />
+        {conflictCount} sync {conflictCount === 1 ? "conflict" : "conflicts"}
+      </Button>
+    );
+  }
+
+  const hasUnsynced = pendingCount > 0 || unsubmittedCount > 0;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <div
+        className={cn(
+          "flex items-center gap-2 rounded-full px-3 py-1",
+          !isOnline && "bg-muted text-muted-foreground",
+          isOnline && hasUnsynced && "bg-yellow-500/10 text-yellow-600",
+          isOnline && !hasUnsynced && "bg-green-500/10 text-green-600"
+        )}
+      >
+        {!isOnline ? (
+          <CloudOff className="h-4 w-4" />
+        ) : isSyncing ? (
+          <RefreshCw className="h-4 w-4 animate-spin" />
+        ) : hasUnsynced ? (
+          <CloudUpload className="h-4 w-4" />
+        ) : (
+          <CheckCircle className="h-4 w-4" />
+        )}
+        <span>
+          {!isOnline && "Offline"}
+          {isOnline && isSyncing && "Syncing..."}
+          {isOnline && !isSyncing && !hasUnsynced && "All changes synced"}
+          {isOnline && !isSyncing && hasUnsynced && "Not synced"}
+        </span>
+        {pendingCount > 0 && (
+          <span className="text-xs">· {pendingCount} queued</span>
+        )}
+        {unsubmittedCount > 0 && (
+          <span className="text-xs">· {unsubmittedCount} unsubmitted</span>
+        )}
+      </div>
+      {isOnline && pendingCount > 0 && !isSyncing && (
+        <Button variant="ghost" size="sm" onClick={onSyncNow}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Sync now
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ExternalLink, Send, Unlink } from "lucide-react";
+import { apiClient, type TelegramLinkCode, type TelegramLinkStatus } from "@/lib/api";
+
+// Links the signed-in staff account to a Telegram chat with the bot. The code
+// is only shown here, right after it is issued.
+export function TelegramLinkCard() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TelegramLinkStatus | null>(null);
+  const [linkCode, setLinkCode] = useState<TelegramLinkCode | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await apiClient.getTelegramLink());
+    } catch (error) {
+      console.error("Error fetching Telegram link:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleLink = async () => {
+    setIsWorking(true);
+    try {
+      setLinkCode(await apiClient.createTelegramLinkCode());
+    } catch (error) {
+      showError(error, "Failed to get a link code");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    setIsWorking(true);
+    try {
+      await apiClient.unlinkTelegram();
+      toast({ title: "Telegram unlinked" });
+      setLinkCode(null);
+      await fetchStatus();
+    } catch (error) {
+      showError(error, "Failed to unlink Telegram");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!status || !status.configured) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5 text-primary" />
+            Telegram
+          </CardTitle>
+          <CardDescription>
+            Check today's attendance and submit your section's marks from Telegram
+          </CardDescription>
+        </div>
+        <Badge variant={status.linked ? "default" : "secondary"}>
+          {status.linked ? "Linked" : "Not linked"}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {linkCode && (
+          <div className="rounded-lg border p-3 space-y-2 text-sm">
+            <p>
+              Send this to {linkCode.botUsername ? `@${linkCode.botUsername}` : "the school's bot"} before{" "}
+              {new Date(linkCode.expiresAt).toLocaleTimeString()}:
+            </p>
+            <p className="font-mono text-lg tracking-widest">/link {linkCode.code}</p>
+            {linkCode.link && (
+              <a
+                href={linkCode.link}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 text-primary underline"
+              >
+                Open in Telegram
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+            <Button size="sm" variant="outline" onClick={() => { setLinkCode(null); fetchStatus(); }}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button size="sm" disabled={isWorking} onClick={handleLink}>
+            {status.linked ? "Link another chat" : "Link Telegram"}
+          </Button>
+          {status.linked && (
+            <Button size="sm" variant="outline" disabled={isWorking} onClick={handleUnlink}>
+              <Unlink className="h-4 w-4 mr-2" />
+              Unlink
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
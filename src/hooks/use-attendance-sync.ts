@@ -0,0 +1,48 @@
+import * as React from "react";
+import {
+  discardQueued,
+  overrideLock,
+  resolveConflict,
+  startBackgroundSync,
+  subscribeToSynced,
+  subscribeToSyncState,
+  syncQueue,
+  type SyncState,
+} from "@/lib/attendanceSync";
+import type { QueuedSubmission } from "@/lib/offlineStore";
+
+export function useAttendanceSync(onSynced?: (submission: QueuedSubmission) => void) {
+  const [syncState, setSyncState] = React.useState<SyncState>({ queue: [], isSyncing: false });
+  const [isOnline, setIsOnline] = React.useState(navigator.onLine);
+  const onSyncedRef = React.useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  React.useEffect(() => subscribeToSyncState(setSyncState), []);
+
+  React.useEffect(() => subscribeToSynced(submission => onSyncedRef.current?.(submission)), []);
+
+  React.useEffect(() => startBackgroundSync(), []);
+
+  React.useEffect(() => {
+    const onOnline = () => setIsOnline(true);
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  return {
+    isOnline,
+    isSyncing: syncState.isSyncing,
+    pending: syncState.queue.filter(submission => submission.state === "pending"),
+    conflicts: syncState.queue.filter(submission => submission.state === "conflict"),
+    rejected: syncState.queue.filter(submission => submission.state === "rejected"),
+    syncNow: syncQueue,
+    resolveConflict,
+    overrideLock,
+    discardQueued,
+  };
+}
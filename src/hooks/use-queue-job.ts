@@ -0,0 +1,47 @@
+import * as React from "react";
+import { apiClient, type QueueJob } from "@/lib/api";
+
+// The first check comes after FIRST_POLL_MS and each wait after it is longer, up
+// to MAX_POLL_MS, so following a long job stays well inside the API rate limit
+const FIRST_POLL_MS = 3000;
+const MAX_POLL_MS = 30 * 1000;
+const POLL_BACKOFF = 1.5;
+
+// Follows a background job until it completes or dies, calling onUpdate with
+// each fresh copy. A null jobId follows nothing.
+export function useQueueJobPolling<TResult>(
+  jobId: string | null,
+  onUpdate: (job: QueueJob<TResult>) => void
+) {
+  const onUpdateRef = React.useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  React.useEffect(() => {
+    if (!jobId) return;
+
+    let cancelled = false;
+    let delay = FIRST_POLL_MS;
+    let timer: number;
+
+    const poll = async () => {
+      try {
+        const { job } = await apiClient.getQueueJob<TResult>(jobId);
+        if (cancelled) return;
+        onUpdateRef.current(job);
+        if (job.status === "completed" || job.status === "dead") return;
+      } catch (error) {
+        console.error("Error polling job:", error);
+      }
+      if (cancelled) return;
+
+      delay = Math.min(delay * POLL_BACKOFF, MAX_POLL_MS);
+      timer = window.setTimeout(poll, delay);
+    };
+
+    timer = window.setTimeout(poll, delay);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [jobId]);
+}
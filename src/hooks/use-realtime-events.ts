@@ -0,0 +1,45 @@
+import * as React from "react";
+import { subscribeToEvents, subscribeToStatus, type RealtimeStatus } from "@/lib/realtime";
+import type { RealtimeEvent } from "@/lib/api";
+
+// Calls onEvent for every live event the user may see, and with null when some
+// may have been missed. Returns the connection's status.
+export function useRealtimeEvents(onEvent: (event: RealtimeEvent | null) => void) {
+  const [status, setStatus] = React.useState<RealtimeStatus>("stopped");
+  const onEventRef = React.useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  React.useEffect(() => subscribeToEvents(event => onEventRef.current(event)), []);
+
+  React.useEffect(() => subscribeToStatus(setStatus), []);
+
+  return status;
+}
+
+// Calls refresh shortly after events `matches` accepts, once for a burst of them,
+// and after a resync
+export function useLiveRefresh(
+  refresh: () => void,
+  matches: (event: RealtimeEvent) => boolean,
+  delayMs = 1000
+) {
+  const refreshRef = React.useRef(refresh);
+  refreshRef.current = refresh;
+  const matchesRef = React.useRef(matches);
+  matchesRef.current = matches;
+  const timer = React.useRef<number | null>(null);
+
+  React.useEffect(() => () => {
+    if (timer.current !== null) window.clearTimeout(timer.current);
+  }, []);
+
+  return useRealtimeEvents(event => {
+    if (event && !matchesRef.current(event)) return;
+    if (timer.current !== null) return;
+
+    timer.current = window.setTimeout(() => {
+      timer.current = null;
+      refreshRef.current();
+    }, delayMs);
+  });
+}
@@ -21,6 +21,7 @@ export type Database = {
           id: string
           notes: string | null
           proof_url: string | null
+          reason_code: string | null
           section_id: string
           status: string
           student_id: string
@@ -33,6 +34,7 @@ export type Database = {
           id?: string
           notes?: string | null
           proof_url?: string | null
+          reason_code?: string | null
           section_id: string
           status: string
           student_id: string
@@ -45,6 +47,7 @@ export type Database = {
           id?: string
           notes?: string | null
           proof_url?: string | null
+          reason_code?: string | null
           section_id?: string
           status?: string
           student_id?: string
@@ -75,6 +78,111 @@ export type Database = {
           },
         ]
       }
+      attendance_finalizations: {
+        Row: {
+          date: string
+          finalized_at: string
+          finalized_by: string
+          id: string
+          section_id: string
+        }
+        Insert: {
+          date: string
+          finalized_at?: string
+          finalized_by: string
+          id?: string
+          section_id: string
+        }
+        Update: {
+          date?: string
+          finalized_at?: string
+          finalized_by?: string
+          id?: string
+          section_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_finalizations_finalized_by_fkey"
+            columns: ["finalized_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_finalizations_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_lock_overrides: {
+        Row: {
+          created_at: string
+          date: string
+          expires_at: string
+          id: string
+          reason: string
+          section_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          expires_at: string
+          id?: string
+          reason: string
+          section_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          expires_at?: string
+          id?: string
+          reason?: string
+          section_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_lock_overrides_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_lock_overrides_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_settings: {
+        Row: {
+          cutoff_time: string
+          id: boolean
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          cutoff_time?: string
+          id?: boolean
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          cutoff_time?: string
+          id?: boolean
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       audit_logs: {
         Row: {
           action: string
@@ -116,6 +224,53 @@ export type Database = {
           },
         ]
       }
+      calendar_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          end_date: string
+          grade_levels: string[]
+          id: string
+          start_date: string
+          title: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date: string
+          grade_levels?: string[]
+          id?: string
+          start_date: string
+          title: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string
+          grade_levels?: string[]
+          id?: string
+          start_date?: string
+          title?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_events_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -143,6 +298,61 @@ export type Database = {
         }
         Relationships: []
       }
+      section_assignments: {
+        Row: {
+          assigned_by: string
+          beadle_id: string
+          created_at: string
+          end_date: string | null
+          id: string
+          section_id: string
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_by: string
+          beadle_id: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          section_id: string
+          start_date?: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_by?: string
+          beadle_id?: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          section_id?: string
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "section_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "section_assignments_beadle_id_fkey"
+            columns: ["beadle_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "section_assignments_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sections: {
         Row: {
           adviser_id: string | null
@@ -223,32 +433,44 @@ export type Database = {
       students: {
         Row: {
           created_at: string
+          enrollment_status: string
           first_name: string
           id: string
           last_name: string
+          left_on: string | null
           middle_name: string | null
           section_id: string
+          sex: string | null
           student_number: string
+          transferred_in_on: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
+          enrollment_status?: string
           first_name: string
           id?: string
           last_name: string
+          left_on?: string | null
           middle_name?: string | null
           section_id: string
+          sex?: string | null
           student_number: string
+          transferred_in_on?: string | null
           updated_at?: string
         }
         Update: {
           created_at?: string
+          enrollment_status?: string
           first_name?: string
           id?: string
           last_name?: string
+          left_on?: string | null
           middle_name?: string | null
           section_id?: string
+          sex?: string | null
           student_number?: string
+          transferred_in_on?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -261,12 +483,52 @@ export type Database = {
           },
         ]
       }
+      weekend_rules: {
+        Row: {
+          created_at: string
+          day_of_week: number
+          description: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week: number
+          description?: string | null
+          id?: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number
+          description?: string | null
+          id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      attendance_cutoff_at: {
+        Args: { _date: string }
+        Returns: string
+      }
+      is_attendance_finalized: {
+        Args: { _section_id: string; _date: string }
+        Returns: boolean
+      }
+      is_assigned_beadle: {
+        Args: { _section_id: string; _date?: string }
+        Returns: boolean
+      }
+      is_school_day: {
+        Args: { _date: string; _grade_level?: string }
+        Returns: boolean
+      }
+      override_attendance_lock: {
+        Args: { _section_id: string; _date: string; _reason: string }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "beadle" | "adviser" | "coordinator" | "admin"
@@ -1,4 +1,623 @@
 // API Client for POD AI Monitoring Backend
+import type { AttendanceStatus, ReasonCode } from './attendanceStatus';
+
+// Carries the HTTP status and response body so callers can act on error codes
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  body: Record<string, unknown>;
+
+  constructor(status: number, body: Record<string, unknown>) {
+    super(typeof body.error === 'string' ? body.error : `HTTP ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = typeof body.code === 'string' ? body.code : undefined;
+    this.body = body;
+  }
+}
+
+export interface AttendanceConflict {
+  studentId: string;
+  baseline: AttendanceStatus | null;
+  server: { status: AttendanceStatus; reasonCode: ReasonCode | null; updatedAt: string; submittedBy: string } | null;
+  submitted: { status: AttendanceStatus; reasonCode: ReasonCode | null };
+}
+
+export interface AttendanceLock {
+  sectionId: string;
+  date: string;
+  finalized: boolean;
+  finalizedBy: 'manual' | 'cutoff' | null;
+  finalizedAt: string | null;
+  finalizer: { id: string; fullName: string } | null;
+  cutoffAt: string;
+}
+
+export interface AttendanceDatePolicy {
+  maxDaysBack: number;
+  earliestDate: string;
+  today: string;
+  nonSchoolDays: { date: string; reason: string; type: CalendarEventType | 'weekend' }[];
+  // Upcoming approved leave; future dates are open only for these students
+  leaves: { studentId: string; startDate: string; endDate: string }[];
+}
+
+export interface StudentLeave {
+  id: string;
+  studentId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  approvedBy: string;
+  createdAt: string;
+  student: { id: string; studentNumber: string; firstName: string; lastName: string; sectionId: string };
+  approver: { id: string; fullName: string };
+}
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AttendanceChangeRequest {
+  id: string;
+  attendanceRecordId: string;
+  proposedStatus: AttendanceStatus;
+  proposedReasonCode: ReasonCode | null;
+  reason: string;
+  status: ChangeRequestStatus;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  attendanceRecord: {
+    id: string;
+    date: string;
+    status: AttendanceStatus;
+    reasonCode: ReasonCode | null;
+    student: { id: string; studentNumber: string; firstName: string; lastName: string };
+    section: { id: string; name: string; gradeLevel: string; adviserId: string | null };
+    session: { id: string; subject: string; startTime: string; endTime: string } | null;
+  };
+  requester: { id: string; fullName: string; role: string };
+  reviewer: { id: string; fullName: string; role: string } | null;
+  proofFile: { id: string; name: string; url: string; type: string } | null;
+}
+
+export type ExcuseLetterStatus = 'pending' | 'approved' | 'rejected';
+
+export type ExcuseLetterAuthor = 'guardian' | 'student' | 'beadle';
+
+export interface ExcuseLetter {
+  id: string;
+  studentId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  proofUrl: string;
+  authorType: ExcuseLetterAuthor;
+  authorName: string | null;
+  status: ExcuseLetterStatus;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  student: {
+    id: string;
+    studentNumber: string;
+    firstName: string;
+    lastName: string;
+    section: { id: string; name: string; gradeLevel: string; adviserId: string | null };
+  };
+  submitter: { id: string; fullName: string; role: string };
+  reviewer: { id: string; fullName: string; role: string } | null;
+  // Status history, oldest first
+  events: {
+    id: string;
+    status: ExcuseLetterStatus;
+    comment: string | null;
+    createdAt: string;
+    actor: { id: string; fullName: string; role: string };
+  }[];
+  _count: { attendanceRecords: number };
+}
+
+export type AlertRuleType = 'consecutive_absences' | 'low_attendance_rate' | 'missing_submission' | 'weekday_absences';
+
+export type AlertSeverity = 'low' | 'medium' | 'high';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+// Thresholds for each rule type
+export interface AlertRuleParams {
+  consecutive_absences: { days: number };
+  low_attendance_rate: { threshold: number; schoolDays: number };
+  missing_submission: { time: string };
+  weekday_absences: { weekday: number; threshold: number; schoolDays: number };
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  params: AlertRuleParams[AlertRuleType];
+  // Neither set: the rule covers the whole school
+  sectionId: string | null;
+  gradeLevel: string | null;
+  isActive: boolean;
+  createdAt: string;
+  section: { id: string; name: string; gradeLevel: string } | null;
+  creator: { id: string; fullName: string };
+}
+
+export interface AlertEvaluationSummary {
+  rules: number;
+  raised: number;
+  updated: number;
+  cleared: number;
+}
+
+export interface Alert {
+  id: string;
+  key: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  count: number;
+  status: AlertStatus;
+  lastDetectedAt: string;
+  clearedAt: string | null;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+  resolutionNote: string | null;
+  createdAt: string;
+  rule: { id: string; name: string; type: AlertRuleType };
+  section: { id: string; name: string; gradeLevel: string; adviserId: string | null };
+  student: { id: string; studentNumber: string; firstName: string; lastName: string } | null;
+  acknowledger: { id: string; fullName: string } | null;
+  // null when the alert resolved itself once its condition cleared
+  resolver: { id: string; fullName: string } | null;
+}
+
+export type GuardianChannel = 'sms' | 'email' | 'telegram';
+
+export type GuardianNotificationStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'skipped' | 'cancelled';
+
+export type SmsDeliveryStatus = 'pending' | 'delivered' | 'undelivered';
+
+export interface SmsUsage {
+  month: string;
+  messages: number;
+  segments: number;
+  // null when there is no monthly limit
+  quota: number | null;
+  estimatedCost: number;
+  costPerSegment: number;
+  currency: string;
+  delivery: Record<SmsDeliveryStatus, number>;
+  // null when no SMS provider is configured
+  provider: string | null;
+  optedOutGuardians: number;
+}
+
+export interface TelegramLinkStatus {
+  // false when the server has no bot token
+  configured: boolean;
+  linked: boolean;
+  botUsername: string | null;
+}
+
+export interface TelegramLinkCode {
+  code: string;
+  expiresAt: string;
+  botUsername: string | null;
+  // t.me link that opens the bot with the code filled in
+  link: string | null;
+}
+
+export interface Guardian {
+  id: string;
+  studentId: string;
+  name: string;
+  relationship: string;
+  phone: string | null;
+  email: string | null;
+  telegramChatId: string | null;
+  preferredChannel: GuardianChannel;
+  // Set while the guardian has opted out of SMS
+  smsOptedOutAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Parent portal account, when the guardian has one
+  user: { id: string; email: string } | null;
+}
+
+export interface GuardianNotification {
+  id: string;
+  date: string;
+  event: 'absent' | 'late';
+  // null when the guardian had no contact on a configured channel
+  channel: GuardianChannel | null;
+  recipient: string | null;
+  subject: string | null;
+  message: string;
+  status: GuardianNotificationStatus;
+  scheduledFor: string;
+  attempts: number;
+  lastAttemptAt: string | null;
+  error: string | null;
+  sentAt: string | null;
+  // SMS only: message parts, estimated cost and what the gateway reported back
+  segments: number | null;
+  cost: number | null;
+  deliveryStatus: SmsDeliveryStatus | null;
+  deliveryError: string | null;
+  deliveryUpdatedAt: string | null;
+  createdAt: string;
+  guardian: { id: string; name: string; relationship: string };
+  student: { id: string; studentNumber: string; firstName: string; lastName: string; sectionId: string };
+}
+
+export interface MessageTemplate {
+  key: string;
+  channel: GuardianChannel;
+  subject: string | null;
+  body: string;
+  variables: string[];
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+export type EmailStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export type EmailTemplate = 'absence_alert' | 'weekly_summary' | 'password_reset' | 'report_delivery';
+
+export interface OutboxEmail {
+  id: string;
+  template: EmailTemplate;
+  to: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  // When a queued email is next tried
+  scheduledFor: string;
+  lastAttemptAt: string | null;
+  sentAt: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface OutboxEmailDetail extends OutboxEmail {
+  text: string;
+  html: string;
+  messageId: string | null;
+  attachments: { filename: string; contentType: string; size: number }[];
+}
+
+export type ScheduledJobType = 'daily_summary' | 'weekly_report' | 'missing_submission_reminder' | 'monthly_archival';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface JobRun {
+  id: string;
+  scheduleId: string;
+  jobType: ScheduledJobType;
+  trigger: 'schedule' | 'manual';
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  // What the job reported, e.g. { queued: 12 }
+  result: Record<string, unknown> | null;
+  error: string | null;
+  schedule: { name: string };
+  // Set on manual runs
+  triggerer: { id: string; fullName: string } | null;
+}
+
+export interface JobSchedule {
+  id: string;
+  name: string;
+  description: string | null;
+  // Cron expression in school local time
+  schedule: string;
+  jobType: ScheduledJobType;
+  isActive: boolean;
+  lastRunAt: string | null;
+  // null while paused
+  nextRunAt: string | null;
+  running: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRun?: JobRun | null;
+}
+
+export type QueueName = 'notifications' | 'reports' | 'imports';
+
+export type QueueJobStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'dead';
+
+export interface QueueJob<TResult = Record<string, unknown>> {
+  id: string;
+  queue: QueueName;
+  name: string;
+  data: Record<string, unknown>;
+  status: QueueJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // 0-100, with what the job is working on
+  progress: number;
+  progressMessage: string | null;
+  result: TResult | null;
+  // The last failed attempt's error
+  error: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  // When a waiting or delayed job may start
+  runAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  heartbeatAt: string | null;
+}
+
+export interface QueueSummary {
+  name: QueueName;
+  concurrency: number;
+  attempts: number;
+  backoffMs: number;
+  counts: Record<QueueJobStatus, number>;
+}
+
+export interface Sf2BatchResult {
+  month: string;
+  format: 'xlsx' | 'pdf';
+  gradeLevel: string | null;
+  sections: number;
+  files: { id: string; name: string; url: string }[];
+}
+
+export interface StudentImportResult {
+  sectionId: string;
+  total: number;
+  created: number;
+  // One line per row that was not added
+  errors: string[];
+}
+
+export type RealtimeEventType =
+  | 'attendance.submitted'
+  | 'attendance.updated'
+  | 'alert.raised'
+  | 'checkin.received'
+  | 'excuse.reviewed';
+
+export interface RealtimeEvent {
+  id: string;
+  type: RealtimeEventType;
+  sectionId: string;
+  at: string;
+  // attendance: date, sessionId, marked, absent, late; alert: alertId, severity,
+  // title, message; check-in: studentName; excuse: excuseLetterId, status
+  data: Record<string, unknown>;
+}
+
+export interface TodaySectionStats {
+  id: string;
+  name: string;
+  gradeLevel: string;
+  students: number;
+  marked: number;
+  present: number;
+  late: number;
+  absent: number;
+  completionRate: number;
+  activeAlerts: number;
+}
+
+export interface TodayAttendance {
+  date: string;
+  totals: Omit<TodaySectionStats, 'id' | 'name' | 'gradeLevel'> & { sections: number; sectionsSubmitted: number };
+  sections: TodaySectionStats[];
+}
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  userId: string;
+  action: string;
+  tableName: string;
+  recordId: string | null;
+  oldData: unknown;
+  newData: unknown;
+  // Fields that differ between oldData and newData
+  changes: AuditChange[];
+  createdAt: string;
+  user: { id: string; fullName: string; email: string; role: string };
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  table?: string;
+  recordId?: string;
+  startDate?: string;
+  endDate?: string;
+  // Searched for in the old and new data
+  q?: string;
+}
+
+export interface ParentStudent {
+  id: string;
+  studentNumber: string;
+  firstName: string;
+  lastName: string;
+  relationship: string;
+  section: { id: string; name: string; gradeLevel: string; adviser: { fullName: string } | null };
+}
+
+export interface AttendanceSummary {
+  totalRecords: number;
+  presentRecords: number;
+  lateRecords: number;
+  halfDayRecords: number;
+  excusedRecords: number;
+  absentRecords: number;
+  cuttingRecords: number;
+  unexcusedAbsences: number;
+  attendanceRate: number;
+}
+
+// Runs of marked days in the current term
+export interface AttendanceStreaks {
+  // Full days in class in a row, up to the latest marked day
+  currentPresent: number;
+  longestPresent: number;
+  // Days missed in a row, up to the latest marked day
+  currentAbsent: number;
+}
+
+export interface ParentAttendanceDay {
+  date: string;
+  schoolDay: boolean;
+  // Holiday, suspension or weekend name when there was no class
+  closure: string | null;
+  status: AttendanceStatus | null;
+  reasonCode: ReasonCode | null;
+  remarks: string[];
+}
+
+export interface ParentExcuseLetter {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  status: ExcuseLetterStatus;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  reviewer: { fullName: string } | null;
+}
+
+export interface StudentProfile {
+  id: string;
+  studentNumber: string;
+  firstName: string;
+  lastName: string;
+  section: { id: string; name: string; gradeLevel: string; adviser: { fullName: string } | null };
+}
+
+export interface StudentAccountStatus {
+  id: string;
+  studentNumber: string;
+  firstName: string;
+  lastName: string;
+  account: {
+    email: string;
+    isActive: boolean;
+    // The first password hasn't been set with the setup code yet
+    pendingSetup: boolean;
+    setupExpiresAt: string | null;
+  } | null;
+}
+
+export interface StudentSetupCode {
+  id: string;
+  studentNumber: string;
+  firstName: string;
+  lastName: string;
+  setupCode: string;
+  setupExpiresAt: string;
+}
+
+export interface Sf4Figure {
+  male: number;
+  female: number;
+  total: number;
+}
+
+export interface Sf4Row {
+  gradeLevel: string;
+  // null on grade-level and school totals
+  section: { id: string; name: string; adviser: string | null } | null;
+  enrolment: Sf4Figure;
+  averageDailyAttendance: Sf4Figure;
+  percentageOfAttendance: Sf4Figure;
+  absentFiveDays: Sf4Figure;
+  droppedOut: { month: Sf4Figure; cumulative: Sf4Figure };
+  transferredOut: { month: Sf4Figure; cumulative: Sf4Figure };
+  transferredIn: { month: Sf4Figure; cumulative: Sf4Figure };
+}
+
+export interface Sf4Report {
+  month: string;
+  monthLabel: string;
+  grades: { gradeLevel: string; sections: Sf4Row[]; total: Sf4Row }[];
+  total: Sf4Row;
+}
+
+export type EnrollmentStatus = 'enrolled' | 'dropped_out' | 'transferred_out';
+
+export type CalendarEventType = 'holiday' | 'suspension' | 'non_school_day' | 'school_day';
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  type: CalendarEventType;
+  startDate: string;
+  endDate: string;
+  gradeLevels: string[];
+  description: string | null;
+}
+
+export interface SectionAssignment {
+  id: string;
+  sectionId: string;
+  beadleId: string;
+  startDate: string;
+  // null while the assignment is open-ended
+  endDate: string | null;
+  assignedBy: string;
+  createdAt: string;
+  section: { id: string; name: string; gradeLevel: string; schoolYear: string };
+  beadle: { id: string; fullName: string; email: string };
+  assigner: { id: string; fullName: string };
+}
+
+export interface CheckInSession {
+  id: string;
+  sectionId: string;
+  date: string;
+  createdBy: string;
+  closedAt: string | null;
+  createdAt: string;
+  section: { id: string; name: string; gradeLevel: string; adviserId: string | null };
+}
+
+export interface CheckIn {
+  id: string;
+  sessionId: string;
+  studentId: string;
+  checkedInAt: string;
+  student: { id: string; studentNumber: string; firstName: string; lastName: string };
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 class ApiClient {
@@ -20,6 +639,10 @@ class ApiClient {
     localStorage.removeItem('auth_token');
   }
 
+  hasToken() {
+    return this.token !== null;
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -44,12 +667,26 @@ class ApiClient {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Network error' }));
-      throw new Error(error.error || `HTTP ${response.status}`);
+      throw new ApiError(response.status, error);
     }
 
     return response.json();
   }
 
+  // Same as request, for endpoints that send back a file
+  private async requestBlob(endpoint: string) {
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Network error' }));
+      throw new ApiError(response.status, error);
+    }
+
+    return response.blob();
+  }
+
   // Authentication
   async login(email: string, password: string) {
     const response = await this.request<{
@@ -80,60 +717,1052 @@ class ApiClient {
       body: JSON.stringify(userData),
     });
 
-    this.setToken(response.token);
-    return response;
+    this.setToken(response.token);
+    return response;
+  }
+
+  async studentLogin(studentNumber: string, password: string) {
+    const response = await this.request<{
+      message: string;
+      user: { id: string; email: string; fullName: string; role: string };
+      token: string;
+    }>('/auth/student-login', {
+      method: 'POST',
+      body: JSON.stringify({ studentNumber, password }),
+    });
+
+    this.setToken(response.token);
+    return response;
+  }
+
+  async setupStudentPassword(data: { studentNumber: string; setupCode: string; password: string }) {
+    const response = await this.request<{
+      message: string;
+      user: { id: string; email: string; fullName: string; role: string };
+      token: string;
+    }>('/auth/student-setup', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    this.setToken(response.token);
+    return response;
+  }
+
+  async getProfile() {
+    return this.request<{ user: any }>('/auth/profile');
+  }
+
+  async updateProfile(data: { fullName?: string; email?: string }) {
+    return this.request<{ message: string; user: any }>('/auth/profile', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async changePassword(data: { currentPassword: string; newPassword: string }) {
+    return this.request<{ message: string }>('/auth/change-password', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async requestPasswordReset(email: string) {
+    return this.request<{ message: string }>('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(data: { token: string; password: string }) {
+    return this.request<{ message: string }>('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async logout() {
+    this.clearToken();
+  }
+
+  // Attendance
+  async markAttendance(data: {
+    sectionId: string;
+    sessionId?: string;
+    date: string;
+    records: Array<{
+      studentId: string;
+      status: AttendanceStatus;
+      reasonCode?: ReasonCode;
+      proofUrl?: string;
+      notes?: string;
+    }>;
+    overrideReason?: string;
+  }) {
+    return this.request<{
+      message: string;
+      recordsCreated: number;
+      date: string;
+      sectionId: string;
+      sessionId: string | null;
+      lock: AttendanceLock;
+    }>('/attendance/mark', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resubmitAttendance(data: {
+    sectionId: string;
+    sessionId?: string;
+    date: string;
+    records: Array<{
+      studentId: string;
+      status: AttendanceStatus;
+      reasonCode?: ReasonCode;
+      proofUrl?: string;
+      notes?: string;
+    }>;
+    baseline?: Array<{ studentId: string; status: AttendanceStatus | null }>;
+    overrideReason?: string;
+  }) {
+    return this.request<{
+      message: string;
+      date: string;
+      sectionId: string;
+      sessionId: string | null;
+      diff: {
+        added: Array<{ studentId: string; status: AttendanceStatus }>;
+        changed: Array<{
+          studentId: string;
+          before: { status: AttendanceStatus; reasonCode: ReasonCode | null; proofUrl: string | null; notes: string | null };
+          after: { status: AttendanceStatus; reasonCode: ReasonCode | null; proofUrl: string | null; notes: string | null };
+        }>;
+        unchanged: string[];
+      };
+      lock: AttendanceLock;
+    }>('/attendance/mark', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getAttendance(params?: {
+    sectionId?: string;
+    sessionId?: string;
+    subject?: string;
+    startDate?: string;
+    endDate?: string;
+    studentId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      records: any[];
+      pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        pages: number;
+      };
+    }>(`/attendance?${searchParams.toString()}`);
+  }
+
+  async getAttendanceStats(params?: {
+    sectionId?: string;
+    sessionId?: string;
+    subject?: string;
+    startDate?: string;
+    endDate?: string;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      totalRecords: number;
+      presentRecords: number;
+      lateRecords: number;
+      halfDayRecords: number;
+      excusedRecords: number;
+      absentRecords: number;
+      cuttingRecords: number;
+      unexcusedAbsences: number;
+      attendanceRate: number;
+      daysOfSchool: number;
+    }>(`/attendance/stats?${searchParams.toString()}`);
+  }
+
+  async updateAttendance(id: string, data: {
+    status?: AttendanceStatus;
+    reasonCode?: ReasonCode | null;
+    notes?: string;
+    overrideReason?: string;
+  }) {
+    return this.request<{
+      message: string;
+      record: any;
+    }>(`/attendance/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteAttendance(id: string, overrideReason?: string) {
+    return this.request<{ message: string }>(`/attendance/${id}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ overrideReason }),
+    });
+  }
+
+  async getAttendanceLock(sectionId: string, date: string) {
+    return this.request<{ lock: AttendanceLock }>(
+      `/attendance/lock?${new URLSearchParams({ sectionId, date }).toString()}`
+    );
+  }
+
+  async finalizeAttendance(sectionId: string, date?: string) {
+    return this.request<{
+      message: string;
+      lock: AttendanceLock;
+    }>(`/sections/${sectionId}/finalize`, {
+      method: 'POST',
+      body: JSON.stringify({ date }),
+    });
+  }
+
+  async getAttendancePolicy(sectionId: string) {
+    return this.request<{ policy: AttendanceDatePolicy }>(
+      `/attendance/policy?${new URLSearchParams({ sectionId }).toString()}`
+    );
+  }
+
+  // Attendance change requests
+  async getChangeRequests(params?: {
+    status?: ChangeRequestStatus;
+    sectionId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      requests: AttendanceChangeRequest[];
+      pagination: Pagination;
+    }>(`/attendance-change-requests?${searchParams.toString()}`);
+  }
+
+  async createChangeRequest(data: {
+    attendanceRecordId: string;
+    proposedStatus: AttendanceStatus;
+    proposedReasonCode?: ReasonCode;
+    reason: string;
+    proofFileId?: string;
+  }) {
+    return this.request<{
+      message: string;
+      request: AttendanceChangeRequest;
+    }>('/attendance-change-requests', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async approveChangeRequest(id: string, comment?: string) {
+    return this.request<{
+      message: string;
+      request: AttendanceChangeRequest;
+      record: any;
+    }>(`/attendance-change-requests/${id}/approve`, {
+      method: 'PUT',
+      body: JSON.stringify({ comment }),
+    });
+  }
+
+  async rejectChangeRequest(id: string, comment: string) {
+    return this.request<{
+      message: string;
+      request: AttendanceChangeRequest;
+    }>(`/attendance-change-requests/${id}/reject`, {
+      method: 'PUT',
+      body: JSON.stringify({ comment }),
+    });
+  }
+
+  // Excuse letters
+  async getExcuseLetters(params?: {
+    status?: ExcuseLetterStatus;
+    sectionId?: string;
+    studentId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      letters: ExcuseLetter[];
+      pagination: Pagination;
+    }>(`/excuse-letters?${searchParams.toString()}`);
+  }
+
+  async getExcuseLetter(id: string) {
+    return this.request<{
+      letter: ExcuseLetter & {
+        attendanceRecords: { id: string; date: string; sessionId: string | null; status: AttendanceStatus }[];
+      };
+    }>(`/excuse-letters/${id}`);
+  }
+
+  async submitExcuseLetter(data: {
+    studentId: string;
+    startDate: string;
+    endDate?: string;
+    reason: string;
+    proofUrl: string;
+    authorType: ExcuseLetterAuthor;
+    authorName?: string;
+  }) {
+    return this.request<{
+      message: string;
+      letter: ExcuseLetter;
+    }>('/excuse-letters', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async approveExcuseLetter(id: string, comment?: string) {
+    return this.request<{
+      message: string;
+      letter: ExcuseLetter;
+      excusedRecordIds: string[];
+    }>(`/excuse-letters/${id}/approve`, {
+      method: 'PUT',
+      body: JSON.stringify({ comment }),
+    });
+  }
+
+  async rejectExcuseLetter(id: string, comment: string) {
+    return this.request<{
+      message: string;
+      letter: ExcuseLetter;
+    }>(`/excuse-letters/${id}/reject`, {
+      method: 'PUT',
+      body: JSON.stringify({ comment }),
+    });
+  }
+
+  // Alerts
+  async getAlerts(params?: {
+    // active covers open and acknowledged alerts (the default)
+    status?: AlertStatus | 'active';
+    severity?: AlertSeverity;
+    sectionId?: string;
+    studentId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      alerts: Alert[];
+      pagination: Pagination;
+    }>(`/alerts?${searchParams.toString()}`);
+  }
+
+  async acknowledgeAlert(id: string) {
+    return this.request<{
+      message: string;
+      alert: Alert;
+    }>(`/alerts/${id}/acknowledge`, {
+      method: 'PUT',
+    });
+  }
+
+  async resolveAlert(id: string, note?: string) {
+    return this.request<{
+      message: string;
+      alert: Alert;
+    }>(`/alerts/${id}/resolve`, {
+      method: 'PUT',
+      body: JSON.stringify({ note }),
+    });
+  }
+
+  // Alert rules
+  async getAlertRules() {
+    return this.request<{ rules: AlertRule[] }>('/alert-rules');
+  }
+
+  async createAlertRule(data: {
+    name: string;
+    type: AlertRuleType;
+    severity: AlertSeverity;
+    params: AlertRuleParams[AlertRuleType];
+    sectionId?: string | null;
+    gradeLevel?: string | null;
+    isActive?: boolean;
+  }) {
+    return this.request<{
+      message: string;
+      rule: AlertRule;
+      summary: AlertEvaluationSummary;
+    }>('/alert-rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateAlertRule(id: string, data: Partial<Pick<AlertRule, 'name' | 'type' | 'severity' | 'params' | 'sectionId' | 'gradeLevel' | 'isActive'>>) {
+    return this.request<{
+      message: string;
+      rule: AlertRule;
+      summary: AlertEvaluationSummary;
+    }>(`/alert-rules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteAlertRule(id: string) {
+    return this.request<{ message: string }>(`/alert-rules/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async evaluateAlertRules() {
+    return this.request<{
+      message: string;
+      summary: AlertEvaluationSummary;
+    }>('/alert-rules/evaluate', {
+      method: 'POST',
+    });
+  }
+
+  // Guardians
+  async getGuardians(studentId: string) {
+    return this.request<{ guardians: Guardian[] }>(`/guardians?studentId=${encodeURIComponent(studentId)}`);
+  }
+
+  async createGuardian(data: {
+    studentId: string;
+    name: string;
+    relationship: string;
+    phone?: string | null;
+    email?: string | null;
+    telegramChatId?: string | null;
+    preferredChannel: GuardianChannel;
+    smsOptOut?: boolean;
+  }) {
+    return this.request<{
+      message: string;
+      guardian: Guardian;
+    }>('/guardians', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateGuardian(
+    id: string,
+    data: Partial<Pick<Guardian, 'name' | 'relationship' | 'phone' | 'email' | 'telegramChatId' | 'preferredChannel'>> & { smsOptOut?: boolean }
+  ) {
+    return this.request<{
+      message: string;
+      guardian: Guardian;
+    }>(`/guardians/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async grantPortalAccess(id: string, data: { email: string; password?: string }) {
+    return this.request<{
+      message: string;
+      guardian: Guardian;
+    }>(`/guardians/${id}/portal-account`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async revokePortalAccess(id: string) {
+    return this.request<{
+      message: string;
+      guardian: Guardian;
+    }>(`/guardians/${id}/portal-account`, {
+      method: 'DELETE',
+    });
+  }
+
+  async deleteGuardian(id: string) {
+    return this.request<{ message: string }>(`/guardians/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getGuardianNotifications(params?: {
+    sectionId?: string;
+    studentId?: string;
+    date?: string;
+    status?: GuardianNotificationStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      notifications: GuardianNotification[];
+      pagination: Pagination;
+    }>(`/guardian-notifications?${searchParams.toString()}`);
+  }
+
+  async getMessageTemplates() {
+    return this.request<{ templates: MessageTemplate[] }>('/guardian-notifications/templates');
+  }
+
+  async updateMessageTemplate(key: string, channel: GuardianChannel, data: { subject?: string | null; body: string }) {
+    return this.request<{ message: string }>(`/guardian-notifications/templates/${key}/${channel}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resetMessageTemplate(key: string, channel: GuardianChannel) {
+    return this.request<{ message: string }>(`/guardian-notifications/templates/${key}/${channel}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSmsUsage(month?: string) {
+    return this.request<SmsUsage>(`/sms/usage${month ? `?month=${month}` : ''}`);
+  }
+
+  // Email outbox
+  async getEmailOutbox(params?: {
+    status?: EmailStatus;
+    template?: EmailTemplate;
+    to?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      emails: OutboxEmail[];
+      counts: Record<EmailStatus, number>;
+      smtpConfigured: boolean;
+      pagination: Pagination;
+    }>(`/email/outbox?${searchParams.toString()}`);
+  }
+
+  async getOutboxEmail(id: string) {
+    return this.request<{ email: OutboxEmailDetail }>(`/email/outbox/${id}`);
+  }
+
+  async retryOutboxEmail(id: string) {
+    return this.request<{ message: string }>(`/email/outbox/${id}/retry`, {
+      method: 'POST',
+    });
+  }
+
+  async sendWeeklySummaries(weekStart?: string) {
+    return this.request<{ message: string; weekStart: string; queued: number }>('/email/weekly-summaries', {
+      method: 'POST',
+      body: JSON.stringify(weekStart ? { weekStart } : {}),
+    });
+  }
+
+  // Scheduled jobs
+  async getSchedules() {
+    return this.request<{ schedules: JobSchedule[]; jobTypes: ScheduledJobType[] }>('/schedules');
+  }
+
+  async createSchedule(data: {
+    name: string;
+    description?: string | null;
+    schedule: string;
+    jobType: ScheduledJobType;
+    isActive?: boolean;
+  }) {
+    return this.request<{ message: string; schedule: JobSchedule }>('/schedules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateSchedule(id: string, data: {
+    name?: string;
+    description?: string | null;
+    schedule?: string;
+    isActive?: boolean;
+  }) {
+    return this.request<{ message: string; schedule: JobSchedule }>(`/schedules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async pauseSchedule(id: string) {
+    return this.request<{ message: string; schedule: JobSchedule }>(`/schedules/${id}/pause`, {
+      method: 'POST',
+    });
+  }
+
+  async resumeSchedule(id: string) {
+    return this.request<{ message: string; schedule: JobSchedule }>(`/schedules/${id}/resume`, {
+      method: 'POST',
+    });
+  }
+
+  async runSchedule(id: string) {
+    return this.request<{ message: string; run: JobRun }>(`/schedules/${id}/run`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteSchedule(id: string) {
+    return this.request<{ message: string }>(`/schedules/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getJobRuns(params?: {
+    scheduleId?: string;
+    jobType?: ScheduledJobType;
+    status?: JobRunStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{ runs: JobRun[]; pagination: Pagination }>(`/schedules/runs?${searchParams.toString()}`);
+  }
+
+  async getJobRun(id: string) {
+    return this.request<{ run: JobRun }>(`/schedules/runs/${id}`);
+  }
+
+  // Background jobs
+  async getQueueJobs(params?: {
+    queue?: QueueName;
+    status?: QueueJobStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      jobs: QueueJob[];
+      queues: QueueSummary[];
+      driver: string;
+      pagination: Pagination;
+    }>(`/jobs?${searchParams.toString()}`);
+  }
+
+  async getQueueJob<TResult = Record<string, unknown>>(id: string) {
+    return this.request<{ job: QueueJob<TResult> }>(`/jobs/${id}`);
+  }
+
+  async retryQueueJob(id: string) {
+    return this.request<{ message: string; job: QueueJob }>(`/jobs/${id}/retry`, {
+      method: 'POST',
+    });
+  }
+
+  // Live events, as a server-sent event stream to read with the response body
+  async openEventStream(lastEventId: string | null, signal: AbortSignal) {
+    const response = await fetch(`${this.baseURL}/events/stream`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+        ...(lastEventId && { 'Last-Event-ID': lastEventId }),
+      },
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({ error: 'Network error' }));
+      throw new ApiError(response.status, error);
+    }
+
+    return response.body;
+  }
+
+  // Audit log
+  async getAuditLogs(params?: AuditLogFilters & { cursor?: string; limit?: number }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      entries: AuditLogEntry[];
+      nextCursor: string | null;
+    }>(`/audit?${searchParams.toString()}`);
+  }
+
+  async getAuditFacets() {
+    return this.request<{
+      actions: string[];
+      tables: string[];
+      users: { id: string; fullName: string; email: string; role: string }[];
+    }>('/audit/facets');
+  }
+
+  async downloadAuditLog(params?: AuditLogFilters) {
+    const searchParams = new URLSearchParams({ format: 'csv' });
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.requestBlob(`/audit?${searchParams.toString()}`);
+  }
+
+  // Telegram bot
+  async getTelegramLink() {
+    return this.request<TelegramLinkStatus>('/telegram/link');
+  }
+
+  async createTelegramLinkCode() {
+    return this.request<TelegramLinkCode>('/telegram/link-code', {
+      method: 'POST',
+    });
+  }
+
+  async unlinkTelegram() {
+    return this.request<{ message: string }>('/telegram/link', {
+      method: 'DELETE',
+    });
+  }
+
+  // Parent portal
+  async getParentStudents() {
+    return this.request<{ students: ParentStudent[] }>('/parent/students');
+  }
+
+  async getParentAttendance(studentId: string, month?: string) {
+    return this.request<{
+      month: string;
+      days: ParentAttendanceDay[];
+      summary: AttendanceSummary;
+    }>(`/parent/students/${studentId}/attendance${month ? `?month=${month}` : ''}`);
+  }
+
+  async getParentSummary(studentId: string) {
+    return this.request<{
+      // start is null when no terms are configured
+      term: { start: string | null; end: string };
+      summary: AttendanceSummary;
+      streaks: AttendanceStreaks;
+    }>(`/parent/students/${studentId}/summary`);
+  }
+
+  async getParentExcuseLetters(studentId: string) {
+    return this.request<{ letters: ParentExcuseLetter[] }>(`/parent/students/${studentId}/excuse-letters`);
+  }
+
+  // Student portal
+  async getStudentPortalProfile() {
+    return this.request<{
+      student: StudentProfile;
+      checkedInToday: string | null;
+    }>('/student/me');
+  }
+
+  async getStudentAttendance(month?: string) {
+    return this.request<{
+      month: string;
+      days: ParentAttendanceDay[];
+      summary: AttendanceSummary;
+    }>(`/student/attendance${month ? `?month=${month}` : ''}`);
+  }
+
+  async getStudentSummary() {
+    return this.request<{
+      // start is null when no terms are configured
+      term: { start: string | null; end: string };
+      summary: AttendanceSummary;
+      streaks: AttendanceStreaks;
+    }>('/student/summary');
+  }
+
+  async getStudentExcuseLetters() {
+    return this.request<{ letters: ParentExcuseLetter[] }>('/student/excuse-letters');
+  }
+
+  async submitStudentExcuseLetter(file: File, data: { startDate: string; endDate?: string; reason: string }) {
+    const formData = new FormData();
+    formData.append('file', file);
+    Object.entries(data).forEach(([key, value]) => {
+      if (value) {
+        formData.append(key, value);
+      }
+    });
+
+    const response = await fetch(`${this.baseURL}/student/excuse-letters`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Network error' }));
+      throw new ApiError(response.status, error);
+    }
+
+    return response.json() as Promise<{ message: string; letter: { id: string } }>;
+  }
+
+  async studentCheckIn(token: string) {
+    return this.request<{
+      message: string;
+      student: { firstName: string; lastName: string };
+      checkedInAt: string;
+    }>('/student/check-in', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  // Sections
+  async getSections() {
+    return this.request<{ sections: any[] }>('/sections');
+  }
+
+  async getSection(id: string) {
+    return this.request<{ section: any }>(`/sections/${id}`);
+  }
+
+  async createSection(data: {
+    name: string;
+    gradeLevel: string;
+    schoolYear: string;
+    adviserId?: string;
+  }) {
+    return this.request<{
+      message: string;
+      section: any;
+    }>('/sections', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateSection(id: string, data: {
+    name?: string;
+    gradeLevel?: string;
+    schoolYear?: string;
+    adviserId?: string | null;
+  }) {
+    return this.request<{
+      message: string;
+      section: any;
+    }>(`/sections/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteSection(id: string) {
+    return this.request<{ message: string }>(`/sections/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSectionStudents(id: string) {
+    return this.request<{
+      section: any;
+      students: any[];
+    }>(`/sections/${id}/students`);
+  }
+
+  // Beadle section assignments
+  async getSectionAssignments(params?: { sectionId?: string; beadleId?: string; activeOn?: string }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{ assignments: SectionAssignment[] }>(`/section-assignments?${searchParams.toString()}`);
   }
 
-  async getProfile() {
-    return this.request<{ user: any }>('/auth/profile');
+  async getAssignableBeadles() {
+    return this.request<{ beadles: { id: string; fullName: string; email: string }[] }>('/section-assignments/beadles');
   }
 
-  async updateProfile(data: { fullName?: string; email?: string }) {
-    return this.request<{ message: string; user: any }>('/auth/profile', {
-      method: 'PUT',
+  async createSectionAssignment(data: {
+    sectionId: string;
+    beadleId: string;
+    startDate?: string;
+    endDate?: string | null;
+  }) {
+    return this.request<{
+      message: string;
+      assignment: SectionAssignment;
+    }>('/section-assignments', {
+      method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async changePassword(data: { currentPassword: string; newPassword: string }) {
-    return this.request<{ message: string }>('/auth/change-password', {
+  async updateSectionAssignment(id: string, data: { startDate?: string; endDate?: string | null }) {
+    return this.request<{
+      message: string;
+      assignment: SectionAssignment;
+    }>(`/section-assignments/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
-  async logout() {
-    this.clearToken();
+  async deleteSectionAssignment(id: string) {
+    return this.request<{ message: string }>(`/section-assignments/${id}`, {
+      method: 'DELETE',
+    });
   }
 
-  // Attendance
-  async markAttendance(data: {
+  // Class sessions (timetable)
+  async getClassSessions(params?: {
+    sectionId?: string;
+    teacherId?: string;
+    dayOfWeek?: number;
+    subject?: string;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{ sessions: any[] }>(`/class-sessions?${searchParams.toString()}`);
+  }
+
+  async createClassSession(data: {
     sectionId: string;
-    date: string;
-    records: Array<{
-      studentId: string;
-      status: 'present' | 'absent';
-      notes?: string;
-    }>;
+    subject: string;
+    teacherId?: string;
+    dayOfWeek: number;
+    startTime: string;
+    endTime: string;
   }) {
     return this.request<{
       message: string;
-      recordsCreated: number;
-      date: string;
-      sectionId: string;
-    }>('/attendance/mark', {
+      session: any;
+    }>('/class-sessions', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async getAttendance(params?: {
-    sectionId?: string;
+  async updateClassSession(id: string, data: {
+    subject?: string;
+    teacherId?: string | null;
+    dayOfWeek?: number;
+    startTime?: string;
+    endTime?: string;
+  }) {
+    return this.request<{
+      message: string;
+      session: any;
+    }>(`/class-sessions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteClassSession(id: string) {
+    return this.request<{ message: string }>(`/class-sessions/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // School calendar
+  async getCalendarEvents(params?: {
     startDate?: string;
     endDate?: string;
-    studentId?: string;
-    page?: number;
-    limit?: number;
+    type?: CalendarEventType;
+    gradeLevel?: string;
   }) {
     const searchParams = new URLSearchParams();
     if (params) {
@@ -144,19 +1773,75 @@ class ApiClient {
       });
     }
 
+    return this.request<{ events: CalendarEvent[] }>(`/calendar/events?${searchParams.toString()}`);
+  }
+
+  async createCalendarEvent(data: {
+    title: string;
+    type: CalendarEventType;
+    startDate: string;
+    endDate?: string;
+    gradeLevels?: string[];
+    description?: string;
+  }) {
     return this.request<{
-      records: any[];
-      pagination: {
-        page: number;
-        limit: number;
-        total: number;
-        pages: number;
-      };
-    }>(`/attendance?${searchParams.toString()}`);
+      message: string;
+      event: CalendarEvent;
+    }>('/calendar/events', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
   }
 
-  async getAttendanceStats(params?: {
+  async updateCalendarEvent(id: string, data: Partial<Omit<CalendarEvent, 'id'>>) {
+    return this.request<{
+      message: string;
+      event: CalendarEvent;
+    }>(`/calendar/events/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteCalendarEvent(id: string) {
+    return this.request<{ message: string }>(`/calendar/events/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSchoolDays(params: { startDate: string; endDate: string; gradeLevel?: string }) {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, value.toString());
+      }
+    });
+
+    return this.request<{
+      daysOfSchool: number;
+      schoolDays: string[];
+      nonSchoolDays: { date: string; reason: string; type: CalendarEventType | 'weekend' }[];
+    }>(`/calendar/school-days?${searchParams.toString()}`);
+  }
+
+  async getWeekendRules() {
+    return this.request<{ rules: { id: string; dayOfWeek: number; description: string | null }[] }>('/calendar/weekend-rules');
+  }
+
+  async updateWeekendRules(days: number[]) {
+    return this.request<{
+      message: string;
+      rules: { id: string; dayOfWeek: number; description: string | null }[];
+    }>('/calendar/weekend-rules', {
+      method: 'PUT',
+      body: JSON.stringify({ days }),
+    });
+  }
+
+  // Student leave
+  async getStudentLeaves(params?: {
     sectionId?: string;
+    studentId?: string;
     startDate?: string;
     endDate?: string;
   }) {
@@ -169,110 +1854,150 @@ class ApiClient {
       });
     }
 
-    return this.request<{
-      totalRecords: number;
-      presentRecords: number;
-      absentRecords: number;
-      attendanceRate: number;
-    }>(`/attendance/stats?${searchParams.toString()}`);
+    return this.request<{ leaves: StudentLeave[] }>(`/student-leaves?${searchParams.toString()}`);
   }
 
-  async updateAttendance(id: string, data: {
-    status?: 'present' | 'absent';
-    notes?: string;
+  async createStudentLeave(data: {
+    studentId: string;
+    startDate: string;
+    endDate?: string;
+    reason: string;
   }) {
     return this.request<{
       message: string;
-      record: any;
-    }>(`/attendance/${id}`, {
-      method: 'PUT',
+      leave: StudentLeave;
+    }>('/student-leaves', {
+      method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async deleteAttendance(id: string) {
-    return this.request<{ message: string }>(`/attendance/${id}`, {
+  async deleteStudentLeave(id: string) {
+    return this.request<{ message: string }>(`/student-leaves/${id}`, {
       method: 'DELETE',
     });
   }
 
-  // Sections
-  async getSections() {
-    return this.request<{ sections: any[] }>('/sections');
+  // Self check-in
+  async createCheckInSession(sectionId: string) {
+    return this.request<{
+      message: string;
+      session: CheckInSession;
+    }>('/check-in/sessions', {
+      method: 'POST',
+      body: JSON.stringify({ sectionId }),
+    });
   }
 
-  async getSection(id: string) {
-    return this.request<{ section: any }>(`/sections/${id}`);
+  async getCheckInToken(sessionId: string) {
+    return this.request<{
+      token: string;
+      expiresAt: string;
+      refreshInMs: number;
+      windowMs: number;
+    }>(`/check-in/sessions/${sessionId}/token`);
   }
 
-  async createSection(data: {
-    name: string;
-    gradeLevel: string;
-    schoolYear: string;
-    adviserId?: string;
-  }) {
+  async closeCheckInSession(sessionId: string) {
     return this.request<{
       message: string;
-      section: any;
-    }>('/sections', {
+      session: CheckInSession;
+    }>(`/check-in/sessions/${sessionId}/close`, {
+      method: 'PUT',
+    });
+  }
+
+  async getCheckIns(params: { sectionId: string; date?: string; since?: string }) {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, value.toString());
+      }
+    });
+
+    return this.request<{ checkIns: CheckIn[] }>(`/check-in?${searchParams.toString()}`);
+  }
+
+  async submitCheckIn(data: { token: string; studentNumber: string }) {
+    return this.request<{
+      message: string;
+      student: { firstName: string; lastName: string };
+      checkedInAt: string;
+    }>('/check-in', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async updateSection(id: string, data: {
-    name?: string;
-    gradeLevel?: string;
-    schoolYear?: string;
-    adviserId?: string | null;
+  // Students
+  async updateStudentEnrollment(id: string, data: {
+    status: EnrollmentStatus;
+    leftOn?: string | null;
+    transferredInOn?: string | null;
   }) {
     return this.request<{
       message: string;
-      section: any;
-    }>(`/sections/${id}`, {
+      student: {
+        id: string;
+        studentNumber: string;
+        firstName: string;
+        lastName: string;
+        sectionId: string;
+        enrollmentStatus: EnrollmentStatus;
+        leftOn: string | null;
+        transferredInOn: string | null;
+      };
+    }>(`/students/${id}/enrollment`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
-  async deleteSection(id: string) {
-    return this.request<{ message: string }>(`/sections/${id}`, {
-      method: 'DELETE',
-    });
+  async getStudentAccounts(sectionId: string) {
+    return this.request<{ students: StudentAccountStatus[] }>(`/students/accounts?sectionId=${sectionId}`);
   }
 
-  async getSectionStudents(id: string) {
+  async provisionStudentAccounts(sectionId: string) {
     return this.request<{
-      section: any;
-      students: any[];
-    }>(`/sections/${id}/students`);
+      message: string;
+      // Setup codes are only shown this once
+      accounts: StudentSetupCode[];
+      skipped: { id: string; studentNumber: string; firstName: string; lastName: string; reason: string }[];
+    }>('/students/accounts', {
+      method: 'POST',
+      body: JSON.stringify({ sectionId }),
+    });
   }
 
-  // Students (via CSV upload)
-  async uploadStudentsCSV(file: File, sectionId: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('sectionId', sectionId);
-
-    const response = await fetch(`${this.baseURL}/students/upload-csv`, {
+  async issueStudentSetupCode(studentId: string) {
+    return this.request<{
+      message: string;
+      setupCode: string;
+      setupExpiresAt: string;
+    }>(`/students/${studentId}/account/setup-code`, {
       method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.token}`,
-      },
-      body: formData,
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Network error' }));
-      throw new Error(error.error || `HTTP ${response.status}`);
-    }
-
-    return response.json();
+  // Students from a CSV upload, added by a background job
+  async importStudents(sectionId: string, students: {
+    studentNumber: string;
+    firstName: string;
+    lastName: string;
+    middleName?: string | null;
+    sex?: 'male' | 'female' | null;
+  }[]) {
+    return this.request<{ message: string; job: QueueJob<StudentImportResult> }>('/students/import', {
+      method: 'POST',
+      body: JSON.stringify({ sectionId, students }),
+    });
   }
 
   // Analytics
   async getAttendanceAnalytics(params?: {
     sectionId?: string;
+    sessionId?: string;
+    subject?: string;
     startDate?: string;
     endDate?: string;
     groupBy?: 'day' | 'week' | 'month';
@@ -290,20 +2015,38 @@ class ApiClient {
       summary: {
         totalRecords: number;
         presentRecords: number;
+        lateRecords: number;
+        halfDayRecords: number;
+        excusedRecords: number;
         absentRecords: number;
+        cuttingRecords: number;
+        unexcusedAbsences: number;
+        attendanceRate: number;
         overallAttendanceRate: number;
+        daysOfSchool: number;
       };
       trends: any[];
       studentPerformance: any[];
     }>(`/analytics/attendance?${searchParams.toString()}`);
   }
 
-  async getSectionAnalytics() {
-    return this.request<{ sections: any[] }>('/analytics/sections');
+  async getSectionAnalytics(params?: { startDate?: string; endDate?: string }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{ sections: any[] }>(`/analytics/sections?${searchParams.toString()}`);
   }
 
   async getTopAbsentStudents(params?: {
     limit?: number;
+    sessionId?: string;
+    subject?: string;
     startDate?: string;
     endDate?: string;
   }) {
@@ -337,6 +2080,70 @@ class ApiClient {
     }>(`/analytics/trends?${searchParams.toString()}`);
   }
 
+  async getTodayAttendance() {
+    return this.request<TodayAttendance>('/analytics/today');
+  }
+
+  // School forms
+  async downloadSf2(sectionId: string, month: string, format: 'xlsx' | 'pdf') {
+    const searchParams = new URLSearchParams({ sectionId, month, format });
+    return this.requestBlob(`/reports/sf2?${searchParams.toString()}`);
+  }
+
+  async saveSf2(data: { sectionId: string; month: string; format: 'xlsx' | 'pdf' }) {
+    return this.request<{
+      message: string;
+      file: { id: string; name: string; url: string; size: number; type: string };
+    }>('/reports/sf2', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async emailSf2(data: { sectionId: string; month: string; format: 'xlsx' | 'pdf'; to?: string }) {
+    return this.request<{ message: string; email: Pick<OutboxEmail, 'id' | 'to' | 'subject' | 'status' | 'createdAt'> }>('/reports/sf2/email', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async startSf2Batch(data: { month: string; format: 'xlsx' | 'pdf'; gradeLevel?: string }) {
+    return this.request<{ message: string; job: QueueJob<Sf2BatchResult> }>('/reports/sf2/batch', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getSf4(month: string, gradeLevel?: string) {
+    const searchParams = new URLSearchParams({ month, format: 'json' });
+    if (gradeLevel) searchParams.append('gradeLevel', gradeLevel);
+
+    return this.request<{ report: Sf4Report }>(`/reports/sf4?${searchParams.toString()}`);
+  }
+
+  async downloadSf4(month: string, format: 'xlsx' | 'pdf', gradeLevel?: string) {
+    const searchParams = new URLSearchParams({ month, format });
+    if (gradeLevel) searchParams.append('gradeLevel', gradeLevel);
+    return this.requestBlob(`/reports/sf4?${searchParams.toString()}`);
+  }
+
+  async saveSf4(data: { month: string; format: 'xlsx' | 'pdf'; gradeLevel?: string }) {
+    return this.request<{
+      message: string;
+      file: { id: string; name: string; url: string; size: number; type: string };
+    }>('/reports/sf4', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async emailSf4(data: { month: string; format: 'xlsx' | 'pdf'; gradeLevel?: string; to?: string }) {
+    return this.request<{ message: string; email: Pick<OutboxEmail, 'id' | 'to' | 'subject' | 'status' | 'createdAt'> }>('/reports/sf4/email', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   // Files
   async uploadFile(file: File, description?: string, category?: string) {
     const formData = new FormData();
@@ -354,7 +2161,7 @@ class ApiClient {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Network error' }));
-      throw new Error(error.error || `HTTP ${response.status}`);
+      throw new ApiError(response.status, error);
     }
 
     return response.json();
@@ -409,6 +2216,36 @@ class ApiClient {
     });
   }
 
+  // Notifications
+  async getNotifications(params?: { unread?: boolean; page?: number; limit?: number }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    return this.request<{
+      notifications: Notification[];
+      unreadCount: number;
+      pagination: Pagination;
+    }>(`/notifications?${searchParams.toString()}`);
+  }
+
+  async markNotificationRead(id: string) {
+    return this.request<{ notification: Notification }>(`/notifications/${id}/read`, {
+      method: 'PUT',
+    });
+  }
+
+  async markAllNotificationsRead() {
+    return this.request<{ message: string; count: number }>('/notifications/read-all', {
+      method: 'PUT',
+    });
+  }
+
   // Health Check
   async getHealthStatus() {
     return this.request<{
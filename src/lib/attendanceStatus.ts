@@ -0,0 +1,69 @@
+export type AttendanceStatus = 'present' | 'late' | 'half_day' | 'excused' | 'absent' | 'cutting';
+
+export type ReasonCode = 'sick' | 'family_emergency' | 'school_activity' | 'transportation' | 'weather' | 'other';
+
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string; color: string }[] = [
+  { value: 'present', label: 'Present', color: '#10b981' },
+  { value: 'late', label: 'Late', color: '#f59e0b' },
+  { value: 'half_day', label: 'Half Day', color: '#3b82f6' },
+  { value: 'excused', label: 'Excused', color: '#8b5cf6' },
+  { value: 'absent', label: 'Absent', color: '#ef4444' },
+  { value: 'cutting', label: 'Cutting', color: '#be123c' },
+];
+
+export const REASON_CODES: { value: ReasonCode; label: string }[] = [
+  { value: 'sick', label: 'Sick' },
+  { value: 'family_emergency', label: 'Family emergency' },
+  { value: 'school_activity', label: 'School activity' },
+  { value: 'transportation', label: 'Transportation' },
+  { value: 'weather', label: 'Weather' },
+  { value: 'other', label: 'Other' },
+];
+
+// Mirrors backend/src/utils/attendanceStatus.ts so client-side rates match the API
+const ATTENDANCE_WEIGHT: Record<AttendanceStatus, number> = {
+  present: 1,
+  late: 1,
+  half_day: 0.5,
+  excused: 0,
+  absent: 0,
+  cutting: 0,
+};
+
+export const getStatusLabel = (status: string) =>
+  ATTENDANCE_STATUSES.find(s => s.value === status)?.label ?? status;
+
+export const needsReason = (status?: AttendanceStatus) =>
+  status !== undefined && status !== 'present';
+
+export const isUnexcusedAbsence = (status: string) => status === 'absent' || status === 'cutting';
+
+export interface StatusSummary {
+  present: number;
+  late: number;
+  halfDay: number;
+  excused: number;
+  absent: number;
+  cutting: number;
+  unexcused: number;
+  total: number;
+  attendanceRate: number;
+}
+
+export const summarizeStatuses = (statuses: string[]): StatusSummary => {
+  const count = (status: AttendanceStatus) => statuses.filter(s => s === status).length;
+  const attended = statuses.reduce((sum, status) => sum + (ATTENDANCE_WEIGHT[status as AttendanceStatus] ?? 0), 0);
+  const total = statuses.length;
+
+  return {
+    present: count('present'),
+    late: count('late'),
+    halfDay: count('half_day'),
+    excused: count('excused'),
+    absent: count('absent'),
+    cutting: count('cutting'),
+    unexcused: statuses.filter(isUnexcusedAbsence).length,
+    total,
+    attendanceRate: total > 0 ? (attended / total) * 100 : 0,
+  };
+};
@@ -0,0 +1,215 @@
+// Background sync of attendance queued in IndexedDB to PUT /api/attendance/mark.
+// Submissions stay in the outbox until the API accepts them; a 409 conflict parks
+// the submission until the user picks a side for each conflicting student, and a
+// date the server won't accept, or a user it won't accept it from, parks it until
+// someone overrides the lock or discards it.
+import { apiClient, ApiError, type AttendanceConflict } from "./api";
+import { draftKey, offlineStore, type QueuedSubmission } from "./offlineStore";
+
+export type ConflictChoice = "mine" | "server";
+
+export interface SyncState {
+  queue: QueuedSubmission[];
+  isSyncing: boolean;
+}
+
+type StateListener = (state: SyncState) => void;
+type SyncedListener = (submission: QueuedSubmission) => void;
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// Errors about the submission's date; sending it again will not help
+const REJECTED_CODES = [
+  "ATTENDANCE_FINALIZED",
+  "OVERRIDE_NOT_ALLOWED",
+  "NON_SCHOOL_DAY",
+  "DATE_TOO_OLD",
+  "FUTURE_DATE_NOT_ALLOWED",
+];
+
+const stateListeners = new Set<StateListener>();
+const syncedListeners = new Set<SyncedListener>();
+let state: SyncState = { queue: [], isSyncing: false };
+let activeSync: Promise<void> | null = null;
+
+const setState = (next: Partial<SyncState>) => {
+  state = { ...state, ...next };
+  stateListeners.forEach(listener => listener(state));
+};
+
+const refreshQueue = async () => {
+  setState({ queue: await offlineStore.getQueue() });
+};
+
+// Signed out of the API, or not allowed to mark the section
+const isAuthError = (error: unknown) =>
+  error instanceof ApiError && (error.status === 401 || error.status === 403);
+
+// A failed fetch (no connection, DNS, CORS) rejects with a TypeError
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+export const subscribeToSyncState = (listener: StateListener) => {
+  stateListeners.add(listener);
+  listener(state);
+  refreshQueue().catch(error => console.error("Error reading offline queue:", error));
+  return () => {
+    stateListeners.delete(listener);
+  };
+};
+
+export const subscribeToSynced = (listener: SyncedListener) => {
+  syncedListeners.add(listener);
+  return () => {
+    syncedListeners.delete(listener);
+  };
+};
+
+// Queue a section's marks for a day. A newer submission for the same section and
+// day replaces one that has not been sent yet.
+export const queueSubmission = async (
+  submission: Pick<QueuedSubmission, "sectionId" | "date" | "records" | "baseline" | "overrideReason">
+) => {
+  await offlineStore.saveQueued({
+    ...submission,
+    key: draftKey(submission.sectionId, submission.date),
+    state: "pending",
+    attempts: 0,
+    queuedAt: new Date().toISOString(),
+  });
+  await refreshQueue();
+};
+
+const sendSubmission = async (submission: QueuedSubmission) => {
+  try {
+    await apiClient.resubmitAttendance({
+      sectionId: submission.sectionId,
+      date: submission.date,
+      records: submission.records,
+      baseline: submission.baseline,
+      overrideReason: submission.overrideReason,
+    });
+    await offlineStore.deleteQueued(submission.key);
+    syncedListeners.forEach(listener => listener(submission));
+    return true;
+  } catch (error) {
+    if (error instanceof ApiError && error.code === "ATTENDANCE_CONFLICT") {
+      await offlineStore.saveQueued({
+        ...submission,
+        state: "conflict",
+        conflicts: error.body.conflicts as AttendanceConflict[],
+        attempts: submission.attempts + 1,
+        lastError: error.message,
+      });
+      return true;
+    }
+
+    if (isAuthError(error) || (error instanceof ApiError && error.code && REJECTED_CODES.includes(error.code))) {
+      await offlineStore.saveQueued({
+        ...submission,
+        state: "rejected",
+        attempts: submission.attempts + 1,
+        lastError: error.message,
+      });
+      return true;
+    }
+
+    await offlineStore.saveQueued({
+      ...submission,
+      attempts: submission.attempts + 1,
+      lastError: error instanceof Error ? error.message : "Sync failed",
+    });
+
+    // Stop the run when the connection is gone; other failures only affect this submission
+    return !isNetworkError(error);
+  }
+};
+
+// Send every pending submission. Concurrent calls share the run in progress.
+export const syncQueue = () => {
+  if (activeSync) return activeSync;
+
+  activeSync = (async () => {
+    setState({ isSyncing: true });
+    try {
+      const pending = (await offlineStore.getQueue()).filter(submission => submission.state === "pending");
+      for (const submission of pending) {
+        const keepGoing = await sendSubmission(submission);
+        if (!keepGoing) break;
+      }
+    } finally {
+      await refreshQueue().catch(error => console.error("Error reading offline queue:", error));
+      setState({ isSyncing: false });
+      activeSync = null;
+    }
+  })();
+
+  return activeSync;
+};
+
+// Apply the user's choice per conflicting student and queue the submission again.
+// Taking the server's value drops the student from the submission; keeping ours
+// moves the baseline forward so the same edit is not reported twice.
+export const resolveConflict = async (key: string, choices: Record<string, ConflictChoice>) => {
+  const submission = (await offlineStore.getQueue()).find(item => item.key === key);
+  if (!submission?.conflicts) return;
+
+  const serverStatus = new Map(submission.conflicts.map(conflict => [conflict.studentId, conflict.server?.status ?? null]));
+  const records = submission.records.filter(record => choices[record.studentId] !== "server");
+
+  if (records.length === 0) {
+    await offlineStore.deleteQueued(key);
+  } else {
+    await offlineStore.saveQueued({
+      ...submission,
+      records,
+      baseline: submission.baseline.map(base =>
+        serverStatus.has(base.studentId) ? { ...base, status: serverStatus.get(base.studentId)! } : base
+      ),
+      state: "pending",
+      conflicts: undefined,
+      lastError: undefined,
+    });
+  }
+
+  await refreshQueue();
+  if (navigator.onLine) await syncQueue();
+};
+
+// Send a submission for a finalized day again, this time as an override
+export const overrideLock = async (key: string, reason: string) => {
+  const submission = (await offlineStore.getQueue()).find(item => item.key === key);
+  if (!submission) return;
+
+  await offlineStore.saveQueued({
+    ...submission,
+    overrideReason: reason,
+    state: "pending",
+    lastError: undefined,
+  });
+
+  await refreshQueue();
+  if (navigator.onLine) await syncQueue();
+};
+
+export const discardQueued = async (key: string) => {
+  await offlineStore.deleteQueued(key);
+  await refreshQueue();
+};
+
+// Sync when the browser comes back online and periodically while it stays online
+export const startBackgroundSync = () => {
+  const trySync = () => {
+    if (navigator.onLine) {
+      syncQueue().catch(error => console.error("Error syncing attendance:", error));
+    }
+  };
+
+  window.addEventListener("online", trySync);
+  const interval = window.setInterval(trySync, SYNC_INTERVAL_MS);
+  trySync();
+
+  return () => {
+    window.removeEventListener("online", trySync);
+    window.clearInterval(interval);
+  };
+};
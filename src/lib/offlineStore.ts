@@ -0,0 +1,116 @@
+// Small promise wrapper around IndexedDB for attendance taken without a connection.
+//
+// rosters - last known section and student list, keyed by section id
+// drafts  - marks as they are toggled, keyed by `${sectionId}:${date}`
+// outbox  - submissions waiting to be sent to the API, same key as drafts
+import type { AttendanceStatus, ReasonCode } from "./attendanceStatus";
+import type { AttendanceConflict } from "./api";
+
+const DB_NAME = "pod-attendify-offline";
+const DB_VERSION = 1;
+
+type StoreName = "rosters" | "drafts" | "outbox";
+
+export interface CachedStudent {
+  id: string;
+  student_number: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string | null;
+  section_id: string;
+}
+
+export interface CachedRoster {
+  sectionId: string;
+  section: { id: string; name: string; grade_level: string; school_year: string };
+  students: CachedStudent[];
+  cachedAt: string;
+}
+
+export interface DraftMark {
+  status?: AttendanceStatus;
+  reasonCode?: ReasonCode;
+  proofUrl?: string;
+}
+
+export interface AttendanceDraft {
+  key: string;
+  sectionId: string;
+  date: string;
+  marks: Record<string, DraftMark>;
+  updatedAt: string;
+}
+
+export interface QueuedSubmission {
+  key: string;
+  sectionId: string;
+  date: string;
+  records: Array<{ studentId: string; status: AttendanceStatus; reasonCode?: ReasonCode; proofUrl?: string }>;
+  // Status per student as last seen on the server, used to detect conflicting edits
+  baseline: Array<{ studentId: string; status: AttendanceStatus | null }>;
+  // Sent along when an adviser edits a day that is already finalized
+  overrideReason?: string;
+  // "rejected" submissions were turned away for their date (finalized, or outside the
+  // backdating policy) and wait for an override or to be discarded
+  state: "pending" | "conflict" | "rejected";
+  conflicts?: AttendanceConflict[];
+  attempts: number;
+  lastError?: string;
+  queuedAt: string;
+}
+
+export const draftKey = (sectionId: string, date: string) => `${sectionId}:${date}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains("rosters")) db.createObjectStore("rosters", { keyPath: "sectionId" });
+        if (!db.objectStoreNames.contains("drafts")) db.createObjectStore("drafts", { keyPath: "key" });
+        if (!db.objectStoreNames.contains("outbox")) db.createObjectStore("outbox", { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const offlineStore = {
+  getRoster: (sectionId: string) =>
+    run<CachedRoster | undefined>("rosters", "readonly", store => store.get(sectionId)),
+  getRosters: () =>
+    run<CachedRoster[]>("rosters", "readonly", store => store.getAll()),
+  saveRoster: (roster: CachedRoster) =>
+    run<IDBValidKey>("rosters", "readwrite", store => store.put(roster)),
+
+  getDraft: (sectionId: string, date: string) =>
+    run<AttendanceDraft | undefined>("drafts", "readonly", store => store.get(draftKey(sectionId, date))),
+  saveDraft: (draft: AttendanceDraft) =>
+    run<IDBValidKey>("drafts", "readwrite", store => store.put(draft)),
+  deleteDraft: (sectionId: string, date: string) =>
+    run<undefined>("drafts", "readwrite", store => store.delete(draftKey(sectionId, date))),
+
+  getQueue: () =>
+    run<QueuedSubmission[]>("outbox", "readonly", store => store.getAll()),
+  saveQueued: (submission: QueuedSubmission) =>
+    run<IDBValidKey>("outbox", "readwrite", store => store.put(submission)),
+  deleteQueued: (key: string) =>
+    run<undefined>("outbox", "readwrite", store => store.delete(key)),
+};
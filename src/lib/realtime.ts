@@ -0,0 +1,166 @@
+import { apiClient, ApiError, type RealtimeEvent } from "@/lib/api";
+
+export type RealtimeStatus = "connecting" | "live" | "reconnecting" | "stopped";
+
+// null means events may have been missed, so whatever listens should reload
+type EventListener = (event: RealtimeEvent | null) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+
+let status: RealtimeStatus = "stopped";
+let lastEventId: string | null = null;
+let hasConnected = false;
+let controller: AbortController | null = null;
+let retryTimer: number | null = null;
+let failures = 0;
+
+const setStatus = (next: RealtimeStatus) => {
+  status = next;
+  statusListeners.forEach(listener => listener(status));
+};
+
+const emit = (event: RealtimeEvent | null) => {
+  eventListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Error handling live event:", error);
+    }
+  });
+};
+
+// One "event: ...\ndata: ...\nid: ..." block of the stream
+const handleBlock = (block: string) => {
+  let type = "message";
+  let id: string | null = null;
+  const data: string[] = [];
+
+  block.split("\n").forEach(line => {
+    if (line.startsWith(":")) return;
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") type = value;
+    else if (field === "data") data.push(value);
+    else if (field === "id") id = value;
+  });
+
+  if (type === "resync") {
+    lastEventId = null;
+    emit(null);
+  } else if (id && data.length > 0) {
+    lastEventId = id;
+    emit(JSON.parse(data.join("\n")) as RealtimeEvent);
+  }
+};
+
+const readStream = async (body: ReadableStream<Uint8Array>) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffered += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+    const blocks = buffered.split("\n\n");
+    buffered = blocks.pop() || "";
+    blocks.forEach(handleBlock);
+  }
+};
+
+const scheduleReconnect = (delayMs: number) => {
+  setStatus("reconnecting");
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    connect();
+  }, delayMs);
+};
+
+const connect = async () => {
+  const current = new AbortController();
+  controller = current;
+  if (!hasConnected) setStatus("connecting");
+
+  try {
+    const body = await apiClient.openEventStream(lastEventId, current.signal);
+
+    // Without an id to catch up from, whatever happened while disconnected is lost
+    if (hasConnected && !lastEventId) emit(null);
+    hasConnected = true;
+    failures = 0;
+    setStatus("live");
+
+    await readStream(body);
+    // The server ends streams now and then; pick up straight away
+    if (controller === current) scheduleReconnect(0);
+  } catch (error) {
+    if (controller !== current) return;
+
+    if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+      console.error("Live updates unavailable:", error.message);
+      controller = null;
+      setStatus("stopped");
+      return;
+    }
+
+    failures += 1;
+    const delay = Math.min(MAX_RETRY_MS, MIN_RETRY_MS * 2 ** (failures - 1));
+    scheduleReconnect(delay + Math.random() * delay * 0.2);
+  }
+};
+
+// Whoever subscribes next loads fresh data, so there is nothing to catch up on
+const disconnect = () => {
+  controller?.abort();
+  controller = null;
+  lastEventId = null;
+  hasConnected = false;
+  failures = 0;
+  if (retryTimer !== null) {
+    window.clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  setStatus("stopped");
+};
+
+// Coming back online retries at once instead of waiting out the backoff
+const reconnectNow = () => {
+  if (retryTimer === null) return;
+  window.clearTimeout(retryTimer);
+  retryTimer = null;
+  failures = 0;
+  connect();
+};
+
+// The stream stays open while anything listens, shared by every listener
+export const subscribeToEvents = (listener: EventListener) => {
+  eventListeners.add(listener);
+  if (eventListeners.size === 1) {
+    window.addEventListener("online", reconnectNow);
+    connect();
+  }
+
+  return () => {
+    eventListeners.delete(listener);
+    if (eventListeners.size === 0) {
+      window.removeEventListener("online", reconnectNow);
+      disconnect();
+    }
+  };
+};
+
+export const subscribeToStatus = (listener: StatusListener) => {
+  statusListeners.add(listener);
+  listener(status);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
@@ -0,0 +1,93 @@
+import { apiClient } from "@/lib/api";
+import type { AttendanceStatus, ReasonCode } from "@/lib/attendanceStatus";
+
+export interface SectionOption {
+  id: string;
+  name: string;
+  grade_level: string;
+  school_year: string;
+}
+
+export interface RosterStudent {
+  id: string;
+  student_number: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string;
+  section_id: string;
+  enrollment_status: string;
+  left_on: string | null;
+  transferred_in_on: string | null;
+}
+
+export interface DayMark {
+  id: string;
+  student_id: string;
+  status: AttendanceStatus;
+  reason_code?: ReasonCode;
+  proof_url?: string;
+}
+
+const LAST_SECTION_KEY = "last_section_id";
+// Most records GET /attendance returns at once
+const MARKS_PAGE_SIZE = 100;
+
+// Sections the signed-in user may act on: a beadle's current assignments (the API
+// only returns those), an adviser's own sections, and every section for
+// coordinators and admins
+export const loadAccessibleSections = async (userId: string, role: string | null): Promise<SectionOption[]> => {
+  const { sections } = await apiClient.getSections();
+
+  return sections
+    .filter(section => role !== "adviser" || section.adviserId === userId)
+    .map(section => ({
+      id: section.id,
+      name: section.name,
+      grade_level: section.gradeLevel,
+      school_year: section.schoolYear,
+    }));
+};
+
+export const loadRoster = async (sectionId: string): Promise<RosterStudent[]> => {
+  const { students } = await apiClient.getSectionStudents(sectionId);
+
+  return students.map(student => ({
+    id: student.id,
+    student_number: student.studentNumber,
+    first_name: student.firstName,
+    last_name: student.lastName,
+    middle_name: student.middleName || undefined,
+    section_id: sectionId,
+    enrollment_status: student.enrollmentStatus,
+    left_on: student.leftOn,
+    transferred_in_on: student.transferredInOn,
+  }));
+};
+
+// A section's whole-day marks for one date, leaving out per-period marks
+export const loadDayMarks = async (sectionId: string, date: string): Promise<DayMark[]> => {
+  const marks: DayMark[] = [];
+
+  for (let page = 1; ; page++) {
+    const response = await apiClient.getAttendance({ sectionId, startDate: date, endDate: date, page, limit: MARKS_PAGE_SIZE });
+    response.records
+      .filter(record => !record.sessionId)
+      .forEach(record => marks.push({
+        id: record.id,
+        student_id: record.studentId,
+        status: record.status,
+        reason_code: record.reasonCode || undefined,
+        proof_url: record.proofUrl || undefined,
+      }));
+
+    if (page >= response.pagination.pages) return marks;
+  }
+};
+
+export const rememberSection = (sectionId: string) => localStorage.setItem(LAST_SECTION_KEY, sectionId);
+
+// The section from the URL if the user may act on it, else the one used last, else the first
+export const pickSection = <T extends { id: string }>(sections: T[], requestedId?: string) =>
+  sections.find(section => section.id === requestedId) ??
+  sections.find(section => section.id === localStorage.getItem(LAST_SECTION_KEY)) ??
+  sections[0];
@@ -1,15 +1,26 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Bot, Send, MessageCircle } from "lucide-react";
+import { useLiveRefresh } from "@/hooks/use-realtime-events";
+import { ArrowLeft, Bot, Send, MessageCircle, QrCode, History } from "lucide-react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { MasterlistUpload } from "@/components/MasterlistUpload";
 import { StudentManagementTable } from "@/components/StudentManagementTable";
 import { AlertsPanel } from "@/components/AlertsPanel";
+import { GuardianNotificationsPanel } from "@/components/GuardianNotificationsPanel";
+import { ChangeRequestsQueue } from "@/components/ChangeRequestsQueue";
+import { ExcuseLettersQueue } from "@/components/ExcuseLettersQueue";
+import { SchoolFormsPanel } from "@/components/SchoolFormsPanel";
+import { LearnerMovementPanel } from "@/components/LearnerMovementPanel";
+import { StudentLeavePanel } from "@/components/StudentLeavePanel";
+import { SectionAssignmentsPanel } from "@/components/SectionAssignmentsPanel";
+import { StudentAccountsPanel } from "@/components/StudentAccountsPanel";
+import { SectionPicker } from "@/components/SectionPicker";
+import { AuditHistoryDialog } from "@/components/AuditHistoryDialog";
 import { Progress } from "@/components/ui/progress";
 import {
   Table,
@@ -19,7 +30,9 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { cn } from "@/lib/utils";
+import { cn, localDateKey } from "@/lib/utils";
+import { apiClient } from "@/lib/api";
+import { loadAccessibleSections, loadDayMarks, loadRoster, pickSection, rememberSection, type SectionOption } from "@/lib/sections";
 
 interface Student {
   id: string;
@@ -28,6 +41,9 @@ interface Student {
   last_name: string;
   middle_name?: string;
   section_id: string;
+  enrollment_status?: string;
+  left_on?: string | null;
+  transferred_in_on?: string | null;
 }
 
 interface Section {
@@ -38,26 +54,38 @@ interface Section {
   completionRate: number;
 }
 
-interface Alert {
-  id: string;
-  type: 'missing_report' | 'incomplete_data' | 'absent_students';
-  title: string;
-  description: string;
-  count: number;
-  severity: 'low' | 'medium' | 'high';
-}
-
 export default function AdviserDashboard() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { sectionId: routeSectionId } = useParams();
   const [students, setStudents] = useState<Student[]>([]);
+  const [sections, setSections] = useState<SectionOption[]>([]);
   const [section, setSection] = useState<Section | null>(null);
-  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [weeklyTrend, setWeeklyTrend] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [aiChatOpen, setAiChatOpen] = useState(false);
   const [aiMessage, setAiMessage] = useState("");
   const [aiResponse, setAiResponse] = useState("");
   const [sectionsData, setSectionsData] = useState<Section[]>([]);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  // Today's marks give the completion rate, the last 7 days the trend
+  const fetchAttendanceStats = useCallback(async (sectionId: string, studentCount: number) => {
+    const today = localDateKey();
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 7);
+    const [todayMarks, stats] = await Promise.all([
+      loadDayMarks(sectionId, today),
+      apiClient.getAttendanceStats({ sectionId, startDate: localDateKey(weekAgo) }),
+    ]);
+
+    const markedToday = new Set(todayMarks.map(mark => mark.student_id)).size;
+    const completionRate = studentCount > 0 ? Math.round((markedToday / studentCount) * 100) : 0;
+
+    setSection(current => (current && current.id === sectionId ? { ...current, completionRate } : current));
+    setWeeklyTrend(Math.round(stats.attendanceRate));
+  }, []);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -68,49 +96,21 @@ export default function AdviserDashboard() {
           return;
         }
 
-        // Get first section for demo
-        const { data: sections } = await supabase
-          .from("sections")
-          .select("*")
-          .limit(1);
-
-        if (sections && sections.length > 0) {
-          const currentSection = sections[0];
-          setSection({
-            ...currentSection,
-            completionRate: 85,
-          });
-
-          // Fetch students
-          const { data: studentsData, error } = await supabase
-            .from("students")
-            .select("*")
-            .eq("section_id", currentSection.id)
-            .order("last_name");
-
-          if (error) throw error;
-          setStudents(studentsData || []);
-
-          // Generate mock alerts
-          const mockAlerts: Alert[] = [
-            {
-              id: '1',
-              type: 'missing_report',
-              title: 'Missing Attendance Reports',
-              description: '3 sections have not submitted today',
-              count: 3,
-              severity: 'high',
-            },
-            {
-              id: '2',
-              type: 'incomplete_data',
-              title: 'Incomplete Student Data',
-              description: '5 students missing contact information',
-              count: 5,
-              severity: 'medium',
-            },
-          ];
-          setAlerts(mockAlerts);
+        const { user } = await apiClient.getProfile();
+        setUserRole(user.role);
+
+        const accessibleSections = await loadAccessibleSections(user.id, user.role);
+        setSections(accessibleSections);
+        const currentSection = pickSection(accessibleSections, routeSectionId);
+
+        if (currentSection) {
+          rememberSection(currentSection.id);
+
+          const studentsData = await loadRoster(currentSection.id);
+          setStudents(studentsData);
+
+          setSection({ ...currentSection, completionRate: 0 });
+          await fetchAttendanceStats(currentSection.id, studentsData.length);
 
           // Generate mock sections data
           const mockSectionsData: Section[] = [
@@ -134,7 +134,17 @@ export default function AdviserDashboard() {
     };
 
     fetchData();
-  }, [navigate, toast]);
+  }, [navigate, toast, routeSectionId, fetchAttendanceStats]);
+
+  // Marks saved for this section, by anyone, update the rates as they happen
+  useLiveRefresh(
+    () => {
+      if (section) {
+        fetchAttendanceStats(section.id, students.length).catch(error => console.error("Error refreshing attendance:", error));
+      }
+    },
+    event => event.sectionId === section?.id && event.type !== "alert.raised"
+  );
 
   const handleStudentUpdate = async (student: Student) => {
     // Simulate update
@@ -209,11 +219,30 @@ export default function AdviserDashboard() {
             <div>
               <h1 className="text-2xl font-bold gradient-text">Adviser Dashboard</h1>
               <p className="text-sm text-muted-foreground">
-                {section?.name} - {section?.grade_level}
+                {section?.name} - {section?.grade_level} · {weeklyTrend}% attendance (last 7 days)
               </p>
             </div>
+            <SectionPicker
+              sections={sections}
+              value={section?.id}
+              onChange={(sectionId) => navigate(`/adviser-dashboard/${sectionId}`)}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            {section && (
+              <Button variant="outline" onClick={() => navigate(`/check-in/display/${section.id}`)}>
+                <QrCode className="h-4 w-4 mr-2" />
+                QR Check-In
+              </Button>
+            )}
+            {section && userRole === "admin" && (
+              <Button variant="outline" onClick={() => setHistoryOpen(true)}>
+                <History className="h-4 w-4 mr-2" />
+                Section History
+              </Button>
+            )}
+            <ThemeToggle />
           </div>
-          <ThemeToggle />
         </div>
       </header>
 
@@ -238,6 +267,7 @@ export default function AdviserDashboard() {
               onStudentUpdate={handleStudentUpdate}
               onStudentDelete={handleStudentDelete}
               onStudentCreate={handleStudentCreate}
+              showHistory={userRole === "admin"}
             />
 
             {/* AI Sections Analysis */}
@@ -294,7 +324,18 @@ export default function AdviserDashboard() {
 
           {/* Sidebar */}
           <div className="space-y-6">
-            <AlertsPanel alerts={alerts} />
+            <AlertsPanel sectionId={section?.id} />
+            <GuardianNotificationsPanel sectionId={section?.id} />
+            <ChangeRequestsQueue sectionId={section?.id} />
+            <ExcuseLettersQueue sectionId={section?.id} />
+            <SchoolFormsPanel sectionId={section?.id} sectionName={section?.name} />
+            <LearnerMovementPanel
+              students={students}
+              onStudentChange={(student) => setStudents(prev => prev.map(s => s.id === student.id ? { ...s, ...student } : s))}
+            />
+            <SectionAssignmentsPanel sectionId={section?.id} />
+            <StudentLeavePanel sectionId={section?.id} students={students} />
+            <StudentAccountsPanel sectionId={section?.id} />
           </div>
         </div>
       </main>
@@ -351,6 +392,12 @@ export default function AdviserDashboard() {
           </Card>
         )}
       </div>
+
+      {/* Audit history of the section */}
+      <AuditHistoryDialog
+        record={historyOpen && section ? { table: "sections", id: section.id, label: section.name } : null}
+        onOpenChange={setHistoryOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,411 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertsPanel } from "@/components/AlertsPanel";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Play, Plus, Trash2 } from "lucide-react";
+import {
+  apiClient,
+  type AlertEvaluationSummary,
+  type AlertRule,
+  type AlertRuleParams,
+  type AlertRuleType,
+  type AlertSeverity,
+} from "@/lib/api";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const RULE_TYPES: { value: AlertRuleType; label: string }[] = [
+  { value: "consecutive_absences", label: "Consecutive absences" },
+  { value: "low_attendance_rate", label: "Low attendance rate" },
+  { value: "missing_submission", label: "Attendance not submitted" },
+  { value: "weekday_absences", label: "Absences on a weekday" },
+];
+
+const DEFAULT_PARAMS: AlertRuleParams = {
+  consecutive_absences: { days: 3 },
+  low_attendance_rate: { threshold: 80, schoolDays: 20 },
+  missing_submission: { time: "09:00" },
+  weekday_absences: { weekday: 1, threshold: 2, schoolDays: 40 },
+};
+
+type Params = Record<string, string | number>;
+
+interface SectionOption {
+  id: string;
+  name: string;
+  grade_level: string;
+}
+
+const describeRule = (type: AlertRuleType, params: Params) => {
+  switch (type) {
+    case "consecutive_absences":
+      return `Absent ${params.days} school days in a row`;
+    case "low_attendance_rate":
+      return `Attendance under ${params.threshold}% over the last ${params.schoolDays} school days`;
+    case "missing_submission":
+      return `No attendance submitted by ${params.time}`;
+    case "weekday_absences":
+      return `More than ${params.threshold} ${WEEKDAYS[Number(params.weekday)]} absences in the last ${params.schoolDays} school days`;
+  }
+};
+
+const severityVariant = (severity: AlertSeverity) =>
+  severity === "high" ? "destructive" : severity === "medium" ? "default" : "secondary";
+
+export default function AlertRules() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [sections, setSections] = useState<SectionOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  // Bumped after evaluations so the alerts panel reloads
+  const [alertsVersion, setAlertsVersion] = useState(0);
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AlertRuleType>("consecutive_absences");
+  const [severity, setSeverity] = useState<AlertSeverity>("medium");
+  const [params, setParams] = useState<Params>(DEFAULT_PARAMS.consecutive_absences);
+  const [scope, setScope] = useState<"school" | "grade" | "section">("school");
+  const [scopeValue, setScopeValue] = useState("");
+
+  const gradeLevels = [...new Set(sections.map(section => section.grade_level))]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const showSummary = (title: string, summary: AlertEvaluationSummary) => {
+    setAlertsVersion(version => version + 1);
+    toast({
+      title,
+      description: `${summary.raised} raised, ${summary.updated} still open, ${summary.cleared} cleared`,
+    });
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      try {
+        const [{ rules }, { data: sectionsData }] = await Promise.all([
+          apiClient.getAlertRules(),
+          supabase.from("sections").select("id, name, grade_level").order("name"),
+        ]);
+        setRules(rules);
+        setSections(sectionsData || []);
+      } catch (error) {
+        showError(error, "Failed to load alert rules");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [navigate, showError]);
+
+  const handleTypeChange = (value: string) => {
+    const ruleType = value as AlertRuleType;
+    setType(ruleType);
+    setParams(DEFAULT_PARAMS[ruleType]);
+  };
+
+  const setParam = (key: string, value: string, numeric = true) =>
+    setParams(prev => ({ ...prev, [key]: numeric ? Number(value) : value }));
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    try {
+      const { rule, summary } = await apiClient.createAlertRule({
+        name: name.trim(),
+        type,
+        severity,
+        params: params as unknown as AlertRuleParams[AlertRuleType],
+        sectionId: scope === "section" ? scopeValue : null,
+        gradeLevel: scope === "grade" ? scopeValue : null,
+      });
+      setRules(prev => [...prev, rule]);
+      setName("");
+      showSummary("Alert rule created", summary);
+    } catch (error) {
+      showError(error, "Failed to create alert rule");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule, isActive: boolean) => {
+    try {
+      const { rule: updated, summary } = await apiClient.updateAlertRule(rule.id, { isActive });
+      setRules(prev => prev.map(r => r.id === updated.id ? updated : r));
+      showSummary(isActive ? "Alert rule turned on" : "Alert rule turned off", summary);
+    } catch (error) {
+      showError(error, "Failed to update alert rule");
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete "${rule.name}" and the alerts it raised?`)) return;
+
+    try {
+      await apiClient.deleteAlertRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      setAlertsVersion(version => version + 1);
+    } catch (error) {
+      showError(error, "Failed to delete alert rule");
+    }
+  };
+
+  const handleEvaluate = async () => {
+    setIsWorking(true);
+    try {
+      const { summary } = await apiClient.evaluateAlertRules();
+      showSummary("Alert rules evaluated", summary);
+    } catch (error) {
+      showError(error, "Failed to evaluate alert rules");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const scopeLabel = (rule: AlertRule) =>
+    rule.section ? rule.section.name : rule.gradeLevel ? `Grade ${rule.gradeLevel}` : "Whole school";
+
+  const canCreate = name.trim().length > 0 && (scope === "school" || scopeValue !== "");
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold gradient-text">Alert Rules</h1>
+              <p className="text-sm text-muted-foreground">
+                Checked every few minutes and after each attendance submission
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" disabled={isWorking} onClick={handleEvaluate}>
+            <Play className="h-4 w-4 mr-2" />
+            Evaluate now
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>New rule</CardTitle>
+              <CardDescription>Pick a condition, its thresholds and who it covers</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="ruleName">Name</Label>
+                  <Input id="ruleName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Three absences in a row" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Condition</Label>
+                  <Select value={type} onValueChange={handleTypeChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RULE_TYPES.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                {type === "consecutive_absences" && (
+                  <div className="space-y-1">
+                    <Label htmlFor="days">School days in a row</Label>
+                    <Input id="days" type="number" min={2} value={params.days} onChange={(e) => setParam("days", e.target.value)} />
+                  </div>
+                )}
+                {(type === "low_attendance_rate" || type === "weekday_absences") && (
+                  <div className="space-y-1">
+                    <Label htmlFor="threshold">{type === "low_attendance_rate" ? "Below (%)" : "More than (absences)"}</Label>
+                    <Input id="threshold" type="number" min={0} value={params.threshold} onChange={(e) => setParam("threshold", e.target.value)} />
+                  </div>
+                )}
+                {type === "weekday_absences" && (
+                  <div className="space-y-1">
+                    <Label>Weekday</Label>
+                    <Select value={String(params.weekday)} onValueChange={(value) => setParam("weekday", value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map((day, index) => (
+                          <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {(type === "low_attendance_rate" || type === "weekday_absences") && (
+                  <div className="space-y-1">
+                    <Label htmlFor="schoolDays">Over the last (school days)</Label>
+                    <Input id="schoolDays" type="number" min={1} value={params.schoolDays} onChange={(e) => setParam("schoolDays", e.target.value)} />
+                  </div>
+                )}
+                {type === "missing_submission" && (
+                  <div className="space-y-1">
+                    <Label htmlFor="time">Submitted by</Label>
+                    <Input id="time" type="time" value={params.time} onChange={(e) => setParam("time", e.target.value, false)} />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-1">
+                  <Label>Severity</Label>
+                  <Select value={severity} onValueChange={(value) => setSeverity(value as AlertSeverity)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Covers</Label>
+                  <Select
+                    value={scope}
+                    onValueChange={(value) => {
+                      setScope(value as typeof scope);
+                      setScopeValue("");
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="school">Whole school</SelectItem>
+                      <SelectItem value="grade">A grade level</SelectItem>
+                      <SelectItem value="section">A section</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {scope !== "school" && (
+                  <div className="space-y-1">
+                    <Label>{scope === "grade" ? "Grade level" : "Section"}</Label>
+                    <Select value={scopeValue} onValueChange={setScopeValue}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {scope === "grade"
+                          ? gradeLevels.map(level => (
+                            <SelectItem key={level} value={level}>Grade {level}</SelectItem>
+                          ))
+                          : sections.map(section => (
+                            <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">{describeRule(type, params)}</p>
+                <Button disabled={isWorking || !canCreate} onClick={handleCreate}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add rule
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Rules</CardTitle>
+              <CardDescription>Turning a rule off clears the alerts it raised</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+              ) : rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No alert rules yet</p>
+              ) : (
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rule</TableHead>
+                        <TableHead>Covers</TableHead>
+                        <TableHead>Severity</TableHead>
+                        <TableHead>Active</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map(rule => (
+                        <TableRow key={rule.id}>
+                          <TableCell>
+                            <div className="font-medium">{rule.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {describeRule(rule.type, rule.params as unknown as Params)}
+                            </div>
+                          </TableCell>
+                          <TableCell>{scopeLabel(rule)}</TableCell>
+                          <TableCell>
+                            <Badge variant={severityVariant(rule.severity)} className="capitalize">{rule.severity}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Switch checked={rule.isActive} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div>
+          <AlertsPanel key={alertsVersion} />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -6,15 +6,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveRefresh } from "@/hooks/use-realtime-events";
 import { ArrowLeft, TrendingUp, TrendingDown, Users, Calendar, BarChart3 } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from "recharts";
+import { ATTENDANCE_STATUSES, StatusSummary, summarizeStatuses } from "@/lib/attendanceStatus";
 
-interface AttendanceStats {
+interface AttendanceStats extends StatusSummary {
   date: string;
-  present: number;
-  absent: number;
-  total: number;
-  attendanceRate: number;
 }
 
 interface StudentAttendance {
@@ -22,6 +20,7 @@ interface StudentAttendance {
   student_name: string;
   student_number: string;
   present_days: number;
+  excused_days: number;
   absent_days: number;
   total_days: number;
   attendance_rate: number;
@@ -79,8 +78,14 @@ export default function Analytics() {
     }
   }, [selectedSection, dateRange]);
 
-  const fetchAttendanceData = async () => {
-    setIsLoading(true);
+  // New marks for the section reload the charts in place
+  useLiveRefresh(
+    () => fetchAttendanceData(true),
+    event => event.sectionId === selectedSection && event.type !== "alert.raised"
+  );
+
+  const fetchAttendanceData = async (quiet = false) => {
+    if (!quiet) setIsLoading(true);
     try {
       const endDate = new Date();
       const startDate = new Date();
@@ -101,30 +106,20 @@ export default function Analytics() {
       if (statsError) throw statsError;
 
       // Process daily stats
-      const statsMap = new Map<string, { present: number; absent: number; total: number }>();
+      const statsMap = new Map<string, string[]>();
       
       dailyStats?.forEach(record => {
         const date = record.date;
         if (!statsMap.has(date)) {
-          statsMap.set(date, { present: 0, absent: 0, total: 0 });
-        }
-        
-        const stats = statsMap.get(date)!;
-        stats.total++;
-        if (record.status === 'present') {
-          stats.present++;
-        } else {
-          stats.absent++;
+          statsMap.set(date, []);
         }
+        statsMap.get(date)!.push(record.status);
       });
 
       const processedStats: AttendanceStats[] = Array.from(statsMap.entries())
-        .map(([date, stats]) => ({
+        .map(([date, statuses]) => ({
           date,
-          present: stats.present,
-          absent: stats.absent,
-          total: stats.total,
-          attendanceRate: stats.total > 0 ? (stats.present / stats.total) * 100 : 0
+          ...summarizeStatuses(statuses)
         }))
         .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
@@ -145,40 +140,23 @@ export default function Analytics() {
       if (studentsError) throw studentsError;
 
       // Process student attendance
-      const studentMap = new Map<string, StudentAttendance>();
-      
-      students?.forEach(student => {
-        if (!studentMap.has(student.id)) {
-          studentMap.set(student.id, {
-            student_id: student.id,
-            student_name: `${student.first_name} ${student.last_name}`,
-            student_number: student.student_number,
-            present_days: 0,
-            absent_days: 0,
-            total_days: 0,
-            attendance_rate: 0
-          });
-        }
-
-        const studentStats = studentMap.get(student.id)!;
-        // attendance is an array, iterate through it
+      const processedStudents: StudentAttendance[] = (students || []).map(student => {
+        // attendance is an array of this student's records
         const attendanceArray = Array.isArray(student.attendance) ? student.attendance : [student.attendance];
-        attendanceArray.forEach((att: any) => {
-          studentStats.total_days++;
-          if (att.status === 'present') {
-            studentStats.present_days++;
-          } else {
-            studentStats.absent_days++;
-          }
-        });
+        const summary = summarizeStatuses(attendanceArray.map((att: any) => att.status));
+
+        return {
+          student_id: student.id,
+          student_name: `${student.first_name} ${student.last_name}`,
+          student_number: student.student_number,
+          present_days: summary.present + summary.late,
+          excused_days: summary.excused,
+          absent_days: summary.unexcused,
+          total_days: summary.total,
+          attendance_rate: summary.attendanceRate
+        };
       });
 
-      // Calculate attendance rates
-      const processedStudents = Array.from(studentMap.values()).map(student => ({
-        ...student,
-        attendance_rate: student.total_days > 0 ? (student.present_days / student.total_days) * 100 : 0
-      }));
-
       setStudentAttendance(processedStudents);
 
     } catch (error) {
@@ -194,16 +172,25 @@ export default function Analytics() {
   };
 
   const getOverallStats = () => {
-    const totalPresent = attendanceStats.reduce((sum, stat) => sum + stat.present, 0);
-    const totalAbsent = attendanceStats.reduce((sum, stat) => sum + stat.absent, 0);
-    const totalDays = totalPresent + totalAbsent;
-    const overallRate = totalDays > 0 ? (totalPresent / totalDays) * 100 : 0;
+    const sum = (key: keyof StatusSummary) => attendanceStats.reduce((total, stat) => total + stat[key], 0);
+    const totalDays = sum('total');
+    const attended = attendanceStats.reduce((total, stat) => total + (stat.attendanceRate / 100) * stat.total, 0);
+    const overallRate = totalDays > 0 ? (attended / totalDays) * 100 : 0;
 
     return {
-      totalPresent,
-      totalAbsent,
+      totalPresent: sum('present') + sum('late'),
+      totalAbsent: sum('unexcused'),
+      totalExcused: sum('excused'),
       totalDays,
-      overallRate
+      overallRate,
+      byStatus: {
+        present: sum('present'),
+        late: sum('late'),
+        half_day: sum('halfDay'),
+        excused: sum('excused'),
+        absent: sum('absent'),
+        cutting: sum('cutting'),
+      }
     };
   };
 
@@ -219,10 +206,9 @@ export default function Analytics() {
     return recentAvg - olderAvg;
   };
 
-  const pieData = [
-    { name: 'Present', value: getOverallStats().totalPresent, color: '#10b981' },
-    { name: 'Absent', value: getOverallStats().totalAbsent, color: '#ef4444' },
-  ];
+  const pieData = ATTENDANCE_STATUSES
+    .map(({ value, label, color }) => ({ name: label, value: getOverallStats().byStatus[value], color }))
+    .filter(entry => entry.value > 0);
 
   const selectedSectionData = sections.find(s => s.id === selectedSection);
   const overallStats = getOverallStats();
@@ -332,7 +318,7 @@ export default function Analytics() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-green-600">{overallStats.totalPresent}</div>
-                <p className="text-sm text-muted-foreground">Total present</p>
+                <p className="text-sm text-muted-foreground">Present or late</p>
               </CardContent>
             </Card>
 
@@ -345,7 +331,9 @@ export default function Analytics() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-red-600">{overallStats.totalAbsent}</div>
-                <p className="text-sm text-muted-foreground">Total absent</p>
+                <p className="text-sm text-muted-foreground">
+                  Unexcused absences ({overallStats.totalExcused} excused)
+                </p>
               </CardContent>
             </Card>
           </div>
@@ -396,7 +384,7 @@ export default function Analytics() {
                   Attendance Distribution
                 </CardTitle>
                 <CardDescription>
-                  Overall present vs absent
+                  Breakdown by attendance status
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -444,6 +432,7 @@ export default function Analytics() {
                       <div className="flex items-center gap-4">
                         <div className="text-sm text-muted-foreground">
                           {student.present_days}/{student.total_days} days
+                          {student.excused_days > 0 && ` (${student.excused_days} excused)`}
                         </div>
                         <div className="flex items-center gap-2">
                           <div className="w-20 bg-muted rounded-full h-2">
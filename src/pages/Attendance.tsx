@@ -1,13 +1,20 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, CheckCircle, Upload, TrendingUp, MessageCircle, Send, Bot, Check } from "lucide-react";
+import { ArrowLeft, CheckCircle, Upload, TrendingUp, MessageCircle, Send, Bot, Check, QrCode, FileText, History } from "lucide-react";
 import { ProofUploadModal } from "@/components/ProofUploadModal";
+import { AuditHistoryDialog } from "@/components/AuditHistoryDialog";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { SyncConflictDialog } from "@/components/SyncConflictDialog";
+import { AttendanceLockBanner } from "@/components/AttendanceLockBanner";
+import { AttendanceDatePicker } from "@/components/AttendanceDatePicker";
+import { SectionPicker } from "@/components/SectionPicker";
 import { Progress } from "@/components/ui/progress";
 import { AnimatedCard } from "@/components/AnimatedComponents";
 import {
@@ -25,7 +32,20 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { cn } from "@/lib/utils";
+import { cn, localDateKey } from "@/lib/utils";
+import {
+  ATTENDANCE_STATUSES,
+  REASON_CODES,
+  AttendanceStatus,
+  ReasonCode,
+  needsReason,
+} from "@/lib/attendanceStatus";
+import { draftKey, offlineStore, type DraftMark, type QueuedSubmission } from "@/lib/offlineStore";
+import { queueSubmission, type ConflictChoice } from "@/lib/attendanceSync";
+import { useAttendanceSync } from "@/hooks/use-attendance-sync";
+import { useLiveRefresh } from "@/hooks/use-realtime-events";
+import { loadAccessibleSections, loadDayMarks, loadRoster, pickSection, rememberSection } from "@/lib/sections";
+import { apiClient, type AttendanceDatePolicy, type AttendanceLock } from "@/lib/api";
 
 interface Student {
   id: string;
@@ -37,9 +57,11 @@ interface Student {
 }
 
 interface AttendanceRecord {
+  // Set on records loaded from the server
+  id?: string;
   student_id: string;
-  present: boolean;
-  absent: boolean;
+  status?: AttendanceStatus;
+  reason_code?: ReasonCode;
   proof_url?: string;
   saving?: boolean;
 }
@@ -51,24 +73,98 @@ interface Section {
   school_year: string;
 }
 
+// Check-ins arrive as live events; polling only covers a dropped event stream
+const CHECK_INS_POLL_MS = 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isSameMark = (a?: AttendanceRecord, b?: AttendanceRecord) =>
+  (a?.status || null) === (b?.status || null) &&
+  (a?.reason_code || null) === (b?.reason_code || null) &&
+  (a?.proof_url || null) === (b?.proof_url || null);
+
 export default function Attendance() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  // Deep links: /attendance/:sectionId/:date, both optional
+  const { sectionId: routeSectionId, date: routeDate } = useParams();
+  const selectedDate = routeDate && DATE_PATTERN.test(routeDate) ? routeDate : localDateKey();
   const [students, setStudents] = useState<Student[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
   const [section, setSection] = useState<Section | null>(null);
+  // Section-day whose marks are on screen; drafts are only saved once it matches the URL
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
   const [attendanceRecords, setAttendanceRecords] = useState<Record<string, AttendanceRecord>>({});
-  const [selectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [savedRecords, setSavedRecords] = useState<Record<string, AttendanceRecord>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  // Whether the upload modal submits an excuse letter rather than record proof
+  const [excuseLetterMode, setExcuseLetterMode] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [aiChatOpen, setAiChatOpen] = useState(false);
   const [aiMessage, setAiMessage] = useState("");
   const [aiResponse, setAiResponse] = useState("");
   const [weeklyTrend, setWeeklyTrend] = useState(0);
+  const [conflictKey, setConflictKey] = useState<string | null>(null);
+  const [checkedIn, setCheckedIn] = useState<Record<string, string>>({});
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [lock, setLock] = useState<AttendanceLock | null>(null);
+  const [overrideReason, setOverrideReason] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<AttendanceDatePolicy | null>(null);
+  const [historyFor, setHistoryFor] = useState<{ table: string; id: string; label: string } | null>(null);
+  const savedRecordsRef = useRef(savedRecords);
+  savedRecordsRef.current = savedRecords;
+
+  // Once a queued submission for this section and day reaches the server, it becomes the saved state
+  const handleSynced = useCallback((submission: QueuedSubmission) => {
+    if (!section || submission.key !== draftKey(section.id, selectedDate)) return;
+
+    setSavedRecords(prev => {
+      const next = { ...prev };
+      submission.records.forEach(record => {
+        next[record.studentId] = {
+          id: prev[record.studentId]?.id,
+          student_id: record.studentId,
+          status: record.status,
+          reason_code: record.reasonCode,
+          proof_url: record.proofUrl,
+        };
+      });
+      return next;
+    });
+
+    const changedCount = submission.baseline.filter(base => base.status !== null).length;
+    if (changedCount > 0) {
+      toast({
+        title: "Attendance corrected",
+        description: `${submission.records.length - changedCount} added, ${changedCount} changed`,
+      });
+    }
+
+    setShowSuccess(true);
+    setTimeout(() => setShowSuccess(false), 3000);
+  }, [section, selectedDate, toast]);
+
+  const {
+    isOnline,
+    isSyncing,
+    pending,
+    conflicts,
+    rejected,
+    syncNow,
+    resolveConflict,
+    overrideLock,
+    discardQueued,
+  } = useAttendanceSync(handleSynced);
 
   useEffect(() => {
+    // Check-ins, overrides and the lock belong to one section-day
+    setCheckedIn({});
+    setOverrideReason(null);
+    setLock(null);
+
     const fetchData = async () => {
       try {
         const { data: { session } } = await supabase.auth.getSession();
@@ -77,52 +173,89 @@ export default function Attendance() {
           return;
         }
 
-        // Get first section
-        const { data: sections } = await supabase
-          .from("sections")
-          .select("*")
-          .limit(1);
+        let currentSection: Section | undefined;
+        let studentsData: Student[] = [];
 
-        if (sections && sections.length > 0) {
-          const currentSection = sections[0];
-          setSection(currentSection);
+        if (navigator.onLine) {
+          const { user } = await apiClient.getProfile();
+          setUserRole(user.role);
+
+          const accessibleSections = await loadAccessibleSections(user.id, user.role);
+          setSections(accessibleSections);
+          currentSection = pickSection(accessibleSections, routeSectionId);
+
+          if (routeSectionId && currentSection?.id !== routeSectionId) {
+            toast({
+              title: "Section unavailable",
+              description: "You can't take attendance for that section",
+              variant: "destructive",
+            });
+          }
 
-          // Fetch students
-          const { data: studentsData, error } = await supabase
-            .from("students")
-            .select("*")
-            .eq("section_id", currentSection.id)
-            .order("last_name");
+          if (currentSection) {
+            studentsData = await loadRoster(currentSection.id);
 
-          if (error) throw error;
+            // Keep the roster on the device so attendance can be taken without a connection
+            await offlineStore.saveRoster({
+              sectionId: currentSection.id,
+              section: currentSection,
+              students: studentsData,
+              cachedAt: new Date().toISOString(),
+            });
+          }
+        } else {
+          // Offline, only sections whose roster is cached can be picked
+          const rosters = await offlineStore.getRosters();
+          setSections(rosters.map(roster => roster.section));
+          const roster = pickSection(rosters.map(roster => ({ ...roster, id: roster.sectionId })), routeSectionId);
+          if (roster) {
+            currentSection = roster.section;
+            studentsData = roster.students.map(student => ({ ...student, middle_name: student.middle_name || undefined }));
+          }
+        }
 
-          setStudents(studentsData || []);
+        if (currentSection) {
+          rememberSection(currentSection.id);
+          setSection(currentSection);
+          setStudents(studentsData);
+
+          // Load anything already submitted for this day so mistakes can be corrected
+          const existingRecords: Record<string, AttendanceRecord> = {};
+          if (navigator.onLine) {
+            const marks = await loadDayMarks(currentSection.id, selectedDate);
+            marks.forEach(mark => {
+              existingRecords[mark.student_id] = mark;
+            });
+          }
+          setSavedRecords(existingRecords);
 
-          // Initialize attendance records
+          // Initialize attendance records, restoring marks toggled before a reload or lost connection
+          const draft = await offlineStore.getDraft(currentSection.id, selectedDate);
           const initialRecords: Record<string, AttendanceRecord> = {};
-          studentsData?.forEach(student => {
-            initialRecords[student.id] = {
-              student_id: student.id,
-              present: false,
-              absent: false,
-            };
+          studentsData.forEach(student => {
+            const mark = draft?.marks[student.id];
+            initialRecords[student.id] = mark
+              ? { student_id: student.id, status: mark.status, reason_code: mark.reasonCode, proof_url: mark.proofUrl }
+              : existingRecords[student.id] || { student_id: student.id };
           });
           setAttendanceRecords(initialRecords);
+          setLoadedKey(draftKey(currentSection.id, selectedDate));
 
           // Calculate weekly trend
-          const weekAgo = new Date();
-          weekAgo.setDate(weekAgo.getDate() - 7);
-          const { data: weeklyData } = await supabase
-            .from("attendance")
-            .select("status")
-            .eq("section_id", currentSection.id)
-            .gte("date", weekAgo.toISOString().split('T')[0]);
-
-          if (weeklyData) {
-            const presentCount = weeklyData.filter(r => r.status === 'present').length;
-            const totalCount = weeklyData.length;
-            setWeeklyTrend(totalCount > 0 ? Math.round((presentCount / totalCount) * 100) : 0);
+          if (navigator.onLine) {
+            const weekAgo = new Date();
+            weekAgo.setDate(weekAgo.getDate() - 7);
+            const stats = await apiClient.getAttendanceStats({
+              sectionId: currentSection.id,
+              startDate: localDateKey(weekAgo),
+            });
+            setWeeklyTrend(Math.round(stats.attendanceRate));
           }
+        } else {
+          toast({
+            title: "No sections",
+            description: "You are not assigned to any section yet. Ask your adviser to assign you.",
+          });
         }
       } catch (error) {
         console.error("Error fetching data:", error);
@@ -137,36 +270,152 @@ export default function Attendance() {
     };
 
     fetchData();
-  }, [navigate, toast]);
+  }, [navigate, toast, selectedDate, routeSectionId]);
 
-  const handleToggle = async (studentId: string, type: 'present' | 'absent') => {
-    const record = attendanceRecords[studentId];
-    const newValue = type === 'present' ? !record.present : !record.absent;
-    
+  // Persist every mark that differs from the server to IndexedDB as it is toggled
+  useEffect(() => {
+    if (!section || loadedKey !== draftKey(section.id, selectedDate)) return;
+
+    const marks: Record<string, DraftMark> = {};
+    Object.values(attendanceRecords).forEach(record => {
+      if (record.status && !isSameMark(record, savedRecords[record.student_id])) {
+        marks[record.student_id] = {
+          status: record.status,
+          reasonCode: record.reason_code,
+          proofUrl: record.proof_url,
+        };
+      }
+    });
+
+    const save = Object.keys(marks).length > 0
+      ? offlineStore.saveDraft({
+          key: draftKey(section.id, selectedDate),
+          sectionId: section.id,
+          date: selectedDate,
+          marks,
+          updatedAt: new Date().toISOString(),
+        })
+      : offlineStore.deleteDraft(section.id, selectedDate);
+
+    save
+      .then(() => {
+        setAttendanceRecords(prev => {
+          if (!Object.values(prev).some(record => record.saving)) return prev;
+          const next: Record<string, AttendanceRecord> = {};
+          Object.entries(prev).forEach(([studentId, record]) => {
+            next[studentId] = { ...record, saving: false };
+          });
+          return next;
+        });
+      })
+      .catch(error => console.error("Error saving attendance draft:", error));
+  }, [attendanceRecords, savedRecords, section, selectedDate, loadedKey]);
+
+  // Students checking themselves in by QR code are saved as present on the server;
+  // show them as they arrive unless the beadle has already marked them differently
+  const pollCheckInsRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!section || isLoading || !isOnline) return;
+
+    let since: string | undefined;
+    const poll = async () => {
+      try {
+        const { checkIns } = await apiClient.getCheckIns({ sectionId: section.id, date: selectedDate, since });
+        if (checkIns.length === 0) return;
+        since = checkIns[checkIns.length - 1].checkedInAt;
+
+        const present = (studentId: string): AttendanceRecord => ({ student_id: studentId, status: "present" });
+        setCheckedIn(prev => ({
+          ...prev,
+          ...Object.fromEntries(checkIns.map(checkIn => [checkIn.studentId, checkIn.checkedInAt])),
+        }));
+        setAttendanceRecords(prev => {
+          const next = { ...prev };
+          checkIns.forEach(({ studentId }) => {
+            if (!prev[studentId]?.status || isSameMark(prev[studentId], savedRecordsRef.current[studentId])) {
+              next[studentId] = present(studentId);
+            }
+          });
+          return next;
+        });
+        setSavedRecords(prev => {
+          const next = { ...prev };
+          checkIns.forEach(({ studentId }) => {
+            next[studentId] = present(studentId);
+          });
+          return next;
+        });
+      } catch (error) {
+        console.error("Error fetching check-ins:", error);
+      }
+    };
+
+    poll();
+    pollCheckInsRef.current = poll;
+    const interval = window.setInterval(poll, CHECK_INS_POLL_MS);
+    return () => {
+      pollCheckInsRef.current = null;
+      window.clearInterval(interval);
+    };
+  }, [section, selectedDate, isLoading, isOnline]);
+
+  useLiveRefresh(
+    () => pollCheckInsRef.current?.(),
+    event => event.type === "checkin.received" && event.sectionId === section?.id
+  );
+
+  // Whether the day is finalized decides if marks can still be changed here
+  useEffect(() => {
+    if (!section || !isOnline) return;
+
+    apiClient.getAttendanceLock(section.id, selectedDate)
+      .then(({ lock }) => setLock(lock))
+      .catch(error => console.error("Error fetching attendance lock:", error));
+  }, [section, selectedDate, isOnline, rejected.length]);
+
+  // Which past and future days this user may pick for the section
+  useEffect(() => {
+    if (!section || !isOnline) return;
+
+    apiClient.getAttendancePolicy(section.id)
+      .then(({ policy }) => setPolicy(policy))
+      .catch(error => console.error("Error fetching attendance policy:", error));
+  }, [section, isOnline]);
+
+  const handleDateChange = (date: string) => {
+    if (section) navigate(`/attendance/${section.id}/${date}`);
+  };
+
+  const handleSectionChange = (sectionId: string) => {
+    navigate(`/attendance/${sectionId}/${selectedDate}`);
+  };
+
+  const handleToggle = (studentId: string, status: AttendanceStatus | undefined) => {
     setAttendanceRecords(prev => ({
       ...prev,
       [studentId]: {
         ...prev[studentId],
-        [type]: newValue,
-        [type === 'present' ? 'absent' : 'present']: false,
+        status,
+        reason_code: needsReason(status) ? prev[studentId].reason_code : undefined,
         saving: true,
       }
     }));
+  };
 
-    // Simulate instant save animation
-    setTimeout(() => {
-      setAttendanceRecords(prev => ({
-        ...prev,
-        [studentId]: {
-          ...prev[studentId],
-          saving: false,
-        }
-      }));
-    }, 500);
+  const handleReasonChange = (studentId: string, reasonCode: ReasonCode) => {
+    setAttendanceRecords(prev => ({
+      ...prev,
+      [studentId]: {
+        ...prev[studentId],
+        reason_code: reasonCode,
+      }
+    }));
   };
 
-  const handleUploadClick = (student: Student) => {
+  const handleUploadClick = (student: Student, asExcuseLetter = false) => {
     setSelectedStudent(student);
+    setExcuseLetterMode(asExcuseLetter);
     setUploadModalOpen(true);
   };
 
@@ -185,45 +434,54 @@ export default function Attendance() {
   const handleSubmit = async () => {
     setIsSubmitting(true);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session || !section) return;
-
-      const records = Object.entries(attendanceRecords)
-        .filter(([_, record]) => record.present || record.absent)
-        .map(([studentId, record]) => ({
-          student_id: studentId,
-          section_id: section.id,
-          date: selectedDate,
-          status: record.present ? 'present' : 'absent',
-          proof_url: record.proof_url || null,
-          submitted_by: session.user.id,
-        }));
+      if (!section) return;
 
-      if (records.length === 0) {
+      const marked = Object.entries(attendanceRecords).filter(([_, record]) => record.status);
+
+      if (marked.length === 0) {
         toast({
           title: "No records to submit",
           description: "Please mark attendance for at least one student",
           variant: "destructive",
         });
-        setIsSubmitting(false);
         return;
       }
 
-      // Delete existing records for this date
-      await supabase
-        .from("attendance")
-        .delete()
-        .eq("section_id", section.id)
-        .eq("date", selectedDate);
+      // Compare with what is already stored and only send what differs
+      const toSend = marked.filter(([studentId, record]) => !isSameMark(record, savedRecords[studentId]));
 
-      const { error } = await supabase
-        .from("attendance")
-        .insert(records);
+      if (toSend.length === 0) {
+        setShowSuccess(true);
+        setTimeout(() => setShowSuccess(false), 3000);
+        return;
+      }
 
-      if (error) throw error;
+      // Queue first so the marks survive a dropped connection, then try to send right away
+      await queueSubmission({
+        sectionId: section.id,
+        date: selectedDate,
+        records: toSend.map(([studentId, record]) => ({
+          studentId,
+          status: record.status!,
+          reasonCode: record.reason_code,
+          proofUrl: record.proof_url,
+        })),
+        baseline: toSend.map(([studentId]) => ({
+          studentId,
+          status: savedRecords[studentId]?.status ?? null,
+        })),
+        overrideReason: overrideReason ?? undefined,
+      });
+
+      if (!navigator.onLine) {
+        toast({
+          title: "Saved offline",
+          description: `${toSend.length} marks will sync when you're back online`,
+        });
+        return;
+      }
 
-      setShowSuccess(true);
-      setTimeout(() => setShowSuccess(false), 3000);
+      await syncNow();
     } catch (error) {
       console.error("Error submitting attendance:", error);
       toast({
@@ -236,6 +494,60 @@ export default function Attendance() {
     }
   };
 
+  const handleResolveConflict = async (choices: Record<string, ConflictChoice>) => {
+    const submission = conflicts.find(item => item.key === conflictKey);
+    if (!submission) return;
+
+    // Show the server's mark for students where it was kept
+    submission.conflicts?.forEach(conflict => {
+      if (choices[conflict.studentId] !== "server") return;
+      const serverRecord: AttendanceRecord = conflict.server
+        ? { student_id: conflict.studentId, status: conflict.server.status, reason_code: conflict.server.reasonCode || undefined }
+        : { student_id: conflict.studentId };
+      if (submission.key === draftKey(section?.id || "", selectedDate)) {
+        setSavedRecords(prev => ({ ...prev, [conflict.studentId]: serverRecord }));
+        setAttendanceRecords(prev => ({ ...prev, [conflict.studentId]: serverRecord }));
+      }
+    });
+
+    await resolveConflict(submission.key, choices);
+  };
+
+  const handleFinalize = async () => {
+    if (!section) return;
+    try {
+      const { lock } = await apiClient.finalizeAttendance(section.id, selectedDate);
+      setLock(lock);
+      toast({
+        title: "Attendance finalized",
+        description: `Attendance for ${selectedDate} can now only be changed with an override`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to finalize attendance",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOverride = async (reason: string) => {
+    setOverrideReason(reason);
+    if (rejectedSubmission) {
+      await overrideLock(rejectedSubmission.key, reason);
+    }
+  };
+
+  // Drop marks the server turned away and go back to what it has stored
+  const handleDiscardRejected = async () => {
+    if (!rejectedSubmission) return;
+    await discardQueued(rejectedSubmission.key);
+    setAttendanceRecords(Object.fromEntries(students.map(student => [
+      student.id,
+      savedRecords[student.id] || { student_id: student.id },
+    ])));
+  };
+
   const handleAiMessage = async () => {
     if (!aiMessage.trim()) return;
 
@@ -243,7 +555,7 @@ export default function Attendance() {
     
     // Simulate AI response
     setTimeout(() => {
-      const markedCount = Object.values(attendanceRecords).filter(r => r.present || r.absent).length;
+      const markedCount = Object.values(attendanceRecords).filter(r => r.status).length;
       const totalCount = students.length;
       const submissionPercent = totalCount > 0 ? Math.round((markedCount / totalCount) * 100) : 0;
       
@@ -254,11 +566,54 @@ export default function Attendance() {
   };
 
   const submissionPercent = students.length > 0 
-    ? Math.round((Object.values(attendanceRecords).filter(r => r.present || r.absent).length / students.length) * 100)
+    ? Math.round((Object.values(attendanceRecords).filter(r => r.status).length / students.length) * 100)
     : 0;
 
   const isComplete = submissionPercent === 100;
 
+  const currentKey = section ? draftKey(section.id, selectedDate) : null;
+  const queuedForDay = [...pending, ...conflicts, ...rejected].find(item => item.key === currentKey);
+  const rejectedSubmission = rejected.find(item => item.key === currentKey);
+  const canOverride = userRole === "adviser" || userRole === "coordinator" || userRole === "admin";
+  const today = policy?.today ?? localDateKey();
+  const isFutureDate = selectedDate > today;
+  const onLeave = new Set(policy?.leaves
+    .filter(leave => leave.startDate <= selectedDate && selectedDate <= leave.endDate)
+    .map(leave => leave.studentId));
+
+  // Future days only take excused marks for students on approved leave. After the
+  // cutoff, students without a saved mark can still be filled in; anything else on
+  // a finalized day needs an override.
+  const isRowEditable = (studentId: string) => {
+    if (isFutureDate) return onLeave.has(studentId);
+    if (!lock?.finalized || overrideReason !== null) return true;
+    return lock.finalizedBy === "cutoff" && !savedRecords[studentId]?.status;
+  };
+  const isEditable = students.some(student => isRowEditable(student.id));
+  const unsubmittedCount = Object.values(attendanceRecords).filter(record => {
+    if (!record.status || isSameMark(record, savedRecords[record.student_id])) return false;
+    const queued = queuedForDay?.records.find(item => item.studentId === record.student_id);
+    return !queued || !isSameMark(record, {
+      student_id: queued.studentId,
+      status: queued.status,
+      reason_code: queued.reasonCode,
+      proof_url: queued.proofUrl,
+    });
+  }).length;
+
+  const conflictSubmission = conflicts.find(item => item.key === conflictKey) || null;
+  const studentNames = Object.fromEntries(students.map(student => [student.id, `${student.first_name} ${student.last_name}`]));
+
+  // Open the resolution dialog as soon as a sync for this day comes back with conflicts
+  const lastConflictCount = useRef(0);
+  useEffect(() => {
+    if (conflicts.length > lastConflictCount.current) {
+      const conflict = conflicts.find(item => item.key === currentKey);
+      if (conflict) setConflictKey(conflict.key);
+    }
+    lastConflictCount.current = conflicts.length;
+  }, [conflicts, currentKey]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -286,12 +641,35 @@ export default function Attendance() {
                 {section?.name} - {section?.grade_level} ({section?.school_year})
               </p>
             </div>
+            <SectionPicker sections={sections} value={section?.id} onChange={handleSectionChange} />
+            <AttendanceDatePicker value={selectedDate} policy={policy} onChange={handleDateChange} />
           </div>
+          <SyncStatusIndicator
+            isOnline={isOnline}
+            isSyncing={isSyncing}
+            pendingCount={pending.length}
+            conflictCount={conflicts.length}
+            unsubmittedCount={unsubmittedCount}
+            onSyncNow={() => syncNow()}
+            onShowConflicts={() => setConflictKey(conflicts[0]?.key ?? null)}
+          />
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-6">
         <div className="space-y-6">
+          {lock && (
+            <AttendanceLockBanner
+              lock={lock}
+              canOverride={canOverride}
+              overrideReason={overrideReason}
+              rejectedSubmission={rejectedSubmission}
+              onFinalize={handleFinalize}
+              onOverride={handleOverride}
+              onDiscard={handleDiscardRejected}
+            />
+          )}
+
           {/* Summary Cards */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <AnimatedCard
@@ -301,7 +679,7 @@ export default function Attendance() {
               )}
             >
               <CardHeader className="pb-3">
-                <CardTitle className="text-sm font-medium">Today's Submission</CardTitle>
+                <CardTitle className="text-sm font-medium">{selectedDate === today ? "Today's Submission" : `Submission for ${selectedDate}`}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
@@ -314,7 +692,7 @@ export default function Attendance() {
                   </div>
                   <Progress value={submissionPercent} className="h-2" />
                   <p className="text-xs text-muted-foreground">
-                    {Object.values(attendanceRecords).filter(r => r.present || r.absent).length} / {students.length} students marked
+                    {Object.values(attendanceRecords).filter(r => r.status).length} / {students.length} students marked
                   </p>
                 </div>
               </CardContent>
@@ -344,7 +722,7 @@ export default function Attendance() {
             <CardHeader>
               <CardTitle>Attendance Table</CardTitle>
               <CardDescription>
-                Mark attendance for each student. Toggle checkboxes to mark present/absent and upload proof.
+                Mark attendance for each student. Pick a status, add a reason for anything other than present, and upload proof.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -353,14 +731,15 @@ export default function Attendance() {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="w-[300px]">Student Name</TableHead>
-                      <TableHead className="text-center">Present</TableHead>
-                      <TableHead className="text-center">Absent</TableHead>
+                      <TableHead className="text-center">Status</TableHead>
+                      <TableHead className="text-center">Reason</TableHead>
                       <TableHead className="text-center">Proof Upload</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {students.map((student) => {
                       const record = attendanceRecords[student.id];
+                      const rowEditable = isRowEditable(student.id);
                       return (
                         <TableRow key={student.id} className={cn(
                           "transition-colors",
@@ -373,37 +752,64 @@ export default function Attendance() {
                               )}
                               {student.first_name} {student.last_name}
                               {student.middle_name && ` ${student.middle_name}`}
+                              {checkedIn[student.id] && (
+                                <span
+                                  className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+                                  title={`Checked in at ${new Date(checkedIn[student.id]).toLocaleTimeString()}`}
+                                >
+                                  <QrCode className="h-3 w-3" />
+                                  {new Date(checkedIn[student.id]).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                                </span>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell className="text-center">
-                            <div className="flex justify-center">
-                              <Checkbox
-                                checked={record?.present || false}
-                                onCheckedChange={() => handleToggle(student.id, 'present')}
-                                className={cn(
-                                  "h-6 w-6 transition-all",
-                                  record?.present && "data-[state=checked]:bg-green-500 data-[state=checked]:border-green-500"
-                                )}
-                              />
-                            </div>
+                            <ToggleGroup
+                              type="single"
+                              size="sm"
+                              value={record?.status || ""}
+                              onValueChange={(value) => handleToggle(student.id, (value || undefined) as AttendanceStatus | undefined)}
+                              disabled={!rowEditable}
+                              className="flex-wrap justify-center"
+                            >
+                              {ATTENDANCE_STATUSES.map(({ value, label, color }) => (
+                                <ToggleGroupItem
+                                  key={value}
+                                  value={value}
+                                  aria-label={label}
+                                  disabled={!rowEditable || (isFutureDate && value !== "excused")}
+                                  className="text-xs data-[state=on]:text-white"
+                                  style={record?.status === value ? { backgroundColor: color } : undefined}
+                                >
+                                  {label}
+                                </ToggleGroupItem>
+                              ))}
+                            </ToggleGroup>
                           </TableCell>
                           <TableCell className="text-center">
-                            <div className="flex justify-center">
-                              <Checkbox
-                                checked={record?.absent || false}
-                                onCheckedChange={() => handleToggle(student.id, 'absent')}
-                                className={cn(
-                                  "h-6 w-6 transition-all",
-                                  record?.absent && "data-[state=checked]:bg-red-500 data-[state=checked]:border-red-500"
-                                )}
-                              />
-                            </div>
+                            <Select
+                              value={record?.reason_code || ""}
+                              onValueChange={(value) => handleReasonChange(student.id, value as ReasonCode)}
+                              disabled={!rowEditable || !needsReason(record?.status)}
+                            >
+                              <SelectTrigger className="w-[160px] mx-auto">
+                                <SelectValue placeholder="Reason" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {REASON_CODES.map(({ value, label }) => (
+                                  <SelectItem key={value} value={value}>
+                                    {label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                           </TableCell>
                           <TableCell className="text-center">
                             <Button
                               variant="outline"
                               size="sm"
                               onClick={() => handleUploadClick(student)}
+                              disabled={!rowEditable}
                               className="gap-2"
                             >
                               {record?.proof_url ? (
@@ -418,6 +824,32 @@ export default function Attendance() {
                                 </>
                               )}
                             </Button>
+                            {(savedRecords[student.id]?.status === "absent" || savedRecords[student.id]?.status === "cutting") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleUploadClick(student, true)}
+                                className="gap-2 ml-1"
+                              >
+                                <FileText className="h-4 w-4" />
+                                Excuse letter
+                              </Button>
+                            )}
+                            {userRole === "admin" && savedRecords[student.id]?.id && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="History"
+                                onClick={() => setHistoryFor({
+                                  table: "attendance_records",
+                                  id: savedRecords[student.id].id!,
+                                  label: `${student.first_name} ${student.last_name}, ${selectedDate}`,
+                                })}
+                                className="ml-1"
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                            )}
                           </TableCell>
                         </TableRow>
                       );
@@ -432,7 +864,7 @@ export default function Attendance() {
           <div className="flex justify-end">
             <Button
               onClick={handleSubmit}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !isEditable}
               size="lg"
               className={cn(
                 "relative transition-all",
@@ -443,7 +875,7 @@ export default function Attendance() {
                 <span className="absolute inset-0 rounded-md bg-blue-400 opacity-75 blur-lg animate-pulse" />
               )}
               <span className="relative flex items-center gap-2">
-                {isSubmitting ? "Submitting..." : "Submit Attendance"}
+                {isSubmitting ? "Submitting..." : isOnline ? "Submit Attendance" : "Save Offline"}
               </span>
             </Button>
           </div>
@@ -515,6 +947,17 @@ export default function Attendance() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Sync Conflicts */}
+      <SyncConflictDialog
+        submission={conflictSubmission}
+        studentNames={studentNames}
+        onOpenChange={(open) => !open && setConflictKey(null)}
+        onResolve={handleResolveConflict}
+      />
+
+      {/* Audit history of one record */}
+      <AuditHistoryDialog record={historyFor} onOpenChange={(open) => !open && setHistoryFor(null)} />
+
       {/* Upload Modal */}
       {selectedStudent && section && (
         <ProofUploadModal
@@ -525,6 +968,7 @@ export default function Attendance() {
           sectionId={section.id}
           date={selectedDate}
           onUploadComplete={handleUploadComplete}
+          excuseLetter={excuseLetterMode}
         />
       )}
     </div>
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AuditEntry } from "@/components/AuditEntry";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Download, RefreshCw, Search } from "lucide-react";
+import { apiClient, type AuditLogEntry, type AuditLogFilters } from "@/lib/api";
+import { saveBlob } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+type Facets = Awaited<ReturnType<typeof apiClient.getAuditFacets>>;
+
+export default function AuditLog() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<Facets>({ actions: [], tables: [], users: [] });
+  // What the form shows, and what the list was last loaded with
+  const [draft, setDraft] = useState<AuditLogFilters>({});
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const fetchEntries = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const page = await apiClient.getAuditLogs({ ...filters, cursor, limit: PAGE_SIZE });
+      setEntries(current => (cursor ? [...current, ...page.entries] : page.entries));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      showError(error, "Failed to load the audit log");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, showError]);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      fetchEntries();
+    };
+
+    checkSession();
+  }, [navigate, fetchEntries]);
+
+  useEffect(() => {
+    apiClient.getAuditFacets()
+      .then(setFacets)
+      .catch(error => showError(error, "Failed to load the audit log filters"));
+  }, [showError]);
+
+  const updateDraft = (key: keyof AuditLogFilters, value: string) => {
+    setDraft(current => ({ ...current, [key]: value === "all" || value === "" ? undefined : value }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ ...draft, recordId: draft.recordId?.trim() || undefined, q: draft.q?.trim() || undefined });
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    setFilters({});
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await apiClient.downloadAuditLog(filters);
+      saveBlob(blob, `audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+    } catch (error) {
+      showError(error, "Failed to export the audit log");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold gradient-text">Audit Log</h1>
+            <p className="text-sm text-muted-foreground">
+              Who changed what, with every changed field before and after
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Filters</CardTitle>
+            <CardDescription>The search text is matched anywhere in the old or new data</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSearch} className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-1">
+                <Label>User</Label>
+                <Select value={draft.userId || "all"} onValueChange={(value) => updateDraft("userId", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All users</SelectItem>
+                    {facets.users.map(user => (
+                      <SelectItem key={user.id} value={user.id}>{user.fullName} ({user.role})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Action</Label>
+                <Select value={draft.action || "all"} onValueChange={(value) => updateDraft("action", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {facets.actions.map(action => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Table</Label>
+                <Select value={draft.table || "all"} onValueChange={(value) => updateDraft("table", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All tables</SelectItem>
+                    {facets.tables.map(table => (
+                      <SelectItem key={table} value={table}>{table}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditRecordId">Record ID</Label>
+                <Input
+                  id="auditRecordId"
+                  value={draft.recordId || ""}
+                  onChange={(e) => updateDraft("recordId", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditStart">From</Label>
+                <Input
+                  id="auditStart"
+                  type="date"
+                  value={draft.startDate || ""}
+                  onChange={(e) => updateDraft("startDate", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditEnd">To</Label>
+                <Input
+                  id="auditEnd"
+                  type="date"
+                  value={draft.endDate || ""}
+                  min={draft.startDate}
+                  onChange={(e) => updateDraft("endDate", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="auditSearch">Search changed data</Label>
+                <Input
+                  id="auditSearch"
+                  placeholder="e.g. absent, a student number or a name"
+                  maxLength={100}
+                  value={draft.q || ""}
+                  onChange={(e) => updateDraft("q", e.target.value)}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2 md:col-span-4">
+                <Button type="submit">
+                  <Search className="h-4 w-4 mr-2" />
+                  Search
+                </Button>
+                <Button type="button" variant="outline" onClick={handleClear}>
+                  Clear
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Entries</CardTitle>
+              <CardDescription>Newest first</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" disabled={isExporting} onClick={handleExport}>
+                <Download className="h-4 w-4 mr-2" />
+                {isExporting ? "Exporting..." : "Export CSV"}
+              </Button>
+              <Button size="icon" variant="outline" title="Refresh" onClick={() => fetchEntries()}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {entries.map(entry => (
+              <AuditEntry key={entry.id} entry={entry} />
+            ))}
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No entries</p>
+            ) : nextCursor && (
+              <div className="flex justify-center pt-2">
+                <Button size="sm" variant="outline" onClick={() => fetchEntries(nextCursor)}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
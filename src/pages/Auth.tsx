@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { GraduationCap } from "lucide-react";
+import { apiClient } from "@/lib/api";
 
 export default function Auth() {
   const navigate = useNavigate();
@@ -27,7 +28,7 @@ export default function Auth() {
     // Check if user is already logged in
     const checkUser = async () => {
       const { data: { session } } = await supabase.auth.getSession();
-      if (session) {
+      if (session && apiClient.hasToken()) {
         navigate("/dashboard");
       }
     };
@@ -47,6 +48,15 @@ export default function Auth() {
       if (error) throw error;
 
       if (data.session) {
+        // Attendance and everything after it is saved through the API, which
+        // needs its own token for the same account
+        try {
+          await apiClient.login(signInEmail, signInPassword);
+        } catch (apiError) {
+          await supabase.auth.signOut();
+          throw apiError;
+        }
+
         toast({
           title: "Welcome back!",
           description: "You've successfully signed in.",
@@ -84,6 +94,10 @@ export default function Auth() {
       if (error) throw error;
 
       if (data.user) {
+        // The same account on the API, signed in separately
+        await apiClient.register({ email: signUpEmail, password: signUpPassword, fullName: signUpFullName });
+        apiClient.clearToken();
+
         toast({
           title: "Account created!",
           description: "You can now sign in with your credentials.",
@@ -203,6 +217,18 @@ export default function Auth() {
                 </form>
               </TabsContent>
             </Tabs>
+            <p className="text-sm text-muted-foreground text-center mt-4">
+              Parent or guardian?{" "}
+              <button className="text-primary underline" onClick={() => navigate("/parent")}>
+                Sign in to the parent portal
+              </button>
+            </p>
+            <p className="text-sm text-muted-foreground text-center mt-2">
+              Student?{" "}
+              <button className="text-primary underline" onClick={() => navigate("/student")}>
+                Sign in to the student portal
+              </button>
+            </p>
           </CardContent>
         </Card>
       </div>
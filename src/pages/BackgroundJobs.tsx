@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, RefreshCw, RotateCcw } from "lucide-react";
+import {
+  apiClient,
+  type Pagination,
+  type QueueJob,
+  type QueueJobStatus,
+  type QueueName,
+  type QueueSummary,
+} from "@/lib/api";
+
+const STATUS_BADGES: Record<QueueJobStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  waiting: { label: "Waiting", variant: "secondary" },
+  delayed: { label: "Delayed", variant: "outline" },
+  active: { label: "Active", variant: "secondary" },
+  completed: { label: "Completed", variant: "default" },
+  dead: { label: "Dead", variant: "destructive" },
+};
+
+const QUEUE_LABELS: Record<QueueName, { label: string; description: string }> = {
+  notifications: {
+    label: "Notifications",
+    description: "Alert checks and guardian messages after attendance is saved",
+  },
+  reports: {
+    label: "Reports",
+    description: "School forms generated for many sections at once",
+  },
+  imports: {
+    label: "Imports",
+    description: "Students added from CSV uploads",
+  },
+};
+
+const JOB_LABELS: Record<string, string> = {
+  attendance_follow_up: "Attendance follow-up",
+  sf2_batch: "SF2 for every section",
+  student_import: "Student CSV import",
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+export default function BackgroundJobs() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [queues, setQueues] = useState<QueueSummary[]>([]);
+  const [driver, setDriver] = useState<string | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [queue, setQueue] = useState<QueueName>("notifications");
+  const [status, setStatus] = useState<QueueJobStatus>("active");
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<QueueJob | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await apiClient.getQueueJobs({ queue, status, page });
+      setJobs(response.jobs);
+      setQueues(response.queues);
+      setDriver(response.driver);
+      setPagination(response.pagination);
+    } catch (error) {
+      showError(error, "Failed to load background jobs");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [queue, status, page, showError]);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      fetchJobs();
+    };
+
+    checkSession();
+  }, [navigate, fetchJobs]);
+
+  const handleRetry = async (job: QueueJob) => {
+    setWorkingId(job.id);
+    try {
+      await apiClient.retryQueueJob(job.id);
+      toast({ title: "Job queued for another try" });
+      setSelected(null);
+      await fetchJobs();
+    } catch (error) {
+      showError(error, "Failed to retry the job");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const showQueue = (name: QueueName, jobStatus: QueueJobStatus) => {
+    setQueue(name);
+    setStatus(jobStatus);
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold gradient-text">Background Jobs</h1>
+            <p className="text-sm text-muted-foreground">
+              Work the server does outside of requests, and the jobs that ran out of retries
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {driver === "memory" && (
+          <Card className="border-destructive/50">
+            <CardContent className="pt-6 text-sm">
+              The job queue is kept in memory, so queued jobs are lost when the server restarts. Set REDIS_URL on the server to keep them in Redis.
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {queues.map(summary => (
+            <Card key={summary.name}>
+              <CardHeader>
+                <CardTitle className="text-lg">{QUEUE_LABELS[summary.name].label}</CardTitle>
+                <CardDescription>
+                  {QUEUE_LABELS[summary.name].description}. {summary.concurrency} at a time, {summary.attempts} attempts.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {(Object.keys(STATUS_BADGES) as QueueJobStatus[]).map(key => (
+                  <Button
+                    key={key}
+                    size="sm"
+                    variant={queue === summary.name && status === key ? "default" : "outline"}
+                    onClick={() => showQueue(summary.name, key)}
+                  >
+                    {summary.counts[key]} {STATUS_BADGES[key].label.toLowerCase()}
+                  </Button>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>{QUEUE_LABELS[queue].label}: {STATUS_BADGES[status].label.toLowerCase()}</CardTitle>
+              <CardDescription>
+                {status === "completed" || status === "dead" ? "Newest first" : "In the order they will run"}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={status} onValueChange={(value) => showQueue(queue, value as QueueJobStatus)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATUS_BADGES) as QueueJobStatus[]).map(key => (
+                    <SelectItem key={key} value={key}>{STATUS_BADGES[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="icon" variant="outline" title="Refresh" onClick={fetchJobs}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+            ) : jobs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No jobs</p>
+            ) : (
+              jobs.map(job => (
+                <button
+                  key={job.id}
+                  type="button"
+                  className="w-full text-left flex items-start justify-between gap-4 p-3 rounded-lg border hover:bg-muted/50"
+                  onClick={() => setSelected(job)}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">{JOB_LABELS[job.name] || job.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      Queued {formatTime(job.createdAt)}
+                      {job.status === "delayed" && ` · runs ${formatTime(job.runAt)}`}
+                      {job.status === "active" && job.progressMessage && ` · ${job.progressMessage}`}
+                    </p>
+                    {job.error && (
+                      <p className="text-xs text-destructive truncate">
+                        Attempt {job.attempts} of {job.maxAttempts}: {job.error}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant={STATUS_BADGES[job.status].variant} className="shrink-0">
+                    {job.status === "active" ? `${job.progress}%` : STATUS_BADGES[job.status].label}
+                  </Badge>
+                </button>
+              ))
+            )}
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.pages}
+                </span>
+                <Button size="sm" variant="outline" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{JOB_LABELS[selected.name] || selected.name}</DialogTitle>
+                <DialogDescription>{QUEUE_LABELS[selected.queue].label} queue · {selected.id}</DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <p><span className="text-muted-foreground">Status:</span> {STATUS_BADGES[selected.status].label}</p>
+                <p><span className="text-muted-foreground">Attempts:</span> {selected.attempts} of {selected.maxAttempts}</p>
+                <p><span className="text-muted-foreground">Queued:</span> {formatTime(selected.createdAt)}</p>
+                <p>
+                  <span className="text-muted-foreground">
+                    {selected.finishedAt ? "Finished:" : selected.startedAt ? "Started:" : "Runs:"}
+                  </span>{" "}
+                  {formatTime(selected.finishedAt || selected.startedAt || selected.runAt)}
+                </p>
+              </div>
+
+              {selected.status === "active" && (
+                <div className="space-y-1">
+                  <Progress value={selected.progress} />
+                  {selected.progressMessage && (
+                    <p className="text-xs text-muted-foreground">{selected.progressMessage}</p>
+                  )}
+                </div>
+              )}
+
+              {selected.error && (
+                <p className="text-sm text-destructive">{selected.error}</p>
+              )}
+
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Data</p>
+                <pre className="text-xs rounded-md border bg-muted/50 p-3 overflow-auto max-h-48">
+                  {JSON.stringify(selected.data, null, 2)}
+                </pre>
+              </div>
+
+              {selected.result !== null && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Result</p>
+                  <pre className="text-xs rounded-md border bg-muted/50 p-3 overflow-auto max-h-48">
+                    {JSON.stringify(selected.result, null, 2)}
+                  </pre>
+                </div>
+              )}
+
+              {selected.status === "dead" && (
+                <div className="flex justify-end">
+                  <Button disabled={workingId === selected.id} onClick={() => handleRetry(selected)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Retry
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
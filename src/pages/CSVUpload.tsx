@@ -1,6 +1,6 @@
 import { useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { apiClient, type QueueJob, type StudentImportResult } from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,6 +10,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useQueueJobPolling } from "@/hooks/use-queue-job";
 import { ArrowLeft, Upload, FileText, CheckCircle, XCircle, Download } from "lucide-react";
 
 interface StudentData {
@@ -17,13 +18,22 @@ interface StudentData {
   first_name: string;
   last_name: string;
   middle_name?: string;
+  sex?: 'male' | 'female';
 }
 
+// Accepts M/F as well as male/female, in any case
+const parseSex = (value?: string): StudentData['sex'] => {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'm' || normalized === 'male') return 'male';
+  if (normalized === 'f' || normalized === 'female') return 'female';
+  return undefined;
+};
+
 interface Section {
   id: string;
   name: string;
-  grade_level: string;
-  school_year: string;
+  gradeLevel: string;
+  schoolYear: string;
 }
 
 interface UploadResult {
@@ -39,23 +49,18 @@ export default function CSVUpload() {
   const [sections, setSections] = useState<Section[]>([]);
   const [selectedSection, setSelectedSection] = useState<string>("");
   const [csvData, setCsvData] = useState<StudentData[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [isStarting, setIsStarting] = useState(false);
+  const [job, setJob] = useState<QueueJob<StudentImportResult> | null>(null);
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
   const [fileName, setFileName] = useState("");
 
   useState(() => {
     const fetchSections = async () => {
       try {
-        const { data, error } = await supabase
-          .from("sections")
-          .select("*")
-          .order("name");
-
-        if (error) throw error;
-        setSections(data || []);
-        
-        if (data && data.length > 0) {
+        const { sections: data } = await apiClient.getSections();
+        setSections(data);
+
+        if (data.length > 0) {
           setSelectedSection(data[0].id);
         }
       } catch (error) {
@@ -86,7 +91,8 @@ export default function CSVUpload() {
         student_number: values[0] || '',
         first_name: values[1] || '',
         last_name: values[2] || '',
-        middle_name: values[3] || undefined
+        middle_name: values[3] || undefined,
+        sex: parseSex(values[4])
       };
 
       data.push(student);
@@ -116,68 +122,21 @@ export default function CSVUpload() {
     reader.readAsText(file);
   };
 
-  const uploadStudents = async () => {
-    if (!selectedSection || csvData.length === 0) {
-      toast({
-        title: "Error",
-        description: "Please select a section and upload a CSV file",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setIsUploading(true);
-    setUploadProgress(0);
-    const result: UploadResult = { success: 0, errors: [], total: csvData.length };
-
-    try {
-      for (let i = 0; i < csvData.length; i++) {
-        const student = csvData[i];
-        
-        // Validate required fields
-        if (!student.student_number || !student.first_name || !student.last_name) {
-          result.errors.push(`Row ${i + 2}: Missing required fields (student_number, first_name, last_name)`);
-          continue;
-        }
-
-        // Check if student already exists
-        const { data: existingStudent } = await supabase
-          .from("students")
-          .select("id")
-          .eq("student_number", student.student_number)
-          .single();
+  const isUploading = isStarting || (!!job && job.status !== "completed" && job.status !== "dead");
+  const jobId = job && isUploading ? job.id : null;
 
-        if (existingStudent) {
-          result.errors.push(`Row ${i + 2}: Student ${student.student_number} already exists`);
-          continue;
-        }
+  // The import runs as a background job; follow it until it finishes
+  useQueueJobPolling<StudentImportResult>(jobId, latest => {
+    setJob(latest);
 
-        // Insert new student
-        const { error } = await supabase
-          .from("students")
-          .insert({
-            section_id: selectedSection,
-            student_number: student.student_number,
-            first_name: student.first_name,
-            last_name: student.last_name,
-            middle_name: student.middle_name || null
-          });
-
-        if (error) {
-          result.errors.push(`Row ${i + 2}: ${error.message}`);
-        } else {
-          result.success++;
-        }
-
-        setUploadProgress(((i + 1) / csvData.length) * 100);
-      }
+    if (latest.status === "completed" && latest.result) {
+      const result = latest.result;
+      setUploadResult({ success: result.created, errors: result.errors, total: result.total });
 
-      setUploadResult(result);
-      
-      if (result.success > 0) {
+      if (result.created > 0) {
         toast({
           title: "Upload completed",
-          description: `Successfully uploaded ${result.success} students`,
+          description: `Successfully uploaded ${result.created} students`,
         });
       }
 
@@ -188,21 +147,53 @@ export default function CSVUpload() {
           variant: "destructive",
         });
       }
+    } else if (latest.status === "dead") {
+      toast({
+        title: "Error",
+        description: latest.error || "Failed to upload students",
+        variant: "destructive",
+      });
+    }
+  });
 
+  const uploadStudents = async () => {
+    if (!selectedSection || csvData.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select a section and upload a CSV file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsStarting(true);
+    setUploadResult(null);
+    try {
+      const { job } = await apiClient.importStudents(
+        selectedSection,
+        csvData.map(student => ({
+          studentNumber: student.student_number,
+          firstName: student.first_name,
+          lastName: student.last_name,
+          middleName: student.middle_name || null,
+          sex: student.sex || null,
+        }))
+      );
+      setJob(job);
     } catch (error) {
       console.error("Error uploading students:", error);
       toast({
         title: "Error",
-        description: "Failed to upload students",
+        description: error instanceof Error ? error.message : "Failed to upload students",
         variant: "destructive",
       });
     } finally {
-      setIsUploading(false);
+      setIsStarting(false);
     }
   };
 
   const downloadTemplate = () => {
-    const template = "student_number,first_name,last_name,middle_name\n2024-001,John,Doe,Michael\n2024-002,Jane,Smith,Sarah\n2024-003,Bob,Johnson,";
+    const template = "student_number,first_name,last_name,middle_name,sex\n2024-001,John,Doe,Michael,M\n2024-002,Jane,Smith,Sarah,F\n2024-003,Bob,Johnson,,M";
     const blob = new Blob([template], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -281,9 +272,10 @@ export default function CSVUpload() {
               <div className="p-4 bg-muted rounded-lg">
                 <h4 className="font-semibold mb-2">CSV Format Requirements:</h4>
                 <ul className="text-sm text-muted-foreground space-y-1">
-                  <li>• First row must contain headers: student_number, first_name, last_name, middle_name</li>
+                  <li>• First row must contain headers: student_number, first_name, last_name, middle_name, sex</li>
                   <li>• student_number, first_name, and last_name are required</li>
                   <li>• middle_name is optional</li>
+                  <li>• sex (M or F) is optional but needed for the SF2 male/female totals</li>
                   <li>• Each student must have a unique student_number</li>
                 </ul>
               </div>
@@ -309,7 +301,7 @@ export default function CSVUpload() {
                     <SelectContent>
                       {sections.map((section) => (
                         <SelectItem key={section.id} value={section.id}>
-                          {section.name} - {section.grade_level} ({section.school_year})
+                          {section.name} - {section.gradeLevel} ({section.schoolYear})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -341,7 +333,7 @@ export default function CSVUpload() {
                 {isUploading ? (
                   <>
                     <Upload className="h-4 w-4 mr-2 animate-pulse" />
-                    Uploading... {uploadProgress.toFixed(0)}%
+                    Uploading... {job?.progress ?? 0}%
                   </>
                 ) : (
                   <>
@@ -353,9 +345,9 @@ export default function CSVUpload() {
 
               {isUploading && (
                 <div className="space-y-2">
-                  <Progress value={uploadProgress} className="w-full" />
+                  <Progress value={job?.progress ?? 0} className="w-full" />
                   <p className="text-sm text-center text-muted-foreground">
-                    Processing students...
+                    {!job ? "Starting..." : job.status === "active" ? job.progressMessage || "Processing students..." : "Waiting for other imports to finish..."}
                   </p>
                 </div>
               )}
@@ -380,6 +372,7 @@ export default function CSVUpload() {
                         <TableHead>First Name</TableHead>
                         <TableHead>Last Name</TableHead>
                         <TableHead>Middle Name</TableHead>
+                        <TableHead>Sex</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -389,6 +382,7 @@ export default function CSVUpload() {
                           <TableCell>{student.first_name}</TableCell>
                           <TableCell>{student.last_name}</TableCell>
                           <TableCell>{student.middle_name || '-'}</TableCell>
+                          <TableCell>{student.sex === 'male' ? 'M' : student.sex === 'female' ? 'F' : '-'}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, QrCode, XCircle } from "lucide-react";
+import { apiClient } from "@/lib/api";
+
+export default function CheckIn() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [studentNumber, setStudentNumber] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [checkedIn, setCheckedIn] = useState<{ name: string; checkedInAt: string } | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+  // Set when the phone is signed in to the student portal
+  const [signedInAs, setSignedInAs] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    apiClient.getStudentPortalProfile()
+      .then(({ student }) => setSignedInAs(`${student.firstName} ${student.lastName}`))
+      .catch(() => setSignedInAs(null));
+  }, [token]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!token || (!signedInAs && !studentNumber.trim())) return;
+
+    setIsSubmitting(true);
+    setErrorMessage("");
+    try {
+      const response = signedInAs
+        ? await apiClient.studentCheckIn(token)
+        : await apiClient.submitCheckIn({ token, studentNumber: studentNumber.trim() });
+      setCheckedIn({
+        name: `${response.student.firstName} ${response.student.lastName}`,
+        checkedInAt: response.checkedInAt,
+      });
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Check-in failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <QrCode className="h-10 w-10 mx-auto text-primary" />
+          <CardTitle>Attendance Check-In</CardTitle>
+          <CardDescription>
+            {signedInAs ? `Signed in as ${signedInAs}` : "Enter your student number to mark yourself present"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-center text-sm text-muted-foreground">
+              Scan the QR code shown in class to check in.
+            </p>
+          ) : checkedIn ? (
+            <div className="text-center space-y-2">
+              <CheckCircle2 className="h-12 w-12 mx-auto text-green-500" />
+              <p className="font-semibold">{checkedIn.name}</p>
+              <p className="text-sm text-muted-foreground">
+                Checked in at {new Date(checkedIn.checkedInAt).toLocaleTimeString()}
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {signedInAs ? (
+                <button
+                  type="button"
+                  className="block mx-auto text-sm text-primary underline"
+                  onClick={() => setSignedInAs(null)}
+                >
+                  Not you? Enter a student number instead
+                </button>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="studentNumber">Student Number</Label>
+                  <Input
+                    id="studentNumber"
+                    value={studentNumber}
+                    onChange={(e) => setStudentNumber(e.target.value)}
+                    autoComplete="off"
+                    autoFocus
+                  />
+                </div>
+              )}
+              {errorMessage && (
+                <p className="flex items-center gap-2 text-sm text-destructive">
+                  <XCircle className="h-4 w-4 shrink-0" />
+                  {errorMessage}
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={isSubmitting || (!signedInAs && !studentNumber.trim())}>
+                {isSubmitting ? "Checking in..." : "Check In"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
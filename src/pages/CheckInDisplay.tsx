@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveRefresh } from "@/hooks/use-realtime-events";
+import { ArrowLeft, Users, XCircle } from "lucide-react";
+import { apiClient, type CheckIn, type CheckInSession } from "@/lib/api";
+
+// Check-ins arrive as live events; polling only covers a dropped event stream
+const CHECK_INS_POLL_MS = 60 * 1000;
+const TOKEN_RETRY_MS = 5 * 1000;
+
+export default function CheckInDisplay() {
+  const navigate = useNavigate();
+  const { sectionId } = useParams<{ sectionId: string }>();
+  const { toast } = useToast();
+  const [session, setSession] = useState<CheckInSession | null>(null);
+  const [qrCode, setQrCode] = useState("");
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [isClosing, setIsClosing] = useState(false);
+
+  useEffect(() => {
+    if (!sectionId) return;
+
+    apiClient.createCheckInSession(sectionId)
+      .then(({ session }) => setSession(session))
+      .catch(error => {
+        console.error("Error opening check-in session:", error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to open check-in",
+          variant: "destructive",
+        });
+      });
+  }, [sectionId, toast]);
+
+  // Fetch a fresh token just as the current one rotates out
+  useEffect(() => {
+    if (!session || session.closedAt) return;
+
+    let timeout: number;
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const { token, expiresAt, refreshInMs } = await apiClient.getCheckInToken(session.id);
+        const url = `${window.location.origin}/check-in?token=${encodeURIComponent(token)}`;
+        const dataUrl = await QRCode.toDataURL(url, { width: 640, margin: 1 });
+        if (cancelled) return;
+        setQrCode(dataUrl);
+        setExpiresAt(new Date(expiresAt));
+        timeout = window.setTimeout(refresh, refreshInMs + 250);
+      } catch (error) {
+        console.error("Error refreshing check-in code:", error);
+        if (!cancelled) timeout = window.setTimeout(refresh, TOKEN_RETRY_MS);
+      }
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [session]);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+    const tick = () => setSecondsLeft(Math.max(Math.ceil((expiresAt.getTime() - Date.now()) / 1000), 0));
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [expiresAt]);
+
+  const loadCheckIns = useCallback(() => {
+    if (!session) return;
+    apiClient.getCheckIns({ sectionId: session.sectionId, date: session.date })
+      .then(({ checkIns }) => setCheckIns(checkIns))
+      .catch(error => console.error("Error fetching check-ins:", error));
+  }, [session]);
+
+  useEffect(() => {
+    loadCheckIns();
+    const interval = window.setInterval(loadCheckIns, CHECK_INS_POLL_MS);
+    return () => window.clearInterval(interval);
+  }, [loadCheckIns]);
+
+  useLiveRefresh(loadCheckIns, event => event.type === "checkin.received" && event.sectionId === session?.sectionId);
+
+  const handleClose = async () => {
+    if (!session) return;
+    setIsClosing(true);
+    try {
+      const { session: closed } = await apiClient.closeCheckInSession(session.id);
+      setSession(closed);
+      setQrCode("");
+      toast({
+        title: "Check-in closed",
+        description: `${checkIns.length} student(s) checked in`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to close check-in",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="container mx-auto px-4 py-4 flex items-center justify-between">
+        <Button variant="ghost" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div className="flex items-center gap-3">
+          <Badge variant="secondary" className="text-base px-3 py-1">
+            <Users className="h-4 w-4 mr-2" />
+            {checkIns.length} checked in
+          </Badge>
+          {session && !session.closedAt && (
+            <Button variant="destructive" onClick={handleClose} disabled={isClosing}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Close Check-In
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-6 px-4 pb-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold gradient-text">{session?.section.name || "Self Check-In"}</h1>
+          <p className="text-muted-foreground">Scan the code with your phone and enter your student number</p>
+        </div>
+
+        {session?.closedAt ? (
+          <p className="text-xl text-muted-foreground">Check-in is closed for today.</p>
+        ) : qrCode ? (
+          <>
+            <img
+              src={qrCode}
+              alt="Check-in QR code"
+              className="w-full max-w-[min(80vh,640px)] aspect-square rounded-lg border bg-white"
+            />
+            <p className="text-sm text-muted-foreground">New code in {secondsLeft}s</p>
+          </>
+        ) : (
+          <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+        )}
+
+        {checkIns.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-2 max-w-4xl">
+            {checkIns.slice(-12).reverse().map(checkIn => (
+              <Badge key={checkIn.id} variant="outline">
+                {checkIn.student.lastName}, {checkIn.student.firstName}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
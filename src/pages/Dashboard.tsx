@@ -5,9 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { AIAssistant } from "@/components/AIAssistant";
+import { LiveAttendanceCard } from "@/components/LiveAttendanceCard";
+import { TelegramLinkCard } from "@/components/TelegramLinkCard";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { AnimatedCard, StaggeredContainer, GlowButton, PulseIcon } from "@/components/AnimatedComponents";
-import { LogOut, Users, CheckSquare, BarChart3, Settings, Upload, FileText, Bot, Sparkles } from "lucide-react";
+import { apiClient } from "@/lib/api";
+import { LogOut, Users, CheckSquare, BarChart3, Settings, Upload, FileText, FileSpreadsheet, Bot, Sparkles, BellRing, MessageSquare, Mail, CalendarClock, Layers, History } from "lucide-react";
 
 export default function Dashboard() {
   const navigate = useNavigate();
@@ -25,6 +28,13 @@ export default function Dashboard() {
         return;
       }
 
+      // Signed in before the API token was issued at sign-in: sign in again
+      if (!apiClient.hasToken()) {
+        await supabase.auth.signOut();
+        navigate("/auth");
+        return;
+      }
+
       // Get user profile
       const { data: profile, error } = await supabase
         .from("profiles")
@@ -60,6 +70,7 @@ export default function Dashboard() {
   }, [navigate, toast]);
 
   const handleSignOut = async () => {
+    await apiClient.logout();
     await supabase.auth.signOut();
     toast({
       title: "Signed out",
@@ -133,6 +144,10 @@ export default function Dashboard() {
             </CardHeader>
           </AnimatedCard>
 
+          {(userRole === "beadle" || userRole === "adviser" || userRole === "coordinator" || userRole === "admin") && (
+            <LiveAttendanceCard />
+          )}
+
           {/* Quick Actions Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             {userRole === "beadle" && (
@@ -213,6 +228,118 @@ export default function Dashboard() {
               </>
             )}
 
+            {(userRole === "coordinator" || userRole === "admin") && (
+              <AnimatedCard
+                delay={0.5}
+                className="cursor-pointer"
+                onClick={() => navigate("/sf4")}
+              >
+                <CardHeader>
+                  <PulseIcon pulseColor="primary">
+                    <FileSpreadsheet className="h-8 w-8 text-primary mb-2" />
+                  </PulseIcon>
+                  <CardTitle className="text-lg">School Form 4</CardTitle>
+                  <CardDescription>Monthly learner movement and attendance</CardDescription>
+                </CardHeader>
+              </AnimatedCard>
+            )}
+
+            {(userRole === "coordinator" || userRole === "admin") && (
+              <AnimatedCard
+                delay={0.5}
+                className="cursor-pointer"
+                onClick={() => navigate("/alert-rules")}
+              >
+                <CardHeader>
+                  <PulseIcon pulseColor="destructive">
+                    <BellRing className="h-8 w-8 text-destructive mb-2" />
+                  </PulseIcon>
+                  <CardTitle className="text-lg">Alert Rules</CardTitle>
+                  <CardDescription>Attendance conditions that raise alerts</CardDescription>
+                </CardHeader>
+              </AnimatedCard>
+            )}
+
+            {(userRole === "coordinator" || userRole === "admin") && (
+              <AnimatedCard
+                delay={0.5}
+                className="cursor-pointer"
+                onClick={() => navigate("/guardian-messages")}
+              >
+                <CardHeader>
+                  <PulseIcon pulseColor="primary">
+                    <MessageSquare className="h-8 w-8 text-primary mb-2" />
+                  </PulseIcon>
+                  <CardTitle className="text-lg">Guardian Messages</CardTitle>
+                  <CardDescription>Absence and late notices sent to parents</CardDescription>
+                </CardHeader>
+              </AnimatedCard>
+            )}
+
+            {userRole === "admin" && (
+              <AnimatedCard
+                delay={0.5}
+                className="cursor-pointer"
+                onClick={() => navigate("/email-outbox")}
+              >
+                <CardHeader>
+                  <PulseIcon pulseColor="primary">
+                    <Mail className="h-8 w-8 text-primary mb-2" />
+                  </PulseIcon>
+                  <CardTitle className="text-lg">Email Outbox</CardTitle>
+                  <CardDescription>Delivery status of every email sent</CardDescription>
+                </CardHeader>
+              </AnimatedCard>
+            )}
+
+            {userRole === "admin" && (
+              <AnimatedCard
+                delay={0.5}
+                className="cursor-pointer"
+                onClick={() => navigate("/scheduled-jobs")}
+              >
+                <CardHeader>
+                  <PulseIcon pulseColor="primary">
+                    <CalendarClock className="h-8 w-8 text-primary mb-2" />
+                  </PulseIcon>
+                  <CardTitle className="text-lg">Scheduled Jobs</CardTitle>
+                  <CardDescription>Automatic summaries, reminders and archiving</CardDescription>
+                </CardHeader>
+              </AnimatedCard>
+            )}
+
+            {userRole === "admin" && (
+              <AnimatedCard
+                delay={0.5}
+                className="cursor-pointer"
+                onClick={() => navigate("/background-jobs")}
+              >
+                <CardHeader>
+                  <PulseIcon pulseColor="primary">
+                    <Layers className="h-8 w-8 text-primary mb-2" />
+                  </PulseIcon>
+                  <CardTitle className="text-lg">Background Jobs</CardTitle>
+                  <CardDescription>Queued work, progress and failed jobs</CardDescription>
+                </CardHeader>
+              </AnimatedCard>
+            )}
+
+            {userRole === "admin" && (
+              <AnimatedCard
+                delay={0.5}
+                className="cursor-pointer"
+                onClick={() => navigate("/audit-log")}
+              >
+                <CardHeader>
+                  <PulseIcon pulseColor="primary">
+                    <History className="h-8 w-8 text-primary mb-2" />
+                  </PulseIcon>
+                  <CardTitle className="text-lg">Audit Log</CardTitle>
+                  <CardDescription>Who changed what, with before and after</CardDescription>
+                </CardHeader>
+              </AnimatedCard>
+            )}
+
             {(userRole === "coordinator" || userRole === "admin") && (
               <AnimatedCard delay={0.5} className="cursor-pointer">
                 <CardHeader>
@@ -226,6 +353,8 @@ export default function Dashboard() {
             )}
           </div>
 
+          {userRole && <TelegramLinkCard />}
+
           {/* AI Assistant Notice */}
           <AnimatedCard delay={0.6} variant="neon">
             <CardHeader>
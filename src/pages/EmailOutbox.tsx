@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Paperclip, RefreshCw, RotateCcw, Send } from "lucide-react";
+import {
+  apiClient,
+  type EmailStatus,
+  type EmailTemplate,
+  type OutboxEmail,
+  type OutboxEmailDetail,
+  type Pagination,
+} from "@/lib/api";
+
+const STATUS_BADGES: Record<EmailStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  queued: { label: "Queued", variant: "secondary" },
+  sending: { label: "Sending", variant: "secondary" },
+  sent: { label: "Sent", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+const TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  absence_alert: "Guardian alert",
+  weekly_summary: "Weekly summary",
+  password_reset: "Password reset",
+  report_delivery: "Report",
+};
+
+const ALL = "all";
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export default function EmailOutbox() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Record<EmailStatus, number> | null>(null);
+  const [smtpConfigured, setSmtpConfigured] = useState(true);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [status, setStatus] = useState<EmailStatus | typeof ALL>(ALL);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<OutboxEmailDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      const response = await apiClient.getEmailOutbox({
+        status: status === ALL ? undefined : status,
+        page,
+      });
+      setEmails(response.emails);
+      setCounts(response.counts);
+      setSmtpConfigured(response.smtpConfigured);
+      setPagination(response.pagination);
+    } catch (error) {
+      showError(error, "Failed to load the outbox");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, page, showError]);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      fetchEmails();
+    };
+
+    checkSession();
+  }, [navigate, fetchEmails]);
+
+  const handleOpen = async (email: OutboxEmail) => {
+    try {
+      const { email: detail } = await apiClient.getOutboxEmail(email.id);
+      setSelected(detail);
+    } catch (error) {
+      showError(error, "Failed to load the email");
+    }
+  };
+
+  const handleRetry = async (email: OutboxEmail) => {
+    setWorkingId(email.id);
+    try {
+      await apiClient.retryOutboxEmail(email.id);
+      toast({ title: "Email queued for another try" });
+      setSelected(null);
+      await fetchEmails();
+    } catch (error) {
+      showError(error, "Failed to retry the email");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleWeeklySummaries = async () => {
+    setWorkingId("weekly");
+    try {
+      const { message, weekStart } = await apiClient.sendWeeklySummaries();
+      toast({ title: message, description: `Week of ${weekStart}` });
+      await fetchEmails();
+    } catch (error) {
+      showError(error, "Failed to send weekly summaries");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold gradient-text">Email Outbox</h1>
+            <p className="text-sm text-muted-foreground">
+              Every email the system has sent or is about to send
+            </p>
+          </div>
+          <Button variant="outline" disabled={workingId !== null} onClick={handleWeeklySummaries}>
+            <Send className="h-4 w-4 mr-2" />
+            Send last week's summaries
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {!smtpConfigured && (
+          <Card className="border-destructive/50">
+            <CardContent className="pt-6 text-sm">
+              SMTP is not configured, so emails stay queued. Set SMTP_HOST on the server to start sending.
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Messages</CardTitle>
+              {counts && (
+                <CardDescription>
+                  {(Object.keys(STATUS_BADGES) as EmailStatus[])
+                    .map(key => `${counts[key]} ${STATUS_BADGES[key].label.toLowerCase()}`)
+                    .join(" · ")}
+                </CardDescription>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={status}
+                onValueChange={(value) => {
+                  setStatus(value as EmailStatus | typeof ALL);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {(Object.keys(STATUS_BADGES) as EmailStatus[]).map(key => (
+                    <SelectItem key={key} value={key}>{STATUS_BADGES[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="icon" variant="outline" title="Refresh" onClick={fetchEmails}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+            ) : emails.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No emails</p>
+            ) : (
+              emails.map(email => (
+                <button
+                  key={email.id}
+                  type="button"
+                  className="w-full text-left flex items-start justify-between gap-4 p-3 rounded-lg border hover:bg-muted/50"
+                  onClick={() => handleOpen(email)}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">{email.subject}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {TEMPLATE_LABELS[email.template]} to {email.to} · {formatTime(email.createdAt)}
+                    </p>
+                    {email.error && (
+                      <p className="text-xs text-destructive truncate">
+                        Attempt {email.attempts}: {email.error}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant={STATUS_BADGES[email.status].variant} className="shrink-0">
+                    {STATUS_BADGES[email.status].label}
+                  </Badge>
+                </button>
+              ))
+            )}
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.pages}
+                </span>
+                <Button size="sm" variant="outline" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.subject}</DialogTitle>
+                <DialogDescription>
+                  {TEMPLATE_LABELS[selected.template]} to {selected.to}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <p><span className="text-muted-foreground">Status:</span> {STATUS_BADGES[selected.status].label}</p>
+                <p><span className="text-muted-foreground">Attempts:</span> {selected.attempts}</p>
+                <p><span className="text-muted-foreground">Queued:</span> {formatTime(selected.createdAt)}</p>
+                <p>
+                  <span className="text-muted-foreground">
+                    {selected.sentAt ? "Sent:" : selected.status === "queued" ? "Next try:" : "Last try:"}
+                  </span>{" "}
+                  {selected.sentAt
+                    ? formatTime(selected.sentAt)
+                    : selected.status === "queued"
+                      ? formatTime(selected.scheduledFor)
+                      : selected.lastAttemptAt ? formatTime(selected.lastAttemptAt) : "-"}
+                </p>
+              </div>
+
+              {selected.error && (
+                <p className="text-sm text-destructive">{selected.error}</p>
+              )}
+
+              {selected.attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {selected.attachments.map(attachment => (
+                    <Badge key={attachment.filename} variant="outline">
+                      <Paperclip className="h-3 w-3 mr-1" />
+                      {attachment.filename} ({formatSize(attachment.size)})
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {/* Rendered with scripts and same-origin access turned off */}
+              <iframe
+                title="Email preview"
+                srcDoc={selected.html}
+                sandbox=""
+                className="w-full h-96 rounded-md border bg-white"
+              />
+
+              {selected.status === "failed" && (
+                <div className="flex justify-end">
+                  <Button disabled={workingId === selected.id} onClick={() => handleRetry(selected)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Retry
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
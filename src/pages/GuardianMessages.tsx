@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, RotateCcw, Save } from "lucide-react";
+import { apiClient, type GuardianChannel, type MessageTemplate, type SmsUsage } from "@/lib/api";
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  guardian_absent: "Student marked absent",
+  guardian_late: "Student arrived late",
+};
+
+const CHANNEL_LABELS: Record<GuardianChannel, string> = {
+  sms: "SMS",
+  email: "Email",
+  telegram: "Telegram",
+};
+
+const templateId = (template: Pick<MessageTemplate, 'key' | 'channel'>) => `${template.key}:${template.channel}`;
+
+export default function GuardianMessages() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  // Unsaved edits by template
+  const [drafts, setDrafts] = useState<Record<string, { subject: string; body: string }>>({});
+  const [smsUsage, setSmsUsage] = useState<SmsUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const { templates } = await apiClient.getMessageTemplates();
+      setTemplates(templates);
+      setDrafts({});
+    } catch (error) {
+      showError(error, "Failed to load message templates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      fetchTemplates();
+      apiClient.getSmsUsage()
+        .then(setSmsUsage)
+        .catch(error => console.error("Error fetching SMS usage:", error));
+    };
+
+    checkSession();
+  }, [navigate, fetchTemplates]);
+
+  const draftFor = (template: MessageTemplate) =>
+    drafts[templateId(template)] || { subject: template.subject || "", body: template.body };
+
+  const setDraft = (template: MessageTemplate, changes: Partial<{ subject: string; body: string }>) =>
+    setDrafts(prev => ({ ...prev, [templateId(template)]: { ...draftFor(template), ...changes } }));
+
+  const handleSave = async (template: MessageTemplate) => {
+    const draft = draftFor(template);
+    setWorkingId(templateId(template));
+    try {
+      await apiClient.updateMessageTemplate(template.key, template.channel, {
+        subject: template.channel === "email" ? draft.subject : null,
+        body: draft.body,
+      });
+      toast({ title: "Template saved" });
+      await fetchTemplates();
+    } catch (error) {
+      showError(error, "Failed to save template");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleReset = async (template: MessageTemplate) => {
+    setWorkingId(templateId(template));
+    try {
+      await apiClient.resetMessageTemplate(template.key, template.channel);
+      toast({ title: "Template reset to default" });
+      await fetchTemplates();
+    } catch (error) {
+      showError(error, "Failed to reset template");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const keys = [...new Set(templates.map(template => template.key))];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold gradient-text">Guardian Messages</h1>
+            <p className="text-sm text-muted-foreground">
+              What parents receive when their child is marked absent or late
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {smsUsage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Text messages this month</CardTitle>
+              <CardDescription>
+                {smsUsage.provider
+                  ? `Sent through the ${smsUsage.provider} SMS provider`
+                  : "No SMS provider is configured, so texts are not sent"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Segments</p>
+                <p className="text-xl font-semibold">
+                  {smsUsage.segments}{smsUsage.quota !== null && ` / ${smsUsage.quota}`}
+                </p>
+                <p className="text-xs text-muted-foreground">{smsUsage.messages} message(s)</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Estimated cost</p>
+                <p className="text-xl font-semibold">
+                  {smsUsage.currency} {smsUsage.estimatedCost.toFixed(2)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {smsUsage.currency} {smsUsage.costPerSegment} per segment
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Delivered</p>
+                <p className="text-xl font-semibold">{smsUsage.delivery.delivered}</p>
+                <p className="text-xs text-muted-foreground">
+                  {smsUsage.delivery.undelivered} not delivered, {smsUsage.delivery.pending} awaiting receipt
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Opted out</p>
+                <p className="text-xl font-semibold">{smsUsage.optedOutGuardians}</p>
+                <p className="text-xs text-muted-foreground">guardian(s) not sent texts</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : (
+          keys.map(key => (
+            <Card key={key}>
+              <CardHeader>
+                <CardTitle>{TEMPLATE_LABELS[key] || key}</CardTitle>
+                <CardDescription>
+                  Placeholders: {templates.find(template => template.key === key)?.variables.map(name => `{{${name}}}`).join(", ")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 lg:grid-cols-3">
+                {templates.filter(template => template.key === key).map(template => {
+                  const id = templateId(template);
+                  const draft = draftFor(template);
+
+                  return (
+                    <div key={id} className="space-y-2 p-3 rounded-lg border">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-semibold">{CHANNEL_LABELS[template.channel]}</p>
+                        <Badge variant={template.isDefault ? "secondary" : "default"}>
+                          {template.isDefault ? "Default" : "Customized"}
+                        </Badge>
+                      </div>
+                      {template.channel === "email" && (
+                        <div className="space-y-1">
+                          <Label htmlFor={`${id}-subject`}>Subject</Label>
+                          <Input
+                            id={`${id}-subject`}
+                            value={draft.subject}
+                            onChange={(e) => setDraft(template, { subject: e.target.value })}
+                          />
+                        </div>
+                      )}
+                      <div className="space-y-1">
+                        <Label htmlFor={`${id}-body`}>Message</Label>
+                        <Textarea
+                          id={`${id}-body`}
+                          rows={template.channel === "email" ? 8 : 5}
+                          value={draft.body}
+                          onChange={(e) => setDraft(template, { body: e.target.value })}
+                        />
+                        {template.channel === "sms" && (
+                          <p className="text-xs text-muted-foreground">
+                            Texts over 160 characters are sent and charged in parts of 153 (70 and 67 with emoji or non-Latin letters)
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        {!template.isDefault && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={workingId === id}
+                            onClick={() => handleReset(template)}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Reset
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          disabled={workingId === id || !drafts[id] || !draft.body.trim()}
+                          onClick={() => handleSave(template)}
+                        >
+                          <Save className="h-4 w-4 mr-1" />
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
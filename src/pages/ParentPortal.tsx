@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { AttendanceMonthCard, AttendanceRemarksCard, ExcuseLetterHistory, TermSummaryCard } from "@/components/AttendanceHistory";
+import { useToast } from "@/hooks/use-toast";
+import { GraduationCap, LogOut } from "lucide-react";
+import {
+  apiClient,
+  type AttendanceStreaks,
+  type AttendanceSummary,
+  type ParentAttendanceDay,
+  type ParentExcuseLetter,
+  type ParentStudent,
+} from "@/lib/api";
+
+// Read-only view for guardians, signed in with the portal account their child's
+// adviser set up
+export default function ParentPortal() {
+  const { toast } = useToast();
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const [students, setStudents] = useState<ParentStudent[]>([]);
+  const [studentId, setStudentId] = useState("");
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [days, setDays] = useState<ParentAttendanceDay[]>([]);
+  const [monthSummary, setMonthSummary] = useState<AttendanceSummary | null>(null);
+  const [term, setTerm] = useState<{ start: string | null; end: string } | null>(null);
+  const [termSummary, setTermSummary] = useState<AttendanceSummary | null>(null);
+  const [streaks, setStreaks] = useState<AttendanceStreaks | null>(null);
+  const [letters, setLetters] = useState<ParentExcuseLetter[]>([]);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadStudents = useCallback(async () => {
+    const { students } = await apiClient.getParentStudents();
+    setStudents(students);
+    setStudentId(current => current || students[0]?.id || "");
+    setIsSignedIn(true);
+  }, []);
+
+  // A saved portal login goes straight in; anything else shows the sign-in form
+  useEffect(() => {
+    loadStudents()
+      .catch(() => setIsSignedIn(false))
+      .finally(() => setIsLoading(false));
+  }, [loadStudents]);
+
+  useEffect(() => {
+    if (!studentId) return;
+
+    Promise.all([apiClient.getParentSummary(studentId), apiClient.getParentExcuseLetters(studentId)])
+      .then(([{ term, summary, streaks }, { letters }]) => {
+        setTerm(term);
+        setTermSummary(summary);
+        setStreaks(streaks);
+        setLetters(letters);
+      })
+      .catch(error => showError(error, "Failed to load attendance"));
+  }, [studentId, showError]);
+
+  useEffect(() => {
+    if (!studentId) return;
+
+    apiClient.getParentAttendance(studentId, month)
+      .then(({ days, summary }) => {
+        setDays(days);
+        setMonthSummary(summary);
+      })
+      .catch(error => showError(error, "Failed to load attendance"));
+  }, [studentId, month, showError]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const { user } = await apiClient.login(email, password);
+      if (user.role !== "parent") {
+        apiClient.clearToken();
+        throw new Error("This sign-in is for parents and guardians. Staff sign in on the main page.");
+      }
+      await loadStudents();
+    } catch (error) {
+      showError(error, "Failed to sign in");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reset links go to the email typed in the sign-in form
+  const handleForgotPassword = async () => {
+    if (!email.trim()) {
+      toast({ title: "Enter your email first", description: "The reset link is sent to that address" });
+      return;
+    }
+    try {
+      const { message } = await apiClient.requestPasswordReset(email.trim());
+      toast({ title: "Check your email", description: message });
+    } catch (error) {
+      showError(error, "Failed to send a reset link");
+    }
+  };
+
+  const handleSignOut = async () => {
+    await apiClient.logout();
+    setIsSignedIn(false);
+    setStudents([]);
+    setStudentId("");
+  };
+
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <GraduationCap className="h-10 w-10 mx-auto text-primary mb-2" />
+            <CardTitle>Parent Portal</CardTitle>
+            <CardDescription>Sign in with the account from your child's adviser</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSignIn} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="parentEmail">Email</Label>
+                <Input id="parentEmail" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="parentPassword">Password</Label>
+                <Input
+                  id="parentPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                Sign in
+              </Button>
+              <button
+                type="button"
+                className="block mx-auto text-sm text-primary underline"
+                onClick={handleForgotPassword}
+              >
+                Forgot password?
+              </button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const student = students.find(s => s.id === studentId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold gradient-text">Parent Portal</h1>
+            <p className="text-sm text-muted-foreground">
+              {student
+                ? `${student.firstName} ${student.lastName} · ${student.section.name}${student.section.adviser ? ` · Adviser: ${student.section.adviser.fullName}` : ""}`
+                : "No students are linked to this account yet"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {students.length > 1 && (
+              <Select value={studentId} onValueChange={setStudentId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {students.map(s => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.firstName} {s.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <ThemeToggle />
+            <Button variant="outline" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {student && (
+        <main className="container mx-auto px-4 py-6 grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            <AttendanceMonthCard month={month} days={days} summary={monthSummary} onMonthChange={setMonth} />
+            <AttendanceRemarksCard month={month} days={days} />
+          </div>
+
+          <div className="space-y-6">
+            <TermSummaryCard term={term} summary={termSummary} streaks={streaks} />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Excuse Letters</CardTitle>
+                <CardDescription>Pending letters and the adviser's decisions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ExcuseLetterHistory letters={letters} />
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      )}
+    </div>
+  );
+}
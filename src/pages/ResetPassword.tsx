@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, KeyRound, XCircle } from "lucide-react";
+import { apiClient } from "@/lib/api";
+
+// Landing page of the emailed reset link; the token comes in the query string
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!token) return;
+
+    if (password !== confirmPassword) {
+      setErrorMessage("The passwords do not match");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage("");
+    try {
+      await apiClient.resetPassword({ token, password });
+      setIsDone(true);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to reset password");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <KeyRound className="h-10 w-10 mx-auto text-primary" />
+          <CardTitle>Reset Password</CardTitle>
+          <CardDescription>Choose a new password for your account</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-center text-sm text-muted-foreground">
+              Open the link from your reset email to choose a new password.
+            </p>
+          ) : isDone ? (
+            <div className="text-center space-y-2">
+              <CheckCircle2 className="h-12 w-12 mx-auto text-green-500" />
+              <p className="font-semibold">Password changed</p>
+              <Link to="/parent" className="text-sm text-primary underline">
+                Go to sign in
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  minLength={6}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  minLength={6}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {errorMessage && (
+                <p className="flex items-center gap-2 text-sm text-destructive">
+                  <XCircle className="h-4 w-4 shrink-0" />
+                  {errorMessage}
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Set password"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,480 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Pause, Pencil, Play, Plus, RefreshCw, Trash2, Zap } from "lucide-react";
+import {
+  apiClient,
+  type JobRun,
+  type JobRunStatus,
+  type JobSchedule,
+  type Pagination,
+  type ScheduledJobType,
+} from "@/lib/api";
+
+const JOB_LABELS: Record<ScheduledJobType, { label: string; description: string; example: string }> = {
+  daily_summary: {
+    label: "Daily summary",
+    description: "Today's attendance so far, to coordinators and admins",
+    example: "0 17 * * 1-5",
+  },
+  weekly_report: {
+    label: "Weekly report",
+    description: "Last week's summary emailed to each section's adviser",
+    example: "0 7 * * 1",
+  },
+  missing_submission_reminder: {
+    label: "Missing submission reminder",
+    description: "A reminder to the beadles and adviser of sections with no attendance yet today",
+    example: "0 10 * * 1-5",
+  },
+  monthly_archival: {
+    label: "Monthly archival",
+    description: "Last month's SF2 for every section and the SF4, saved to file storage",
+    example: "0 2 1 * *",
+  },
+};
+
+const RUN_BADGES: Record<JobRunStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  running: { label: "Running", variant: "secondary" },
+  succeeded: { label: "Succeeded", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+interface ScheduleForm {
+  name: string;
+  description: string;
+  schedule: string;
+  jobType: ScheduledJobType;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  name: "",
+  description: "",
+  schedule: JOB_LABELS.daily_summary.example,
+  jobType: "daily_summary",
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+const formatDuration = (ms: number | null) =>
+  ms === null ? "-" : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+export default function ScheduledJobs() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [schedules, setSchedules] = useState<JobSchedule[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [scheduleFilter, setScheduleFilter] = useState<string | null>(null);
+  const [selectedRun, setSelectedRun] = useState<JobRun | null>(null);
+  const [editing, setEditing] = useState<JobSchedule | "new" | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [scheduleResponse, runResponse] = await Promise.all([
+        apiClient.getSchedules(),
+        apiClient.getJobRuns({ scheduleId: scheduleFilter || undefined, page, limit: 20 }),
+      ]);
+      setSchedules(scheduleResponse.schedules);
+      setRuns(runResponse.runs);
+      setPagination(runResponse.pagination);
+    } catch (error) {
+      showError(error, "Failed to load scheduled jobs");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scheduleFilter, page, showError]);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      fetchAll();
+    };
+
+    checkSession();
+  }, [navigate, fetchAll]);
+
+  const openEditor = (schedule: JobSchedule | "new") => {
+    setEditing(schedule);
+    setForm(schedule === "new"
+      ? EMPTY_FORM
+      : {
+          name: schedule.name,
+          description: schedule.description || "",
+          schedule: schedule.schedule,
+          jobType: schedule.jobType,
+        });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setWorkingId("form");
+    try {
+      if (editing === "new") {
+        await apiClient.createSchedule({ ...form, description: form.description || null });
+        toast({ title: "Schedule created" });
+      } else {
+        await apiClient.updateSchedule(editing.id, {
+          name: form.name,
+          description: form.description || null,
+          schedule: form.schedule,
+        });
+        toast({ title: "Schedule updated" });
+      }
+      setEditing(null);
+      await fetchAll();
+    } catch (error) {
+      showError(error, "Failed to save the schedule");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleToggle = async (schedule: JobSchedule) => {
+    setWorkingId(schedule.id);
+    try {
+      const { message } = schedule.isActive
+        ? await apiClient.pauseSchedule(schedule.id)
+        : await apiClient.resumeSchedule(schedule.id);
+      toast({ title: message });
+      await fetchAll();
+    } catch (error) {
+      showError(error, "Failed to update the schedule");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleRun = async (schedule: JobSchedule) => {
+    setWorkingId(schedule.id);
+    try {
+      await apiClient.runSchedule(schedule.id);
+      toast({ title: "Job started", description: "Refresh to see how it went" });
+      await fetchAll();
+    } catch (error) {
+      showError(error, "Failed to start the job");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: JobSchedule) => {
+    if (!window.confirm(`Delete "${schedule.name}" and its run history?`)) return;
+    setWorkingId(schedule.id);
+    try {
+      await apiClient.deleteSchedule(schedule.id);
+      toast({ title: "Schedule deleted" });
+      if (scheduleFilter === schedule.id) setScheduleFilter(null);
+      await fetchAll();
+    } catch (error) {
+      showError(error, "Failed to delete the schedule");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleOpenRun = async (run: JobRun) => {
+    try {
+      const { run: detail } = await apiClient.getJobRun(run.id);
+      setSelectedRun(detail);
+    } catch (error) {
+      showError(error, "Failed to load the run");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold gradient-text">Scheduled Jobs</h1>
+            <p className="text-sm text-muted-foreground">
+              Summaries, reminders and archiving the server runs on a schedule
+            </p>
+          </div>
+          <Button onClick={() => openEditor("new")}>
+            <Plus className="h-4 w-4 mr-2" />
+            New schedule
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Schedules</CardTitle>
+              <CardDescription>Times are in the school's local time</CardDescription>
+            </div>
+            <Button size="icon" variant="outline" title="Refresh" onClick={fetchAll}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+            ) : schedules.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No schedules yet</p>
+            ) : (
+              schedules.map(schedule => (
+                <div key={schedule.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium">{schedule.name}</p>
+                      {!schedule.isActive && <Badge variant="outline">Paused</Badge>}
+                      {schedule.running && <Badge variant="secondary">Running</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {JOB_LABELS[schedule.jobType].label} · <span className="font-mono">{schedule.schedule}</span>
+                      {schedule.nextRunAt && ` · next ${formatTime(schedule.nextRunAt)}`}
+                    </p>
+                    {schedule.lastRun && (
+                      <button
+                        type="button"
+                        className="text-xs text-left hover:underline"
+                        onClick={() => handleOpenRun(schedule.lastRun!)}
+                      >
+                        Last run {formatTime(schedule.lastRun.startedAt)}:{" "}
+                        <span className={schedule.lastRun.status === "failed" ? "text-destructive" : ""}>
+                          {RUN_BADGES[schedule.lastRun.status].label.toLowerCase()}
+                        </span>
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={workingId === schedule.id || schedule.running}
+                      onClick={() => handleRun(schedule)}
+                    >
+                      <Zap className="h-4 w-4 mr-1" />
+                      Run now
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title={schedule.isActive ? "Pause" : "Resume"}
+                      disabled={workingId === schedule.id}
+                      onClick={() => handleToggle(schedule)}
+                    >
+                      {schedule.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button size="icon" variant="ghost" title="Edit" onClick={() => openEditor(schedule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Delete"
+                      disabled={workingId === schedule.id}
+                      onClick={() => handleDelete(schedule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Runs</CardTitle>
+              <CardDescription>Each run's outcome, duration and errors</CardDescription>
+            </div>
+            <Select
+              value={scheduleFilter || "all"}
+              onValueChange={(value) => {
+                setScheduleFilter(value === "all" ? null : value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All schedules</SelectItem>
+                {schedules.map(schedule => (
+                  <SelectItem key={schedule.id} value={schedule.id}>{schedule.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No runs yet</p>
+            ) : (
+              runs.map(run => (
+                <button
+                  key={run.id}
+                  type="button"
+                  className="w-full text-left flex items-start justify-between gap-4 p-3 rounded-lg border hover:bg-muted/50"
+                  onClick={() => handleOpenRun(run)}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">{run.schedule.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTime(run.startedAt)} · {formatDuration(run.durationMs)} ·{" "}
+                      {run.trigger === "manual" ? `started by ${run.triggerer?.fullName || "an admin"}` : "scheduled"}
+                    </p>
+                    {run.error && <p className="text-xs text-destructive truncate">{run.error}</p>}
+                  </div>
+                  <Badge variant={RUN_BADGES[run.status].variant} className="shrink-0">
+                    {RUN_BADGES[run.status].label}
+                  </Badge>
+                </button>
+              ))
+            )}
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.pages}
+                </span>
+                <Button size="sm" variant="outline" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New schedule" : "Edit schedule"}</DialogTitle>
+            <DialogDescription>
+              Cron fields: minute, hour, day of month, month, day of week (0 or 7 is Sunday)
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduleName">Name</Label>
+              <Input
+                id="scheduleName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Job</Label>
+              <Select
+                value={form.jobType}
+                disabled={editing !== "new"}
+                onValueChange={(value) => {
+                  const jobType = value as ScheduledJobType;
+                  setForm({ ...form, jobType, schedule: JOB_LABELS[jobType].example });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(JOB_LABELS) as ScheduledJobType[]).map(key => (
+                    <SelectItem key={key} value={key}>{JOB_LABELS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{JOB_LABELS[form.jobType].description}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheduleCron">Schedule</Label>
+              <Input
+                id="scheduleCron"
+                className="font-mono"
+                value={form.schedule}
+                onChange={(e) => setForm({ ...form, schedule: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheduleDescription">Description</Label>
+              <Textarea
+                id="scheduleDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button disabled={workingId === "form" || !form.name.trim()} onClick={handleSave}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedRun} onOpenChange={(open) => !open && setSelectedRun(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          {selectedRun && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedRun.schedule.name}</DialogTitle>
+                <DialogDescription>{JOB_LABELS[selectedRun.jobType].label}</DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <p><span className="text-muted-foreground">Status:</span> {RUN_BADGES[selectedRun.status].label}</p>
+                <p><span className="text-muted-foreground">Duration:</span> {formatDuration(selectedRun.durationMs)}</p>
+                <p><span className="text-muted-foreground">Started:</span> {formatTime(selectedRun.startedAt)}</p>
+                <p>
+                  <span className="text-muted-foreground">Finished:</span>{" "}
+                  {selectedRun.finishedAt ? formatTime(selectedRun.finishedAt) : "-"}
+                </p>
+              </div>
+
+              {selectedRun.error && (
+                <p className="text-sm text-destructive">{selectedRun.error}</p>
+              )}
+
+              {selectedRun.result && (
+                <pre className="text-xs rounded-md border bg-muted/50 p-3 overflow-auto max-h-80">
+                  {JSON.stringify(selectedRun.result, null, 2)}
+                </pre>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
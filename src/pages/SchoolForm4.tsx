@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sf2BatchCard } from "@/components/Sf2BatchCard";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Download, Mail, Save } from "lucide-react";
+import { apiClient, type Sf4Figure, type Sf4Report, type Sf4Row } from "@/lib/api";
+import { cn, saveBlob } from "@/lib/utils";
+
+const ALL_GRADES = "all";
+
+function FigureCell({ value, percent }: { value: Sf4Figure; percent?: boolean }) {
+  const suffix = percent ? "%" : "";
+  return (
+    <TableCell className="text-center">
+      <div className="font-medium">{value.total}{suffix}</div>
+      <div className="text-xs text-muted-foreground">
+        M {value.male}{suffix} · F {value.female}{suffix}
+      </div>
+    </TableCell>
+  );
+}
+
+export default function SchoolForm4() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [gradeLevel, setGradeLevel] = useState(ALL_GRADES);
+  const [gradeLevels, setGradeLevels] = useState<string[]>([]);
+  const [report, setReport] = useState<Sf4Report | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const selectedGrade = gradeLevel === ALL_GRADES ? undefined : gradeLevel;
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  useEffect(() => {
+    const fetchGradeLevels = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      const { data } = await supabase.from("sections").select("grade_level");
+      const levels = [...new Set((data || []).map(section => section.grade_level))];
+      setGradeLevels(levels.sort((a, b) => a.localeCompare(b, undefined, { numeric: true })));
+    };
+
+    fetchGradeLevels();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!month) return;
+
+    const fetchReport = async () => {
+      setIsLoading(true);
+      try {
+        const { report } = await apiClient.getSf4(month, selectedGrade);
+        setReport(report);
+      } catch (error) {
+        setReport(null);
+        showError(error, "Failed to load SF4");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [month, selectedGrade, showError]);
+
+  const handleDownload = async (format: 'xlsx' | 'pdf') => {
+    setIsWorking(true);
+    try {
+      const blob = await apiClient.downloadSf4(month, format, selectedGrade);
+      saveBlob(blob, `SF4_${month}.${format}`);
+    } catch (error) {
+      showError(error, "Failed to generate SF4");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsWorking(true);
+    try {
+      const { file } = await apiClient.saveSf4({ month, format: 'xlsx', gradeLevel: selectedGrade });
+      toast({
+        title: "SF4 saved",
+        description: `${file.name} is now in the attendance reports files`,
+      });
+    } catch (error) {
+      showError(error, "Failed to save SF4");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Emailed to the signed-in user's own address
+  const handleEmail = async () => {
+    setIsWorking(true);
+    try {
+      const { message } = await apiClient.emailSf4({ month, format: 'xlsx', gradeLevel: selectedGrade });
+      toast({ title: "SF4 on its way", description: message });
+    } catch (error) {
+      showError(error, "Failed to email SF4");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderRow = (row: Sf4Row, key: string, isTotal = false) => (
+    <TableRow key={key} className={cn(isTotal && "bg-muted/50 font-semibold")}>
+      <TableCell>{row.section ? row.gradeLevel : row.gradeLevel === "All" ? "School total" : `Grade ${row.gradeLevel} total`}</TableCell>
+      <TableCell>
+        {row.section && (
+          <>
+            <div>{row.section.name}</div>
+            <div className="text-xs text-muted-foreground">{row.section.adviser || "No adviser"}</div>
+          </>
+        )}
+      </TableCell>
+      <FigureCell value={row.enrolment} />
+      <FigureCell value={row.averageDailyAttendance} />
+      <FigureCell value={row.percentageOfAttendance} percent />
+      <FigureCell value={row.absentFiveDays} />
+      <FigureCell value={row.droppedOut.month} />
+      <FigureCell value={row.droppedOut.cumulative} />
+      <FigureCell value={row.transferredOut.month} />
+      <FigureCell value={row.transferredOut.cumulative} />
+      <FigureCell value={row.transferredIn.month} />
+      <FigureCell value={row.transferredIn.cumulative} />
+    </TableRow>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold gradient-text">School Form 4</h1>
+              <p className="text-sm text-muted-foreground">
+                Monthly learner's movement and attendance
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="sf4Month">Month</Label>
+              <Input id="sf4Month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="w-[180px]" />
+            </div>
+            <div className="space-y-1">
+              <Label>Grade level</Label>
+              <Select value={gradeLevel} onValueChange={setGradeLevel}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_GRADES}>All grade levels</SelectItem>
+                  {gradeLevels.map(level => (
+                    <SelectItem key={level} value={level}>Grade {level}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button variant="outline" disabled={isWorking || !report} onClick={() => handleDownload('xlsx')}>
+                <Download className="h-4 w-4 mr-2" />
+                Excel
+              </Button>
+              <Button variant="outline" disabled={isWorking || !report} onClick={() => handleDownload('pdf')}>
+                <Download className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+              <Button variant="outline" disabled={isWorking || !report} onClick={handleEmail}>
+                <Mail className="h-4 w-4 mr-2" />
+                Email me
+              </Button>
+              <Button disabled={isWorking || !report} onClick={handleSave}>
+                <Save className="h-4 w-4 mr-2" />
+                Save to files
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Sf2BatchCard month={month} gradeLevel={selectedGrade} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{report ? report.monthLabel : "SF4"}</CardTitle>
+            <CardDescription>
+              Enrolment is as of the end of the month. Absences of five or more school days in a row are flagged.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+            ) : !report || report.grades.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No sections to report</p>
+            ) : (
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Grade</TableHead>
+                      <TableHead>Section</TableHead>
+                      <TableHead className="text-center">Enrolment</TableHead>
+                      <TableHead className="text-center">Avg. daily attendance</TableHead>
+                      <TableHead className="text-center">% attendance</TableHead>
+                      <TableHead className="text-center">Absent 5+ days</TableHead>
+                      <TableHead className="text-center">Dropped out (month)</TableHead>
+                      <TableHead className="text-center">Dropped out (cumulative)</TableHead>
+                      <TableHead className="text-center">Transferred out (month)</TableHead>
+                      <TableHead className="text-center">Transferred out (cumulative)</TableHead>
+                      <TableHead className="text-center">Transferred in (month)</TableHead>
+                      <TableHead className="text-center">Transferred in (cumulative)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.grades.flatMap(grade => [
+                      ...grade.sections.map(row => renderRow(row, row.section!.id)),
+                      renderRow(grade.total, `grade-${grade.gradeLevel}`, true),
+                    ])}
+                    {renderRow(report.total, "school", true)}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { AttendanceMonthCard, AttendanceRemarksCard, ExcuseLetterHistory, TermSummaryCard } from "@/components/AttendanceHistory";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, GraduationCap, LogOut, QrCode, Send } from "lucide-react";
+import {
+  apiClient,
+  type AttendanceStreaks,
+  type AttendanceSummary,
+  type ParentAttendanceDay,
+  type ParentExcuseLetter,
+  type StudentProfile,
+} from "@/lib/api";
+
+const emptyLetter = { startDate: "", endDate: "", reason: "" };
+
+// A student's own attendance, excuse letters and check-in status. Accounts are
+// created by the adviser; the first sign-in sets a password with a setup code.
+export default function StudentPortal() {
+  const { toast } = useToast();
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [studentNumber, setStudentNumber] = useState("");
+  const [password, setPassword] = useState("");
+  const [setupCode, setSetupCode] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const [student, setStudent] = useState<StudentProfile | null>(null);
+  const [checkedInToday, setCheckedInToday] = useState<string | null>(null);
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [days, setDays] = useState<ParentAttendanceDay[]>([]);
+  const [monthSummary, setMonthSummary] = useState<AttendanceSummary | null>(null);
+  const [term, setTerm] = useState<{ start: string | null; end: string } | null>(null);
+  const [termSummary, setTermSummary] = useState<AttendanceSummary | null>(null);
+  const [streaks, setStreaks] = useState<AttendanceStreaks | null>(null);
+  const [letters, setLetters] = useState<ParentExcuseLetter[]>([]);
+  const [letter, setLetter] = useState(emptyLetter);
+  const [letterFile, setLetterFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadProfile = useCallback(async () => {
+    const { student, checkedInToday } = await apiClient.getStudentPortalProfile();
+    setStudent(student);
+    setCheckedInToday(checkedInToday);
+    setIsSignedIn(true);
+  }, []);
+
+  const loadTerm = useCallback(async () => {
+    const [{ term, summary, streaks }, { letters }] = await Promise.all([
+      apiClient.getStudentSummary(),
+      apiClient.getStudentExcuseLetters(),
+    ]);
+    setTerm(term);
+    setTermSummary(summary);
+    setStreaks(streaks);
+    setLetters(letters);
+  }, []);
+
+  // A saved student login goes straight in; anything else shows the sign-in form
+  useEffect(() => {
+    loadProfile()
+      .catch(() => setIsSignedIn(false))
+      .finally(() => setIsLoading(false));
+  }, [loadProfile]);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    loadTerm().catch(error => showError(error, "Failed to load attendance"));
+  }, [isSignedIn, loadTerm, showError]);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    apiClient.getStudentAttendance(month)
+      .then(({ days, summary }) => {
+        setDays(days);
+        setMonthSummary(summary);
+      })
+      .catch(error => showError(error, "Failed to load attendance"));
+  }, [isSignedIn, month, showError]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await apiClient.studentLogin(studentNumber.trim(), password);
+      await loadProfile();
+    } catch (error) {
+      showError(error, "Failed to sign in");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      showError(null, "The passwords don't match");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await apiClient.setupStudentPassword({ studentNumber: studentNumber.trim(), setupCode: setupCode.trim(), password });
+      await loadProfile();
+      toast({ title: "Password set", description: "Sign in with your student number and this password from now on" });
+    } catch (error) {
+      showError(error, "Failed to set password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await apiClient.logout();
+    setIsSignedIn(false);
+    setStudent(null);
+    setPassword("");
+  };
+
+  const handleSubmitLetter = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!letterFile) return;
+
+    const form = e.currentTarget;
+    setIsSubmitting(true);
+    try {
+      await apiClient.submitStudentExcuseLetter(letterFile, letter);
+      toast({ title: "Excuse letter sent", description: "Your adviser will review it" });
+      setLetter(emptyLetter);
+      setLetterFile(null);
+      form.reset();
+      await loadTerm();
+    } catch (error) {
+      showError(error, "Failed to send excuse letter");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <GraduationCap className="h-10 w-10 mx-auto text-primary mb-2" />
+            <CardTitle>Student Portal</CardTitle>
+            <CardDescription>Sign in with your student number</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="signin">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="signin">Sign in</TabsTrigger>
+                <TabsTrigger value="setup">First time</TabsTrigger>
+              </TabsList>
+              <div className="space-y-2 mt-4">
+                <Label htmlFor="studentNumber">Student Number</Label>
+                <Input
+                  id="studentNumber"
+                  value={studentNumber}
+                  onChange={(e) => setStudentNumber(e.target.value)}
+                  autoComplete="username"
+                />
+              </div>
+              <TabsContent value="signin">
+                <form onSubmit={handleSignIn} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="studentPassword">Password</Label>
+                    <Input
+                      id="studentPassword"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading || !studentNumber.trim()}>
+                    Sign in
+                  </Button>
+                </form>
+              </TabsContent>
+              <TabsContent value="setup">
+                <form onSubmit={handleSetup} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="setupCode">Setup Code</Label>
+                    <Input
+                      id="setupCode"
+                      value={setupCode}
+                      onChange={(e) => setSetupCode(e.target.value.toUpperCase())}
+                      placeholder="From your adviser"
+                      autoComplete="off"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="newPassword">New Password</Label>
+                    <Input
+                      id="newPassword"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      minLength={6}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="confirmPassword">Confirm Password</Label>
+                    <Input
+                      id="confirmPassword"
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      minLength={6}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading || !studentNumber.trim()}>
+                    Set password and sign in
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold gradient-text">Student Portal</h1>
+            {student && (
+              <p className="text-sm text-muted-foreground">
+                {student.firstName} {student.lastName} · {student.section.name}
+                {student.section.adviser && ` · Adviser: ${student.section.adviser.fullName}`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <ThemeToggle />
+            <Button variant="outline" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <AttendanceMonthCard month={month} days={days} summary={monthSummary} onMonthChange={setMonth} />
+          <AttendanceRemarksCard month={month} days={days} />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Today</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {checkedInToday ? (
+                <p className="flex items-center gap-2 text-sm">
+                  <CheckCircle2 className="h-5 w-5 text-green-500" />
+                  Checked in at {new Date(checkedInToday).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </p>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <QrCode className="h-5 w-5 shrink-0" />
+                  Scan the QR code shown in class to check in. Signed in here, you won't need your student number.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <TermSummaryCard term={term} summary={termSummary} streaks={streaks} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Excuse Letters</CardTitle>
+              <CardDescription>Send a photo or scan of a signed letter to your adviser</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleSubmitLetter} className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="letterStart">From</Label>
+                    <Input
+                      id="letterStart"
+                      type="date"
+                      value={letter.startDate}
+                      onChange={(e) => setLetter({ ...letter, startDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="letterEnd">To</Label>
+                    <Input
+                      id="letterEnd"
+                      type="date"
+                      value={letter.endDate}
+                      min={letter.startDate}
+                      onChange={(e) => setLetter({ ...letter, endDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="letterReason">Reason</Label>
+                  <Textarea
+                    id="letterReason"
+                    rows={2}
+                    value={letter.reason}
+                    onChange={(e) => setLetter({ ...letter, reason: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="letterFile">Letter</Label>
+                  <Input
+                    id="letterFile"
+                    type="file"
+                    accept="image/jpeg,image/png,application/pdf"
+                    onChange={(e) => setLetterFile(e.target.files?.[0] || null)}
+                    required
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isSubmitting || !letterFile || !letter.startDate || letter.reason.trim().length < 3}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {isSubmitting ? "Sending..." : "Send to adviser"}
+                </Button>
+              </form>
+              <ExcuseLetterHistory letters={letters} />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
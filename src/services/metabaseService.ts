@@ -146,13 +146,14 @@ class MetabaseService {
             SELECT
               s.section,
               COUNT(DISTINCT s.id) as total_students,
-              COUNT(DISTINCT CASE WHEN a.status = 'present' THEN s.id END) as present_count,
-              COUNT(DISTINCT CASE WHEN a.status = 'absent' THEN s.id END) as absent_count
+              COUNT(DISTINCT CASE WHEN a.status IN ('present', 'late') THEN s.id END) as present_count,
+              COUNT(DISTINCT CASE WHEN a.status IN ('absent', 'cutting') THEN s.id END) as absent_count
             FROM
               students s
               LEFT JOIN attendance a ON s.id = a.student_id AND a.date = CURRENT_DATE
             WHERE
               s.active = true
+              AND is_school_day(CURRENT_DATE, s.grade_level)
             GROUP BY
               s.section
           )
@@ -209,13 +210,14 @@ class MetabaseService {
             SELECT
               a.date,
               COUNT(DISTINCT s.id) as total_students,
-              COUNT(DISTINCT CASE WHEN a.status = 'present' THEN s.id END) as present_count
+              COUNT(DISTINCT CASE WHEN a.status IN ('present', 'late') THEN s.id END) as present_count
             FROM
               students s
               LEFT JOIN attendance a ON s.id = a.student_id
             WHERE
               s.active = true
               AND a.date >= CURRENT_DATE - INTERVAL '${days} days'
+              AND is_school_day(a.date, s.grade_level)
             GROUP BY
               a.date
           )
@@ -259,15 +261,16 @@ class MetabaseService {
               s.id,
               s.first_name || ' ' || s.last_name as student_name,
               s.section,
-              COUNT(CASE WHEN a.status = 'absent' THEN 1 END) as absence_count,
+              COUNT(CASE WHEN a.status IN ('absent', 'cutting') THEN 1 END) as absence_count,
               COUNT(a.id) as total_days,
-              ROUND(100.0 * COUNT(CASE WHEN a.status = 'present' THEN 1 END) / COUNT(a.id), 2) as attendance_rate
+              ROUND(100.0 * COUNT(CASE WHEN a.status IN ('present', 'late') THEN 1 END) / COUNT(a.id), 2) as attendance_rate
             FROM
               students s
               LEFT JOIN attendance a ON s.id = a.student_id
             WHERE
               s.active = true
               AND a.date >= CURRENT_DATE - INTERVAL '30 days'
+              AND is_school_day(a.date, s.grade_level)
             GROUP BY
               s.id, s.first_name, s.last_name, s.section
             HAVING
@@ -317,14 +320,15 @@ class MetabaseService {
               s.section,
               s.grade_level,
               COUNT(DISTINCT s.id) as total_students,
-              COUNT(DISTINCT CASE WHEN a.status = 'present' THEN s.id END) as present_count,
-              COUNT(DISTINCT CASE WHEN a.status = 'absent' THEN s.id END) as absent_count
+              COUNT(DISTINCT CASE WHEN a.status IN ('present', 'late') THEN s.id END) as present_count,
+              COUNT(DISTINCT CASE WHEN a.status IN ('absent', 'cutting') THEN s.id END) as absent_count
             FROM
               students s
               LEFT JOIN attendance a ON s.id = a.student_id
             WHERE
               s.active = true
               AND a.date >= CURRENT_DATE - INTERVAL '30 days'
+              AND is_school_day(a.date, s.grade_level)
             GROUP BY
               s.section, s.grade_level
           ),
@@ -338,10 +342,11 @@ class MetabaseService {
             WHERE
               s.active = true
               AND a.date >= CURRENT_DATE - INTERVAL '30 days'
+              AND is_school_day(a.date, s.grade_level)
             GROUP BY
               s.section
             HAVING
-              COUNT(CASE WHEN a.status = 'absent' THEN 1 END) >= 5
+              COUNT(CASE WHEN a.status IN ('absent', 'cutting') THEN 1 END) >= 5
           )
           SELECT
             ss.section,
@@ -369,6 +374,62 @@ class MetabaseService {
     }));
   }
 
+  /**
+   * Get school days in the last N days on which a section submitted no attendance
+   */
+  async getMissingSubmissions(days: number = 30): Promise<Array<{
+    section: string;
+    gradeLevel: string;
+    daysOfSchool: number;
+    missingSubmissions: number;
+  }>> {
+    const query = {
+      database: 1,
+      type: 'native',
+      native: {
+        query: `
+          WITH school_days AS (
+            SELECT
+              sec.id as section_id,
+              sec.name as section,
+              sec.grade_level,
+              d::date as day
+            FROM
+              sections sec
+              CROSS JOIN generate_series(CURRENT_DATE - INTERVAL '${days} days', CURRENT_DATE, INTERVAL '1 day') d
+            WHERE
+              is_school_day(d::date, sec.grade_level)
+          )
+          SELECT
+            sd.section,
+            sd.grade_level,
+            COUNT(*) as days_of_school,
+            COUNT(*) FILTER (
+              WHERE NOT EXISTS (
+                SELECT 1 FROM attendance a
+                WHERE a.section_id = sd.section_id AND a.date = sd.day
+              )
+            ) as missing_submissions
+          FROM
+            school_days sd
+          GROUP BY
+            sd.section, sd.grade_level
+          ORDER BY
+            missing_submissions DESC, sd.section;
+        `
+      }
+    };
+
+    const result = await this.executeQuery(query);
+
+    return result.rows.map((row: any) => ({
+      section: row[0],
+      gradeLevel: row[1],
+      daysOfSchool: row[2],
+      missingSubmissions: row[3]
+    }));
+  }
+
   /**
    * Generate attendance report
    */
@@ -4,6 +4,7 @@ import { ollamaService } from './ollamaService';
 import { minioService } from './minioService';
 import { qdrantService } from './qdrantService';
 import { metabaseService } from './metabaseService';
+import { apiClient } from '../lib/api';
 
 interface SystemHealth {
   database: boolean;
@@ -287,22 +288,18 @@ class PODAIIntegrationService {
   }
 
   /**
-   * Send critical alerts
+   * Send critical alerts: the open high-severity alerts raised by the backend's alert rules
    */
   async sendCriticalAlerts(): Promise<void> {
     try {
-      // Get top absent students
-      const topAbsent = await metabaseService.getTopAbsentStudents(5);
-
-      // Send alerts for students with 5+ absences
-      for (const student of topAbsent) {
-        if (student.absenceCount >= 5) {
-          await telegramService.sendCriticalAbsenceAlert(
-            student.studentName,
-            student.section,
-            student.absenceCount
-          );
-        }
+      const { alerts } = await apiClient.getAlerts({ status: 'open', severity: 'high', limit: 100 });
+
+      for (const alert of alerts) {
+        await telegramService.sendCustomNotification(
+          alert.title,
+          `Section: ${alert.section.name}\n${alert.message}`,
+          'warning'
+        );
       }
     } catch (error) {
       console.error('Failed to send critical alerts:', error);
@@ -0,0 +1,11 @@
+-- Allow late, half-day, excused and cutting marks alongside present/absent
+ALTER TABLE public.attendance DROP CONSTRAINT IF EXISTS attendance_status_check;
+
+ALTER TABLE public.attendance
+  ADD CONSTRAINT attendance_status_check
+  CHECK (status IN ('present', 'late', 'half_day', 'excused', 'absent', 'cutting'));
+
+-- Optional reason code for non-present marks
+ALTER TABLE public.attendance
+  ADD COLUMN reason_code TEXT
+  CHECK (reason_code IN ('sick', 'family_emergency', 'school_activity', 'transportation', 'weather', 'other'));
@@ -0,0 +1,37 @@
+-- Let the submitter of a record correct it later the same day instead of
+-- deleting and re-inserting the whole section's attendance
+CREATE POLICY "Submitters can update their own attendance"
+  ON public.attendance FOR UPDATE
+  USING (auth.uid() = submitted_by)
+  WITH CHECK (auth.uid() = submitted_by);
+
+-- One audit entry per corrected student
+CREATE OR REPLACE FUNCTION public.log_attendance_correction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.reason_code IS DISTINCT FROM OLD.reason_code
+    OR NEW.notes IS DISTINCT FROM OLD.notes THEN
+    INSERT INTO public.audit_logs (user_id, action, table_name, record_id, old_data, new_data)
+    VALUES (
+      COALESCE(auth.uid(), NEW.submitted_by),
+      'UPDATE',
+      'attendance',
+      NEW.id,
+      jsonb_build_object('status', OLD.status, 'reason_code', OLD.reason_code, 'notes', OLD.notes),
+      jsonb_build_object('status', NEW.status, 'reason_code', NEW.reason_code, 'notes', NEW.notes,
+                         'student_id', NEW.student_id, 'date', NEW.date)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attendance_correction_audit
+  AFTER UPDATE ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_attendance_correction();
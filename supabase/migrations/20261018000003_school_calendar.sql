@@ -0,0 +1,92 @@
+-- School calendar: holidays, class suspensions and make-up days.
+-- An empty grade_levels array applies the event to the whole school.
+CREATE TABLE public.calendar_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('holiday', 'suspension', 'non_school_day', 'school_day')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  grade_levels TEXT[] NOT NULL DEFAULT '{}',
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX calendar_events_dates_idx ON public.calendar_events (start_date, end_date);
+
+ALTER TABLE public.calendar_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view calendar events"
+  ON public.calendar_events FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Coordinators and admins can manage calendar events"
+  ON public.calendar_events FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('coordinator', 'admin')
+    )
+  );
+
+CREATE TRIGGER set_updated_at_calendar_events
+  BEFORE UPDATE ON public.calendar_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Recurring weekdays without classes (0 = Sunday)
+CREATE TABLE public.weekend_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  day_of_week INTEGER NOT NULL UNIQUE CHECK (day_of_week BETWEEN 0 AND 6),
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.weekend_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view weekend rules"
+  ON public.weekend_rules FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Coordinators and admins can manage weekend rules"
+  ON public.weekend_rules FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('coordinator', 'admin')
+    )
+  );
+
+INSERT INTO public.weekend_rules (day_of_week, description) VALUES
+  (0, 'Sunday'),
+  (6, 'Saturday');
+
+-- Same precedence as the backend: closures beat make-up days, which beat weekend rules.
+-- A NULL grade level only considers whole-school events.
+CREATE OR REPLACE FUNCTION public.is_school_day(_date DATE, _grade_level TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.calendar_events e
+      WHERE _date BETWEEN e.start_date AND e.end_date
+        AND e.type <> 'school_day'
+        AND (cardinality(e.grade_levels) = 0 OR _grade_level = ANY (e.grade_levels))
+    ) THEN FALSE
+    WHEN EXISTS (
+      SELECT 1 FROM public.calendar_events e
+      WHERE _date BETWEEN e.start_date AND e.end_date
+        AND e.type = 'school_day'
+        AND (cardinality(e.grade_levels) = 0 OR _grade_level = ANY (e.grade_levels))
+    ) THEN TRUE
+    ELSE NOT EXISTS (
+      SELECT 1 FROM public.weekend_rules w
+      WHERE w.day_of_week = EXTRACT(DOW FROM _date)
+    )
+  END;
+$$;
@@ -0,0 +1,174 @@
+-- Daily attendance cutoff. After cutoff_time (school local time) a section's
+-- attendance for that day is final; advisers can also finalize earlier.
+CREATE TABLE public.attendance_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  cutoff_time TIME NOT NULL DEFAULT '17:00',
+  timezone TEXT NOT NULL DEFAULT 'Asia/Manila',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.attendance_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view attendance settings"
+  ON public.attendance_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage attendance settings"
+  ON public.attendance_settings FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE TRIGGER set_updated_at_attendance_settings
+  BEFORE UPDATE ON public.attendance_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO public.attendance_settings DEFAULT VALUES;
+
+CREATE TABLE public.attendance_finalizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id UUID NOT NULL REFERENCES public.sections(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  finalized_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  finalized_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (section_id, date)
+);
+
+ALTER TABLE public.attendance_finalizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view attendance finalizations"
+  ON public.attendance_finalizations FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Advisers can finalize their sections"
+  ON public.attendance_finalizations FOR INSERT
+  WITH CHECK (
+    auth.uid() = finalized_by AND (
+      EXISTS (
+        SELECT 1 FROM public.sections
+        WHERE id = section_id AND adviser_id = auth.uid()
+      ) OR EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role IN ('coordinator', 'admin')
+      )
+    )
+  );
+
+-- Short-lived permission to edit a finalized day, granted with a reason
+CREATE TABLE public.attendance_lock_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id UUID NOT NULL REFERENCES public.sections(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.attendance_lock_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own overrides"
+  ON public.attendance_lock_overrides FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.attendance_cutoff_at(_date DATE)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (_date + s.cutoff_time) AT TIME ZONE s.timezone
+  FROM public.attendance_settings s;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_attendance_finalized(_section_id UUID, _date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NOW() >= public.attendance_cutoff_at(_date)
+    OR EXISTS (
+      SELECT 1 FROM public.attendance_finalizations f
+      WHERE f.section_id = _section_id AND f.date = _date
+    );
+$$;
+
+-- Let the section adviser or a coordinator edit a finalized day for the next
+-- 15 minutes. The reason goes to the audit log.
+CREATE OR REPLACE FUNCTION public.override_attendance_lock(_section_id UUID, _date DATE, _reason TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expires_at TIMESTAMPTZ := NOW() + INTERVAL '15 minutes';
+BEGIN
+  IF COALESCE(length(trim(_reason)), 0) < 3 THEN
+    RAISE EXCEPTION 'An override reason is required';
+  END IF;
+
+  IF NOT (
+    EXISTS (SELECT 1 FROM public.sections WHERE id = _section_id AND adviser_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('coordinator', 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'Only the section adviser or a coordinator can change finalized attendance';
+  END IF;
+
+  INSERT INTO public.attendance_lock_overrides (section_id, date, user_id, reason, expires_at)
+  VALUES (_section_id, _date, auth.uid(), _reason, _expires_at);
+
+  INSERT INTO public.audit_logs (user_id, action, table_name, record_id, new_data)
+  VALUES (
+    auth.uid(),
+    'OVERRIDE',
+    'attendance_finalizations',
+    NULL,
+    jsonb_build_object('section_id', _section_id, 'date', _date, 'reason', _reason)
+  );
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Reject writes to a finalized section-day unless the user holds an active override
+CREATE OR REPLACE FUNCTION public.enforce_attendance_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.attendance;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := OLD;
+  ELSE
+    _row := NEW;
+  END IF;
+
+  IF public.is_attendance_finalized(_row.section_id, _row.date)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.attendance_lock_overrides o
+      WHERE o.section_id = _row.section_id
+        AND o.date = _row.date
+        AND o.user_id = auth.uid()
+        AND o.expires_at > NOW()
+    ) THEN
+    RAISE EXCEPTION 'Attendance for % is finalized', _row.date
+      USING HINT = 'Request an override with override_attendance_lock()';
+  END IF;
+
+  RETURN _row;
+END;
+$$;
+
+CREATE TRIGGER attendance_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_attendance_lock();
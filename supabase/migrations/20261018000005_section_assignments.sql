@@ -0,0 +1,108 @@
+-- Explicit beadle-to-section assignments. Beadles used to be linked to a section
+-- only through attendance they had already submitted, so a new beadle could never
+-- see their roster.
+CREATE TABLE public.section_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id UUID NOT NULL REFERENCES public.sections(id) ON DELETE CASCADE,
+  beadle_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  assigned_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX section_assignments_beadle_idx ON public.section_assignments (beadle_id, start_date, end_date);
+CREATE INDEX section_assignments_section_idx ON public.section_assignments (section_id);
+
+ALTER TABLE public.section_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Beadles can view their own assignments"
+  ON public.section_assignments FOR SELECT
+  USING (auth.uid() = beadle_id);
+
+CREATE POLICY "Advisers can manage assignments for their sections"
+  ON public.section_assignments FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sections
+      WHERE id = section_id AND adviser_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.sections
+      WHERE id = section_id AND adviser_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Coordinators and admins can manage assignments"
+  ON public.section_assignments FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('coordinator', 'admin')
+    )
+  );
+
+CREATE TRIGGER set_updated_at_section_assignments
+  BEFORE UPDATE ON public.section_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Whether the current user is a beadle assigned to the section on the date
+CREATE OR REPLACE FUNCTION public.is_assigned_beadle(_section_id UUID, _date DATE DEFAULT CURRENT_DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.section_assignments a
+    INNER JOIN public.profiles p ON p.id = a.beadle_id
+    WHERE a.beadle_id = auth.uid()
+      AND p.role = 'beadle'
+      AND a.section_id = _section_id
+      AND a.start_date <= _date
+      AND (a.end_date IS NULL OR a.end_date >= _date)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Beadles can view students in their assigned sections" ON public.students;
+
+CREATE POLICY "Beadles can view students in their assigned sections"
+  ON public.students FOR SELECT
+  USING (public.is_assigned_beadle(section_id));
+
+-- Beadles only record attendance for sections assigned to them on that date
+DROP POLICY IF EXISTS "Beadles can insert attendance" ON public.attendance;
+
+CREATE POLICY "Beadles can insert attendance"
+  ON public.attendance FOR INSERT
+  WITH CHECK (
+    auth.uid() = submitted_by AND (
+      public.is_assigned_beadle(section_id, date)
+      OR EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role IN ('adviser', 'coordinator', 'admin')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Submitters can update their own attendance" ON public.attendance;
+
+CREATE POLICY "Submitters can update their own attendance"
+  ON public.attendance FOR UPDATE
+  USING (auth.uid() = submitted_by)
+  WITH CHECK (
+    auth.uid() = submitted_by AND (
+      public.is_assigned_beadle(section_id, date)
+      OR EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role IN ('adviser', 'coordinator', 'admin')
+      )
+    )
+  );
@@ -0,0 +1,3 @@
+-- Learner sex, needed for the male/female totals on DepEd School Form 2
+ALTER TABLE public.students
+  ADD COLUMN sex TEXT CHECK (sex IN ('male', 'female'));
@@ -0,0 +1,6 @@
+-- Learner movement for DepEd School Form 4: dropouts, transfers out and transfers in
+ALTER TABLE public.students
+  ADD COLUMN enrollment_status TEXT NOT NULL DEFAULT 'enrolled'
+    CHECK (enrollment_status IN ('enrolled', 'dropped_out', 'transferred_out')),
+  ADD COLUMN left_on DATE,
+  ADD COLUMN transferred_in_on DATE;